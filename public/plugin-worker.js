@@ -0,0 +1,118 @@
+// Plugin worker for Artful Agenda
+// Bootstrap for PluginSandbox: loads one plugin module and relays its API calls
+// to the host as messages. It is started from a sandboxed frame with an opaque
+// origin, so it is shipped as plain JavaScript rather than through the bundler.
+// Message shapes are HostMessage and WorkerMessage in src/services/pluginSandbox.ts.
+
+const commands = new Map();
+const views = new Map();
+const hooks = new Map();
+const calls = new Map();
+let plugin = {};
+let nextCallId = 1;
+
+const call = (method, ...args) => new Promise((resolve, reject) => {
+  const id = nextCallId++;
+  calls.set(id, { resolve, reject });
+  self.postMessage({ type: 'call', id, method, args });
+});
+
+const contribute = (kind, contribution) => {
+  self.postMessage({ type: 'contribute', kind, contribution });
+};
+
+// The object a plugin's activate() receives. Data calls are answered by the
+// host, which checks them against the manifest's permissions.
+const createApi = (manifest) => ({
+  manifest,
+  events: {
+    list: (range) => call('events.list', range),
+    create: (event) => call('events.create', event),
+    update: (id, updates) => call('events.update', id, updates),
+    delete: (id) => call('events.delete', id)
+  },
+  tasks: {
+    list: (filter) => call('tasks.list', filter),
+    create: (task) => call('tasks.create', task),
+    update: (id, updates) => call('tasks.update', id, updates),
+    delete: (id) => call('tasks.delete', id)
+  },
+  stickers: {
+    list: () => call('stickers.list'),
+    place: (sticker) => call('stickers.place', sticker),
+    registerPack: (pack) => contribute('stickerPack', pack)
+  },
+  commands: {
+    register: (command, handler) => {
+      commands.set(command.id, handler);
+      contribute('command', command);
+    }
+  },
+  views: {
+    // render returns HTML, shown without scripts in a sandboxed frame
+    register: (view, render) => {
+      views.set(view.id, render);
+      contribute('view', view);
+    }
+  },
+  hooks: {
+    on: (hook, handler) => {
+      const handlers = hooks.get(hook) || [];
+      hooks.set(hook, [...handlers, handler]);
+      return handlers.length === 0 ? call('hooks.subscribe', hook) : Promise.resolve();
+    }
+  },
+  notify: (title, body) => call('notifications.show', title, body)
+});
+
+const run = async (message) => {
+  switch (message.kind) {
+    case 'activate': {
+      const { url, manifest } = message.payload;
+      plugin = await import(url);
+      const activate = plugin.activate || plugin.default;
+      if (typeof activate !== 'function') throw new Error('Plugin module must export an activate function');
+      await activate(createApi(manifest));
+      return undefined;
+    }
+    case 'deactivate':
+      await plugin.deactivate?.();
+      return undefined;
+    case 'command': {
+      const handler = commands.get(message.target || '');
+      if (!handler) throw new Error(`No command "${message.target}"`);
+      await handler(message.payload);
+      return undefined;
+    }
+    case 'view': {
+      const render = views.get(message.target || '');
+      if (!render) throw new Error(`No view "${message.target}"`);
+      return String(await render(message.payload) ?? '');
+    }
+    case 'hook':
+      await Promise.all((hooks.get(message.target || '') || []).map(handler => handler(message.payload)));
+      return undefined;
+  }
+};
+
+self.onmessage = ({ data }) => {
+  if (data.type === 'response') {
+    const pending = calls.get(data.id);
+    if (!pending) return;
+    calls.delete(data.id);
+    if (data.error !== undefined) pending.reject(new Error(data.error));
+    else pending.resolve(data.result);
+    return;
+  }
+
+  run(data).then(
+    (result) => {
+      try {
+        self.postMessage({ type: 'result', id: data.id, result });
+      } catch (error) {
+        self.postMessage({ type: 'result', id: data.id, error: `Result could not be sent: ${error}` });
+      }
+    },
+    (error) => self.postMessage({ type: 'result', id: data.id, error: error instanceof Error ? error.message : String(error) })
+  );
+};
@@ -0,0 +1,40 @@
+// Example plugin. It runs in a sandboxed worker and reaches the planner only
+// through the api object, limited to the permissions in manifest.json.
+
+const SEASONS = [
+  { name: 'Winter', months: [11, 0, 1], stickers: ['❄️', '⛄', '🧣', '☕', '🎿'], task: 'Plan a cozy weekend' },
+  { name: 'Spring', months: [2, 3, 4], stickers: ['🌷', '🌱', '🐣', '🌦️', '🦋'], task: 'Spring clean one room' },
+  { name: 'Summer', months: [5, 6, 7], stickers: ['☀️', '🏖️', '🍉', '🕶️', '🌻'], task: 'Book a day at the beach' },
+  { name: 'Autumn', months: [8, 9, 10], stickers: ['🍂', '🎃', '🍎', '🌰', '🧥'], task: 'Plan an apple-picking trip' }
+];
+
+const seasonOf = (date) => SEASONS.find((season) => season.months.includes(date.getMonth()));
+
+const escape = (text) => String(text).replace(/[&<>"]/g, (c) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' }[c]));
+
+export function activate(api) {
+  const season = seasonOf(new Date());
+
+  api.stickers.registerPack({
+    id: 'seasonal',
+    name: `${season.name} Stickers`,
+    stickers: season.stickers.map((content, index) => ({ id: String(index), content }))
+  });
+
+  api.commands.register(
+    { id: 'seasonal-task', title: 'Add seasonal to-do', description: 'Adds a task for the season to the selected day' },
+    () => api.tasks.create({ content: season.task, tags: ['seasonal'] })
+  );
+
+  api.views.register({ id: 'open-tasks', title: 'Open tasks' }, async ({ selectedDate } = {}) => {
+    const tasks = await api.tasks.list({ completed: false });
+    const day = (selectedDate || new Date().toISOString()).slice(0, 10);
+    const items = tasks.slice(0, 8).map((task) => `<li>${escape(task.content)}${task.date === day ? ' <b>(today)</b>' : ''}</li>`);
+    return `<div style="font: 13px sans-serif">
+      <p>${season.stickers[0]} ${tasks.length} open task${tasks.length === 1 ? '' : 's'}</p>
+      <ul>${items.join('')}</ul>
+    </div>`;
+  });
+
+  api.hooks.on('task:completed', (task) => api.notify('Nice work!', `Finished "${task.content}"`));
+}
@@ -0,0 +1,210 @@
+import { createServer, Server as HttpServer } from 'http';
+import path from 'path';
+import { randomBytes } from 'crypto';
+import { Server, Socket } from 'socket.io';
+import type { SyncOperation } from '../src/types';
+import { apiGateway, LOCAL_API_SERVICE } from '../src/services/apiGateway';
+import { OperationLog } from './operationLog';
+import { signToken, verifyToken } from './jwt';
+import { createRestApi, API_PREFIX } from './restApi';
+import { checkOperation } from './layerSnapshot';
+
+export interface CollaborationServerOptions {
+  port: number;
+  secret: string;
+  dataDir: string;
+  corsOrigin?: string;
+  apiKeys?: Record<string, string>; // REST API keys by client service id
+}
+
+export interface PresenceUser {
+  userId: string;
+  username: string;
+}
+
+interface SocketData {
+  userId: string;
+  username: string;
+  calendarId: string | null;
+}
+
+type OperationsAck = (response: { seq?: number; error?: string }) => void;
+
+const room = (calendarId: string) => `calendar:${calendarId}`;
+
+/**
+ * Collaboration Server
+ * Reference socket.io backend for RealtimeSyncService: authenticates the JWT
+ * handshake, relays operations and cursors within per-calendar rooms, and
+ * replays the persisted operation log to clients that reconnect. The REST
+ * API under /api/v1 shares the log, so its writes reach the same rooms.
+ */
+export const createCollaborationServer = (options: CollaborationServerOptions) => {
+  const log = new OperationLog(options.dataDir);
+  Object.entries(options.apiKeys || {}).forEach(([serviceId, key]) => apiGateway.setApiKey(serviceId, key));
+  
+  // socket.io answers its own path first and hands everything else on
+  const api = createRestApi({
+    log,
+    gateway: apiGateway,
+    baseUrl: `http://localhost:${options.port}`,
+    corsOrigin: options.corsOrigin,
+    publish: (calendarId, operations, seq) => io.to(room(calendarId)).emit('operations', operations, { calendarId, seq })
+  });
+  const httpServer: HttpServer = createServer(async (request, response) => {
+    if (!(await api(request, response))) {
+      response.writeHead(404, { 'Content-Type': 'application/json' }).end(JSON.stringify({ error: 'Not found' }));
+    }
+  });
+  const io = new Server<any, any, any, SocketData>(httpServer, {
+    cors: { origin: options.corsOrigin || '*' }
+  });
+  const presence: Map<string, Map<string, PresenceUser>> = new Map();
+  
+  io.use((socket, next) => {
+    const claims = verifyToken(String(socket.handshake.auth?.token || ''), options.secret);
+    if (!claims) {
+      next(new Error('Unauthorized'));
+      return;
+    }
+    socket.data.userId = claims.sub;
+    socket.data.username = claims.name || claims.sub;
+    socket.data.calendarId = null;
+    next();
+  });
+  
+  const leave = (socket: Socket<any, any, any, SocketData>) => {
+    const { calendarId, userId, username } = socket.data;
+    if (!calendarId) return;
+    
+    socket.leave(room(calendarId));
+    socket.data.calendarId = null;
+    
+    const members = presence.get(calendarId);
+    members?.delete(socket.id);
+    if (members && members.size === 0) presence.delete(calendarId);
+    
+    // Another tab for the same user keeps them present
+    const stillPresent = members && Array.from(members.values()).some((member) => member.userId === userId);
+    if (!stillPresent) {
+      socket.to(room(calendarId)).emit('userLeft', { userId, username });
+    }
+  };
+  
+  io.on('connection', (socket: Socket<any, any, any, SocketData>) => {
+    socket.on('joinCalendar', (data: { calendarId: string; username?: string; lastSeq?: number }) => {
+      if (!data?.calendarId) return;
+      if (socket.data.calendarId) leave(socket);
+      
+      const { calendarId } = data;
+      const user: PresenceUser = { userId: socket.data.userId, username: data.username || socket.data.username };
+      socket.data.calendarId = calendarId;
+      socket.data.username = user.username;
+      socket.join(room(calendarId));
+      
+      const members = presence.get(calendarId) || new Map<string, PresenceUser>();
+      members.set(socket.id, user);
+      presence.set(calendarId, members);
+      
+      socket.to(room(calendarId)).emit('userJoined', user);
+      socket.emit('presence', { calendarId, users: Array.from(members.values()) });
+      
+      // Replay everything the client has not seen; merging makes duplicates harmless
+      const missed = log.since(calendarId, data.lastSeq || 0);
+      socket.emit('operations', missed.map((entry) => entry.operation).filter((operation) => !checkOperation(operation)), {
+        calendarId,
+        seq: log.latestSeq(calendarId)
+      });
+    });
+    
+    socket.on('leaveCalendar', () => leave(socket));
+    
+    socket.on('operations', (operations: SyncOperation[], ack?: OperationsAck) => {
+      const { calendarId, userId } = socket.data;
+      if (!calendarId) {
+        ack?.({ error: 'Join a calendar before sending operations' });
+        return;
+      }
+      if (!Array.isArray(operations) || operations.length === 0) {
+        ack?.({ seq: log.latestSeq(calendarId) });
+        return;
+      }
+      
+      // One bad operation rejects the batch, so the client can resend the rest as they were
+      for (const [index, operation] of operations.entries()) {
+        const problem = checkOperation(operation);
+        if (problem) {
+          ack?.({ error: `Operation ${index}: ${problem}` });
+          return;
+        }
+      }
+      
+      const entries = log.append(calendarId, userId, operations);
+      const seq = entries[entries.length - 1].seq;
+      socket.to(room(calendarId)).emit('operations', operations, { calendarId, seq });
+      ack?.({ seq });
+    });
+    
+    socket.on('cursorUpdate', (data: { x: number; y: number; username?: string }) => {
+      const { calendarId, userId, username } = socket.data;
+      if (!calendarId) return;
+      socket.to(room(calendarId)).emit('cursorUpdate', {
+        userId,
+        username: data.username || username,
+        x: data.x,
+        y: data.y
+      });
+    });
+    
+    socket.on('disconnect', () => leave(socket));
+  });
+  
+  return {
+    io,
+    log,
+    listen: () => new Promise<void>((resolve) => httpServer.listen(options.port, resolve)),
+    close: async () => {
+      io.close();
+      await log.flush();
+    }
+  };
+};
+
+// API_KEYS is a comma-separated list of service:key pairs
+const parseApiKeys = (value: string): Record<string, string> => Object.fromEntries(
+  value.split(',').map((pair) => pair.trim()).filter(Boolean).map((pair) => {
+    const separator = pair.indexOf(':');
+    return separator > 0 ? [pair.slice(0, separator), pair.slice(separator + 1)] : [LOCAL_API_SERVICE, pair];
+  })
+);
+
+if (require.main === module) {
+  const secret = process.env.JWT_SECRET || 'artful-agenda-dev-secret';
+  const port = Number(process.env.PORT) || 3001;
+  const apiKeys = process.env.API_KEYS
+    ? parseApiKeys(process.env.API_KEYS)
+    : { [LOCAL_API_SERVICE]: `aa_${randomBytes(24).toString('hex')}` };
+  const server = createCollaborationServer({
+    port,
+    secret,
+    dataDir: process.env.OPLOG_DIR || path.join(__dirname, '..', '..', 'data'),
+    corsOrigin: process.env.CORS_ORIGIN,
+    apiKeys
+  });
+  
+  server.listen().then(() => {
+    console.log(`Collaboration server listening on port ${port}`);
+    console.log(`REST API at http://localhost:${port}${API_PREFIX}, described by ${API_PREFIX}/openapi.json`);
+    if (!process.env.JWT_SECRET) {
+      console.log('JWT_SECRET not set; using the development secret. Sample token:');
+      console.log(signToken({ sub: 'dev-user', name: 'Developer' }, secret));
+    }
+    if (!process.env.API_KEYS) {
+      console.log(`API_KEYS not set; generated a key for this run: ${apiKeys[LOCAL_API_SERVICE]}`);
+    }
+  });
+  
+  process.on('SIGINT', () => {
+    server.close().then(() => process.exit(0));
+  });
+}
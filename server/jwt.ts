@@ -0,0 +1,44 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export interface TokenPayload {
+  sub: string;
+  name?: string;
+  exp?: number;
+  iat?: number;
+}
+
+const base64url = (input: Buffer | string): string =>
+  Buffer.from(input).toString('base64').replace(/=+$/, '').replace(/\+/g, '-').replace(/\//g, '_');
+
+/**
+ * Verify an HS256 JWT and return its payload, or null if the signature,
+ * algorithm or expiry check fails
+ */
+export const verifyToken = (token: string, secret: string): TokenPayload | null => {
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+  
+  const [header, payload, signature] = parts;
+  try {
+    const { alg } = JSON.parse(Buffer.from(header, 'base64url').toString());
+    if (alg !== 'HS256') return null;
+    
+    const expected = Buffer.from(base64url(createHmac('sha256', secret).update(`${header}.${payload}`).digest()));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+    
+    const claims: TokenPayload = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    if (!claims.sub) return null;
+    if (claims.exp !== undefined && claims.exp * 1000 < Date.now()) return null;
+    return claims;
+  } catch {
+    return null;
+  }
+};
+
+export const signToken = (payload: TokenPayload, secret: string): string => {
+  const header = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  const body = base64url(JSON.stringify({ iat: Math.floor(Date.now() / 1000), ...payload }));
+  const signature = base64url(createHmac('sha256', secret).update(`${header}.${body}`).digest());
+  return `${header}.${body}.${signature}`;
+};
@@ -0,0 +1,189 @@
+import type { Layer } from './layerSnapshot';
+
+export interface FieldRule {
+  type: 'string' | 'number' | 'boolean' | 'date-time' | 'date' | 'array' | 'object';
+  required?: boolean; // Needed to create; never needed to update
+  values?: string[];
+  items?: 'string' | 'number' | 'object';
+  properties?: Record<string, FieldRule>; // Nested fields, all required unless marked optional
+  optional?: boolean;
+  nullable?: boolean; // null clears the field
+  description?: string;
+}
+
+export interface LayerSchema {
+  name: string; // Matching type in src/types
+  idPrefix: string;
+  fields: Record<string, FieldRule>;
+  defaults?: () => Record<string, any>;
+}
+
+const POSITION: FieldRule = {
+  type: 'object',
+  required: true,
+  properties: {
+    dateX: { type: 'string', description: 'ISO date the item is pinned to' },
+    offsetY: { type: 'number' },
+    zIndex: { type: 'number' }
+  }
+};
+
+// Field shapes of the LayerState types. Nested values the app owns (recurrence
+// rules, attendees, curves) are checked for shape only.
+export const LAYER_SCHEMAS: Record<Layer, LayerSchema> = {
+  events: {
+    name: 'CalendarEvent',
+    idPrefix: 'event',
+    fields: {
+      title: { type: 'string', required: true },
+      startTime: { type: 'date-time', required: true },
+      endTime: { type: 'date-time', required: true },
+      timeZone: { type: 'string', description: 'IANA zone the event was scheduled in' },
+      description: { type: 'string' },
+      sourceCalendar: { type: 'string', values: ['google', 'apple', 'outlook', 'native'] },
+      color: { type: 'string' },
+      timestamp: { type: 'number', description: 'Last modified, epoch milliseconds; set by the server' },
+      recurrence: { type: 'object', description: 'RecurrenceRule' },
+      allDay: { type: 'boolean', description: 'When set, endTime is the exclusive midnight after the last day' },
+      location: { type: 'string' },
+      attendees: { type: 'array', items: 'object' },
+      alarms: { type: 'array', items: 'object' },
+      dependencies: { type: 'array', items: 'object' }
+    },
+    defaults: () => ({ sourceCalendar: 'native' })
+  },
+  tasks: {
+    name: 'TaskItem',
+    idPrefix: 'task',
+    fields: {
+      content: { type: 'string', required: true },
+      completed: { type: 'boolean' },
+      date: { type: 'date', required: true, description: 'Day the task is planned for (yyyy-MM-dd)' },
+      priority: { type: 'string', values: ['low', 'medium', 'high'] },
+      dueAt: { type: 'date-time' },
+      estimateMinutes: { type: 'number' },
+      subtasks: { type: 'array', items: 'object' },
+      tags: { type: 'array', items: 'string' },
+      assignee: { type: 'string' },
+      blockedBy: { type: 'array', items: 'string', description: 'Ids of tasks that must be completed first' },
+      recurrence: { type: 'object', nullable: true, description: 'TaskRecurrence; null stops the series' }
+    },
+    defaults: () => ({ completed: false, priority: 'medium' })
+  },
+  decorations: {
+    name: 'DecorativeElement',
+    idPrefix: 'decoration',
+    fields: {
+      type: { type: 'string', required: true, values: ['sticker', 'shape', 'text'] },
+      position: POSITION,
+      svgPath: { type: 'string' },
+      imageUrl: { type: 'string' },
+      content: { type: 'string' },
+      style: {
+        type: 'object',
+        required: true,
+        properties: {
+          width: { type: 'number' },
+          height: { type: 'number' },
+          rotation: { type: 'number' },
+          opacity: { type: 'number' }
+        }
+      }
+    }
+  },
+  handwriting: {
+    name: 'HandwritingStroke',
+    idPrefix: 'stroke',
+    fields: {
+      position: POSITION,
+      bezierCurves: { type: 'array', required: true, items: 'object' },
+      pressure: { type: 'array', required: true, items: 'number' },
+      color: { type: 'string', required: true },
+      width: { type: 'number', required: true }
+    }
+  }
+};
+
+const checkValue = (path: string, value: unknown, rule: FieldRule, errors: string[]): any => {
+  const fail = (expected: string) => {
+    errors.push(`"${path}" must be ${expected}`);
+    return undefined;
+  };
+  
+  if (value === null && rule.nullable) return null;
+  switch (rule.type) {
+    case 'string':
+      if (typeof value !== 'string') return fail('a string');
+      if (rule.values && !rule.values.includes(value)) return fail(`one of ${rule.values.join(', ')}`);
+      return value;
+    case 'number':
+      return typeof value === 'number' && isFinite(value) ? value : fail('a number');
+    case 'boolean':
+      return typeof value === 'boolean' ? value : fail('true or false');
+    case 'date-time': {
+      const date = typeof value === 'string' || typeof value === 'number' ? new Date(value) : null;
+      return date && !isNaN(date.getTime()) ? date.toISOString() : fail('an ISO 8601 date-time');
+    }
+    case 'date':
+      return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : fail('a date (yyyy-MM-dd)');
+    case 'array':
+      if (!Array.isArray(value)) return fail('an array');
+      if (rule.items && value.some(item => rule.items === 'object' ? !item || typeof item !== 'object' : typeof item !== rule.items)) {
+        return fail(`an array of ${rule.items}s`);
+      }
+      return value;
+    case 'object': {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) return fail('an object');
+      if (!rule.properties) return value;
+      
+      const nested: Record<string, any> = {};
+      Object.entries(rule.properties).forEach(([field, fieldRule]) => {
+        const item = (value as Record<string, unknown>)[field];
+        if (item === undefined) {
+          if (!fieldRule.optional) errors.push(`"${path}.${field}" is required`);
+          return;
+        }
+        const checked = checkValue(`${path}.${field}`, item, fieldRule, errors);
+        if (checked !== undefined) nested[field] = checked;
+      });
+      return nested;
+    }
+  }
+};
+
+/**
+ * Check a request body against a layer's fields. Creates must carry every
+ * required field; updates may carry any subset. Dates come back in the
+ * ISO form clients revive into Date objects.
+ */
+export const validateEntity = (
+  layer: Layer,
+  body: unknown,
+  mode: 'create' | 'update'
+): { data: Record<string, any>; errors: string[] } => {
+  const schema = LAYER_SCHEMAS[layer];
+  const errors: string[] = [];
+  const data: Record<string, any> = {};
+  
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { data, errors: ['Body must be a JSON object'] };
+  }
+  
+  Object.entries(body as Record<string, unknown>).forEach(([field, value]) => {
+    if (field === 'id') return;
+    const rule = schema.fields[field];
+    if (!rule) {
+      errors.push(`Unknown field "${field}"`);
+      return;
+    }
+    const checked = checkValue(field, value, rule, errors);
+    if (checked !== undefined) data[field] = checked;
+  });
+  
+  if (mode === 'create') {
+    Object.entries(schema.fields).forEach(([field, rule]) => {
+      if (rule.required && (body as Record<string, unknown>)[field] === undefined) errors.push(`"${field}" is required`);
+    });
+  }
+  return { data, errors };
+};
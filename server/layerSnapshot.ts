@@ -0,0 +1,113 @@
+import type { SyncOperation } from '../src/types';
+import { LayerCRDT, MergeOutcome } from '../src/services/layerCrdt';
+import { OperationLog } from './operationLog';
+
+export type Layer = SyncOperation['layer'];
+
+export const LAYERS: Layer[] = ['events', 'tasks', 'decorations', 'handwriting'];
+
+const OPERATION_TYPES: SyncOperation['type'][] = ['create', 'update', 'delete'];
+
+/**
+ * Why an operation from a client can't be logged, or null when it can. A
+ * logged operation is replayed by every client and by the REST API, so a bad
+ * one would break the calendar for good.
+ */
+export const checkOperation = (value: unknown): string | null => {
+  if (!value || typeof value !== 'object') return 'Operations must be objects';
+  const operation = value as Record<string, any>;
+  if (!OPERATION_TYPES.includes(operation.type)) return '"type" must be create, update or delete';
+  if (!LAYERS.includes(operation.layer)) return `"layer" must be one of ${LAYERS.join(', ')}`;
+  if (typeof operation.entityId !== 'string' || !operation.entityId) return '"entityId" must be a non-empty string';
+  const { data, clock } = operation;
+  if (!(data === null && operation.type === 'delete') && (!data || typeof data !== 'object' || Array.isArray(data))) {
+    return operation.type === 'delete' ? '"data" must be an object or null' : '"data" must be an object';
+  }
+  if (clock !== undefined && (!clock || typeof clock.counter !== 'number' || typeof clock.replicaId !== 'string')) {
+    return '"clock" must have a numeric counter and a replicaId';
+  }
+  return null;
+};
+
+interface CalendarState {
+  crdt: LayerCRDT;
+  seq: number; // Last log entry folded in
+  entities: Record<Layer, Map<string, Record<string, any>>>;
+}
+
+/**
+ * Layer Snapshot
+ * Current calendar layers rebuilt from the operation log with the same CRDT
+ * the clients merge with, so the REST API reads what a synced client shows
+ * and its own writes are stamped to win over everything already logged
+ */
+export class LayerSnapshot {
+  private log: OperationLog;
+  private replicaId: string;
+  private calendars: Map<string, CalendarState> = new Map();
+  
+  constructor(log: OperationLog, replicaId: string = 'api') {
+    this.log = log;
+    this.replicaId = replicaId;
+  }
+  
+  list(calendarId: string, layer: Layer): Record<string, any>[] {
+    return Array.from(this.catchUp(calendarId).entities[layer].values());
+  }
+  
+  get(calendarId: string, layer: Layer, id: string): Record<string, any> | undefined {
+    return this.catchUp(calendarId).entities[layer].get(id);
+  }
+  
+  latestSeq(calendarId: string): number {
+    return this.catchUp(calendarId).seq;
+  }
+  
+  /**
+   * Stamp an operation with this replica's next clock and apply it. The
+   * caller appends the result to the log and broadcasts it.
+   */
+  stamp(calendarId: string, operation: SyncOperation): SyncOperation {
+    const state = this.catchUp(calendarId);
+    const stamped = state.crdt.recordLocal(operation);
+    this.fold(state, state.crdt.applyRemote(stamped));
+    return stamped;
+  }
+  
+  /**
+   * Mark operations the caller has just logged as seen
+   */
+  advance(calendarId: string, seq: number): void {
+    const state = this.catchUp(calendarId);
+    state.seq = Math.max(state.seq, seq);
+  }
+  
+  // Fold in whatever reached the log since the last read
+  private catchUp(calendarId: string): CalendarState {
+    let state = this.calendars.get(calendarId);
+    if (!state) {
+      state = {
+        crdt: new LayerCRDT(this.replicaId),
+        seq: 0,
+        entities: { events: new Map(), tasks: new Map(), decorations: new Map(), handwriting: new Map() }
+      };
+      this.calendars.set(calendarId, state);
+    }
+    
+    for (const entry of this.log.since(calendarId, state.seq)) {
+      // Entries logged before operations were checked are skipped, not fatal
+      const problem = checkOperation(entry.operation);
+      if (problem) console.warn(`Skipped log entry ${entry.seq} of ${calendarId}: ${problem}`);
+      else this.fold(state, state.crdt.applyRemote(entry.operation));
+      state.seq = entry.seq;
+    }
+    return state;
+  }
+  
+  private fold(state: CalendarState, outcome: MergeOutcome): void {
+    const { layer, entityId, exists, entity } = outcome;
+    const { recurrenceOverrides: _overrides, ...fields } = entity;
+    if (exists) state.entities[layer].set(entityId, { ...fields, id: entityId });
+    else state.entities[layer].delete(entityId);
+  }
+}
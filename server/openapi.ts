@@ -0,0 +1,161 @@
+import { LAYER_SCHEMAS, FieldRule } from './layerSchemas';
+import { LAYERS } from './layerSnapshot';
+
+const toSchema = (rule: FieldRule): Record<string, any> => {
+  const schema: Record<string, any> = {};
+  switch (rule.type) {
+    case 'date-time':
+      Object.assign(schema, { type: 'string', format: 'date-time' });
+      break;
+    case 'date':
+      Object.assign(schema, { type: 'string', format: 'date' });
+      break;
+    case 'array':
+      Object.assign(schema, { type: 'array', items: rule.items ? { type: rule.items } : {} });
+      break;
+    case 'object':
+      schema.type = 'object';
+      if (rule.properties) {
+        schema.properties = Object.fromEntries(Object.entries(rule.properties).map(([field, nested]) => [field, toSchema(nested)]));
+        schema.required = Object.entries(rule.properties).filter(([, nested]) => !nested.optional).map(([field]) => field);
+      }
+      break;
+    default:
+      schema.type = rule.type;
+  }
+  if (rule.values) schema.enum = rule.values;
+  if (rule.nullable) schema.nullable = true;
+  if (rule.description) schema.description = rule.description;
+  return schema;
+};
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+const json = (schema: Record<string, any>, description: string) => ({
+  description,
+  content: { 'application/json': { schema } }
+});
+
+const ERRORS = {
+  401: json(ref('Error'), 'Missing or unknown API key'),
+  404: json(ref('Error'), 'No such calendar item')
+};
+
+/**
+ * OpenAPI 3 description of the REST API, generated from the same field
+ * rules the server validates with
+ */
+export const buildOpenApiDocument = (serverUrl: string) => {
+  const schemas: Record<string, any> = {
+    Error: {
+      type: 'object',
+      required: ['error'],
+      properties: {
+        error: { type: 'string' },
+        details: { type: 'array', items: { type: 'string' } }
+      }
+    }
+  };
+  const paths: Record<string, any> = {};
+  
+  const calendarId = { name: 'calendarId', in: 'path', required: true, schema: { type: 'string' } };
+  const id = { name: 'id', in: 'path', required: true, schema: { type: 'string' } };
+  
+  LAYERS.forEach(layer => {
+    const { name, fields } = LAYER_SCHEMAS[layer];
+    const properties = Object.fromEntries(Object.entries(fields).map(([field, rule]) => [field, toSchema(rule)]));
+    const required = Object.entries(fields).filter(([, rule]) => rule.required).map(([field]) => field);
+    
+    schemas[name] = { type: 'object', required: ['id', ...required], properties: { id: { type: 'string' }, ...properties } };
+    schemas[`${name}Create`] = {
+      type: 'object',
+      required,
+      additionalProperties: false,
+      properties: { id: { type: 'string', description: 'Optional; generated when left out' }, ...properties }
+    };
+    schemas[`${name}Update`] = { type: 'object', additionalProperties: false, properties };
+    
+    const filters = layer === 'events'
+      ? [
+        { name: 'from', in: 'query', schema: { type: 'string', format: 'date-time' }, description: 'Only events ending after this time' },
+        { name: 'to', in: 'query', schema: { type: 'string', format: 'date-time' }, description: 'Only events starting before this time' }
+      ]
+      : layer === 'tasks'
+        ? [
+          { name: 'date', in: 'query', schema: { type: 'string', format: 'date' } },
+          { name: 'completed', in: 'query', schema: { type: 'boolean' } }
+        ]
+        : [];
+        
+    paths[`/calendars/{calendarId}/${layer}`] = {
+      parameters: [calendarId],
+      get: {
+        operationId: `list_${layer}`,
+        tags: [layer],
+        parameters: filters,
+        responses: {
+          200: json({
+            type: 'object',
+            properties: { data: { type: 'array', items: ref(name) }, seq: { type: 'integer' } }
+          }, `All ${layer} in the calendar`),
+          401: ERRORS[401]
+        }
+      },
+      post: {
+        operationId: `create_${layer}`,
+        tags: [layer],
+        requestBody: { required: true, content: { 'application/json': { schema: ref(`${name}Create`) } } },
+        responses: {
+          201: json(ref(name), 'Created; connected clients receive it as a create operation'),
+          400: json(ref('Error'), 'Invalid body'),
+          401: ERRORS[401],
+          409: json(ref('Error'), 'An item with this id already exists')
+        }
+      }
+    };
+    
+    paths[`/calendars/{calendarId}/${layer}/{id}`] = {
+      parameters: [calendarId, id],
+      get: {
+        operationId: `get_${layer}`,
+        tags: [layer],
+        responses: { 200: json(ref(name), 'The item'), 401: ERRORS[401], 404: ERRORS[404] }
+      },
+      patch: {
+        operationId: `update_${layer}`,
+        tags: [layer],
+        requestBody: { required: true, content: { 'application/json': { schema: ref(`${name}Update`) } } },
+        responses: {
+          200: json(ref(name), 'Updated; connected clients receive the changed fields'),
+          400: json(ref('Error'), 'Invalid body'),
+          401: ERRORS[401],
+          404: ERRORS[404]
+        }
+      },
+      delete: {
+        operationId: `delete_${layer}`,
+        tags: [layer],
+        responses: { 204: { description: 'Deleted' }, 401: ERRORS[401], 404: ERRORS[404] }
+      }
+    };
+  });
+  
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'Artful Agenda API',
+      version: '1.0.0',
+      description: 'Read and write planner layers. Every write is logged as a sync operation and pushed to clients connected to the calendar.'
+    },
+    servers: [{ url: serverUrl }],
+    security: [{ bearerAuth: [] }, { apiKeyHeader: [] }],
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', description: 'API key as a bearer token' },
+        apiKeyHeader: { type: 'apiKey', in: 'header', name: 'X-API-Key' }
+      },
+      schemas
+    },
+    paths
+  };
+};
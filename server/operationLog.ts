@@ -0,0 +1,78 @@
+import fs from 'fs';
+import path from 'path';
+import type { SyncOperation } from '../src/types';
+
+export interface LoggedOperation {
+  seq: number;
+  userId: string;
+  operation: SyncOperation;
+}
+
+/**
+ * Operation Log
+ * Append-only, per-calendar log of sync operations persisted as JSON lines
+ */
+export class OperationLog {
+  private directory: string;
+  private logs: Map<string, LoggedOperation[]> = new Map();
+  private writes: Map<string, Promise<void>> = new Map();
+  
+  constructor(directory: string) {
+    this.directory = directory;
+    fs.mkdirSync(directory, { recursive: true });
+  }
+  
+  append(calendarId: string, userId: string, operations: SyncOperation[]): LoggedOperation[] {
+    const log = this.load(calendarId);
+    const first = this.latestSeq(calendarId) + 1;
+    const entries = operations.map((operation, index) => ({ seq: first + index, userId, operation }));
+    log.push(...entries);
+    
+    // Chain writes so lines land on disk in sequence order
+    const lines = entries.map((entry) => JSON.stringify(entry)).join('\n') + '\n';
+    const previous = this.writes.get(calendarId) || Promise.resolve();
+    this.writes.set(calendarId, previous
+      .then(() => fs.promises.appendFile(this.filePath(calendarId), lines))
+      .catch((error) => console.error(`Failed to persist operations for ${calendarId}:`, error)));
+      
+    return entries;
+  }
+  
+  since(calendarId: string, seq: number): LoggedOperation[] {
+    return this.load(calendarId).filter((entry) => entry.seq > seq);
+  }
+  
+  latestSeq(calendarId: string): number {
+    const log = this.load(calendarId);
+    return log.length > 0 ? log[log.length - 1].seq : 0;
+  }
+  
+  async flush(): Promise<void> {
+    await Promise.all(this.writes.values());
+  }
+  
+  private load(calendarId: string): LoggedOperation[] {
+    let log = this.logs.get(calendarId);
+    if (log) return log;
+    
+    log = [];
+    const file = this.filePath(calendarId);
+    if (fs.existsSync(file)) {
+      fs.readFileSync(file, 'utf8').split('\n').forEach((line, index) => {
+        if (!line.trim()) return;
+        try {
+          log!.push(JSON.parse(line));
+        } catch {
+          // A torn final line from a crash mid-write; later entries are still usable
+          console.warn(`Skipping unreadable line ${index + 1} in ${file}`);
+        }
+      });
+    }
+    this.logs.set(calendarId, log);
+    return log;
+  }
+  
+  private filePath(calendarId: string): string {
+    return path.join(this.directory, `${encodeURIComponent(calendarId)}.jsonl`);
+  }
+}
@@ -0,0 +1,211 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import type { SyncOperation } from '../src/types';
+import type { APIGateway } from '../src/services/apiGateway';
+import { OperationLog } from './operationLog';
+import { LayerSnapshot, Layer, LAYERS } from './layerSnapshot';
+import { LAYER_SCHEMAS, validateEntity } from './layerSchemas';
+import { buildOpenApiDocument } from './openapi';
+
+export interface RestApiOptions {
+  log: OperationLog;
+  gateway: APIGateway; // Holds the accepted keys, one per client service
+  publish: (calendarId: string, operations: SyncOperation[], seq: number) => void;
+  baseUrl: string;
+  corsOrigin?: string;
+}
+
+export const API_PREFIX = '/api/v1';
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+class HttpError extends Error {
+  constructor(public status: number, message: string, public details?: string[]) {
+    super(message);
+  }
+}
+
+const send = (response: ServerResponse, status: number, body?: unknown) => {
+  if (body === undefined) {
+    response.writeHead(status).end();
+    return;
+  }
+  response.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+};
+
+const readJson = (request: IncomingMessage): Promise<unknown> => new Promise((resolve, reject) => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  request.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(new HttpError(413, 'Body too large'));
+      request.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  request.on('end', () => {
+    try {
+      resolve(JSON.parse(Buffer.concat(chunks).toString() || 'null'));
+    } catch {
+      reject(new HttpError(400, 'Body is not valid JSON'));
+    }
+  });
+  request.on('error', reject);
+});
+
+// Events overlapping [from, to); tasks on a day or by completion
+const matchesQuery = (layer: Layer, item: Record<string, any>, query: URLSearchParams): boolean => {
+  if (layer === 'events') {
+    const from = query.get('from');
+    const to = query.get('to');
+    if (from && new Date(item.endTime) <= new Date(from)) return false;
+    if (to && new Date(item.startTime) >= new Date(to)) return false;
+  }
+  if (layer === 'tasks') {
+    const date = query.get('date');
+    const completed = query.get('completed');
+    if (date && item.date !== date) return false;
+    if (completed !== null && String(!!item.completed) !== completed) return false;
+  }
+  return true;
+};
+
+/**
+ * REST API
+ * CRUD over the calendar layers for scripts and automations. Reads come from
+ * the operation log; writes are logged as sync operations and published to
+ * connected clients, so the planner updates live.
+ */
+export const createRestApi = (options: RestApiOptions) => {
+  const snapshot = new LayerSnapshot(options.log);
+  const openApi = buildOpenApiDocument(`${options.baseUrl}${API_PREFIX}`);
+  
+  // Log an operation under the key's service and push it to the calendar's room
+  const write = (calendarId: string, serviceId: string, operation: SyncOperation) => {
+    const stamped = snapshot.stamp(calendarId, operation);
+    const [entry] = options.log.append(calendarId, `api:${serviceId}`, [stamped]);
+    snapshot.advance(calendarId, entry.seq);
+    options.publish(calendarId, [stamped], entry.seq);
+    return entry.seq;
+  };
+  
+  const authenticate = (request: IncomingMessage): string => {
+    const header = String(request.headers.authorization || '');
+    const key = header.startsWith('Bearer ') ? header.slice(7).trim() : String(request.headers['x-api-key'] || '');
+    const serviceId = key ? options.gateway.getServiceForApiKey(key) : undefined;
+    if (!serviceId) throw new HttpError(401, 'Missing or unknown API key');
+    return serviceId;
+  };
+  
+  const route = async (request: IncomingMessage, response: ServerResponse, url: URL) => {
+    const path = url.pathname.slice(API_PREFIX.length).split('/').filter(Boolean).map(decodeURIComponent);
+    const method = request.method || 'GET';
+    
+    if (path.length === 1 && path[0] === 'openapi.json' && method === 'GET') {
+      send(response, 200, openApi);
+      return;
+    }
+    
+    const [calendars, calendarId, layerName, id, ...rest] = path;
+    const layer = layerName as Layer;
+    if (calendars !== 'calendars' || !calendarId || !LAYERS.includes(layer) || rest.length > 0) {
+      throw new HttpError(404, 'Not found');
+    }
+    
+    const serviceId = authenticate(request);
+    const schema = LAYER_SCHEMAS[layer];
+    
+    if (!id) {
+      if (method === 'GET') {
+        const data = snapshot.list(calendarId, layer).filter(item => matchesQuery(layer, item, url.searchParams));
+        send(response, 200, { data, seq: snapshot.latestSeq(calendarId) });
+        return;
+      }
+      if (method === 'POST') {
+        const body = await readJson(request);
+        const { data, errors } = validateEntity(layer, body, 'create');
+        if (errors.length) throw new HttpError(400, 'Invalid body', errors);
+        
+        const requestedId = (body as Record<string, unknown>).id;
+        if (requestedId !== undefined && (typeof requestedId !== 'string' || !requestedId)) {
+          throw new HttpError(400, 'Invalid body', ['"id" must be a non-empty string']);
+        }
+        const entityId = (requestedId as string) || `${schema.idPrefix}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+        if (snapshot.get(calendarId, layer, entityId)) throw new HttpError(409, `${schema.name} ${entityId} already exists`);
+        
+        const entity: Record<string, any> = { ...schema.defaults?.(), ...data, id: entityId, ...(layer === 'events' && { timestamp: Date.now() }) };
+        if (layer === 'events' && entity.endTime < entity.startTime) {
+          throw new HttpError(400, 'Invalid body', ['"endTime" must not be before "startTime"']);
+        }
+        const seq = write(calendarId, serviceId, { type: 'create', layer, entityId, data: entity, timestamp: Date.now() });
+        response.setHeader('Location', `${API_PREFIX}/calendars/${encodeURIComponent(calendarId)}/${layer}/${encodeURIComponent(entityId)}`);
+        response.setHeader('X-Sync-Seq', String(seq));
+        send(response, 201, snapshot.get(calendarId, layer, entityId));
+        return;
+      }
+      throw new HttpError(405, `${method} is not allowed here`);
+    }
+    
+    const current = snapshot.get(calendarId, layer, id);
+    if (!current) throw new HttpError(404, `${schema.name} ${id} not found`);
+    
+    switch (method) {
+      case 'GET':
+        send(response, 200, current);
+        return;
+      case 'PATCH': {
+        const { data, errors } = validateEntity(layer, await readJson(request), 'update');
+        if (errors.length) throw new HttpError(400, 'Invalid body', errors);
+        
+        const updates = { ...data, ...(layer === 'events' && { timestamp: Date.now() }) };
+        const merged: Record<string, any> = { ...current, ...updates };
+        if (layer === 'events' && merged.endTime < merged.startTime) {
+          throw new HttpError(400, 'Invalid body', ['"endTime" must not be before "startTime"']);
+        }
+        const seq = write(calendarId, serviceId, { type: 'update', layer, entityId: id, data: updates, timestamp: Date.now() });
+        response.setHeader('X-Sync-Seq', String(seq));
+        send(response, 200, snapshot.get(calendarId, layer, id));
+        return;
+      }
+      case 'DELETE': {
+        const seq = write(calendarId, serviceId, { type: 'delete', layer, entityId: id, data: null, timestamp: Date.now() });
+        response.setHeader('X-Sync-Seq', String(seq));
+        send(response, 204);
+        return;
+      }
+      default:
+        throw new HttpError(405, `${method} is not allowed here`);
+    }
+  };
+  
+  /**
+   * Handle a request under API_PREFIX. Returns false for other paths.
+   */
+  return async (request: IncomingMessage, response: ServerResponse): Promise<boolean> => {
+    const url = new URL(request.url || '/', 'http://localhost');
+    if (url.pathname !== API_PREFIX && !url.pathname.startsWith(`${API_PREFIX}/`)) return false;
+    
+    response.setHeader('Access-Control-Allow-Origin', options.corsOrigin || '*');
+    response.setHeader('Access-Control-Allow-Methods', 'GET, POST, PATCH, DELETE, OPTIONS');
+    response.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type, X-API-Key');
+    response.setHeader('Access-Control-Expose-Headers', 'Location, X-Sync-Seq');
+    if (request.method === 'OPTIONS') {
+      send(response, 204);
+      return true;
+    }
+    
+    try {
+      await route(request, response, url);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        if (error.status === 401) response.setHeader('WWW-Authenticate', 'Bearer');
+        send(response, error.status, { error: error.message, ...(error.details && { details: error.details }) });
+      } else {
+        console.error('REST API request failed:', error);
+        send(response, 500, { error: 'Internal server error' });
+      }
+    }
+    return true;
+  };
+};
@@ -0,0 +1,149 @@
+import { createServer, IncomingMessage, ServerResponse, Server as HttpServer } from 'http';
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export interface WebhookReceiverOptions {
+  port: number;
+  secret?: string; // When set, signatures are checked against it
+  corsOrigin?: string;
+}
+
+export interface ReceivedWebhook {
+  receivedAt: string;
+  path: string;
+  headers: Record<string, string>;
+  body: string;
+  verified: boolean | null; // Null when the receiver has no secret to check with
+}
+
+const MAX_RECEIVED = 200;
+const MAX_DELAY_MS = 60 * 1000;
+const SIGNATURE_TOLERANCE_S = 5 * 60; // How old a signed timestamp may be before it counts as a replay
+
+/**
+ * Check an X-Webhook-Signature header ("sha256=<hex>") against the
+ * HMAC-SHA256 of "<timestamp>.<body>". The timestamp (Unix seconds) must be
+ * within toleranceSeconds of now, so a captured request can't be replayed later.
+ */
+export const verifySignature = (
+  secret: string,
+  timestamp: string,
+  body: string,
+  header: string,
+  toleranceSeconds: number = SIGNATURE_TOLERANCE_S,
+  now: number = Date.now()
+): boolean => {
+  const sentAt = Number(timestamp);
+  if (!/^\d+$/.test(timestamp) || Math.abs(now / 1000 - sentAt) > toleranceSeconds) return false;
+  
+  const expected = Buffer.from(`sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`);
+  const actual = Buffer.from(header);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
+
+const readBody = (request: IncomingMessage): Promise<string> => new Promise((resolve, reject) => {
+  const chunks: Buffer[] = [];
+  request.on('data', (chunk: Buffer) => chunks.push(chunk));
+  request.on('end', () => resolve(Buffer.concat(chunks).toString()));
+  request.on('error', reject);
+});
+
+/**
+ * Webhook Receiver
+ * Local stand-in endpoint for WebhookService.testWebhook. Records every
+ * delivery, checks signatures when it knows the secret, and can be asked
+ * to misbehave (`?status=503`, `?delay=15000`) to exercise retries and
+ * timeouts. GET /webhooks lists what has arrived.
+ */
+export const createWebhookReceiver = (options: WebhookReceiverOptions) => {
+  const received: ReceivedWebhook[] = [];
+  
+  const receive = async (request: IncomingMessage, response: ServerResponse, url: URL) => {
+    const body = await readBody(request);
+    const header = (name: string) => String(request.headers[name.toLowerCase()] || '');
+    const verified = options.secret
+      ? verifySignature(options.secret, header('X-Webhook-Timestamp'), body, header('X-Webhook-Signature'))
+      : null;
+    
+    received.push({
+      receivedAt: new Date().toISOString(),
+      path: url.pathname,
+      headers: Object.fromEntries(Object.entries(request.headers).map(([key, value]) => [key, String(value)])),
+      body,
+      verified
+    });
+    received.splice(0, Math.max(0, received.length - MAX_RECEIVED));
+    console.log(`Received ${header('X-Webhook-Event') || 'webhook'} ${header('X-Webhook-Delivery')} (signature ${verified === null ? 'not checked' : verified ? 'valid' : 'INVALID'})`);
+    
+    const delay = Math.min(MAX_DELAY_MS, Number(url.searchParams.get('delay')) || 0);
+    if (delay > 0) await new Promise(resolve => setTimeout(resolve, delay));
+    
+    // Out-of-range codes make writeHead throw, and a 1xx can't end a response
+    const requested = Math.trunc(Number(url.searchParams.get('status')));
+    const status = verified === false ? 401 : requested >= 200 && requested <= 599 ? requested : 200;
+    response.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify({
+      received: status < 400,
+      delivery: header('X-Webhook-Delivery'),
+      verified
+    }));
+  };
+  
+  const httpServer: HttpServer = createServer(async (request, response) => {
+    const url = new URL(request.url || '/', 'http://localhost');
+    response.setHeader('Access-Control-Allow-Origin', options.corsOrigin || '*');
+    response.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    response.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-Webhook-Event, X-Webhook-Delivery, X-Webhook-Timestamp, X-Webhook-Signature');
+    
+    if (request.method === 'OPTIONS') {
+      response.writeHead(204).end();
+      return;
+    }
+    if (request.method === 'GET' && url.pathname === '/webhooks') {
+      response.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(received));
+      return;
+    }
+    if (request.method !== 'POST') {
+      response.writeHead(405, { 'Content-Type': 'application/json' }).end(JSON.stringify({ error: 'Method not allowed' }));
+      return;
+    }
+    
+    try {
+      await receive(request, response, url);
+    } catch (error) {
+      console.error('Webhook request failed:', error);
+      if (!response.headersSent) {
+        response.writeHead(500, { 'Content-Type': 'application/json' }).end(JSON.stringify({ error: 'Internal server error' }));
+      } else {
+        response.destroy();
+      }
+    }
+  });
+  
+  return {
+    received,
+    listen: () => new Promise<void>((resolve) => httpServer.listen(options.port, resolve)),
+    close: () => new Promise<void>((resolve) => {
+      httpServer.close(() => resolve());
+      httpServer.closeAllConnections();
+    })
+  };
+};
+
+if (require.main === module) {
+  const port = Number(process.env.PORT) || 4100;
+  const receiver = createWebhookReceiver({
+    port,
+    secret: process.env.WEBHOOK_SECRET,
+    corsOrigin: process.env.CORS_ORIGIN
+  });
+  
+  receiver.listen().then(() => {
+    console.log(`Webhook receiver listening on http://localhost:${port}/webhooks/test`);
+    if (!process.env.WEBHOOK_SECRET) {
+      console.log('WEBHOOK_SECRET not set; signatures will be logged but not checked.');
+    }
+  });
+  
+  process.on('SIGINT', () => {
+    receiver.close().then(() => process.exit(0));
+  });
+}
@@ -6,12 +6,23 @@ import { SearchBar } from './components/SearchBar';
 import { DatePicker } from './components/DatePicker';
 import { ErrorBoundary } from './components/ErrorBoundary';
 import { useOnlineStatus } from './hooks/useOnlineStatus';
+import { useSyncQueue } from './hooks/useSyncQueue';
+import { useRealtimeSync } from './hooks/useRealtimeSync';
+import { useCalendarSync } from './hooks/useCalendarSync';
 import { usePullToRefresh } from './hooks/usePullToRefresh';
 import { useKeyboardShortcuts } from './hooks/useKeyboardShortcuts';
 import { useMobileDetection } from './hooks/useMobileDetection';
 import MobileApp from './components/MobileApp';
+import HistoryPanel from './components/HistoryPanel';
+import PluginPanel from './components/PluginPanel';
+import { SyncConflictResolver } from './components/SyncConflictResolver';
+import DailyView from './components/DailyView';
+import YearView from './components/YearView';
+import AgendaView from './components/AgendaView';
 import Controls from './components/Controls';
 import Stickers from './components/Stickers';
+import { WorkflowEngine } from './services/workflowEngine';
+import { pluginManager } from './services/pluginManager';
 
 const App: React.FC = () => {
   const { 
@@ -19,11 +30,16 @@ const App: React.FC = () => {
     zoomLevel,
     viewMode,
     currentTheme,
+    lastVeto,
     undo,
-    redo
+    redo,
+    clearVeto
   } = useStore();
   
   const { isOnline } = useOnlineStatus();
+  const syncEnabled = useRealtimeSync();
+  const calendarSync = useCalendarSync();
+  const { pendingCount, failedCount, retryNow } = useSyncQueue(isOnline);
   const isMobile = useMobileDetection();
   
   // State for keyboard shortcuts
@@ -36,6 +52,12 @@ const App: React.FC = () => {
   // State for sticker toolbar
   const [showStickerToolbar, setShowStickerToolbar] = useState(false);
   
+  // State for history panel
+  const [showHistory, setShowHistory] = useState(false);
+  
+  // State for plugin panel
+  const [showPlugins, setShowPlugins] = useState(false);
+  
   // Pull to refresh for mobile
   usePullToRefresh({ 
     onRefresh: () => {
@@ -68,7 +90,7 @@ const App: React.FC = () => {
     // Implementation would go here
     console.log('2FA toggle triggered');
   };
-   
+  
   // Keyboard shortcuts
   useKeyboardShortcuts({
     viewMode,
@@ -83,6 +105,12 @@ const App: React.FC = () => {
     handle2FAToggle
   });
   
+  // Run enabled workflows for as long as the app is open
+  useEffect(() => WorkflowEngine.start(), []);
+  
+  // Start the sandboxed plugins installed in earlier sessions
+  useEffect(() => pluginManager.restorePlugins(), []);
+  
   // Theme handling
   useEffect(() => {
     if (currentTheme) {
@@ -115,10 +143,14 @@ const App: React.FC = () => {
             </div>
             <button onClick={undo}>Undo</button>
             <button onClick={redo}>Redo</button>
+            <button onClick={() => setShowHistory(!showHistory)}>History</button>
+            <button onClick={() => setShowPlugins(!showPlugins)}>Plugins</button>
           </div>
         </header>
         
         <main className="app-main">
+          {calendarSync && <SyncConflictResolver syncService={calendarSync} />}
+          
           {/* Book Calendar Container */}
           <div className="calendar-container">
             <h2>📅 Calendar</h2>
@@ -134,11 +166,19 @@ const App: React.FC = () => {
               </div>
               
               <div className="right-page" id="right-page">
-                <CalendarCanvas
-                  width={400}
-                  height={600}
-                  pagePosition="right"
-                />
+                {viewMode === 'daily' ? (
+                  <DailyView width={400} height={600} />
+                ) : viewMode === 'yearly' ? (
+                  <YearView width={400} height={600} />
+                ) : viewMode === 'agenda' ? (
+                  <AgendaView width={400} height={600} />
+                ) : (
+                  <CalendarCanvas
+                    width={400}
+                    height={600}
+                    pagePosition="right"
+                  />
+                )}
               </div>
             </div>
           </div>
@@ -151,9 +191,23 @@ const App: React.FC = () => {
           />
         )}
         
+        <HistoryPanel isOpen={showHistory} onClose={() => setShowHistory(false)} />
+        <PluginPanel isOpen={showPlugins} onClose={() => setShowPlugins(false)} />
+        
         <footer className="app-footer">
           <div className="status-bar">
             <span>Online: {isOnline ? 'Yes' : 'No'}</span>
+            {syncEnabled && <span>Pending sync: {pendingCount}</span>}
+            {syncEnabled && failedCount > 0 && (
+              <span onClick={retryNow} style={{ color: '#dc2626', cursor: 'pointer' }} title="Retry now">
+                Failed: {failedCount}
+              </span>
+            )}
+            {lastVeto && (
+              <span onClick={clearVeto} style={{ color: '#b45309', cursor: 'pointer' }} title="Dismiss">
+                Blocked: {lastVeto.reason}
+              </span>
+            )}
             <span>Zoom: {Math.round(zoomLevel * 100)}%</span>
             <span>View: {viewMode}</span>
           </div>
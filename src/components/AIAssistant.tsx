@@ -1,5 +1,6 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { AIScheduler } from '../services/aiScheduler';
+import { useI18n } from '../hooks/useI18n';
 
 interface Message {
   id: string;
@@ -9,6 +10,7 @@ interface Message {
 }
 
 const AIAssistant: React.FC = () => {
+  const { language } = useI18n();
   const [messages, setMessages] = useState<Message[]>([
     {
       id: '1',
@@ -88,11 +90,11 @@ const AIAssistant: React.FC = () => {
   };
 
   const handleSchedulingRequest = (input: string): string => {
-    const eventData = AIScheduler.parseNaturalLanguage(input);
+    const eventData = AIScheduler.parseNaturalLanguage(input, { locale: navigator.language });
     
     if (eventData && eventData.title && eventData.startTime) {
       // In a real application, this would actually create the event
-      return `I've parsed your request to create an event titled "${eventData.title}" on ${eventData.startTime.toLocaleDateString()} at ${eventData.startTime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}. Would you like me to add this to your calendar?`;
+      return `I've parsed your request to create an event titled "${eventData.title}" on ${eventData.startTime.toLocaleDateString(language)} at ${eventData.startTime.toLocaleTimeString(language, { hour: '2-digit', minute: '2-digit' })}. Would you like me to add this to your calendar?`;
     }
     
     return "I couldn't parse the scheduling details from your request. Please try again with a clearer format, such as 'Schedule a meeting tomorrow at 2pm'.";
@@ -0,0 +1,204 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { addDays, format, isToday, startOfDay } from 'date-fns';
+import { useStore } from '../stores/appStore';
+import { RecurrenceEngine } from '../services/recurrence';
+import { TimeZoneService } from '../services/timeZone';
+import { EventLayout } from '../services/eventLayout';
+import { useVirtualization } from '../hooks/useVirtualization';
+import { EventOccurrence, TaskItem } from '../types';
+
+interface AgendaViewProps {
+  width: number;
+  height: number;
+}
+
+type AgendaRow =
+  | { kind: 'day'; day: Date }
+  | { kind: 'event'; day: Date; occurrence: EventOccurrence }
+  | { kind: 'task'; day: Date; task: TaskItem }
+  | { kind: 'more'; until: Date };
+
+const ROW_HEIGHT = 32;
+const PAGE_DAYS = 30;
+const MAX_DAYS = 10 * 365; // Stop paging an empty calendar after ten years
+
+export const AgendaView: React.FC<AgendaViewProps> = ({ width, height }) => {
+  const {
+    events,
+    tasks,
+    recurrenceOverrides,
+    selectedDate,
+    displayTimeZone,
+    visibility,
+    setSelectedDate,
+    setViewMode,
+    updateTask
+  } = useStore();
+  
+  const [dayCount, setDayCount] = useState(PAGE_DAYS);
+  const start = useMemo(() => startOfDay(selectedDate), [selectedDate]);
+  
+  // Start over from the new date whenever the selection moves
+  useEffect(() => {
+    setDayCount(PAGE_DAYS);
+  }, [start]);
+  
+  // One header row per day that has anything on it, followed by its events and tasks
+  const rows = useMemo(() => {
+    const local = TimeZoneService.getLocalZone();
+    const end = addDays(start, dayCount);
+    const rangeStart = TimeZoneService.convertWallClock(start, local, displayTimeZone);
+    const rangeEnd = TimeZoneService.convertWallClock(end, local, displayTimeZone);
+    const eventsByDay = new Map<string, EventOccurrence[]>();
+    const tasksByDay = new Map<string, TaskItem[]>();
+    
+    if (visibility.events) {
+      RecurrenceEngine.expandAll(events, rangeStart, rangeEnd, recurrenceOverrides)
+        .map(occurrence => TimeZoneService.shiftForDisplay(occurrence, displayTimeZone))
+        .sort((a, b) => Number(EventLayout.isSpanning(b)) - Number(EventLayout.isSpanning(a)) || a.startTime.getTime() - b.startTime.getTime())
+        .forEach(occurrence => {
+          const last = Math.max(occurrence.endTime.getTime(), occurrence.startTime.getTime() + 1);
+          for (let day = startOfDay(occurrence.startTime); day.getTime() < last && day < end; day = addDays(day, 1)) {
+            if (day < start) continue;
+            const key = format(day, 'yyyy-MM-dd');
+            eventsByDay.set(key, [...(eventsByDay.get(key) || []), occurrence]);
+          }
+        });
+    }
+    
+    if (visibility.tasks) {
+      tasks.forEach(task => {
+        tasksByDay.set(task.date, [...(tasksByDay.get(task.date) || []), task]);
+      });
+    }
+    
+    const result: AgendaRow[] = [];
+    for (let day = start; day < end; day = addDays(day, 1)) {
+      const key = format(day, 'yyyy-MM-dd');
+      const dayEvents = eventsByDay.get(key) || [];
+      const dayTasks = tasksByDay.get(key) || [];
+      if (!dayEvents.length && !dayTasks.length) continue;
+      
+      result.push({ kind: 'day', day });
+      dayEvents.forEach(occurrence => result.push({ kind: 'event', day, occurrence }));
+      dayTasks.forEach(task => result.push({ kind: 'task', day, task }));
+    }
+    if (dayCount < MAX_DAYS) result.push({ kind: 'more', until: end });
+    
+    return result;
+  }, [events, tasks, recurrenceOverrides, start, dayCount, displayTimeZone, visibility.events, visibility.tasks]);
+  
+  const { containerProps, virtualItems, totalHeight, endIndex } = useVirtualization({
+    items: rows,
+    itemHeight: ROW_HEIGHT,
+    containerHeight: height
+  });
+  
+  const loadMore = () => setDayCount(count => Math.min(MAX_DAYS, count + PAGE_DAYS));
+  
+  // Page in more dates once the overscan reaches the end of the list. A short
+  // list that doesn't fill the view pages through its "more" row instead.
+  useEffect(() => {
+    if (rows.length * ROW_HEIGHT > height && endIndex >= rows.length - 1) loadMore();
+  }, [endIndex, rows.length, height]);
+  
+  const openDay = (day: Date) => {
+    setSelectedDate(day);
+    setViewMode('daily');
+  };
+  
+  const renderRow = (row: AgendaRow) => {
+    switch (row.kind) {
+      case 'day':
+        return (
+          <div
+            onClick={() => openDay(row.day)}
+            style={{
+              height: '100%',
+              display: 'flex',
+              alignItems: 'flex-end',
+              padding: '0 12px 4px',
+              boxSizing: 'border-box',
+              borderBottom: '1px solid #e5e7eb',
+              fontSize: 13,
+              fontWeight: 600,
+              color: isToday(row.day) ? '#ef4444' : '#1f2937',
+              cursor: 'pointer'
+            }}
+          >
+            {isToday(row.day) ? 'Today · ' : ''}{format(row.day, 'EEEE, MMMM d, yyyy')}
+          </div>
+        );
+      case 'event': {
+        const { occurrence } = row;
+        const time = EventLayout.isSpanning(occurrence)
+          ? 'All day'
+          : `${format(occurrence.startTime, 'h:mm a')} – ${format(occurrence.endTime, 'h:mm a')}`;
+        return (
+          <div
+            onClick={() => openDay(row.day)}
+            title={occurrence.description || occurrence.title}
+            style={{ height: '100%', display: 'flex', alignItems: 'center', gap: 8, padding: '0 12px', fontSize: 12, cursor: 'pointer' }}
+          >
+            <span style={{ width: 8, height: 8, borderRadius: '50%', flexShrink: 0, backgroundColor: occurrence.color || '#3b82f6' }} />
+            <span style={{ width: 130, flexShrink: 0, color: '#6b7280' }}>{time}</span>
+            <span style={{ flex: 1, color: '#1f2937', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+              {occurrence.recurrence && '↻ '}{occurrence.title}
+            </span>
+          </div>
+        );
+      }
+      case 'task':
+        return (
+          <label style={{ height: '100%', display: 'flex', alignItems: 'center', gap: 8, padding: '0 12px', fontSize: 12, cursor: 'pointer' }}>
+            <input
+              type="checkbox"
+              checked={row.task.completed}
+              onChange={() => updateTask(row.task.id, { completed: !row.task.completed })}
+            />
+            <span
+              style={{
+                flex: 1,
+                color: row.task.completed ? '#9ca3af' : '#1f2937',
+                textDecoration: row.task.completed ? 'line-through' : 'none',
+                overflow: 'hidden',
+                textOverflow: 'ellipsis',
+                whiteSpace: 'nowrap'
+              }}
+            >
+              {row.task.content}
+            </span>
+          </label>
+        );
+      case 'more':
+        return (
+          <button
+            onClick={loadMore}
+            style={{ width: '100%', height: '100%', border: 'none', background: 'none', color: '#3b82f6', fontSize: 12, cursor: 'pointer' }}
+          >
+            Show dates after {format(addDays(row.until, -1), 'MMM d, yyyy')}
+          </button>
+        );
+    }
+  };
+  
+  return (
+    <div style={{ width, height, backgroundColor: 'white' }}>
+      <div
+        ref={containerProps.ref}
+        onScroll={containerProps.onScroll}
+        style={{ height, overflowY: 'auto', position: 'relative' }}
+      >
+        <div style={{ position: 'relative', height: totalHeight }}>
+          {virtualItems.map(({ index, item, style }) => (
+            <div key={index} style={style}>
+              {renderRow(item)}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AgendaView;
@@ -1,5 +1,8 @@
-import React, { useRef, useEffect } from 'react';
+import React, { useRef, useEffect, useMemo } from 'react';
+import { addDays } from 'date-fns';
 import { useStore } from '../stores/appStore';
+import { RecurrenceEngine } from '../services/recurrence';
+import { TimeZoneService } from '../services/timeZone';
 
 interface CalendarCanvasProps {
   width: number;
@@ -7,7 +10,9 @@ interface CalendarCanvasProps {
   pagePosition?: 'left' | 'right';
 }
 
-const CalendarCanvas: React.FC<CalendarCanvasProps> = ({ width, height }) => {
+const GUTTER_WIDTH = 44;
+
+const CalendarCanvas: React.FC<CalendarCanvasProps> = ({ width, height, pagePosition }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const { 
     viewMode, 
@@ -17,8 +22,22 @@ const CalendarCanvas: React.FC<CalendarCanvasProps> = ({ width, height }) => {
     cover, 
     font, 
     color,
-    stickers
+    stickers,
+    recurrenceOverrides,
+    displayTimeZone,
+    secondaryTimeZone
   } = useStore();
+  
+  // Occurrences for the month around the selected date, shifted so local getters
+  // read the display zone's clock
+  const occurrences = useMemo(() => {
+    const local = TimeZoneService.getLocalZone();
+    const first = new Date(selectedDate.getFullYear(), selectedDate.getMonth(), 1);
+    const rangeStart = TimeZoneService.convertWallClock(addDays(first, -7), local, displayTimeZone);
+    const rangeEnd = TimeZoneService.convertWallClock(addDays(first, 42), local, displayTimeZone);
+    return RecurrenceEngine.expandAll(events, rangeStart, rangeEnd, recurrenceOverrides)
+      .map(occurrence => TimeZoneService.shiftForDisplay(occurrence, displayTimeZone));
+  }, [events, recurrenceOverrides, selectedDate, displayTimeZone]);
 
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -40,10 +59,11 @@ const CalendarCanvas: React.FC<CalendarCanvasProps> = ({ width, height }) => {
       ctx.fillStyle = color;
       ctx.fillText('Events & Tasks', 20, 30);
       
-      // Draw events
+      // Draw events with their start in the display zone
       events.forEach((event, i) => {
+        const time = event.allDay ? 'All day' : TimeZoneService.format(event.startTime, displayTimeZone);
         ctx.fillStyle = event.color || '#3b82f6';
-        ctx.fillText(event.title, 20, 60 + i * 25);
+        ctx.fillText(`${time}  ${event.title}`, 20, 60 + i * 25);
       });
       
       // Draw tasks
@@ -81,7 +101,7 @@ const CalendarCanvas: React.FC<CalendarCanvasProps> = ({ width, height }) => {
         ctx.drawImage(img, 50 + i * 60, height - 100, 50, 50);
       };
     });
-  }, [viewMode, selectedDate, events, tasks, cover, font, color, stickers, width, height, pagePosition]);
+  }, [viewMode, selectedDate, events, occurrences, tasks, cover, font, color, stickers, width, height, pagePosition, displayTimeZone, secondaryTimeZone]);
 
   const drawMonthlyGrid = (ctx: CanvasRenderingContext2D, date: Date, startX: number, startY: number) => {
     const cellSize = Math.min((height - startY - 100) / 6, 40); // Fit 6 weeks
@@ -126,21 +146,89 @@ const CalendarCanvas: React.FC<CalendarCanvasProps> = ({ width, height }) => {
     }
   };
 
+  // Hour labels in the display zone, with the second zone's clock beside them
+  const drawTimeGutter = (
+    ctx: CanvasRenderingContext2D,
+    day: Date,
+    x: number,
+    top: number,
+    hourHeight: number,
+    hours: number[]
+  ) => {
+    ctx.font = `bold 10px ${font}`;
+    ctx.fillStyle = '#374151';
+    ctx.fillText(TimeZoneService.abbreviation(displayTimeZone, day), x, top - 4);
+    if (secondaryTimeZone) {
+      ctx.fillStyle = '#9ca3af';
+      ctx.fillText(TimeZoneService.abbreviation(secondaryTimeZone, day), x + GUTTER_WIDTH, top - 4);
+    }
+    
+    ctx.font = `10px ${font}`;
+    hours.forEach((hour, i) => {
+      const y = top + i * hourHeight + 10;
+      ctx.fillStyle = '#6b7280';
+      ctx.fillText(`${hour === 0 ? 12 : hour > 12 ? hour - 12 : hour}${hour >= 12 ? 'PM' : 'AM'}`, x, y);
+      
+      if (secondaryTimeZone) {
+        const at = TimeZoneService.fromParts(displayTimeZone, day.getFullYear(), day.getMonth() + 1, day.getDate(), hour);
+        ctx.fillStyle = '#9ca3af';
+        ctx.fillText(TimeZoneService.format(at, secondaryTimeZone, { hour: 'numeric', minute: '2-digit' }), x + GUTTER_WIDTH, y);
+      }
+    });
+  };
+  
+  // Timed occurrences on `day` as blocks in an hour grid starting at hours[0]
+  const drawTimedEvents = (
+    ctx: CanvasRenderingContext2D,
+    day: Date,
+    x: number,
+    top: number,
+    columnWidth: number,
+    hourHeight: number,
+    hours: number[]
+  ) => {
+    const dayStart = new Date(day.getFullYear(), day.getMonth(), day.getDate(), hours[0]).getTime();
+    const dayEnd = dayStart + hours.length * 60 * 60 * 1000;
+    
+    occurrences
+      .filter(event => !event.allDay && event.startTime.getTime() < dayEnd && event.endTime.getTime() > dayStart)
+      .forEach(event => {
+        const start = Math.max(event.startTime.getTime(), dayStart);
+        const end = Math.min(event.endTime.getTime(), dayEnd);
+        const y = top + ((start - dayStart) / 3600000) * hourHeight;
+        const blockHeight = Math.max(((end - start) / 3600000) * hourHeight, 8);
+        
+        ctx.fillStyle = event.color || '#3b82f6';
+        ctx.fillRect(x + 1, y, columnWidth - 2, blockHeight);
+        ctx.fillStyle = '#fff';
+        ctx.font = `9px ${font}`;
+        ctx.fillText(event.title, x + 3, y + 9, columnWidth - 6);
+      });
+  };
+  
   const drawWeeklyGrid = (ctx: CanvasRenderingContext2D, date: Date, startX: number, startY: number) => {
-    const cellSize = Math.min((height - startY - 100) / 6, 40);
+    const gutter = GUTTER_WIDTH * (secondaryTimeZone ? 2 : 1);
+    const gridX = startX + gutter;
+    const cellSize = Math.min((width - gridX - 10) / 7, 40);
     const headers = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
     
     // Draw headers
     ctx.font = `bold 14px ${font}`;
     ctx.fillStyle = '#374151';
     headers.forEach((h, i) => {
-      ctx.fillText(h, startX + i * cellSize + cellSize/2 - 5, startY + 20);
+      ctx.fillText(h, gridX + i * cellSize + cellSize/2 - 5, startY + 20);
     });
     
     // Draw current week (simplified)
     const startOfWeek = new Date(date);
     startOfWeek.setDate(date.getDate() - date.getDay());
     
+    const hours = Array.from({ length: 24 }, (_, hour) => hour);
+    const gridTop = startY + 30 + cellSize + 16;
+    const hourHeight = (height - gridTop - 50) / hours.length;
+    
+    drawTimeGutter(ctx, date, startX, gridTop, hourHeight, hours);
+    
     for (let i = 0; i < 7; i++) {
       const day = new Date(startOfWeek);
       day.setDate(startOfWeek.getDate() + i);
@@ -148,16 +236,23 @@ const CalendarCanvas: React.FC<CalendarCanvasProps> = ({ width, height }) => {
       // Highlight today
       if (day.getDate() === date.getDate()) {
         ctx.fillStyle = '#ffd700';
-        ctx.fillRect(startX + i * cellSize, startY + 30, cellSize, cellSize);
+        ctx.fillRect(gridX + i * cellSize, startY + 30, cellSize, cellSize);
         ctx.fillStyle = '#000';
       } else {
         ctx.fillStyle = '#fff';
-        ctx.fillRect(startX + i * cellSize, startY + 30, cellSize, cellSize);
+        ctx.fillRect(gridX + i * cellSize, startY + 30, cellSize, cellSize);
         ctx.fillStyle = '#000';
       }
       
-      ctx.strokeRect(startX + i * cellSize, startY + 30, cellSize, cellSize);
-      ctx.fillText(day.getDate().toString(), startX + i * cellSize + cellSize/2 - 5, startY + 30 + cellSize/2 + 5);
+      ctx.strokeRect(gridX + i * cellSize, startY + 30, cellSize, cellSize);
+      ctx.font = `14px ${font}`;
+      ctx.fillText(day.getDate().toString(), gridX + i * cellSize + cellSize/2 - 5, startY + 30 + cellSize/2 + 5);
+      
+      // Hour grid for the day
+      ctx.strokeStyle = '#e5e7eb';
+      hours.forEach((_, h) => ctx.strokeRect(gridX + i * cellSize, gridTop + h * hourHeight, cellSize, hourHeight));
+      ctx.strokeStyle = '#000';
+      drawTimedEvents(ctx, day, gridX + i * cellSize, gridTop, cellSize, hourHeight, hours);
     }
   };
 
@@ -167,10 +262,18 @@ const CalendarCanvas: React.FC<CalendarCanvasProps> = ({ width, height }) => {
     ctx.fillStyle = color;
     ctx.fillText(date.toLocaleDateString(), startX, startY + 30);
     
-    // Draw time slots (simplified)
-    for (let hour = 0; hour < 24; hour++) {
-      ctx.fillText(`${hour}:00`, startX, startY + 60 + hour * 20);
-    }
+    // Draw time slots with a gutter for each zone
+    const hours = Array.from({ length: 24 }, (_, hour) => hour);
+    const gridTop = startY + 50;
+    const hourHeight = 20;
+    const gridX = startX + GUTTER_WIDTH * (secondaryTimeZone ? 2 : 1);
+    const columnWidth = width - gridX - 20;
+    
+    drawTimeGutter(ctx, date, startX, gridTop, hourHeight, hours);
+    ctx.strokeStyle = '#e5e7eb';
+    hours.forEach((_, h) => ctx.strokeRect(gridX, gridTop + h * hourHeight, columnWidth, hourHeight));
+    ctx.strokeStyle = '#000';
+    drawTimedEvents(ctx, date, gridX, gridTop, columnWidth, hourHeight, hours);
   };
 
   return <canvas ref={canvasRef} style={{ display: 'block', width: '100%', height: '100%' }} />;
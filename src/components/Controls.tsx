@@ -1,8 +1,10 @@
 import React from 'react';
 import { useStore } from '../stores/appStore';
+import { TimeZoneService } from '../services/timeZone';
 
 const Controls: React.FC = () => {
-  const { setViewMode, setCover, setFont, setColor } = useStore();
+  const { setViewMode, setCover, setFont, setColor, displayTimeZone, secondaryTimeZone, setDisplayTimeZone, setSecondaryTimeZone } = useStore();
+  const zones = Array.from(new Set([displayTimeZone, ...TimeZoneService.listZones()]));
 
   return (
     <div className="controls" style={{ display: 'flex', gap: '10px', margin: '10px 0', flexWrap: 'wrap' }}>
@@ -24,6 +26,18 @@ const Controls: React.FC = () => {
       >
         Daily
       </button>
+      <button 
+        onClick={() => setViewMode('yearly')}
+        style={{ padding: '8px 16px', borderRadius: '4px', border: '1px solid #ccc', background: '#f5f5f5' }}
+      >
+        Yearly
+      </button>
+      <button 
+        onClick={() => setViewMode('agenda')}
+        style={{ padding: '8px 16px', borderRadius: '4px', border: '1px solid #ccc', background: '#f5f5f5' }}
+      >
+        Agenda
+      </button>
       
       <select 
         onChange={(e) => setCover(e.target.value)}
@@ -46,6 +60,25 @@ const Controls: React.FC = () => {
         onChange={(e) => setColor(e.target.value)} 
         style={{ width: '40px', height: '40px', border: '1px solid #ccc', borderRadius: '4px' }}
       />
+      
+      <select 
+        value={displayTimeZone}
+        onChange={(e) => setDisplayTimeZone(e.target.value)}
+        title="Display time zone"
+        style={{ padding: '8px', borderRadius: '4px', border: '1px solid #ccc' }}
+      >
+        {zones.map(zone => <option key={zone} value={zone}>{zone.replace(/_/g, ' ')}</option>)}
+      </select>
+      
+      <select 
+        value={secondaryTimeZone || ''}
+        onChange={(e) => setSecondaryTimeZone(e.target.value || null)}
+        title="Second time zone"
+        style={{ padding: '8px', borderRadius: '4px', border: '1px solid #ccc' }}
+      >
+        <option value="">No second zone</option>
+        {zones.map(zone => <option key={zone} value={zone}>{zone.replace(/_/g, ' ')}</option>)}
+      </select>
     </div>
   );
 };
@@ -0,0 +1,314 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { addDays, format, isSameDay, startOfDay } from 'date-fns';
+import { useStore } from '../stores/appStore';
+import { RecurrenceEngine } from '../services/recurrence';
+import { TimeZoneService } from '../services/timeZone';
+import { EventLayout } from '../services/eventLayout';
+import { CalendarEvent, EventOccurrence } from '../types';
+import { RecurrenceEditPrompt } from './RecurrenceEditPrompt';
+
+interface DailyViewProps {
+  width: number;
+  height: number;
+}
+
+const HOUR_HEIGHT = 48;
+const GUTTER_WIDTH = 52;
+const SNAP_MINUTES = 15;
+const EDGE_SIZE = 6;
+
+type Drag =
+  | { kind: 'create'; anchor: number; current: number }
+  | { kind: 'resize'; occurrence: EventOccurrence; edge: 'start' | 'end'; current: number };
+
+const minutesOf = (date: Date, day: Date) => Math.round((date.getTime() - day.getTime()) / 60000);
+
+const snap = (minutes: number) => Math.max(0, Math.min(24 * 60, Math.round(minutes / SNAP_MINUTES) * SNAP_MINUTES));
+
+const hourLabel = (hour: number) => `${hour === 0 ? 12 : hour > 12 ? hour - 12 : hour}${hour >= 12 ? 'PM' : 'AM'}`;
+
+export const DailyView: React.FC<DailyViewProps> = ({ width, height }) => {
+  const {
+    events,
+    recurrenceOverrides,
+    selectedDate,
+    displayTimeZone,
+    secondaryTimeZone,
+    visibility,
+    addEvent,
+    updateEvent
+  } = useStore();
+  
+  const gridRef = useRef<HTMLDivElement>(null);
+  const [drag, setDrag] = useState<Drag | null>(null);
+  const [pendingEdit, setPendingEdit] = useState<{ occurrence: EventOccurrence; updates: Partial<CalendarEvent> } | null>(null);
+  const [now, setNow] = useState(() => new Date());
+  
+  const day = useMemo(() => startOfDay(selectedDate), [selectedDate]);
+  const local = TimeZoneService.getLocalZone();
+  const gutters = secondaryTimeZone ? 2 : 1;
+  const columnWidth = width - GUTTER_WIDTH * gutters - 8;
+  
+  // The grid is laid out in local time; these convert to and from the display zone
+  const toGrid = (date: Date) => TimeZoneService.convertWallClock(date, displayTimeZone, local);
+  const fromGrid = (date: Date) => TimeZoneService.convertWallClock(date, local, displayTimeZone);
+  
+  const occurrences = useMemo(() => {
+    const rangeStart = TimeZoneService.convertWallClock(day, local, displayTimeZone);
+    const rangeEnd = TimeZoneService.convertWallClock(addDays(day, 1), local, displayTimeZone);
+    return RecurrenceEngine.expandAll(events, rangeStart, rangeEnd, recurrenceOverrides)
+      .map(occurrence => TimeZoneService.shiftForDisplay(occurrence, displayTimeZone));
+  }, [events, recurrenceOverrides, day, displayTimeZone, local]);
+  
+  const allDay = occurrences.filter(occurrence => EventLayout.isSpanning(occurrence));
+  const placements = useMemo(
+    () => EventLayout.layoutDay(occurrences.filter(occurrence => !EventLayout.isSpanning(occurrence))),
+    [occurrences]
+  );
+  
+  // Keep the now-line current
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+  
+  // Start the grid scrolled to the working day
+  useEffect(() => {
+    if (gridRef.current) gridRef.current.scrollTop = 7 * HOUR_HEIGHT;
+  }, [day]);
+  
+  const pointerMinutes = (clientY: number) => {
+    const grid = gridRef.current;
+    if (!grid) return 0;
+    const rect = grid.getBoundingClientRect();
+    return snap(((clientY - rect.top + grid.scrollTop) / HOUR_HEIGHT) * 60);
+  };
+  
+  const atMinutes = (minutes: number) => new Date(day.getTime() + minutes * 60000);
+  
+  // Track the pointer on the window so a drag can leave the grid
+  useEffect(() => {
+    if (!drag) return;
+    
+    const handleMouseMove = (e: MouseEvent) => {
+      const current = pointerMinutes(e.clientY);
+      setDrag(prev => prev ? { ...prev, current } : prev);
+    };
+    
+    const handleMouseUp = () => {
+      setDrag(null);
+      
+      if (drag.kind === 'create') {
+        const start = Math.min(drag.anchor, drag.current);
+        const end = Math.max(drag.anchor, drag.current);
+        if (end - start < SNAP_MINUTES) return;
+        
+        addEvent({
+          id: `event-${Date.now()}`,
+          title: 'New event',
+          startTime: fromGrid(atMinutes(start)),
+          endTime: fromGrid(atMinutes(end)),
+          sourceCalendar: 'native',
+          timestamp: Date.now(),
+          timeZone: displayTimeZone
+        });
+        return;
+      }
+      
+      const { occurrence, edge } = drag;
+      const start = edge === 'start' ? Math.min(drag.current, minutesOf(occurrence.endTime, day) - SNAP_MINUTES) : minutesOf(occurrence.startTime, day);
+      const end = edge === 'end' ? Math.max(drag.current, minutesOf(occurrence.startTime, day) + SNAP_MINUTES) : minutesOf(occurrence.endTime, day);
+      const updates: Partial<CalendarEvent> = edge === 'start'
+        ? { startTime: fromGrid(atMinutes(start)) }
+        : { endTime: fromGrid(atMinutes(end)) };
+      
+      if (occurrence.recurrence) {
+        setPendingEdit({ occurrence, updates });
+      } else {
+        updateEvent(occurrence.masterId, updates);
+      }
+    };
+    
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [drag, day, displayTimeZone]);
+  
+  const startCreate = (e: React.MouseEvent) => {
+    if (e.button !== 0) return;
+    const minutes = pointerMinutes(e.clientY);
+    setDrag({ kind: 'create', anchor: minutes, current: minutes });
+  };
+  
+  const startResize = (e: React.MouseEvent, occurrence: EventOccurrence, edge: 'start' | 'end') => {
+    e.stopPropagation();
+    setDrag({ kind: 'resize', occurrence, edge, current: pointerMinutes(e.clientY) });
+  };
+  
+  // Minutes an occurrence covers on this day, following a resize in progress
+  const spanOf = (occurrence: EventOccurrence) => {
+    let start = Math.max(0, minutesOf(occurrence.startTime, day));
+    let end = Math.min(24 * 60, minutesOf(occurrence.endTime, day));
+    if (drag?.kind === 'resize' && drag.occurrence.id === occurrence.id) {
+      if (drag.edge === 'start') start = Math.min(drag.current, end - SNAP_MINUTES);
+      else end = Math.max(drag.current, start + SNAP_MINUTES);
+    }
+    return { start, end: Math.max(end, start + SNAP_MINUTES) };
+  };
+  
+  const displayNow = toGrid(now);
+  const showNow = isSameDay(displayNow, day);
+  
+  return (
+    <div style={{ width, height, display: 'flex', flexDirection: 'column', backgroundColor: 'white', position: 'relative' }}>
+      <div style={{ padding: '8px 12px', borderBottom: '1px solid #e5e7eb' }}>
+        <div style={{ fontSize: 16, fontWeight: 600, color: '#1f2937' }}>{format(day, 'EEEE, MMMM d')}</div>
+        {visibility.events && allDay.map(event => (
+          <div
+            key={event.id}
+            style={{
+              marginTop: 4,
+              padding: '2px 8px',
+              borderRadius: 4,
+              fontSize: 12,
+              color: 'white',
+              backgroundColor: event.color || '#3b82f6',
+              overflow: 'hidden',
+              textOverflow: 'ellipsis',
+              whiteSpace: 'nowrap'
+            }}
+          >
+            {event.title}
+          </div>
+        ))}
+      </div>
+      
+      <div style={{ display: 'flex', fontSize: 10, color: '#6b7280', padding: '2px 0' }}>
+        <div style={{ width: GUTTER_WIDTH, textAlign: 'right', paddingRight: 6 }}>
+          {TimeZoneService.abbreviation(displayTimeZone, day)}
+        </div>
+        {secondaryTimeZone && (
+          <div style={{ width: GUTTER_WIDTH, textAlign: 'right', paddingRight: 6, color: '#9ca3af' }}>
+            {TimeZoneService.abbreviation(secondaryTimeZone, day)}
+          </div>
+        )}
+      </div>
+      
+      <div ref={gridRef} style={{ flex: 1, overflowY: 'auto', position: 'relative', userSelect: 'none' }}>
+        <div style={{ position: 'relative', height: 24 * HOUR_HEIGHT }}>
+          {Array.from({ length: 24 }, (_, hour) => {
+            const at = TimeZoneService.fromParts(displayTimeZone, day.getFullYear(), day.getMonth() + 1, day.getDate(), hour);
+            return (
+              <div key={hour} style={{ position: 'absolute', top: hour * HOUR_HEIGHT, left: 0, right: 0, height: HOUR_HEIGHT, display: 'flex' }}>
+                <div style={{ width: GUTTER_WIDTH, textAlign: 'right', paddingRight: 6, fontSize: 10, color: '#6b7280', transform: 'translateY(-6px)' }}>
+                  {hour > 0 && hourLabel(hour)}
+                </div>
+                {secondaryTimeZone && (
+                  <div style={{ width: GUTTER_WIDTH, textAlign: 'right', paddingRight: 6, fontSize: 10, color: '#9ca3af', transform: 'translateY(-6px)' }}>
+                    {hour > 0 && TimeZoneService.format(at, secondaryTimeZone, { hour: 'numeric', minute: '2-digit' })}
+                  </div>
+                )}
+                <div style={{ flex: 1, borderTop: '1px solid #f1f1f1' }} />
+              </div>
+            );
+          })}
+          
+          {/* Empty grid space: press and drag to create */}
+          <div
+            onMouseDown={startCreate}
+            style={{ position: 'absolute', top: 0, bottom: 0, left: GUTTER_WIDTH * gutters, width: columnWidth, cursor: 'crosshair' }}
+          />
+          
+          {visibility.events && placements.map(({ event, column, columns }) => {
+            const { start, end } = spanOf(event);
+            const slotWidth = columnWidth / columns;
+            
+            return (
+              <div
+                key={event.id}
+                title={`${format(atMinutes(start), 'h:mm a')} – ${format(atMinutes(end), 'h:mm a')} ${event.title}`}
+                style={{
+                  position: 'absolute',
+                  top: (start / 60) * HOUR_HEIGHT,
+                  height: ((end - start) / 60) * HOUR_HEIGHT - 1,
+                  left: GUTTER_WIDTH * gutters + column * slotWidth,
+                  width: slotWidth - 2,
+                  backgroundColor: event.color || '#3b82f6',
+                  opacity: drag?.kind === 'resize' && drag.occurrence.id === event.id ? 0.8 : 1,
+                  borderRadius: 4,
+                  padding: '2px 6px',
+                  boxSizing: 'border-box',
+                  fontSize: 11,
+                  color: 'white',
+                  overflow: 'hidden',
+                  zIndex: 10
+                }}
+              >
+                <div
+                  onMouseDown={(e) => startResize(e, event, 'start')}
+                  style={{ position: 'absolute', top: 0, left: 0, right: 0, height: EDGE_SIZE, cursor: 'ns-resize' }}
+                />
+                <div style={{ fontWeight: 600, whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }}>
+                  {event.recurrence && '↻ '}{event.title}
+                </div>
+                <div>{format(atMinutes(start), 'h:mm')} – {format(atMinutes(end), 'h:mm a')}</div>
+                <div
+                  onMouseDown={(e) => startResize(e, event, 'end')}
+                  style={{ position: 'absolute', bottom: 0, left: 0, right: 0, height: EDGE_SIZE, cursor: 'ns-resize' }}
+                />
+              </div>
+            );
+          })}
+          
+          {drag?.kind === 'create' && (
+            <div
+              style={{
+                position: 'absolute',
+                top: (Math.min(drag.anchor, drag.current) / 60) * HOUR_HEIGHT,
+                height: (Math.abs(drag.current - drag.anchor) / 60) * HOUR_HEIGHT,
+                left: GUTTER_WIDTH * gutters,
+                width: columnWidth - 2,
+                backgroundColor: 'rgba(59, 130, 246, 0.3)',
+                border: '1px dashed #3b82f6',
+                borderRadius: 4,
+                pointerEvents: 'none',
+                zIndex: 15
+              }}
+            />
+          )}
+          
+          {showNow && (
+            <div
+              style={{
+                position: 'absolute',
+                top: (minutesOf(displayNow, day) / 60) * HOUR_HEIGHT,
+                left: GUTTER_WIDTH * gutters - 4,
+                right: 0,
+                height: 2,
+                backgroundColor: '#ef4444',
+                pointerEvents: 'none',
+                zIndex: 20
+              }}
+            >
+              <div style={{ position: 'absolute', left: -4, top: -4, width: 10, height: 10, borderRadius: '50%', backgroundColor: '#ef4444' }} />
+            </div>
+          )}
+        </div>
+      </div>
+      
+      {pendingEdit && (
+        <RecurrenceEditPrompt
+          occurrence={pendingEdit.occurrence}
+          action="edit"
+          updates={pendingEdit.updates}
+          onClose={() => setPendingEdit(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default DailyView;
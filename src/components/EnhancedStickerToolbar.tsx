@@ -1,6 +1,7 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { useStore } from '../stores/appStore';
 import { DecorativeElement } from '../types';
+import { pluginManager, PluginStickerPack } from '../services/pluginManager';
 
 interface StickerToolbarProps {
   isOpen: boolean;
@@ -18,6 +19,10 @@ export const StickerToolbar: React.FC<StickerToolbarProps> = ({ isOpen, onClose
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [cameraStream, setCameraStream] = useState<MediaStream | null>(null);
+  const [pluginPacks, setPluginPacks] = useState<PluginStickerPack[]>(pluginManager.getStickerPacks());
+
+  // Packs come and go as plugins start and stop
+  useEffect(() => pluginManager.subscribe(() => setPluginPacks(pluginManager.getStickerPacks())), []);
 
   // Initialize sticker library with example stickers and emoji
   useEffect(() => {
@@ -177,6 +182,33 @@ export const StickerToolbar: React.FC<StickerToolbarProps> = ({ isOpen, onClose
               ))}
             </div>
 
+            {/* Plugin Sticker Packs */}
+            {pluginPacks.map(pack => (
+              <div key={`${pack.pluginId}:${pack.id}`} className="emoji-category">
+                <h4>{pack.name}</h4>
+                <div className="emoji-grid">
+                  {pack.stickers.map(sticker => sticker.imageUrl ? (
+                    <img
+                      key={sticker.id}
+                      src={sticker.imageUrl}
+                      alt={sticker.label || 'Sticker'}
+                      className="sticker-preview"
+                      onClick={() => placeSticker(sticker.imageUrl!)}
+                    />
+                  ) : (
+                    <button
+                      key={sticker.id}
+                      title={sticker.label}
+                      className="emoji-sticker"
+                      onClick={() => placeSticker(sticker.content!, true)}
+                    >
+                      {sticker.content}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))}
+
             {/* Premium Stickers */}
             <div className="premium-stickers">
               <h3>Premium Stickers</h3>
@@ -1,52 +1,163 @@
-import React from 'react';
+import React, { useMemo, useState } from 'react';
+import { format } from 'date-fns';
 import { CalendarEvent } from '../types';
+import { EventLayout } from '../services/eventLayout';
 
 interface EventLayerProps {
   events: CalendarEvent[];
+  days: Date[];
   cellDimensions: { width: number; height: number };
   dateToPosition: (dateString: string) => { x: number; y: number };
   visibility: { events: boolean };
+  onEventClick?: (event: CalendarEvent) => void;
+  maxLanes?: number; // Defaults to as many as fit under the date in a cell
 }
 
-export const EventLayer: React.FC<EventLayerProps> = ({ 
-  events, 
-  cellDimensions, 
-  dateToPosition, 
-  visibility 
+const HEADER_HEIGHT = 25;
+const LANE_HEIGHT = 18;
+const MORE_HEIGHT = 16;
+
+export const EventLayer: React.FC<EventLayerProps> = ({
+  events,
+  days,
+  cellDimensions,
+  dateToPosition,
+  visibility,
+  onEventClick,
+  maxLanes
 }) => {
+  const [openDay, setOpenDay] = useState<number | null>(null);
+  const lanes = maxLanes ?? Math.max(1, Math.floor((cellDimensions.height - HEADER_HEIGHT - MORE_HEIGHT) / LANE_HEIGHT));
+  const layout = useMemo(() => EventLayout.layoutSpans(events, days, lanes), [events, days, lanes]);
+  
   if (!visibility.events) return null;
   
   return (
     <>
-      {events.map(event => {
-        const position = dateToPosition(event.startTime.toISOString());
-        const eventHeight = 40;
+      {layout.segments.map(({ event, dayIndex, span, lane, continuesBefore, continuesAfter }) => {
+        const position = dateToPosition(days[dayIndex].toISOString());
+        const spanning = EventLayout.isSpanning(event);
+        const insetLeft = continuesBefore ? 0 : 5;
+        const insetRight = continuesAfter ? 0 : 5;
         
         return (
           <div
-            key={event.id}
+            key={`${event.id}-${dayIndex}`}
+            onClick={() => onEventClick?.(event)}
+            title={event.title}
             style={{
               position: 'absolute',
-              left: position.x + 5,
-              top: position.y + 25,
-              width: cellDimensions.width - 10,
-              height: eventHeight,
-              backgroundColor: event.color || '#3b82f6',
-              borderRadius: 4,
-              padding: '4px 8px',
-              fontSize: 12,
-              color: 'white',
+              left: position.x + insetLeft,
+              top: position.y + HEADER_HEIGHT + lane * LANE_HEIGHT,
+              width: span * cellDimensions.width - insetLeft - insetRight,
+              height: LANE_HEIGHT - 2,
+              lineHeight: `${LANE_HEIGHT - 2}px`,
+              backgroundColor: spanning ? event.color || '#3b82f6' : 'transparent',
+              // Square ends show that the bar carries on into the next or previous row
+              borderRadius: `${insetLeft ? 4 : 0}px ${insetRight ? 4 : 0}px ${insetRight ? 4 : 0}px ${insetLeft ? 4 : 0}px`,
+              padding: '0 6px',
+              boxSizing: 'border-box',
+              fontSize: 11,
+              color: spanning ? 'white' : '#1f2937',
               overflow: 'hidden',
               textOverflow: 'ellipsis',
               whiteSpace: 'nowrap',
               zIndex: 10,
-              boxShadow: '0 1px 3px rgba(0,0,0,0.12)'
+              cursor: onEventClick ? 'pointer' : 'default'
             }}
           >
+            {continuesBefore && '◂ '}
+            {!spanning && (
+              <span style={{ color: event.color || '#3b82f6', marginRight: 4 }}>
+                ● {format(event.startTime, 'h:mmaaa')}
+              </span>
+            )}
+            {event.recurrence && <span title="Recurring event">↻ </span>}
             {event.title}
+            {continuesAfter && ' ▸'}
           </div>
         );
       })}
+      
+      {layout.hiddenByDay.map((hidden, dayIndex) => {
+        if (!hidden) return null;
+        const position = dateToPosition(days[dayIndex].toISOString());
+        
+        return (
+          <div
+            key={`more-${dayIndex}`}
+            onClick={() => setOpenDay(openDay === dayIndex ? null : dayIndex)}
+            style={{
+              position: 'absolute',
+              left: position.x + 5,
+              top: position.y + HEADER_HEIGHT + lanes * LANE_HEIGHT,
+              height: MORE_HEIGHT,
+              fontSize: 11,
+              fontWeight: 600,
+              color: '#4b5563',
+              cursor: 'pointer',
+              zIndex: 11
+            }}
+          >
+            +{hidden} more
+          </div>
+        );
+      })}
+      
+      {openDay !== null && layout.eventsByDay[openDay] && (() => {
+        const position = dateToPosition(days[openDay].toISOString());
+        
+        return (
+          <div
+            style={{
+              position: 'absolute',
+              left: position.x,
+              top: position.y,
+              width: Math.max(cellDimensions.width, 200),
+              maxHeight: 260,
+              overflowY: 'auto',
+              backgroundColor: 'white',
+              borderRadius: 8,
+              boxShadow: '0 4px 16px rgba(0,0,0,0.18)',
+              padding: 8,
+              zIndex: 50
+            }}
+          >
+            <div style={{ display: 'flex', alignItems: 'center', marginBottom: 6 }}>
+              <span style={{ flex: 1, fontSize: 13, fontWeight: 600, color: '#1f2937' }}>
+                {format(days[openDay], 'EEE, MMM d')}
+              </span>
+              <button
+                onClick={() => setOpenDay(null)}
+                style={{ border: 'none', background: 'none', fontSize: 16, cursor: 'pointer', color: '#6b7280' }}
+              >
+                ×
+              </button>
+            </div>
+            {layout.eventsByDay[openDay].map(event => (
+              <div
+                key={event.id}
+                onClick={() => {
+                  onEventClick?.(event);
+                  setOpenDay(null);
+                }}
+                style={{
+                  marginBottom: 4,
+                  padding: '3px 6px',
+                  borderRadius: 4,
+                  fontSize: 12,
+                  color: EventLayout.isSpanning(event) ? 'white' : '#1f2937',
+                  backgroundColor: EventLayout.isSpanning(event) ? event.color || '#3b82f6' : '#f3f4f6',
+                  cursor: onEventClick ? 'pointer' : 'default'
+                }}
+              >
+                {!EventLayout.isSpanning(event) && `${format(event.startTime, 'h:mmaaa')} `}
+                {event.title}
+              </div>
+            ))}
+          </div>
+        );
+      })()}
     </>
   );
-};
\ No newline at end of file
+};
@@ -1,47 +1,198 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { useStore } from '../stores/appStore';
-import { format, differenceInDays } from 'date-fns';
+import { format, differenceInDays, differenceInCalendarDays, addDays, startOfDay } from 'date-fns';
+import { RecurrenceEngine } from '../services/recurrence';
+import { ProjectSchedule } from '../services/projectSchedule';
+import { DependencyType, EventOccurrence } from '../types';
+
+const NAME_WIDTH = 200;
+const ROW_HEIGHT = 40;
+const DAY = 24 * 60 * 60 * 1000;
+
+const DEPENDENCY_LABELS: Record<DependencyType, string> = {
+  FS: 'Finish → Start',
+  SS: 'Start → Start',
+  FF: 'Finish → Finish',
+  SF: 'Start → Finish'
+};
+
+type Drag =
+  | { kind: 'move'; eventId: string; originX: number; deltaDays: number }
+  | { kind: 'link'; fromId: string; x: number; y: number };
 
 export const GanttChart: React.FC = () => {
-  const { events } = useStore();
+  const {
+    events,
+    recurrenceOverrides,
+    goals,
+    projectBaseline,
+    setProjectBaseline,
+    addEventDependency,
+    updateEventDependency,
+    removeEventDependency,
+    moveEventWithSuccessors
+  } = useStore();
   const [viewMode, setViewMode] = useState<'week' | 'month'>('week');
+  const [timelineWidth, setTimelineWidth] = useState(600);
+  const [drag, setDrag] = useState<Drag | null>(null);
+  const [selectedLink, setSelectedLink] = useState<{ successorId: string; predecessorId: string } | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const bodyRef = useRef<HTMLDivElement>(null);
   
-  // Filter and sort events for Gantt chart
-  const ganttEvents = events
-    .filter(event => event.endTime > event.startTime) // Only events with duration
-    .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+  // Filter events for Gantt chart
+  const durationEvents = events.filter(event => event.endTime > event.startTime); // Only events with duration
+  const plannable = useMemo(() => durationEvents.filter(event => !event.recurrence), [events]);
   
   // Calculate date range
-  const startDate = ganttEvents.length > 0 
-    ? new Date(Math.min(...ganttEvents.map(e => e.startTime.getTime())))
-    : new Date();
+  let startDate = durationEvents.length > 0
+    ? startOfDay(new Date(Math.min(...durationEvents.map(e => e.startTime.getTime()))))
+    : startOfDay(new Date());
     
-  const endDate = ganttEvents.length > 0 
-    ? new Date(Math.max(...ganttEvents.map(e => e.endTime.getTime())))
+  // Open-ended series are shown up to a month ahead
+  let endDate = durationEvents.length > 0
+    ? new Date(Math.max(...durationEvents.map(e => e.recurrence
+        ? Math.max(e.endTime.getTime(), Date.now() + 30 * 24 * 60 * 60 * 1000)
+        : e.endTime.getTime())))
     : new Date(startDate.getTime() + 7 * 24 * 60 * 60 * 1000); // Default to 1 week
-  
+    
   // Adjust dates based on view mode
   if (viewMode === 'week') {
     // Show current week
-    const today = new Date();
-    const dayOfWeek = today.getDay();
-    startDate.setTime(today.getTime() - dayOfWeek * 24 * 60 * 60 * 1000);
-    endDate.setTime(startDate.getTime() + 6 * 24 * 60 * 60 * 1000);
+    const today = startOfDay(new Date());
+    startDate = addDays(today, -today.getDay());
+    endDate = addDays(startDate, 6);
   }
   
-  const totalDays = differenceInDays(endDate, startDate) + 1;
+  const totalDays = differenceInCalendarDays(endDate, startDate) + 1;
+  const dayWidth = timelineWidth / totalDays;
+  
+  // Expand recurring events into the occurrences inside the chart range
+  const rangeStart = startDate.getTime();
+  const ganttEvents = useMemo(
+    () => RecurrenceEngine.expandAll(durationEvents, startDate, addDays(startDate, totalDays), recurrenceOverrides),
+    [events, recurrenceOverrides, rangeStart, totalDays]
+  );
+  
+  // A bar being dragged shows where it and its successors would land
+  const preview = useMemo(() => {
+    if (drag?.kind !== 'move' || drag.deltaDays === 0) return new Map();
+    const event = plannable.find(e => e.id === drag.eventId);
+    return event ? ProjectSchedule.reschedule(plannable, event.id, addDays(event.startTime, drag.deltaDays)) : new Map();
+  }, [drag, plannable]);
+  
+  const critical = useMemo(() => ProjectSchedule.criticalPath(plannable), [plannable]);
   
-  // Calculate bar position and width
-  const calculateBarPosition = (event: any) => {
-    const startOffset = differenceInDays(event.startTime, startDate);
-    const duration = differenceInDays(event.endTime, event.startTime) + 1;
+  // Keep pixel positions in step with the chart's width
+  useEffect(() => {
+    const measure = () => {
+      if (bodyRef.current) setTimelineWidth(Math.max(100, bodyRef.current.clientWidth - NAME_WIDTH));
+    };
+    measure();
+    window.addEventListener('resize', measure);
+    return () => window.removeEventListener('resize', measure);
+  }, []);
+  
+  // Track the pointer on the window so a drag can leave its bar
+  useEffect(() => {
+    if (!drag) return;
+    
+    const handleMouseMove = (e: MouseEvent) => {
+      if (drag.kind === 'move') {
+        const deltaDays = Math.round((e.clientX - drag.originX) / dayWidth);
+        if (deltaDays !== drag.deltaDays) setDrag({ ...drag, deltaDays });
+      } else if (bodyRef.current) {
+        const rect = bodyRef.current.getBoundingClientRect();
+        setDrag({ ...drag, x: e.clientX - rect.left - NAME_WIDTH, y: e.clientY - rect.top + bodyRef.current.scrollTop });
+      }
+    };
     
-    const left = Math.max(0, (startOffset / totalDays) * 100);
-    const width = Math.min(100 - left, (duration / totalDays) * 100);
+    const handleMouseUp = () => {
+      setDrag(null);
+      if (drag.kind !== 'move' || drag.deltaDays === 0) return;
+      const event = plannable.find(e => e.id === drag.eventId);
+      if (event) moveEventWithSuccessors(event.id, addDays(event.startTime, drag.deltaDays));
+    };
+    
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [drag, dayWidth, plannable]);
+  
+  const toX = (time: Date) => ((time.getTime() - startDate.getTime()) / DAY) * dayWidth;
+  
+  // Calculate bar position and width, following a drag in progress
+  const calculateBarPosition = (event: EventOccurrence) => {
+    const moved = preview.get(event.id);
+    const start = moved?.startTime || event.startTime;
+    const end = moved?.endTime || event.endTime;
+    const left = Math.max(0, toX(start));
+    const right = Math.min(timelineWidth, toX(end));
     
-    return { left: `${left}%`, width: `${width}%` };
+    return { left, width: Math.max(6, right - left) };
   };
   
+  const rowOf = new Map(ganttEvents.map((event, index) => [event.id, index]));
+  const rowMiddle = (index: number) => index * ROW_HEIGHT + ROW_HEIGHT / 2;
+  
+  // Elbow connectors from the predecessor's start or finish to the successor's
+  const arrows = ganttEvents.flatMap(event => (event.recurrence ? [] : event.dependencies || [])
+    .filter(dependency => rowOf.has(dependency.predecessorId))
+    .map(dependency => {
+      const predecessor = ganttEvents[rowOf.get(dependency.predecessorId)!];
+      const from = calculateBarPosition(predecessor);
+      const to = calculateBarPosition(event);
+      const fromFinish = dependency.type === 'FS' || dependency.type === 'FF';
+      const toFinish = dependency.type === 'FF' || dependency.type === 'SF';
+      const x1 = fromFinish ? from.left + from.width : from.left;
+      const x2 = toFinish ? to.left + to.width : to.left;
+      const y1 = rowMiddle(rowOf.get(predecessor.id)!);
+      const y2 = rowMiddle(rowOf.get(event.id)!);
+      const out = x1 + (fromFinish ? 8 : -8);
+      const into = x2 + (toFinish ? 8 : -8);
+      const turn = y2 + (y2 > y1 ? -ROW_HEIGHT / 2 : ROW_HEIGHT / 2);
+      
+      return {
+        key: `${dependency.predecessorId}->${event.id}`,
+        successorId: event.id,
+        predecessorId: dependency.predecessorId,
+        path: `M ${x1} ${y1} H ${out} V ${turn} H ${into} V ${y2} H ${x2}`,
+        critical: critical.has(event.id) && critical.has(dependency.predecessorId)
+      };
+    }));
+    
+  // Goal milestones sit at the finish of their linked event, or on their own date
+  const milestones = goals.flatMap(goal => goal.milestones
+    .map(milestone => {
+      const event = milestone.eventId ? events.find(e => e.id === milestone.eventId) : undefined;
+      const at = event ? preview.get(event.id)?.endTime || event.endTime : milestone.dueDate;
+      return at ? { goal, milestone, at, critical: !!event && critical.has(event.id) } : null;
+    })
+    .filter(Boolean) as Array<{ goal: typeof goals[number]; milestone: typeof goals[number]['milestones'][number]; at: Date; critical: boolean }>
+  ).filter(({ at }) => at >= startDate && at <= addDays(startDate, totalDays));
+  const milestoneGoals = Array.from(new Set(milestones.map(({ goal }) => goal)));
+  
+  const startLink = (e: React.MouseEvent, fromId: string) => {
+    e.stopPropagation();
+    e.preventDefault();
+    setDrag({ kind: 'link', fromId, x: 0, y: 0 });
+  };
+  
+  const finishLink = (successorId: string) => {
+    if (drag?.kind !== 'link' || drag.fromId === successorId) return;
+    if (!addEventDependency(successorId, drag.fromId)) {
+      setMessage('That link would make the events depend on each other in a loop.');
+    } else {
+      setMessage(null);
+    }
+  };
+  
+  const selectedEvent = selectedLink && events.find(e => e.id === selectedLink.successorId);
+  const selectedDependency = selectedEvent?.dependencies?.find(d => d.predecessorId === selectedLink!.predecessorId);
+  const selectedPredecessor = selectedLink && events.find(e => e.id === selectedLink.predecessorId);
+  
   return (
     <div style={{
       padding: 20,
@@ -49,15 +200,43 @@ export const GanttChart: React.FC = () => {
       borderRadius: 8,
       boxShadow: '0 1px 3px rgba(0,0,0,0.1)'
     }}>
-      <div style={{ 
-        display: 'flex', 
-        justifyContent: 'space-between', 
+      <div style={{
+        display: 'flex',
+        justifyContent: 'space-between',
         alignItems: 'center',
         marginBottom: 20
       }}>
         <h2 style={{ margin: 0, color: '#1f2937' }}>Gantt Chart</h2>
-        <div>
-          <select 
+        <div style={{ display: 'flex', gap: 8 }}>
+          <button
+            onClick={() => setProjectBaseline(ProjectSchedule.snapshot(plannable))}
+            style={{
+              padding: '8px 12px',
+              border: '1px solid #d1d5db',
+              borderRadius: 6,
+              fontSize: 14,
+              backgroundColor: 'white',
+              cursor: 'pointer'
+            }}
+          >
+            {projectBaseline ? 'Update baseline' : 'Save baseline'}
+          </button>
+          {projectBaseline && (
+            <button
+              onClick={() => setProjectBaseline(null)}
+              style={{
+                padding: '8px 12px',
+                border: '1px solid #d1d5db',
+                borderRadius: 6,
+                fontSize: 14,
+                backgroundColor: 'white',
+                cursor: 'pointer'
+              }}
+            >
+              Clear baseline
+            </button>
+          )}
+          <select
             value={viewMode}
             onChange={(e) => setViewMode(e.target.value as any)}
             style={{
@@ -74,10 +253,16 @@ export const GanttChart: React.FC = () => {
         </div>
       </div>
       
+      {message && (
+        <div style={{ marginBottom: 10, padding: '8px 12px', backgroundColor: '#fef2f2', color: '#b91c1c', borderRadius: 6, fontSize: 13 }}>
+          {message}
+        </div>
+      )}
+      
       {ganttEvents.length === 0 ? (
-        <div style={{ 
-          textAlign: 'center', 
-          padding: 40, 
+        <div style={{
+          textAlign: 'center',
+          padding: 40,
           color: '#6b7280',
           fontStyle: 'italic'
         }}>
@@ -86,21 +271,20 @@ export const GanttChart: React.FC = () => {
       ) : (
         <div>
           {/* Timeline header */}
-          <div style={{ 
-            display: 'flex', 
+          <div style={{
+            display: 'flex',
             marginBottom: 10,
-            paddingLeft: 200 // Space for task names
+            paddingLeft: NAME_WIDTH // Space for task names
           }}>
             {Array.from({ length: totalDays }).map((_, index) => {
-              const date = new Date(startDate);
-              date.setDate(startDate.getDate() + index);
+              const date = addDays(startDate, index);
               return (
-                <div 
+                <div
                   key={index}
-                  style={{ 
-                    flex: 1, 
-                    textAlign: 'center', 
-                    fontSize: 12, 
+                  style={{
+                    flex: 1,
+                    textAlign: 'center',
+                    fontSize: 12,
                     color: '#6b7280',
                     borderLeft: '1px solid #e5e7eb',
                     padding: '2px 0'
@@ -116,46 +300,79 @@ export const GanttChart: React.FC = () => {
           </div>
           
           {/* Gantt bars */}
-          <div style={{ 
-            maxHeight: 400, 
-            overflowY: 'auto',
-            border: '1px solid #e5e7eb',
-            borderRadius: 6
-          }}>
+          <div
+            ref={bodyRef}
+            style={{
+              maxHeight: 400,
+              overflowY: 'auto',
+              border: '1px solid #e5e7eb',
+              borderRadius: 6,
+              position: 'relative',
+              userSelect: 'none'
+            }}
+          >
             {ganttEvents.map((event, index) => {
               const barStyle = calculateBarPosition(event);
+              const baseline = projectBaseline?.bars[event.id];
+              const slip = baseline ? differenceInCalendarDays(event.endTime, baseline.endTime) : 0;
+              const draggable = !event.recurrence;
               
               return (
-                <div 
+                <div
                   key={event.id}
-                  style={{ 
-                    display: 'flex', 
+                  style={{
+                    display: 'flex',
                     alignItems: 'center',
-                    minHeight: 40,
-                    borderBottom: index < ganttEvents.length - 1 ? '1px solid #f3f4f6' : 'none'
+                    height: ROW_HEIGHT,
+                    boxSizing: 'border-box',
+                    borderBottom: index < ganttEvents.length - 1 || milestoneGoals.length > 0 ? '1px solid #f3f4f6' : 'none'
                   }}
                 >
                   {/* Task name */}
-                  <div style={{ 
-                    width: 200, 
+                  <div style={{
+                    width: NAME_WIDTH,
+                    flexShrink: 0,
+                    boxSizing: 'border-box',
                     padding: '0 15px',
                     fontWeight: '500',
-                    color: '#1f2937',
+                    color: critical.has(event.id) ? '#b91c1c' : '#1f2937',
                     whiteSpace: 'nowrap',
                     overflow: 'hidden',
                     textOverflow: 'ellipsis'
                   }}>
                     {event.title}
+                    {slip !== 0 && (
+                      <span style={{ marginLeft: 6, fontSize: 11, color: slip > 0 ? '#dc2626' : '#16a34a' }}>
+                        {slip > 0 ? `+${slip}d` : `${slip}d`}
+                      </span>
+                    )}
                   </div>
                   
                   {/* Timeline bar container */}
-                  <div style={{ 
-                    flex: 1, 
-                    height: 30, 
+                  <div style={{
+                    flex: 1,
+                    height: 30,
                     position: 'relative',
                     backgroundColor: '#f9fafb'
                   }}>
+                    {baseline && (
+                      <div
+                        title={`Baseline: ${format(baseline.startTime, 'MMM d')} – ${format(baseline.endTime, 'MMM d')}`}
+                        style={{
+                          position: 'absolute',
+                          top: 26,
+                          left: Math.max(0, toX(baseline.startTime)),
+                          width: Math.max(6, Math.min(timelineWidth, toX(baseline.endTime)) - Math.max(0, toX(baseline.startTime))),
+                          height: 4,
+                          backgroundColor: '#9ca3af',
+                          borderRadius: 2
+                        }}
+                      />
+                    )}
                     <div
+                      onMouseDown={draggable ? (e) => setDrag({ kind: 'move', eventId: event.id, originX: e.clientX, deltaDays: 0 }) : undefined}
+                      onMouseUp={() => finishLink(event.id)}
+                      title={`${event.title}: ${format(event.startTime, 'MMM d, h:mm a')} – ${format(event.endTime, 'MMM d, h:mm a')}`}
                       style={{
                         position: 'absolute',
                         top: 5,
@@ -164,16 +381,17 @@ export const GanttChart: React.FC = () => {
                         height: 20,
                         backgroundColor: event.color || '#3b82f6',
                         borderRadius: 4,
+                        boxShadow: critical.has(event.id) ? '0 0 0 2px #dc2626' : 'none',
                         display: 'flex',
                         alignItems: 'center',
                         justifyContent: 'center',
                         color: 'white',
                         fontSize: 10,
                         fontWeight: 'bold',
-                        overflow: 'hidden'
+                        cursor: draggable ? 'grab' : 'default'
                       }}
                     >
-                      <span style={{ 
+                      <span style={{
                         padding: '0 5px',
                         textOverflow: 'ellipsis',
                         overflow: 'hidden',
@@ -181,26 +399,176 @@ export const GanttChart: React.FC = () => {
                       }}>
                         {differenceInDays(event.endTime, event.startTime) + 1}d
                       </span>
+                      {draggable && (
+                        <div
+                          onMouseDown={(e) => startLink(e, event.id)}
+                          title="Drag onto another bar to link it after this one"
+                          style={{
+                            position: 'absolute',
+                            right: -5,
+                            top: 5,
+                            width: 10,
+                            height: 10,
+                            borderRadius: '50%',
+                            backgroundColor: 'white',
+                            border: `2px solid ${event.color || '#3b82f6'}`,
+                            boxSizing: 'border-box',
+                            cursor: 'crosshair'
+                          }}
+                        />
+                      )}
                     </div>
                   </div>
                 </div>
               );
             })}
+            
+            {/* One row of milestone diamonds per goal */}
+            {milestoneGoals.map(goal => (
+              <div key={goal.id} style={{ display: 'flex', alignItems: 'center', height: ROW_HEIGHT, borderBottom: '1px solid #f3f4f6' }}>
+                <div style={{
+                  width: NAME_WIDTH,
+                  flexShrink: 0,
+                  boxSizing: 'border-box',
+                  padding: '0 15px',
+                  color: '#6b7280',
+                  fontStyle: 'italic',
+                  whiteSpace: 'nowrap',
+                  overflow: 'hidden',
+                  textOverflow: 'ellipsis'
+                }}>
+                  ◆ {goal.title}
+                </div>
+                <div style={{ flex: 1, height: 30, position: 'relative' }}>
+                  {milestones.filter(m => m.goal === goal).map(({ milestone, at, critical: onCriticalPath }) => (
+                    <div
+                      key={milestone.id}
+                      title={`${milestone.title} – ${format(at, 'MMM d')}${milestone.completed ? ' (done)' : ''}`}
+                      style={{
+                        position: 'absolute',
+                        left: toX(at) - 7,
+                        top: 8,
+                        width: 14,
+                        height: 14,
+                        transform: 'rotate(45deg)',
+                        backgroundColor: milestone.completed ? '#16a34a' : onCriticalPath ? '#dc2626' : '#f59e0b'
+                      }}
+                    />
+                  ))}
+                </div>
+              </div>
+            ))}
+            
+            <svg
+              width={timelineWidth}
+              height={(ganttEvents.length + milestoneGoals.length) * ROW_HEIGHT}
+              style={{ position: 'absolute', top: 0, left: NAME_WIDTH, pointerEvents: 'none', overflow: 'visible' }}
+            >
+              <defs>
+                <marker id="gantt-arrow" markerWidth="8" markerHeight="8" refX="7" refY="4" orient="auto">
+                  <path d="M 0 0 L 8 4 L 0 8 z" fill="#6b7280" />
+                </marker>
+                <marker id="gantt-arrow-critical" markerWidth="8" markerHeight="8" refX="7" refY="4" orient="auto">
+                  <path d="M 0 0 L 8 4 L 0 8 z" fill="#dc2626" />
+                </marker>
+              </defs>
+              {arrows.map(arrow => {
+                const selected = selectedLink?.successorId === arrow.successorId && selectedLink.predecessorId === arrow.predecessorId;
+                return (
+                  <g key={arrow.key}>
+                    {/* Wide invisible stroke makes the thin connector easy to click */}
+                    <path
+                      d={arrow.path}
+                      fill="none"
+                      stroke="transparent"
+                      strokeWidth={10}
+                      style={{ pointerEvents: 'stroke', cursor: 'pointer' }}
+                      onClick={() => setSelectedLink({ successorId: arrow.successorId, predecessorId: arrow.predecessorId })}
+                    />
+                    <path
+                      d={arrow.path}
+                      fill="none"
+                      stroke={arrow.critical ? '#dc2626' : '#6b7280'}
+                      strokeWidth={selected ? 3 : 1.5}
+                      markerEnd={`url(#${arrow.critical ? 'gantt-arrow-critical' : 'gantt-arrow'})`}
+                    />
+                  </g>
+                );
+              })}
+              {drag?.kind === 'link' && rowOf.has(drag.fromId) && (() => {
+                const from = calculateBarPosition(ganttEvents[rowOf.get(drag.fromId)!]);
+                return (
+                  <line
+                    x1={from.left + from.width}
+                    y1={rowMiddle(rowOf.get(drag.fromId)!)}
+                    x2={drag.x}
+                    y2={drag.y}
+                    stroke="#3b82f6"
+                    strokeDasharray="4 3"
+                  />
+                );
+              })()}
+            </svg>
           </div>
         </div>
       )}
       
-      <div style={{ 
-        marginTop: 20, 
-        padding: 15, 
-        backgroundColor: '#f0f9ff', 
+      {selectedEvent && selectedDependency && selectedPredecessor && (
+        <div style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: 10,
+          marginTop: 10,
+          padding: '8px 12px',
+          backgroundColor: '#f9fafb',
+          borderRadius: 6,
+          fontSize: 13
+        }}>
+          <span style={{ flex: 1 }}>
+            <strong>{selectedPredecessor.title}</strong> → <strong>{selectedEvent.title}</strong>
+          </span>
+          <select
+            value={selectedDependency.type}
+            onChange={(e) => updateEventDependency(selectedEvent.id, selectedPredecessor.id, { type: e.target.value as DependencyType })}
+            style={{ padding: '4px 8px', border: '1px solid #d1d5db', borderRadius: 4 }}
+          >
+            {(Object.keys(DEPENDENCY_LABELS) as DependencyType[]).map(type => (
+              <option key={type} value={type}>{DEPENDENCY_LABELS[type]}</option>
+            ))}
+          </select>
+          <label>
+            Lag (days){' '}
+            <input
+              type="number"
+              value={(selectedDependency.lagMinutes || 0) / (24 * 60)}
+              onChange={(e) => updateEventDependency(selectedEvent.id, selectedPredecessor.id, { lagMinutes: Math.round(Number(e.target.value) * 24 * 60) })}
+              style={{ width: 50, padding: '4px', border: '1px solid #d1d5db', borderRadius: 4 }}
+            />
+          </label>
+          <button
+            onClick={() => {
+              removeEventDependency(selectedEvent.id, selectedPredecessor.id);
+              setSelectedLink(null);
+            }}
+            style={{ padding: '4px 10px', border: 'none', borderRadius: 4, backgroundColor: '#fee2e2', color: '#b91c1c', cursor: 'pointer' }}
+          >
+            Remove link
+          </button>
+        </div>
+      )}
+      
+      <div style={{
+        marginTop: 20,
+        padding: 15,
+        backgroundColor: '#f0f9ff',
         borderRadius: 6,
         fontSize: 14,
         color: '#0369a1'
       }}>
-        <strong>Tip:</strong> Create events with both start and end times to appear in this Gantt chart. 
-        Drag the edges of bars to adjust event durations.
+        <strong>Tip:</strong> Create events with both start and end times to appear in this Gantt chart.
+        Drag a bar to reschedule it along with everything that depends on it, or drag the dot at its end onto
+        another bar to link them. Red bars are on the critical path; grey lines show the saved baseline.
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -1,56 +1,11 @@
 import React, { useState } from 'react';
 import { format, differenceInDays } from 'date-fns';
-
-interface Goal {
-  id: string;
-  title: string;
-  description: string;
-  targetDate: Date;
-  priority: 'low' | 'medium' | 'high';
-  progress: number; // 0-100
-  milestones: Milestone[];
-  category: string;
-}
-
-interface Milestone {
-  id: string;
-  title: string;
-  completed: boolean;
-  dueDate?: Date;
-}
+import { useStore } from '../stores/appStore';
+import { Goal } from '../types';
 
 export const GoalTracker: React.FC = () => {
-  const [goals, setGoals] = useState<Goal[]>([
-    {
-      id: 'goal1',
-      title: 'Learn React Native',
-      description: 'Build a mobile app using React Native framework',
-      targetDate: new Date(new Date().setMonth(new Date().getMonth() + 3)),
-      priority: 'high',
-      progress: 45,
-      category: 'Learning',
-      milestones: [
-        { id: 'm1', title: 'Complete basic tutorial', completed: true },
-        { id: 'm2', title: 'Build sample project', completed: true },
-        { id: 'm3', title: 'Deploy to app stores', completed: false }
-      ]
-    },
-    {
-      id: 'goal2',
-      title: 'Run a Marathon',
-      description: 'Complete a full marathon (42.195 km)',
-      targetDate: new Date(new Date().setMonth(new Date().getMonth() + 6)),
-      priority: 'medium',
-      progress: 20,
-      category: 'Health',
-      milestones: [
-        { id: 'm4', title: 'Run 5K', completed: true },
-        { id: 'm5', title: 'Run 10K', completed: false },
-        { id: 'm6', title: 'Run half marathon', completed: false },
-        { id: 'm7', title: 'Run full marathon', completed: false }
-      ]
-    }
-  ]);
+  // Goals live in the store so the Gantt chart can show their milestones
+  const { goals, setGoals, events } = useStore();
   
   const [newGoal, setNewGoal] = useState({
     title: '',
@@ -95,6 +50,14 @@ export const GoalTracker: React.FC = () => {
     ));
   };
   
+  // Tie a milestone to the event whose finish marks it on the Gantt chart
+  const linkMilestone = (goalId: string, milestoneId: string, eventId: string) => {
+    setGoals(goals.map(goal => goal.id === goalId
+      ? { ...goal, milestones: goal.milestones.map(m => m.id === milestoneId ? { ...m, eventId: eventId || undefined } : m) }
+      : goal
+    ));
+  };
+  
   // Toggle milestone completion
   const toggleMilestone = (goalId: string, milestoneId: string) => {
     setGoals(goals.map(goal => {
@@ -531,6 +494,23 @@ export const GoalTracker: React.FC = () => {
                               {format(milestone.dueDate, 'MMM d')}
                             </span>
                           )}
+                          <select
+                            value={milestone.eventId || ''}
+                            onChange={(e) => linkMilestone(goal.id, milestone.id, e.target.value)}
+                            title="Show on the Gantt chart at this event's finish"
+                            style={{ 
+                              marginLeft: 10, 
+                              maxWidth: 140, 
+                              fontSize: 12, 
+                              border: '1px solid #d1d5db', 
+                              borderRadius: 4 
+                            }}
+                          >
+                            <option value="">Not on Gantt</option>
+                            {events.filter(event => !event.recurrence).map(event => (
+                              <option key={event.id} value={event.id}>◆ {event.title}</option>
+                            ))}
+                          </select>
                         </div>
                       ))}
                     </div>
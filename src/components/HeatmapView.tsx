@@ -2,6 +2,20 @@ import React, { useState } from 'react';
 import { useStore } from '../stores/appStore';
 import { format, startOfMonth, endOfMonth, eachDayOfInterval, isSameMonth } from 'date-fns';
 
+// Gray for no activity, then light to dark green
+export const ACTIVITY_COLORS = ['#e5e7eb', '#dcfce7', '#bbf7d0', '#4ade80', '#22c55e'];
+
+// Get color based on activity level relative to the busiest day shown
+export const getActivityColor = (count: number, maxActivity: number) => {
+  if (count === 0) return ACTIVITY_COLORS[0];
+  
+  const intensity = count / maxActivity;
+  if (intensity < 0.25) return ACTIVITY_COLORS[1];
+  if (intensity < 0.5) return ACTIVITY_COLORS[2];
+  if (intensity < 0.75) return ACTIVITY_COLORS[3];
+  return ACTIVITY_COLORS[4];
+};
+
 export const HeatmapView: React.FC = () => {
   const { events, tasks } = useStore();
   const [currentDate, setCurrentDate] = useState(new Date());
@@ -44,17 +58,6 @@ export const HeatmapView: React.FC = () => {
   // Get max activity count for color scaling
   const maxActivity = Math.max(...Object.values(activityCounts), 1);
   
-  // Get color based on activity level
-  const getActivityColor = (count: number) => {
-    if (count === 0) return '#e5e7eb'; // Gray for no activity
-    
-    const intensity = count / maxActivity;
-    if (intensity < 0.25) return '#dcfce7'; // Light green
-    if (intensity < 0.5) return '#bbf7d0';  // Green
-    if (intensity < 0.75) return '#4ade80'; // Medium green
-    return '#22c55e'; // Dark green
-  };
-  
   const navigateMonth = (direction: 'prev' | 'next') => {
     const newDate = new Date(currentDate);
     newDate.setMonth(currentDate.getMonth() + (direction === 'next' ? 1 : -1));
@@ -178,7 +181,7 @@ export const HeatmapView: React.FC = () => {
                     key={dayIndex}
                     style={{
                       aspectRatio: '1/1',
-                      backgroundColor: isCurrentMonth ? getActivityColor(count) : '#f3f4f6',
+                      backgroundColor: isCurrentMonth ? getActivityColor(count, maxActivity) : '#f3f4f6',
                       borderRadius: 4,
                       display: 'flex',
                       alignItems: 'center',
@@ -216,10 +219,7 @@ export const HeatmapView: React.FC = () => {
               style={{
                 width: 20,
                 height: 20,
-                backgroundColor: level === 0 ? '#e5e7eb' : 
-                               level === 1 ? '#dcfce7' : 
-                               level === 2 ? '#bbf7d0' : 
-                               level === 3 ? '#4ade80' : '#22c55e',
+                backgroundColor: ACTIVITY_COLORS[level],
                 borderRadius: 2,
                 margin: '0 2px'
               }}
@@ -0,0 +1,238 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { format, startOfMonth, startOfWeek, addDays, isSameDay, isSameMonth } from 'date-fns';
+import { useStore } from '../stores/appStore';
+import { useHistory, HistoryNode } from '../hooks/useHistory';
+import { LayerState } from '../types';
+
+interface HistoryPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type StoreState = ReturnType<typeof useStore.getState>;
+
+const LAYERS = ['events', 'decorations', 'handwriting', 'tasks'] as const;
+
+// The layers, and the store command they were recorded at
+type PlannerSnapshot = LayerState & { commandId: string | null };
+
+const snapshot = (state: StoreState): PlannerSnapshot => ({
+  events: state.events,
+  decorations: state.decorations,
+  handwriting: state.handwriting,
+  tasks: state.tasks,
+  visibility: state.visibility,
+  commandId: state.historyHead
+});
+
+// Name a store change after the undo command that produced it
+const describeChange = (state: StoreState, prev: StoreState): string => {
+  const command = (id: string | null) => state.history.find(c => c.id === id);
+  if (state.history !== prev.history) {
+    return command(state.historyHead)?.label || 'Edited planner';
+  }
+  if (state.historyHead !== prev.historyHead) {
+    const undone = command(prev.historyHead);
+    return undone && undone.parentId === state.historyHead
+      ? `Undid ${undone.label.toLowerCase()}`
+      : `Redid ${command(state.historyHead)?.label.toLowerCase() || 'edit'}`;
+  }
+  return 'Collaborator edit';
+};
+
+interface HistoryThumbnailProps {
+  state: LayerState;
+  month: Date;
+  width?: number;
+}
+
+// Miniature month page: event bars, sticker dots, ink marks and task ticks per day
+const HistoryThumbnail: React.FC<HistoryThumbnailProps> = ({ state, month, width = 84 }) => {
+  const cell = width / 7;
+  const height = cell * 6;
+  const gridStart = startOfWeek(startOfMonth(month));
+  
+  const days = useMemo(() => Array.from({ length: 42 }, (_, i) => {
+    const day = addDays(gridStart, i);
+    return {
+      day,
+      events: state.events.filter(e => isSameDay(new Date(e.startTime), day)),
+      stickers: state.decorations.filter(d => isSameDay(new Date(d.position.dateX), day)).length,
+      ink: state.handwriting.some(s => isSameDay(new Date(s.position.dateX), day)),
+      tasks: state.tasks.filter(t => isSameDay(new Date(t.date), day)).length
+    };
+  }), [state, gridStart.getTime()]);
+  
+  return (
+    <svg width={width} height={height} style={{ backgroundColor: '#fffdf7', border: '1px solid #e5e7eb', borderRadius: 3, flexShrink: 0 }}>
+      {days.map(({ day, events, stickers, ink, tasks }, i) => {
+        const x = (i % 7) * cell;
+        const y = Math.floor(i / 7) * cell;
+        return (
+          <g key={i} opacity={isSameMonth(day, month) ? 1 : 0.35}>
+            <rect x={x} y={y} width={cell} height={cell} fill="none" stroke="#f1f1f1" strokeWidth={0.5} />
+            {events.slice(0, 3).map((event, j) => (
+              <rect key={event.id} x={x + 1} y={y + 1 + j * 2.5} width={cell - 2} height={1.8} fill={event.color || '#3b82f6'} />
+            ))}
+            {stickers > 0 && <circle cx={x + cell - 2.5} cy={y + cell - 2.5} r={1.6} fill="#f59e0b" />}
+            {ink && <path d={`M${x + 1.5} ${y + cell - 2} q2 -2 4 0`} stroke="#1f2937" strokeWidth={0.6} fill="none" />}
+            {tasks > 0 && <rect x={x + 1.5} y={y + cell - 5} width={2} height={2} fill="#10b981" />}
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ isOpen, onClose }) => {
+  const selectedDate = useStore(state => state.selectedDate);
+  const history = useHistory<PlannerSnapshot>(snapshot(useStore.getState()), { maxHistoryLength: 200 });
+  const { saveToHistory, saveToHistoryImmediate, followTo, getNode, getChildren, markAsSaved, getHistoryInfo, rootId, headId, savedId } = history;
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const targetRef = useRef<PlannerSnapshot | null>(null);
+  
+  // New commands add a node under the head, so an edit after an undo starts a
+  // branch. Undo and redo move the head back to the node they return to.
+  useEffect(() => {
+    return useStore.subscribe((state, prev) => {
+      if (state.history !== prev.history) {
+        saveToHistoryImmediate(snapshot(state), describeChange(state, prev));
+      } else if (state.historyHead !== prev.historyHead) {
+        const target = targetRef.current;
+        targetRef.current = null;
+        followTo(
+          recorded => target ? recorded === target : recorded.commandId === state.historyHead,
+          snapshot(state),
+          describeChange(state, prev)
+        );
+      } else if (LAYERS.some(layer => state[layer] !== prev[layer])) {
+        saveToHistory(snapshot(state), describeChange(state, prev));
+      }
+    });
+  }, [saveToHistory, saveToHistoryImmediate, followTo]);
+  
+  // Versions on another branch are reached by undoing and redoing commands;
+  // anything else, such as a collaborator's edit, is restored as a new edit
+  const handleRestore = (node: HistoryNode<PlannerSnapshot>) => {
+    const { history: commands, historyHead, jumpToCommand, restoreSnapshot } = useStore.getState();
+    const { commandId } = node.state;
+    if (commandId !== historyHead && (commandId === null || commands.some(c => c.id === commandId))) {
+      targetRef.current = node.state;
+      jumpToCommand(commandId);
+    } else {
+      restoreSnapshot(node.state, `Restored "${node.label}"`);
+    }
+    setSelectedId(null);
+  };
+  
+  const info = getHistoryInfo();
+  
+  const renderNode = (node: HistoryNode<PlannerSnapshot>, depth: number): React.ReactNode => {
+    const children = getChildren(node.id);
+    const isHead = node.id === headId;
+    const isSelected = node.id === selectedId;
+    
+    return (
+      <div key={node.id}>
+        <div
+          onClick={() => setSelectedId(isSelected ? null : node.id)}
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: 10,
+            padding: 6,
+            marginLeft: depth * 14,
+            borderLeft: depth > 0 ? '2px solid #e5e7eb' : 'none',
+            borderRadius: 6,
+            backgroundColor: isHead ? '#eff6ff' : isSelected ? '#f9fafb' : 'transparent',
+            cursor: 'pointer'
+          }}
+        >
+          <HistoryThumbnail state={node.state} month={selectedDate} />
+          <div style={{ flex: 1, minWidth: 0 }}>
+            <div style={{ fontSize: 13, fontWeight: isHead ? 600 : 500, color: '#1f2937' }}>
+              {node.label}
+              {node.id === savedId && <span style={{ marginLeft: 6, fontSize: 11, color: '#10b981' }}>Saved</span>}
+            </div>
+            <div style={{ fontSize: 11, color: '#6b7280' }}>{format(node.timestamp, 'h:mm:ss a')}</div>
+          </div>
+          {isHead ? (
+            <span style={{ fontSize: 11, color: '#3b82f6', fontWeight: 600 }}>Current</span>
+          ) : (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                handleRestore(node);
+              }}
+              style={{
+                padding: '4px 10px',
+                fontSize: 12,
+                border: '1px solid #d1d5db',
+                borderRadius: 4,
+                backgroundColor: 'white',
+                cursor: 'pointer'
+              }}
+            >
+              Restore
+            </button>
+          )}
+        </div>
+        
+        {isSelected && (
+          <div style={{ margin: '4px 0 8px', marginLeft: depth * 14 + 6 }}>
+            <HistoryThumbnail state={node.state} month={selectedDate} width={252} />
+          </div>
+        )}
+        
+        {/* A lone child continues the line; siblings are branches and indent */}
+        {children.map(child => renderNode(child, children.length > 1 ? depth + 1 : depth))}
+      </div>
+    );
+  };
+  
+  // Stays mounted while closed so the timeline keeps recording
+  if (!isOpen) return null;
+  
+  const root = getNode(rootId);
+  
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      right: 0,
+      bottom: 0,
+      width: 360,
+      backgroundColor: 'white',
+      boxShadow: '-2px 0 10px rgba(0,0,0,0.1)',
+      display: 'flex',
+      flexDirection: 'column',
+      zIndex: 1000
+    }}>
+      <div style={{ padding: 16, borderBottom: '1px solid #e5e7eb', display: 'flex', alignItems: 'center', gap: 8 }}>
+        <h3 style={{ margin: 0, flex: 1, color: '#1f2937' }}>History</h3>
+        <span style={{ fontSize: 12, color: '#6b7280' }}>
+          {info.nodeCount} versions · {info.branchCount} {info.branchCount === 1 ? 'branch' : 'branches'}
+        </span>
+        <button
+          onClick={markAsSaved}
+          disabled={!info.hasUnsavedChanges}
+          style={{ padding: '4px 10px', fontSize: 12, border: '1px solid #d1d5db', borderRadius: 4, backgroundColor: 'white', cursor: 'pointer' }}
+        >
+          Mark saved
+        </button>
+        <button
+          onClick={onClose}
+          style={{ border: 'none', background: 'none', fontSize: 18, cursor: 'pointer', color: '#6b7280' }}
+        >
+          ×
+        </button>
+      </div>
+      
+      <div style={{ flex: 1, overflowY: 'auto', padding: 10 }}>
+        {root && renderNode(root, 0)}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -4,11 +4,17 @@ import { format, startOfMonth, endOfMonth, eachDayOfInterval, isSameDay, startOf
 // import RealtimeSyncService from '../services/realtimeSync'; // Disabled to prevent connection errors
 import { biometricAuth } from '../services/biometricAuth';
 import { voiceInputService } from '../services/voiceInput';
+import { NaturalLanguageParser } from '../services/naturalLanguage';
 import { darkModeService } from '../services/darkModeService';
 import { enhancedNotificationService } from '../services/enhancedNotifications';
 import { geofencingService } from '../services/geofencingService';
+import { DataImportExportService } from '../services/dataImportExport';
+import { TaskDependencies } from '../services/taskDependencies';
+import { TaskRecurrenceService, REPEAT_PRESETS, RepeatPreset } from '../services/taskRecurrence';
 import MultiFingerGestures from './MultiFingerGestures';
 import { AnalyticsDashboard } from './AnalyticsDashboard';
+import { formatEstimate } from './TaskLayer';
+import { useI18n } from '../hooks/useI18n';
 
 interface MobileAppState {
   events: CalendarEvent[];
@@ -35,6 +41,7 @@ type ActiveTab = 'events' | 'tasks' | 'stickers';
 
 // Memoize the MobileApp component for better performance
 const MobileApp: React.FC = memo(() => {
+  const { language, t } = useI18n();
   const [state, setState] = useState<MobileAppState>({
     events: [],
     tasks: [],
@@ -185,7 +192,7 @@ const MobileApp: React.FC = memo(() => {
       setState(prev => ({
         ...prev,
         events: storedEvents ? JSON.parse(storedEvents) : [],
-        tasks: storedTasks ? JSON.parse(storedTasks) : [],
+        tasks: storedTasks ? DataImportExportService.migrateTasks(JSON.parse(storedTasks)) : [],
         stickers: storedStickers ? JSON.parse(storedStickers) : []
       }));
     } catch (error) {
@@ -264,6 +271,18 @@ const MobileApp: React.FC = memo(() => {
     localStorage.setItem('stickers', JSON.stringify(updatedStickers));
   };
 
+  const updateTask = (id: string, updates: Partial<TaskItem>) => {
+    const updatedTasks = state.tasks.map(task => task.id === id ? { ...task, ...updates } : task);
+    setState(prev => ({ ...prev, tasks: updatedTasks }));
+    localStorage.setItem('tasks', JSON.stringify(updatedTasks));
+  };
+
+  // Move a recurring task on to its next date without completing it
+  const skipTask = (task: TaskItem) => {
+    const updates = TaskRecurrenceService.skip(task);
+    if (updates) updateTask(task.id, updates);
+  };
+
   const checkNotificationPermissions = async () => {
     try {
       const permission = await enhancedNotificationService.requestPermission();
@@ -294,7 +313,7 @@ const MobileApp: React.FC = memo(() => {
         // Parse the voice command for event creation
         const parsedEvent = voiceInputService.parseEventCommand(text);
         if (parsedEvent) {
-          alert(`Event parsed: ${parsedEvent.title}\nDate: ${parsedEvent.date}\nTime: ${parsedEvent.time}`);
+          alert(`Event parsed: ${NaturalLanguageParser.describe(parsedEvent.parsed, t, language)}`);
         }
       },
       (error: string) => {
@@ -802,12 +821,56 @@ const MobileApp: React.FC = memo(() => {
               <div className="tasks-list">
                 {state.tasks.map(task => (
                   <div key={task.id} className="task-item">
-                    <input type="checkbox" />
+                    <input type="checkbox" checked={task.completed} readOnly />
                     <div className="task-info">
-                      <h3>{task.content}</h3>
-                      <p>Due: {new Date(task.date).toLocaleDateString()}</p>
+                      <h3>
+                        {TaskDependencies.isBlocked(task, state.tasks) && <span title="Blocked">🔒 </span>}
+                        {task.content}
+                      </h3>
+                      <p>
+                        Due: {task.dueAt ? format(new Date(task.dueAt), 'MMM d, h:mm a') : new Date(task.date).toLocaleDateString()}
+                        {task.estimateMinutes !== undefined && ` · ⏱ ${formatEstimate(task.estimateMinutes)}`}
+                        {task.assignee && ` · @${task.assignee}`}
+                      </p>
+                      <p>
+                        ↻{' '}
+                        <select
+                          className="task-repeat"
+                          value={TaskRecurrenceService.presetOf(task.recurrence)}
+                          onChange={(e) => updateTask(task.id, { recurrence: TaskRecurrenceService.fromPreset(e.target.value as RepeatPreset, task) })}
+                          aria-label="Repeat"
+                        >
+                          {TaskRecurrenceService.presetOf(task.recurrence) === 'custom' && (
+                            <option value="custom" disabled>{TaskRecurrenceService.describe(task.recurrence!)}</option>
+                          )}
+                          {REPEAT_PRESETS.map(({ preset, label }) => (
+                            <option key={preset} value={preset}>{label}</option>
+                          ))}
+                        </select>
+                        {task.recurrence?.skipped?.length ? ` · skipped ${task.recurrence.skipped.length}×` : ''}
+                      </p>
+                      {task.blockedBy?.length ? (
+                        <p>Waiting on: {TaskDependencies.openBlockers(task, state.tasks).map(blocker => blocker.content).join(', ') || 'nothing (all done)'}</p>
+                      ) : null}
+                      {task.tags?.length ? (
+                        <div className="task-tags">
+                          {task.tags.map(tag => <span key={tag} className="task-tag">#{tag}</span>)}
+                        </div>
+                      ) : null}
+                      {task.subtasks?.length ? (
+                        <ul className="task-subtasks">
+                          {task.subtasks.map(subtask => (
+                            <li key={subtask.id} className={subtask.completed ? 'completed' : ''}>
+                              {subtask.completed ? '☑' : '☐'} {subtask.content}
+                            </li>
+                          ))}
+                        </ul>
+                      ) : null}
                     </div>
                     <div className="task-actions">
+                      {task.recurrence && !task.completed && (
+                        <button onClick={() => skipTask(task)} title="Skip to the next date">⏭️</button>
+                      )}
                       <button>✏️</button>
                       <button>🗑️</button>
                     </div>
@@ -1221,6 +1284,34 @@ const MobileApp: React.FC = memo(() => {
           color: #6c757d;
         }
         
+        .task-tags {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 4px;
+          margin-top: 5px;
+        }
+        
+        .task-tag {
+          padding: 1px 6px;
+          border-radius: 10px;
+          background: #e9ecef;
+          font-size: 0.75rem;
+          color: #495057;
+        }
+        
+        .task-subtasks {
+          list-style: none;
+          margin: 5px 0 0;
+          padding: 0;
+          font-size: 0.85rem;
+          color: #495057;
+        }
+        
+        .task-subtasks li.completed {
+          color: #adb5bd;
+          text-decoration: line-through;
+        }
+        
         .event-actions,
         .task-actions {
           display: flex;
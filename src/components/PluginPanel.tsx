@@ -0,0 +1,236 @@
+import React, { useEffect, useState } from 'react';
+import { useStore } from '../stores/appStore';
+import { pluginManager, Plugin, PluginView } from '../services/pluginManager';
+
+interface PluginPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Ships in public/plugins as an example of a bundled plugin
+const EXAMPLE_MANIFEST = '/plugins/seasonal-stickers/manifest.json';
+
+const STATUS_COLORS: Record<string, string> = {
+  running: '#10b981',
+  starting: '#f59e0b',
+  stopped: '#9ca3af',
+  crashed: '#dc2626'
+};
+
+const smallButton: React.CSSProperties = {
+  padding: '4px 10px',
+  fontSize: 12,
+  border: '1px solid #d1d5db',
+  borderRadius: 4,
+  backgroundColor: 'white',
+  cursor: 'pointer'
+};
+
+// Plugin HTML runs in a frame with scripts, forms and same-origin access all off
+const PluginViewFrame: React.FC<{ view: PluginView }> = ({ view }) => {
+  const selectedDate = useStore(state => state.selectedDate);
+  const [html, setHtml] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [refreshes, setRefreshes] = useState(0);
+  
+  useEffect(() => {
+    let cancelled = false;
+    pluginManager.renderView(view.pluginId, view.id, { selectedDate: selectedDate.toISOString() }).then(
+      (rendered) => {
+        if (cancelled) return;
+        setHtml(rendered);
+        setError(null);
+      },
+      (failure: Error) => {
+        if (!cancelled) setError(failure.message);
+      }
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [view.pluginId, view.id, selectedDate, refreshes]);
+  
+  return (
+    <div style={{ marginTop: 8 }}>
+      <div style={{ display: 'flex', alignItems: 'center', marginBottom: 4 }}>
+        <span style={{ flex: 1, fontSize: 12, fontWeight: 600, color: '#374151' }}>{view.title}</span>
+        <button onClick={() => setRefreshes(count => count + 1)} style={smallButton}>Refresh</button>
+      </div>
+      {error ? (
+        <div style={{ fontSize: 12, color: '#dc2626' }}>{error}</div>
+      ) : (
+        <iframe
+          sandbox=""
+          srcDoc={html}
+          title={view.title}
+          style={{ width: '100%', height: 160, border: '1px solid #e5e7eb', borderRadius: 4, backgroundColor: 'white' }}
+        />
+      )}
+    </div>
+  );
+};
+
+export const PluginPanel: React.FC<PluginPanelProps> = ({ isOpen, onClose }) => {
+  const [, setRevision] = useState(0);
+  const [manifestUrl, setManifestUrl] = useState('');
+  const [installing, setInstalling] = useState(false);
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+  
+  useEffect(() => pluginManager.subscribe(() => setRevision(revision => revision + 1)), []);
+  
+  if (!isOpen) return null;
+  
+  const plugins = pluginManager.getPlugins();
+  const commands = pluginManager.getCommands();
+  const views = pluginManager.getViews();
+  
+  const install = async () => {
+    setInstalling(true);
+    setMessage(null);
+    try {
+      const plugin = await pluginManager.installFromUrl(manifestUrl.trim() || EXAMPLE_MANIFEST);
+      setMessage({ text: `Installed ${plugin.name}`, error: false });
+      setManifestUrl('');
+    } catch (error) {
+      setMessage({ text: error instanceof Error ? error.message : String(error), error: true });
+    } finally {
+      setInstalling(false);
+    }
+  };
+  
+  const runCommand = async (pluginId: string, commandId: string, title: string) => {
+    try {
+      await pluginManager.executeCommand(pluginId, commandId);
+      setMessage({ text: `Ran "${title}"`, error: false });
+    } catch (error) {
+      setMessage({ text: `"${title}" failed: ${error instanceof Error ? error.message : String(error)}`, error: true });
+    }
+  };
+  
+  const toggle = (plugin: Plugin) => {
+    if (plugin.enabled) pluginManager.disablePlugin(plugin.id);
+    else pluginManager.enablePlugin(plugin.id);
+  };
+  
+  const renderPlugin = (plugin: Plugin) => {
+    const status = plugin.manifest ? plugin.status || 'stopped' : plugin.enabled ? 'running' : 'stopped';
+    const pluginCommands = commands.filter(command => command.pluginId === plugin.id);
+    const pluginViews = views.filter(view => view.pluginId === plugin.id);
+    
+    return (
+      <div key={plugin.id} style={{ padding: 10, marginBottom: 8, border: '1px solid #e5e7eb', borderRadius: 6 }}>
+        <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+          <span
+            title={status}
+            style={{ width: 8, height: 8, borderRadius: '50%', backgroundColor: STATUS_COLORS[status], flexShrink: 0 }}
+          />
+          <div style={{ flex: 1, minWidth: 0 }}>
+            <div style={{ fontSize: 13, fontWeight: 600, color: '#1f2937' }}>
+              {plugin.name} <span style={{ fontWeight: 400, color: '#6b7280' }}>{plugin.version}</span>
+            </div>
+            <div style={{ fontSize: 11, color: '#6b7280' }}>{plugin.description || plugin.author}</div>
+          </div>
+          {status === 'crashed' && (
+            <button onClick={() => pluginManager.restartPlugin(plugin.id)} style={smallButton}>Restart</button>
+          )}
+          <button onClick={() => toggle(plugin)} style={smallButton}>{plugin.enabled ? 'Disable' : 'Enable'}</button>
+          {plugin.manifest && (
+            <button onClick={() => pluginManager.unregisterPlugin(plugin.id)} style={{ ...smallButton, color: '#dc2626' }}>
+              Remove
+            </button>
+          )}
+        </div>
+        
+        {plugin.error && status === 'crashed' && (
+          <div style={{ marginTop: 6, fontSize: 12, color: '#dc2626' }}>{plugin.error}</div>
+        )}
+        
+        {plugin.manifest && (
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: 4, marginTop: 6 }}>
+            {plugin.manifest.permissions.length === 0 ? (
+              <span style={{ fontSize: 11, color: '#6b7280' }}>No data access</span>
+            ) : plugin.manifest.permissions.map(permission => (
+              <span key={permission} style={{ fontSize: 11, padding: '1px 6px', borderRadius: 10, backgroundColor: '#eff6ff', color: '#1d4ed8' }}>
+                {permission}
+              </span>
+            ))}
+          </div>
+        )}
+        
+        {plugin.manifest?.rules?.map((rule, index) => (
+          <div key={index} style={{ marginTop: 4, fontSize: 11, color: '#6b7280' }}>Blocks: {rule.veto}</div>
+        ))}
+        
+        {pluginCommands.length > 0 && (
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: 6, marginTop: 8 }}>
+            {pluginCommands.map(command => (
+              <button
+                key={command.id}
+                title={command.description}
+                onClick={() => runCommand(plugin.id, command.id, command.title)}
+                style={smallButton}
+              >
+                {command.title}
+              </button>
+            ))}
+          </div>
+        )}
+        
+        {pluginViews.map(view => <PluginViewFrame key={view.id} view={view} />)}
+      </div>
+    );
+  };
+  
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      right: 0,
+      bottom: 0,
+      width: 360,
+      backgroundColor: 'white',
+      boxShadow: '-2px 0 10px rgba(0,0,0,0.1)',
+      display: 'flex',
+      flexDirection: 'column',
+      zIndex: 1000
+    }}>
+      <div style={{ padding: 16, borderBottom: '1px solid #e5e7eb', display: 'flex', alignItems: 'center', gap: 8 }}>
+        <h3 style={{ margin: 0, flex: 1, color: '#1f2937' }}>Plugins</h3>
+        <button
+          onClick={onClose}
+          style={{ border: 'none', background: 'none', fontSize: 18, cursor: 'pointer', color: '#6b7280' }}
+        >
+          ×
+        </button>
+      </div>
+      
+      <div style={{ padding: 10, borderBottom: '1px solid #e5e7eb' }}>
+        <div style={{ display: 'flex', gap: 6 }}>
+          <input
+            value={manifestUrl}
+            onChange={(e) => setManifestUrl(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && !installing && install()}
+            placeholder={EXAMPLE_MANIFEST}
+            style={{ flex: 1, minWidth: 0, padding: '4px 8px', fontSize: 12, border: '1px solid #d1d5db', borderRadius: 4 }}
+          />
+          <button onClick={install} disabled={installing} style={smallButton}>
+            {installing ? 'Installing…' : 'Install'}
+          </button>
+        </div>
+        {message && (
+          <div style={{ marginTop: 6, fontSize: 12, color: message.error ? '#dc2626' : '#10b981' }}>{message.text}</div>
+        )}
+      </div>
+      
+      <div style={{ flex: 1, overflowY: 'auto', padding: 10 }}>
+        {plugins.length === 0 ? (
+          <div style={{ fontSize: 13, color: '#6b7280', textAlign: 'center', marginTop: 20 }}>
+            No plugins installed. Paste a manifest URL above.
+          </div>
+        ) : plugins.map(renderPlugin)}
+      </div>
+    </div>
+  );
+};
+
+export default PluginPanel;
@@ -0,0 +1,91 @@
+import React from 'react';
+import { useStore } from '../stores/appStore';
+import { CalendarEvent, EventOccurrence, RecurrenceEditScope } from '../types';
+
+interface RecurrenceEditPromptProps {
+  occurrence: EventOccurrence;
+  action: 'edit' | 'delete';
+  updates?: Partial<CalendarEvent>;
+  onClose: () => void;
+}
+
+const SCOPES: Array<{ scope: RecurrenceEditScope; label: string }> = [
+  { scope: 'this', label: 'This event' },
+  { scope: 'following', label: 'This and following events' },
+  { scope: 'all', label: 'All events' }
+];
+
+export const RecurrenceEditPrompt: React.FC<RecurrenceEditPromptProps> = ({
+  occurrence,
+  action,
+  updates = {},
+  onClose
+}) => {
+  const { updateOccurrence, deleteOccurrence } = useStore();
+  
+  const handleScope = (scope: RecurrenceEditScope) => {
+    if (action === 'delete') {
+      deleteOccurrence(occurrence.masterId, occurrence.recurrenceId, scope);
+    } else {
+      updateOccurrence(occurrence.masterId, occurrence.recurrenceId, updates, scope);
+    }
+    onClose();
+  };
+  
+  return (
+    <div
+      role="dialog"
+      aria-label={action === 'delete' ? 'Delete recurring event' : 'Edit recurring event'}
+      style={{
+        position: 'absolute',
+        zIndex: 1000,
+        backgroundColor: 'white',
+        border: '1px solid #e5e7eb',
+        borderRadius: 8,
+        boxShadow: '0 4px 12px rgba(0,0,0,0.15)',
+        padding: 16,
+        minWidth: 240
+      }}
+    >
+      <div style={{ fontWeight: 600, color: '#1f2937', marginBottom: 12 }}>
+        {action === 'delete' ? 'Delete' : 'Edit'} recurring event "{occurrence.title}"
+      </div>
+      
+      {SCOPES.map(({ scope, label }) => (
+        <button
+          key={scope}
+          onClick={() => handleScope(scope)}
+          style={{
+            display: 'block',
+            width: '100%',
+            textAlign: 'left',
+            padding: '8px 12px',
+            marginBottom: 6,
+            border: '1px solid #d1d5db',
+            borderRadius: 6,
+            backgroundColor: 'white',
+            fontSize: 14,
+            cursor: 'pointer'
+          }}
+        >
+          {label}
+        </button>
+      ))}
+      
+      <button
+        onClick={onClose}
+        style={{
+          marginTop: 6,
+          padding: '6px 12px',
+          border: 'none',
+          backgroundColor: 'transparent',
+          color: '#6b7280',
+          fontSize: 14,
+          cursor: 'pointer'
+        }}
+      >
+        Cancel
+      </button>
+    </div>
+  );
+};
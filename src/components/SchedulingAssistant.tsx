@@ -0,0 +1,248 @@
+import React, { useMemo, useState } from 'react';
+import { useStore } from '../stores/appStore';
+import { FreeBusyService, AttendeeCalendar, MeetingSlot } from '../services/freeBusy';
+import { TimeZoneService } from '../services/timeZone';
+
+interface SchedulingAssistantProps {
+  attendees: AttendeeCalendar[]; // Everyone besides the current user
+  title?: string;
+}
+
+const NAME_WIDTH = 180;
+const HOUR_WIDTH = 40;
+const ROW_HEIGHT = 36;
+const DAY = 24 * 60 * 60 * 1000;
+const SEARCH_DAYS = 7;
+
+export const SchedulingAssistant: React.FC<SchedulingAssistantProps> = ({ attendees, title = 'New meeting' }) => {
+  const { events, recurrenceOverrides, displayTimeZone, addEvent } = useStore();
+  const [day, setDay] = useState(() => TimeZoneService.startOfDay(new Date(), displayTimeZone));
+  const [duration, setDuration] = useState(60);
+  const [selected, setSelected] = useState<MeetingSlot | null>(null);
+  const [booked, setBooked] = useState<string | null>(null);
+  
+  // The user's own calendar is the first row
+  const everyone = useMemo<AttendeeCalendar[]>(() => [
+    {
+      id: 'me',
+      name: 'You',
+      timeZone: displayTimeZone,
+      workStartHour: 9,
+      workEndHour: 17,
+      events,
+      overrides: recurrenceOverrides
+    },
+    ...attendees
+  ], [attendees, events, recurrenceOverrides, displayTimeZone]);
+  
+  const dayEnd = new Date(day.getTime() + DAY);
+  const slots = useMemo(
+    () => FreeBusyService.findMeetingSlots(everyone, day, new Date(day.getTime() + SEARCH_DAYS * DAY), duration),
+    [everyone, day, duration]
+  );
+  
+  const toX = (time: Date) => ((time.getTime() - day.getTime()) / (60 * 60 * 1000)) * HOUR_WIDTH;
+  const hours = Array.from({ length: 24 }, (_, hour) => new Date(day.getTime() + hour * 60 * 60 * 1000));
+  
+  const moveDay = (days: number) => {
+    setDay(current => TimeZoneService.startOfDay(new Date(current.getTime() + days * DAY + 12 * 60 * 60 * 1000), displayTimeZone));
+    setSelected(null);
+  };
+  
+  const pick = (slot: MeetingSlot) => {
+    setSelected(slot);
+    setBooked(null);
+    setDay(TimeZoneService.startOfDay(slot.start, displayTimeZone));
+  };
+  
+  const book = () => {
+    if (!selected) return;
+    addEvent({
+      id: `event-${Date.now()}`,
+      title,
+      startTime: selected.start,
+      endTime: selected.end,
+      sourceCalendar: 'native',
+      timestamp: Date.now(),
+      timeZone: displayTimeZone,
+      attendees: attendees
+        .filter(attendee => attendee.email)
+        .map(attendee => ({
+          email: attendee.email!,
+          name: attendee.name,
+          role: attendee.optional ? 'OPT-PARTICIPANT' : 'REQ-PARTICIPANT',
+          status: 'NEEDS-ACTION'
+        }))
+    });
+    setBooked(`Booked ${TimeZoneService.format(selected.start, displayTimeZone, { weekday: 'short', hour: 'numeric', minute: '2-digit' })}`);
+    setSelected(null);
+  };
+  
+  const buttonStyle: React.CSSProperties = {
+    padding: '6px 10px',
+    border: '1px solid #d1d5db',
+    borderRadius: 6,
+    backgroundColor: 'white',
+    cursor: 'pointer'
+  };
+  
+  return (
+    <div style={{
+      padding: 20,
+      backgroundColor: 'white',
+      borderRadius: 8,
+      boxShadow: '0 1px 3px rgba(0,0,0,0.1)'
+    }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 16 }}>
+        <h2 style={{ margin: 0, marginRight: 'auto', color: '#1f2937' }}>Scheduling Assistant</h2>
+        <button onClick={() => moveDay(-1)} style={buttonStyle}>‹</button>
+        <span style={{ minWidth: 130, textAlign: 'center', fontWeight: 500 }}>
+          {TimeZoneService.format(day, displayTimeZone, { weekday: 'short', month: 'short', day: 'numeric' })}
+        </span>
+        <button onClick={() => moveDay(1)} style={buttonStyle}>›</button>
+        <select
+          value={duration}
+          onChange={(e) => {
+            setDuration(Number(e.target.value));
+            setSelected(null);
+          }}
+          style={buttonStyle}
+        >
+          {[15, 30, 45, 60, 90, 120].map(minutes => (
+            <option key={minutes} value={minutes}>{minutes} min</option>
+          ))}
+        </select>
+      </div>
+      
+      {/* Everyone's day as stacked rows, hours in the planner's zone */}
+      <div style={{ overflowX: 'auto', border: '1px solid #e5e7eb', borderRadius: 6 }}>
+        <div style={{ width: NAME_WIDTH + 24 * HOUR_WIDTH, position: 'relative' }}>
+          <div style={{ display: 'flex', borderBottom: '1px solid #e5e7eb' }}>
+            <div style={{ width: NAME_WIDTH, flexShrink: 0 }} />
+            {hours.map(hour => (
+              <div
+                key={hour.getTime()}
+                style={{ width: HOUR_WIDTH, flexShrink: 0, fontSize: 10, color: '#6b7280', borderLeft: '1px solid #f3f4f6', padding: '4px 2px', boxSizing: 'border-box' }}
+              >
+                {TimeZoneService.format(hour, displayTimeZone, { hour: 'numeric' })}
+              </div>
+            ))}
+          </div>
+          
+          {everyone.map(attendee => (
+            <div key={attendee.id} style={{ display: 'flex', height: ROW_HEIGHT, borderBottom: '1px solid #f3f4f6' }}>
+              <div style={{
+                width: NAME_WIDTH,
+                flexShrink: 0,
+                padding: '0 10px',
+                boxSizing: 'border-box',
+                display: 'flex',
+                flexDirection: 'column',
+                justifyContent: 'center',
+                overflow: 'hidden'
+              }}>
+                <span style={{ fontSize: 13, fontWeight: 500, color: '#1f2937', whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }}>
+                  {attendee.name}{attendee.optional && <span style={{ color: '#9ca3af', fontWeight: 400 }}> (optional)</span>}
+                </span>
+                <span style={{ fontSize: 10, color: '#9ca3af' }}>
+                  {TimeZoneService.abbreviation(attendee.timeZone, day)} · {TimeZoneService.format(day, attendee.timeZone, { weekday: 'short', hour: 'numeric', minute: '2-digit' })}
+                </span>
+              </div>
+              <div style={{ position: 'relative', flex: 1, backgroundColor: '#f3f4f6' }}>
+                {FreeBusyService.workingWindows(attendee, day, dayEnd).map(window => (
+                  <div
+                    key={window.start.getTime()}
+                    style={{ position: 'absolute', top: 0, bottom: 0, left: toX(window.start), width: toX(window.end) - toX(window.start), backgroundColor: 'white' }}
+                  />
+                ))}
+                {FreeBusyService.busyBlocks(attendee, day, dayEnd).map(block => (
+                  <div
+                    key={block.start.getTime()}
+                    title={attendee.id === 'me' ? block.titles.join(', ') : 'Busy'}
+                    style={{
+                      position: 'absolute',
+                      top: 6,
+                      bottom: 6,
+                      left: toX(block.start),
+                      width: Math.max(2, toX(block.end) - toX(block.start)),
+                      backgroundColor: attendee.optional ? '#93c5fd' : '#3b82f6',
+                      borderRadius: 3
+                    }}
+                  />
+                ))}
+              </div>
+            </div>
+          ))}
+          
+          {selected && selected.start < dayEnd && selected.end > day && (
+            <div style={{
+              position: 'absolute',
+              top: 0,
+              bottom: 0,
+              left: NAME_WIDTH + toX(selected.start),
+              width: toX(selected.end) - toX(selected.start),
+              backgroundColor: 'rgba(34, 197, 94, 0.2)',
+              border: '2px solid #22c55e',
+              boxSizing: 'border-box',
+              pointerEvents: 'none'
+            }} />
+          )}
+        </div>
+      </div>
+      
+      <h3 style={{ fontSize: 15, margin: '20px 0 8px', color: '#1f2937' }}>Suggested times</h3>
+      {slots.length === 0 ? (
+        <div style={{ color: '#6b7280', fontStyle: 'italic', fontSize: 14 }}>
+          No time in the next {SEARCH_DAYS} days suits every required attendee.
+        </div>
+      ) : (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 6 }}>
+          {slots.map(slot => {
+            const active = selected?.start.getTime() === slot.start.getTime();
+            return (
+              <button
+                key={slot.start.getTime()}
+                onClick={() => pick(slot)}
+                style={{
+                  textAlign: 'left',
+                  padding: '8px 12px',
+                  border: `1px solid ${active ? '#22c55e' : '#e5e7eb'}`,
+                  borderRadius: 6,
+                  backgroundColor: active ? '#f0fdf4' : 'white',
+                  cursor: 'pointer'
+                }}
+              >
+                <div style={{ fontWeight: 500, fontSize: 14, color: '#1f2937' }}>
+                  {TimeZoneService.format(slot.start, displayTimeZone, { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}
+                  {' – '}
+                  {TimeZoneService.format(slot.end, displayTimeZone)}
+                </div>
+                <div style={{ fontSize: 12, color: '#6b7280' }}>{slot.reasons.join(' · ')}</div>
+              </button>
+            );
+          })}
+        </div>
+      )}
+      
+      <div style={{ display: 'flex', alignItems: 'center', gap: 12, marginTop: 16 }}>
+        <button
+          onClick={book}
+          disabled={!selected}
+          style={{
+            padding: '8px 16px',
+            border: 'none',
+            borderRadius: 6,
+            backgroundColor: selected ? '#3b82f6' : '#9ca3af',
+            color: 'white',
+            cursor: selected ? 'pointer' : 'default'
+          }}
+        >
+          Book meeting
+        </button>
+        {booked && <span style={{ color: '#16a34a', fontSize: 14 }}>{booked}</span>}
+      </div>
+    </div>
+  );
+};
+
+export default SchedulingAssistant;
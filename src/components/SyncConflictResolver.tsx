@@ -0,0 +1,147 @@
+import React, { useEffect, useState } from 'react';
+import { useStore } from '../stores/appStore';
+import { CalendarEvent } from '../types';
+import { CalendarSyncService, SyncConflict } from '../services/calendarSync';
+import { MergeableField } from '../services/eventMerge';
+
+interface SyncConflictResolverProps {
+  syncService: CalendarSyncService;
+}
+
+const FIELD_LABELS: Record<MergeableField, string> = {
+  title: 'Title',
+  startTime: 'Starts',
+  endTime: 'Ends',
+  description: 'Description',
+  color: 'Color',
+  location: 'Location',
+  allDay: 'All day',
+  recurrence: 'Repeats',
+  attendees: 'Attendees',
+  alarms: 'Reminders'
+};
+
+const formatValue = (event: CalendarEvent, field: MergeableField): string => {
+  const value = event[field];
+  if (value === undefined || value === null || value === '') return '—';
+  if (value instanceof Date) return value.toLocaleString();
+  if (field === 'attendees') return (event.attendees || []).map(a => a.name || a.email).join(', ');
+  if (field === 'alarms') return (event.alarms || []).map(a => `${a.minutesBefore} min before`).join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+export const SyncConflictResolver: React.FC<SyncConflictResolverProps> = ({ syncService }) => {
+  const { updateEvent } = useStore();
+  const [conflicts, setConflicts] = useState<SyncConflict[]>(() => syncService.getConflicts());
+  const [choices, setChoices] = useState<Record<string, Partial<Record<MergeableField, 'local' | 'remote'>>>>({});
+  const [error, setError] = useState<string | null>(null);
+  
+  useEffect(() => {
+    setConflicts(syncService.getConflicts());
+    return syncService.onConflictsChanged(setConflicts);
+  }, [syncService]);
+  
+  const choose = (conflictId: string, field: MergeableField, side: 'local' | 'remote') => {
+    setChoices(prev => ({ ...prev, [conflictId]: { ...prev[conflictId], [field]: side } }));
+  };
+  
+  const handleResolve = async (conflict: SyncConflict) => {
+    const selected = choices[conflict.id] || {};
+    // Unanswered fields keep the local version
+    const complete = Object.fromEntries(conflict.fields.map(field => [field, selected[field] || 'local']));
+    
+    try {
+      const resolved = await syncService.resolveQueuedConflict(conflict.id, complete);
+      updateEvent(resolved.id, resolved);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to resolve conflict');
+    }
+  };
+  
+  if (conflicts.length === 0) {
+    return null;
+  }
+  
+  return (
+    <div style={{
+      padding: 20,
+      backgroundColor: 'white',
+      borderRadius: 8,
+      boxShadow: '0 1px 3px rgba(0,0,0,0.1)'
+    }}>
+      <h2 style={{ margin: '0 0 4px', color: '#1f2937' }}>Sync Conflicts</h2>
+      <p style={{ margin: '0 0 16px', color: '#6b7280', fontSize: 14 }}>
+        These events were changed both here and in the remote calendar. Pick the version to keep for each field.
+      </p>
+      
+      {error && (
+        <div style={{ marginBottom: 12, padding: 10, backgroundColor: '#fef2f2', color: '#b91c1c', borderRadius: 6, fontSize: 14 }}>
+          {error}
+        </div>
+      )}
+      
+      {conflicts.map(conflict => (
+        <div
+          key={conflict.id}
+          style={{ border: '1px solid #e5e7eb', borderRadius: 6, marginBottom: 16, overflow: 'hidden' }}
+        >
+          <div style={{ padding: '10px 15px', backgroundColor: '#f9fafb', fontWeight: 600, color: '#1f2937' }}>
+            {conflict.local.title || conflict.remote.title}
+          </div>
+          
+          <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 14 }}>
+            <thead>
+              <tr style={{ color: '#6b7280', textAlign: 'left' }}>
+                <th style={{ padding: '8px 15px', width: 120 }}>Field</th>
+                <th style={{ padding: '8px 15px' }}>This device</th>
+                <th style={{ padding: '8px 15px' }}>Remote calendar</th>
+              </tr>
+            </thead>
+            <tbody>
+              {conflict.fields.map(field => {
+                const selected = choices[conflict.id]?.[field] || 'local';
+                return (
+                  <tr key={field} style={{ borderTop: '1px solid #f3f4f6' }}>
+                    <td style={{ padding: '8px 15px', fontWeight: 500 }}>{FIELD_LABELS[field]}</td>
+                    {(['local', 'remote'] as const).map(side => (
+                      <td key={side} style={{ padding: '8px 15px' }}>
+                        <label style={{ display: 'flex', gap: 8, alignItems: 'flex-start', cursor: 'pointer' }}>
+                          <input
+                            type="radio"
+                            name={`${conflict.id}-${field}`}
+                            checked={selected === side}
+                            onChange={() => choose(conflict.id, field, side)}
+                          />
+                          <span>{formatValue(side === 'local' ? conflict.local : conflict.remote, field)}</span>
+                        </label>
+                      </td>
+                    ))}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          
+          <div style={{ padding: '10px 15px', textAlign: 'right' }}>
+            <button
+              onClick={() => handleResolve(conflict)}
+              style={{
+                padding: '8px 16px',
+                backgroundColor: '#3b82f6',
+                color: 'white',
+                border: 'none',
+                borderRadius: 6,
+                fontSize: 14,
+                cursor: 'pointer'
+              }}
+            >
+              Apply choices
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -1,18 +1,32 @@
 import React from 'react';
-import { TaskItem } from '../types';
+import { format } from 'date-fns';
+import { TaskItem, TaskRecurrence } from '../types';
+import { TaskDependencies } from '../services/taskDependencies';
+import { TaskRecurrenceService, REPEAT_PRESETS, RepeatPreset } from '../services/taskRecurrence';
+
+// "1h 30m" style estimate
+export const formatEstimate = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return [hours ? `${hours}h` : '', rest ? `${rest}m` : ''].filter(Boolean).join(' ') || '0m';
+};
 
 interface TaskLayerProps {
   tasks: TaskItem[];
   cellDimensions: { width: number; height: number };
   dateToPosition: (dateString: string) => { x: number; y: number };
   visibility: { tasks: boolean };
+  onSkip?: (task: TaskItem) => void; // Shown on open recurring tasks
+  onRepeatChange?: (task: TaskItem, recurrence: TaskRecurrence | null) => void;
 }
 
 export const TaskLayer: React.FC<TaskLayerProps> = ({ 
   tasks, 
   cellDimensions, 
   dateToPosition, 
-  visibility 
+  visibility,
+  onSkip,
+  onRepeatChange
 }) => {
   if (!visibility.tasks) return null;
   
@@ -20,6 +34,8 @@ export const TaskLayer: React.FC<TaskLayerProps> = ({
     <>
       {tasks.map(task => {
         const position = dateToPosition(task.date);
+        const blockers = TaskDependencies.openBlockers(task, tasks);
+        const subtasksDone = task.subtasks?.filter(subtask => subtask.completed).length || 0;
         
         return (
           <div
@@ -41,7 +57,48 @@ export const TaskLayer: React.FC<TaskLayerProps> = ({
               onChange={() => {}}
               style={{ marginRight: 4 }}
             />
+            {blockers.length > 0 && (
+              <span title={`Blocked by ${blockers.map(blocker => blocker.content).join(', ')}`}>🔒 </span>
+            )}
+            {task.recurrence && (
+              <span title={TaskRecurrenceService.describe(task.recurrence)}>↻ </span>
+            )}
             {task.content}
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: 4, marginLeft: 18, fontSize: 10, color: '#6b7280' }}>
+              {task.dueAt && <span>Due {format(new Date(task.dueAt), 'MMM d, h:mm a')}</span>}
+              {task.estimateMinutes !== undefined && <span>⏱ {formatEstimate(task.estimateMinutes)}</span>}
+              {task.subtasks?.length ? <span>☑ {subtasksDone}/{task.subtasks.length}</span> : null}
+              {task.assignee && <span>@{task.assignee}</span>}
+              {task.tags?.map(tag => (
+                <span key={tag} style={{ padding: '0 4px', borderRadius: 3, backgroundColor: '#e5e7eb', color: '#374151' }}>
+                  #{tag}
+                </span>
+              ))}
+              {onRepeatChange && (
+                <select
+                  value={TaskRecurrenceService.presetOf(task.recurrence)}
+                  onChange={(e) => onRepeatChange(task, TaskRecurrenceService.fromPreset(e.target.value as RepeatPreset, task))}
+                  aria-label="Repeat"
+                  style={{ fontSize: 10, padding: 0, border: 'none', backgroundColor: 'transparent', color: '#6b7280' }}
+                >
+                  {TaskRecurrenceService.presetOf(task.recurrence) === 'custom' && (
+                    <option value="custom" disabled>{TaskRecurrenceService.describe(task.recurrence!)}</option>
+                  )}
+                  {REPEAT_PRESETS.map(({ preset, label }) => (
+                    <option key={preset} value={preset}>{label}</option>
+                  ))}
+                </select>
+              )}
+              {onSkip && task.recurrence && !task.completed && (
+                <button
+                  onClick={() => onSkip(task)}
+                  title="Skip to the next date"
+                  style={{ fontSize: 10, padding: '0 4px', border: '1px solid #d1d5db', borderRadius: 3, backgroundColor: 'white', cursor: 'pointer' }}
+                >
+                  Skip
+                </button>
+              )}
+            </div>
           </div>
         );
       })}
@@ -1,6 +1,12 @@
-import React, { useRef, useEffect, useState } from 'react';
+import React, { useRef, useEffect, useState, useMemo } from 'react';
 import { useStore } from '../stores/appStore';
-import { startOfMonth, endOfMonth, eachDayOfInterval, isSameDay, startOfWeek, endOfWeek } from 'date-fns';
+import { startOfMonth, endOfMonth, eachDayOfInterval, isSameDay, startOfWeek, endOfWeek, addDays } from 'date-fns';
+import { RecurrenceEngine } from '../services/recurrence';
+import { TimeZoneService } from '../services/timeZone';
+import { EventLayer } from './EventLayer';
+import { TaskLayer } from './TaskLayer';
+import { RecurrenceEditPrompt } from './RecurrenceEditPrompt';
+import { CalendarEvent, EventOccurrence } from '../types';
 
 interface VirtualizedCalendarProps {
   width: number;
@@ -16,12 +22,21 @@ export const VirtualizedCalendar: React.FC<VirtualizedCalendarProps> = ({ width,
     visibility,
     selectedDate,
     zoomLevel,
-    viewMode
+    viewMode,
+    recurrenceOverrides,
+    displayTimeZone,
+    updateEvent,
+    deleteEvent,
+    updateTask,
+    skipTask
   } = useStore();
 
   const containerRef = useRef<HTMLDivElement>(null);
   const [visibleRange, setVisibleRange] = useState({ start: 0, end: 0 });
   const [containerDimensions, setContainerDimensions] = useState({ width: 0, height: 0 });
+  const [selected, setSelected] = useState<EventOccurrence | null>(null);
+  const [title, setTitle] = useState('');
+  const [pendingChange, setPendingChange] = useState<{ action: 'edit' | 'delete'; updates?: Partial<CalendarEvent> } | null>(null);
 
   // Calculate container dimensions
   useEffect(() => {
@@ -66,7 +81,43 @@ export const VirtualizedCalendar: React.FC<VirtualizedCalendarProps> = ({ width,
     }
   };
 
-  const days = generateCalendarDays();
+  const days = useMemo(generateCalendarDays, [selectedDate, viewMode]);
+  
+  const occurrences = useMemo(() => {
+    const local = TimeZoneService.getLocalZone();
+    const rangeStart = TimeZoneService.convertWallClock(days[0], local, displayTimeZone);
+    const rangeEnd = TimeZoneService.convertWallClock(addDays(days[days.length - 1], 1), local, displayTimeZone);
+    return RecurrenceEngine.expandAll(events, rangeStart, rangeEnd, recurrenceOverrides)
+      .map(occurrence => TimeZoneService.shiftForDisplay(occurrence, displayTimeZone));
+  }, [events, recurrenceOverrides, selectedDate, viewMode, displayTimeZone]);
+
+  const handleEventClick = (event: CalendarEvent) => {
+    const occurrence = occurrences.find(o => o.id === event.id);
+    if (!occurrence) return;
+    setSelected(occurrence);
+    setTitle(occurrence.title);
+  };
+
+  // Recurring events ask whether the change covers this, following or all occurrences
+  const applyChange = (action: 'edit' | 'delete', updates?: Partial<CalendarEvent>) => {
+    if (!selected) return;
+    if (selected.recurrence) {
+      setPendingChange({ action, updates });
+      return;
+    }
+    
+    if (action === 'delete') {
+      deleteEvent(selected.masterId);
+    } else {
+      updateEvent(selected.masterId, updates || {});
+    }
+    setSelected(null);
+  };
+
+  const closeEditor = () => {
+    setPendingChange(null);
+    setSelected(null);
+  };
 
   // Only render visible days
 
@@ -92,41 +143,26 @@ export const VirtualizedCalendar: React.FC<VirtualizedCalendarProps> = ({ width,
   const renderVisibleEvents = () => {
     if (!visibility.events) return null;
     
-    // Filter events to only those in visible range
-    const visibleEvents = events.filter(event => {
-      const eventDayIndex = days.findIndex(day => isSameDay(day, event.startTime));
-      return eventDayIndex >= visibleRange.start && eventDayIndex <= visibleRange.end;
-    });
-
-    return visibleEvents.map(event => {
-      const position = dateToPosition(event.startTime.toISOString());
-      const eventHeight = 40;
-      
-      return (
-        <div
-          key={event.id}
-          style={{
-            position: 'absolute',
-            left: position.x + 5,
-            top: position.y + 25,
-            width: (containerDimensions.width / 7) * zoomLevel - 10,
-            height: eventHeight,
-            backgroundColor: event.color || '#3b82f6',
-            borderRadius: 4,
-            padding: '4px 8px',
-            fontSize: 12,
-            color: 'white',
-            overflow: 'hidden',
-            textOverflow: 'ellipsis',
-            whiteSpace: 'nowrap',
-            zIndex: 10,
-            boxShadow: '0 1px 3px rgba(0,0,0,0.12)'
-          }}
-        >
-          {event.title}
-        </div>
-      );
-    });
+    // Keep events that touch a visible day, including spans that start before it
+    const firstVisible = days[visibleRange.start];
+    const lastVisible = days[Math.min(visibleRange.end, days.length - 1)];
+    const visibleEvents = firstVisible && lastVisible ? occurrences.filter(event =>
+      event.startTime < addDays(lastVisible, 1) && event.endTime > firstVisible
+    ) : [];
+    
+    const cellWidth = (containerDimensions.width / 7) * zoomLevel;
+    const cellHeight = (viewMode === 'weekly' ? containerDimensions.height / 4 : containerDimensions.height / 6) * zoomLevel;
+    
+    return (
+      <EventLayer
+        events={visibleEvents}
+        days={days}
+        cellDimensions={{ width: cellWidth, height: cellHeight }}
+        dateToPosition={dateToPosition}
+        visibility={visibility}
+        onEventClick={handleEventClick}
+      />
+    );
   };
 
   const renderVisibleDecorations = () => {
@@ -228,33 +264,19 @@ export const VirtualizedCalendar: React.FC<VirtualizedCalendarProps> = ({ width,
       return taskDayIndex >= visibleRange.start && taskDayIndex <= visibleRange.end;
     });
 
-    return visibleTasks.map(task => {
-      const position = dateToPosition(task.date);
-      
-      return (
-        <div
-          key={task.id}
-          style={{
-            position: 'absolute',
-            left: position.x + 5,
-            top: position.y + 70,
-            width: (containerDimensions.width / 7) * zoomLevel - 10,
-            fontSize: 11,
-            color: task.completed ? '#9ca3af' : '#1f2937',
-            textDecoration: task.completed ? 'line-through' : 'none',
-            zIndex: 20
-          }}
-        >
-          <input
-            type="checkbox"
-            checked={task.completed}
-            onChange={() => {}}
-            style={{ marginRight: 4 }}
-          />
-          {task.content}
-        </div>
-      );
-    });
+    return (
+      <TaskLayer
+        tasks={visibleTasks}
+        cellDimensions={{
+          width: (containerDimensions.width / 7) * zoomLevel,
+          height: (viewMode === 'weekly' ? containerDimensions.height / 4 : containerDimensions.height / 6) * zoomLevel
+        }}
+        dateToPosition={dateToPosition}
+        visibility={visibility}
+        onSkip={(task) => skipTask(task.id)}
+        onRepeatChange={(task, recurrence) => updateTask(task.id, { recurrence })}
+      />
+    );
   };
 
   return (
@@ -282,6 +304,50 @@ export const VirtualizedCalendar: React.FC<VirtualizedCalendarProps> = ({ width,
         {renderVisibleDecorations()}
         {renderVisibleHandwriting()}
       </div>
+      
+      {selected && !pendingChange && (
+        <div
+          role="dialog"
+          aria-label="Edit event"
+          style={{
+            position: 'absolute',
+            top: 0,
+            left: 0,
+            zIndex: 1000,
+            backgroundColor: 'white',
+            border: '1px solid #e5e7eb',
+            borderRadius: 8,
+            boxShadow: '0 4px 12px rgba(0,0,0,0.15)',
+            padding: 16,
+            minWidth: 240
+          }}
+        >
+          <input
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            aria-label="Event title"
+            style={{ width: '100%', boxSizing: 'border-box', padding: 6, marginBottom: 12, border: '1px solid #d1d5db', borderRadius: 6 }}
+          />
+          <div style={{ display: 'flex', gap: 8 }}>
+            <button onClick={() => applyChange('edit', { title })} disabled={!title.trim() || title === selected.title}>
+              Save
+            </button>
+            <button onClick={() => applyChange('delete')} style={{ color: '#dc2626' }}>
+              Delete
+            </button>
+            <button onClick={closeEditor}>Cancel</button>
+          </div>
+        </div>
+      )}
+      
+      {selected && pendingChange && (
+        <RecurrenceEditPrompt
+          occurrence={selected}
+          action={pendingChange.action}
+          updates={pendingChange.updates}
+          onClose={closeEditor}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -1,71 +1,77 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
+import {
+  WorkflowEngine,
+  Workflow,
+  WorkflowNode,
+  WorkflowNodeType,
+  WorkflowRun,
+  TriggerConfig,
+  ConditionRule,
+  ConditionOperator,
+  ActionConfig,
+  HOOK_LABELS,
+  OPERATOR_LABELS
+} from '../services/workflowEngine';
+import { webhookService } from '../services/webhookService';
 
-interface WorkflowNode {
-  id: string;
-  type: 'trigger' | 'action' | 'condition' | 'delay';
-  title: string;
-  description: string;
-  position: { x: number; y: number };
-  config: any;
-}
+const NODE_WIDTH = 180;
+const NODE_HEIGHT = 60;
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
 
-interface WorkflowConnection {
-  id: string;
-  sourceNodeId: string;
-  targetNodeId: string;
-}
-
-interface Workflow {
-  id: string;
-  name: string;
-  description: string;
-  nodes: WorkflowNode[];
-  connections: WorkflowConnection[];
-  enabled: boolean;
-}
+const STEP_COLORS: Record<string, string> = {
+  triggered: '#4CAF50',
+  passed: '#4CAF50',
+  done: '#2196F3',
+  simulated: '#2196F3',
+  waiting: '#9C27B0',
+  resumed: '#9C27B0',
+  failed: '#FF9800',
+  error: '#f44336'
+};
 
 const WorkflowBuilder: React.FC = () => {
-  const [workflows, setWorkflows] = useState<Workflow[]>([
-    {
-      id: '1',
-      name: 'Morning Routine',
-      description: 'Automated morning routine workflow',
-      nodes: [
-        {
-          id: 'n1',
-          type: 'trigger',
-          title: 'Time Trigger',
-          description: 'Triggers at 7:00 AM',
-          position: { x: 100, y: 100 },
-          config: { time: '07:00' }
-        },
-        {
-          id: 'n2',
-          type: 'action',
-          title: 'Create Event',
-          description: 'Create "Morning Exercise" event',
-          position: { x: 300, y: 100 },
-          config: { title: 'Morning Exercise', duration: 30 }
-        }
-      ],
-      connections: [
-        { id: 'c1', sourceNodeId: 'n1', targetNodeId: 'n2' }
-      ],
-      enabled: true
-    }
-  ]);
-
-  const [selectedWorkflow, setSelectedWorkflow] = useState<Workflow | null>(workflows[0]);
+  const [workflows, setWorkflows] = useState<Workflow[]>(() => WorkflowEngine.getWorkflows());
+  const [runs, setRuns] = useState<WorkflowRun[]>(() => WorkflowEngine.getRuns());
+  const [selectedId, setSelectedId] = useState<string | null>(workflows[0]?.id ?? null);
+  const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
   const [draggingNode, setDraggingNode] = useState<{ nodeId: string; offsetX: number; offsetY: number } | null>(null);
+  const [connecting, setConnecting] = useState<{ nodeId: string; branch?: 'true' | 'false' } | null>(null);
   const canvasRef = useRef<HTMLDivElement>(null);
-
+  
+  // Runs started by store changes or delays land here while the builder is open
+  useEffect(() => WorkflowEngine.subscribe(() => {
+    setWorkflows(WorkflowEngine.getWorkflows());
+    setRuns([...WorkflowEngine.getRuns()]);
+  }), []);
+  
+  const selectedWorkflow = workflows.find(w => w.id === selectedId) || null;
+  const selectedNode = selectedWorkflow?.nodes.find(n => n.id === selectedNodeId) || null;
+  const workflowRuns = runs.filter(run => run.workflowId === selectedId);
+  const selectedRun = workflowRuns.find(run => run.id === selectedRunId) || null;
+  const path = new Set(selectedRun?.steps.map(step => step.nodeId));
+  
   const nodeTypes = [
     { type: 'trigger', title: 'Trigger', color: '#4CAF50' },
     { type: 'action', title: 'Action', color: '#2196F3' },
     { type: 'condition', title: 'Condition', color: '#FF9800' },
     { type: 'delay', title: 'Delay', color: '#9C27B0' }
   ];
-
+  
+  const saveWorkflow = (workflow: Workflow) => {
+    WorkflowEngine.saveWorkflow(workflow);
+  };
+  
+  const updateNode = (nodeId: string, updates: Partial<WorkflowNode>) => {
+    if (!selectedWorkflow) return;
+    saveWorkflow({
+      ...selectedWorkflow,
+      nodes: selectedWorkflow.nodes.map(node =>
+        node.id === nodeId ? { ...node, ...updates } as WorkflowNode : node
+      )
+    });
+  };
+  
   const handleNodeDragStart = (nodeId: string, e: React.MouseEvent) => {
     if (!selectedWorkflow) return;
     
@@ -81,7 +87,8 @@ const WorkflowBuilder: React.FC = () => {
       offsetY: e.clientY - rect.top - node.position.y
     });
   };
-
+  
+  // Positions only change locally while dragging and are saved on release
   const handleNodeDrag = (e: React.MouseEvent) => {
     if (!draggingNode || !selectedWorkflow || !canvasRef.current) return;
     
@@ -93,89 +100,87 @@ const WorkflowBuilder: React.FC = () => {
       if (workflow.id === selectedWorkflow.id) {
         return {
           ...workflow,
-          nodes: workflow.nodes.map(node => 
-            node.id === draggingNode.nodeId 
-              ? { ...node, position: { x, y } } 
+          nodes: workflow.nodes.map(node =>
+            node.id === draggingNode.nodeId
+              ? { ...node, position: { x, y } }
               : node
           )
         };
       }
       return workflow;
     }));
+  };
+  
+  const handleNodeDragEnd = () => {
+    if (draggingNode && selectedWorkflow) saveWorkflow(selectedWorkflow);
+    setDraggingNode(null);
+  };
+  
+  // Clicking a node while a connection is pending finishes it
+  const handleNodeClick = (nodeId: string) => {
+    if (!selectedWorkflow) return;
+    if (!connecting) {
+      setSelectedNodeId(nodeId);
+      return;
+    }
     
-    if (selectedWorkflow.id === selectedWorkflow.id) {
-      setSelectedWorkflow({
+    const duplicate = selectedWorkflow.connections.some(conn =>
+      conn.sourceNodeId === connecting.nodeId && conn.targetNodeId === nodeId && conn.branch === connecting.branch
+    );
+    if (!duplicate && WorkflowEngine.canConnect(selectedWorkflow, connecting.nodeId, nodeId)) {
+      saveWorkflow({
         ...selectedWorkflow,
-        nodes: selectedWorkflow.nodes.map(node => 
-          node.id === draggingNode.nodeId 
-            ? { ...node, position: { x, y } } 
-            : node
-        )
+        connections: [
+          ...selectedWorkflow.connections,
+          {
+            id: `conn-${Date.now()}`,
+            sourceNodeId: connecting.nodeId,
+            targetNodeId: nodeId,
+            ...(connecting.branch && { branch: connecting.branch })
+          }
+        ]
       });
     }
+    setConnecting(null);
   };
-
-  const handleNodeDragEnd = () => {
-    setDraggingNode(null);
+  
+  const deleteConnection = (connectionId: string) => {
+    if (!selectedWorkflow) return;
+    saveWorkflow({
+      ...selectedWorkflow,
+      connections: selectedWorkflow.connections.filter(conn => conn.id !== connectionId)
+    });
   };
-
-  const addNode = (type: string) => {
+  
+  const addNode = (type: WorkflowNodeType) => {
     if (!selectedWorkflow) return;
     
-    const newNode: WorkflowNode = {
-      id: `node-${Date.now()}`,
-      type: type as any,
-      title: `${type.charAt(0).toUpperCase() + type.slice(1)} Node`,
-      description: `Description for ${type} node`,
-      position: { x: 200, y: 200 },
-      config: {}
-    };
-    
-    const updatedWorkflow = {
+    const newNode = WorkflowEngine.createNode(type, { x: 200, y: 200 });
+    saveWorkflow({
       ...selectedWorkflow,
       nodes: [...selectedWorkflow.nodes, newNode]
-    };
-    
-    setWorkflows(prev => prev.map(w => 
-      w.id === selectedWorkflow.id ? updatedWorkflow : w
-    ));
-    
-    setSelectedWorkflow(updatedWorkflow);
+    });
+    setSelectedNodeId(newNode.id);
   };
-
+  
   const deleteNode = (nodeId: string) => {
     if (!selectedWorkflow) return;
     
-    const updatedWorkflow = {
+    saveWorkflow({
       ...selectedWorkflow,
       nodes: selectedWorkflow.nodes.filter(node => node.id !== nodeId),
       connections: selectedWorkflow.connections.filter(
         conn => conn.sourceNodeId !== nodeId && conn.targetNodeId !== nodeId
       )
-    };
-    
-    setWorkflows(prev => prev.map(w => 
-      w.id === selectedWorkflow.id ? updatedWorkflow : w
-    ));
-    
-    setSelectedWorkflow(updatedWorkflow);
+    });
+    if (selectedNodeId === nodeId) setSelectedNodeId(null);
   };
-
+  
   const toggleWorkflow = (workflowId: string) => {
-    setWorkflows(prev => prev.map(workflow => 
-      workflow.id === workflowId 
-        ? { ...workflow, enabled: !workflow.enabled } 
-        : workflow
-    ));
-    
-    if (selectedWorkflow && selectedWorkflow.id === workflowId) {
-      setSelectedWorkflow({ 
-        ...selectedWorkflow, 
-        enabled: !selectedWorkflow.enabled 
-      });
-    }
+    const workflow = workflows.find(w => w.id === workflowId);
+    if (workflow) saveWorkflow({ ...workflow, enabled: !workflow.enabled });
   };
-
+  
   const createNewWorkflow = () => {
     const newWorkflow: Workflow = {
       id: `workflow-${Date.now()}`,
@@ -186,10 +191,241 @@ const WorkflowBuilder: React.FC = () => {
       enabled: false
     };
     
-    setWorkflows(prev => [...prev, newWorkflow]);
-    setSelectedWorkflow(newWorkflow);
+    saveWorkflow(newWorkflow);
+    setSelectedId(newWorkflow.id);
+    setSelectedNodeId(null);
   };
-
+  
+  const deleteWorkflow = (workflowId: string) => {
+    WorkflowEngine.deleteWorkflow(workflowId);
+    if (selectedId === workflowId) setSelectedId(null);
+  };
+  
+  const startRun = async (test: boolean) => {
+    if (!selectedWorkflow) return;
+    const started = await WorkflowEngine.run(selectedWorkflow.id, { test });
+    if (started.length) setSelectedRunId(started[0].id);
+  };
+  
+  const renderInspector = (node: WorkflowNode) => {
+    switch (node.type) {
+      case 'trigger': {
+        const config = node.config;
+        const setConfig = (next: TriggerConfig) => updateNode(node.id, { config: next });
+        return (
+          <>
+            <label>
+              Starts
+              <select
+                value={config.kind === 'hook' ? config.hook : config.kind}
+                onChange={(e) => {
+                  const value = e.target.value;
+                  if (value === 'schedule') setConfig({ kind: 'schedule', time: '09:00' });
+                  else if (value === 'manual') setConfig({ kind: 'manual' });
+                  else setConfig({ kind: 'hook', hook: value as keyof typeof HOOK_LABELS });
+                }}
+              >
+                {Object.entries(HOOK_LABELS).map(([hook, label]) => (
+                  <option key={hook} value={hook}>{label}</option>
+                ))}
+                <option value="schedule">At a time of day</option>
+                <option value="manual">Only when run by hand</option>
+              </select>
+            </label>
+            {config.kind === 'schedule' && (
+              <>
+                <label>
+                  Time
+                  <input type="time" value={config.time} onChange={(e) => setConfig({ ...config, time: e.target.value })} />
+                </label>
+                <div className="weekday-picker">
+                  {DAY_NAMES.map((name, day) => {
+                    const days = config.days || [];
+                    return (
+                      <label key={name}>
+                        <input
+                          type="checkbox"
+                          checked={days.includes(day)}
+                          onChange={() => setConfig({
+                            ...config,
+                            days: days.includes(day) ? days.filter(d => d !== day) : [...days, day].sort()
+                          })}
+                        />
+                        {name}
+                      </label>
+                    );
+                  })}
+                </div>
+              </>
+            )}
+          </>
+        );
+      }
+      case 'condition': {
+        const config = node.config;
+        const setRules = (rules: ConditionRule[]) => updateNode(node.id, { config: { ...config, rules } });
+        return (
+          <>
+            <label>
+              Pass when
+              <select
+                value={config.match}
+                onChange={(e) => updateNode(node.id, { config: { ...config, match: e.target.value as 'all' | 'any' } })}
+              >
+                <option value="all">all rules match</option>
+                <option value="any">any rule matches</option>
+              </select>
+            </label>
+            {config.rules.map((rule, index) => {
+              const setRule = (updates: Partial<ConditionRule>) =>
+                setRules(config.rules.map((r, i) => (i === index ? { ...r, ...updates } : r)));
+              return (
+                <div key={index} className="condition-rule">
+                  <input placeholder="field" value={rule.field} onChange={(e) => setRule({ field: e.target.value })} />
+                  <select value={rule.operator} onChange={(e) => setRule({ operator: e.target.value as ConditionOperator })}>
+                    {Object.entries(OPERATOR_LABELS).map(([operator, label]) => (
+                      <option key={operator} value={operator}>{label}</option>
+                    ))}
+                  </select>
+                  {rule.operator !== 'exists' && (
+                    <input placeholder="value" value={String(rule.value ?? '')} onChange={(e) => setRule({ value: e.target.value })} />
+                  )}
+                  <button onClick={() => setRules(config.rules.filter((_, i) => i !== index))}>×</button>
+                </div>
+              );
+            })}
+            <button onClick={() => setRules([...config.rules, { field: '', operator: 'equals', value: '' }])}>
+              Add rule
+            </button>
+          </>
+        );
+      }
+      case 'delay':
+        return (
+          <label>
+            Wait (minutes)
+            <input
+              type="number"
+              min={0}
+              value={node.config.minutes}
+              onChange={(e) => updateNode(node.id, { config: { minutes: Math.max(0, Number(e.target.value)) } })}
+            />
+          </label>
+        );
+      case 'action': {
+        const config = node.config;
+        const setConfig = (next: ActionConfig) => updateNode(node.id, { config: next });
+        const webhooks = webhookService.getWebhooks();
+        return (
+          <>
+            <label>
+              Do
+              <select
+                value={config.action}
+                onChange={(e) => {
+                  switch (e.target.value) {
+                    case 'createTask': return setConfig({ action: 'createTask', content: '', priority: 'medium' });
+                    case 'createEvent': return setConfig({ action: 'createEvent', title: '', durationMinutes: 30 });
+                    case 'notify': return setConfig({ action: 'notify', title: '' });
+                    case 'webhook': return setConfig({ action: 'webhook', webhookId: webhooks[0]?.id || '' });
+                  }
+                }}
+              >
+                <option value="createTask">Create a task</option>
+                <option value="createEvent">Create an event</option>
+                <option value="notify">Send a notification</option>
+                <option value="webhook">Call a webhook</option>
+              </select>
+            </label>
+            {config.action === 'createTask' && (
+              <>
+                <label>
+                  Task
+                  <input value={config.content} onChange={(e) => setConfig({ ...config, content: e.target.value })} />
+                </label>
+                <label>
+                  Priority
+                  <select
+                    value={config.priority}
+                    onChange={(e) => setConfig({ ...config, priority: e.target.value as 'low' | 'medium' | 'high' })}
+                  >
+                    <option value="low">Low</option>
+                    <option value="medium">Medium</option>
+                    <option value="high">High</option>
+                  </select>
+                </label>
+                <label>
+                  Due in (days)
+                  <input
+                    type="number"
+                    min={0}
+                    value={config.dueInDays || 0}
+                    onChange={(e) => setConfig({ ...config, dueInDays: Math.max(0, Number(e.target.value)) })}
+                  />
+                </label>
+              </>
+            )}
+            {config.action === 'createEvent' && (
+              <>
+                <label>
+                  Title
+                  <input value={config.title} onChange={(e) => setConfig({ ...config, title: e.target.value })} />
+                </label>
+                <label>
+                  Duration (minutes)
+                  <input
+                    type="number"
+                    min={5}
+                    value={config.durationMinutes}
+                    onChange={(e) => setConfig({ ...config, durationMinutes: Math.max(5, Number(e.target.value)) })}
+                  />
+                </label>
+                <label>
+                  Starts in (minutes)
+                  <input
+                    type="number"
+                    min={0}
+                    value={config.startOffsetMinutes || 0}
+                    onChange={(e) => setConfig({ ...config, startOffsetMinutes: Math.max(0, Number(e.target.value)) })}
+                  />
+                </label>
+              </>
+            )}
+            {config.action === 'notify' && (
+              <>
+                <label>
+                  Title
+                  <input value={config.title} onChange={(e) => setConfig({ ...config, title: e.target.value })} />
+                </label>
+                <label>
+                  Message
+                  <input value={config.body || ''} onChange={(e) => setConfig({ ...config, body: e.target.value })} />
+                </label>
+              </>
+            )}
+            {config.action === 'webhook' && (
+              webhooks.length ? (
+                <label>
+                  Webhook
+                  <select value={config.webhookId} onChange={(e) => setConfig({ ...config, webhookId: e.target.value })}>
+                    {webhooks.map(webhook => (
+                      <option key={webhook.id} value={webhook.id}>{webhook.name}</option>
+                    ))}
+                  </select>
+                </label>
+              ) : (
+                <p className="hint">No webhooks are registered yet.</p>
+              )
+            )}
+            {config.action !== 'webhook' && (
+              <p className="hint">Use {'{{field}}'} to insert a value from the item that started the run, e.g. {'{{title}}'}.</p>
+            )}
+          </>
+        );
+      }
+    }
+  };
+  
   return (
     <div className="workflow-builder">
       <div className="toolbar">
@@ -200,17 +436,22 @@ const WorkflowBuilder: React.FC = () => {
       <div className="workflow-list">
         <h3>Workflows</h3>
         {workflows.map(workflow => (
-          <div 
-            key={workflow.id} 
+          <div
+            key={workflow.id}
             className={`workflow-item ${selectedWorkflow?.id === workflow.id ? 'selected' : ''}`}
-            onClick={() => setSelectedWorkflow(workflow)}
+            onClick={() => {
+              setSelectedId(workflow.id);
+              setSelectedNodeId(null);
+              setSelectedRunId(null);
+              setConnecting(null);
+            }}
           >
             <div className="workflow-info">
               <h4>{workflow.name}</h4>
               <p>{workflow.description}</p>
             </div>
             <div className="workflow-actions">
-              <button 
+              <button
                 className={workflow.enabled ? 'enabled' : 'disabled'}
                 onClick={(e) => {
                   e.stopPropagation();
@@ -219,6 +460,15 @@ const WorkflowBuilder: React.FC = () => {
               >
                 {workflow.enabled ? 'Enabled' : 'Disabled'}
               </button>
+              <button
+                className="delete-workflow"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  deleteWorkflow(workflow.id);
+                }}
+              >
+                ×
+              </button>
             </div>
           </div>
         ))}
@@ -226,43 +476,67 @@ const WorkflowBuilder: React.FC = () => {
       
       {selectedWorkflow && (
         <div className="workflow-editor">
+          <div className="workflow-details">
+            <input
+              value={selectedWorkflow.name}
+              onChange={(e) => saveWorkflow({ ...selectedWorkflow, name: e.target.value })}
+            />
+            <input
+              value={selectedWorkflow.description}
+              onChange={(e) => saveWorkflow({ ...selectedWorkflow, description: e.target.value })}
+            />
+            <button onClick={() => startRun(true)}>Test run</button>
+            <button onClick={() => startRun(false)}>Run now</button>
+          </div>
+          
           <div className="node-palette">
             <h3>Nodes</h3>
             {nodeTypes.map(nodeType => (
-              <div 
+              <div
                 key={nodeType.type}
                 className="node-type"
                 style={{ borderLeftColor: nodeType.color }}
-                onClick={() => addNode(nodeType.type)}
+                onClick={() => addNode(nodeType.type as WorkflowNodeType)}
               >
                 {nodeType.title}
               </div>
             ))}
           </div>
           
-          <div 
+          <div
             className="canvas"
             ref={canvasRef}
             onMouseMove={handleNodeDrag}
             onMouseUp={handleNodeDragEnd}
             onMouseLeave={handleNodeDragEnd}
+            onClick={(e) => {
+              if (e.target === canvasRef.current) setConnecting(null);
+            }}
           >
             {selectedWorkflow.nodes.map(node => {
               const nodeType = nodeTypes.find(nt => nt.type === node.type);
+              const ports: Array<{ branch?: 'true' | 'false'; label: string }> = node.type === 'condition'
+                ? [{ branch: 'true', label: 'Yes' }, { branch: 'false', label: 'No' }]
+                : [{ label: '→' }];
               return (
                 <div
                   key={node.id}
-                  className={`node node-${node.type}`}
+                  className={`node node-${node.type} ${selectedNodeId === node.id ? 'selected' : ''}`}
                   style={{
                     left: node.position.x,
                     top: node.position.y,
-                    borderLeftColor: nodeType?.color || '#999'
+                    width: NODE_WIDTH,
+                    borderLeftColor: nodeType?.color || '#999',
+                    // Nodes the selected run passed through
+                    boxShadow: path.has(node.id) ? '0 0 0 3px #FFC107' : undefined,
+                    outline: connecting?.nodeId === node.id ? '2px dashed #666' : undefined
                   }}
                   onMouseDown={(e) => handleNodeDragStart(node.id, e)}
+                  onClick={() => handleNodeClick(node.id)}
                 >
                   <div className="node-header">
                     <h4>{node.title}</h4>
-                    <button 
+                    <button
                       className="delete-node"
                       onClick={(e) => {
                         e.stopPropagation();
@@ -273,7 +547,23 @@ const WorkflowBuilder: React.FC = () => {
                     </button>
                   </div>
                   <div className="node-description">
-                    {node.description}
+                    {WorkflowEngine.describe(node)}
+                  </div>
+                  <div className="node-ports">
+                    {ports.map(port => (
+                      <button
+                        key={port.label}
+                        className="node-port"
+                        title="Connect to another node"
+                        onMouseDown={(e) => e.stopPropagation()}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setConnecting({ nodeId: node.id, branch: port.branch });
+                        }}
+                      >
+                        {port.label}
+                      </button>
+                    ))}
                   </div>
                 </div>
               );
@@ -286,17 +576,29 @@ const WorkflowBuilder: React.FC = () => {
                 
                 if (!sourceNode || !targetNode) return null;
                 
+                const taken = path.has(sourceNode.id) && path.has(targetNode.id);
+                const x1 = sourceNode.position.x + NODE_WIDTH;
+                const y1 = sourceNode.position.y + NODE_HEIGHT / 2;
+                const x2 = targetNode.position.x;
+                const y2 = targetNode.position.y + NODE_HEIGHT / 2;
                 return (
-                  <line
-                    key={connection.id}
-                    x1={sourceNode.position.x + 100}
-                    y1={sourceNode.position.y + 30}
-                    x2={targetNode.position.x}
-                    y2={targetNode.position.y + 30}
-                    stroke="#666"
-                    strokeWidth="2"
-                    markerEnd="url(#arrowhead)"
-                  />
+                  <g key={connection.id} onClick={() => deleteConnection(connection.id)} style={{ cursor: 'pointer' }}>
+                    <title>Click to remove</title>
+                    <line
+                      x1={x1}
+                      y1={y1}
+                      x2={x2}
+                      y2={y2}
+                      stroke={taken ? '#FFC107' : '#666'}
+                      strokeWidth={taken ? 3 : 2}
+                      markerEnd="url(#arrowhead)"
+                    />
+                    {connection.branch && (
+                      <text x={(x1 + x2) / 2} y={(y1 + y2) / 2 - 6} fontSize={11} fill="#666" textAnchor="middle">
+                        {connection.branch === 'true' ? 'Yes' : 'No'}
+                      </text>
+                    )}
+                  </g>
                 );
               })}
               <defs>
@@ -313,6 +615,48 @@ const WorkflowBuilder: React.FC = () => {
               </defs>
             </svg>
           </div>
+          
+          {selectedNode && (
+            <div className="node-inspector">
+              <h3>Node settings</h3>
+              <label>
+                Title
+                <input value={selectedNode.title} onChange={(e) => updateNode(selectedNode.id, { title: e.target.value })} />
+              </label>
+              {renderInspector(selectedNode)}
+            </div>
+          )}
+          
+          <div className="run-log">
+            <div className="run-log-header">
+              <h3>Runs</h3>
+              {workflowRuns.length > 0 && (
+                <button onClick={() => WorkflowEngine.clearRuns(selectedWorkflow.id)}>Clear</button>
+              )}
+            </div>
+            {workflowRuns.length === 0 && <p className="hint">No runs yet. Use "Test run" to see which path a run would take.</p>}
+            {workflowRuns.map(run => (
+              <div
+                key={run.id}
+                className={`run-item ${run.id === selectedRunId ? 'selected' : ''}`}
+                onClick={() => setSelectedRunId(run.id === selectedRunId ? null : run.id)}
+              >
+                <div className="run-summary">
+                  <strong>{run.test ? 'Test' : 'Run'}</strong> · {run.status} · {new Date(run.startedAt).toLocaleString()}
+                </div>
+                {run.id === selectedRunId && (
+                  <ol className="run-steps">
+                    {run.steps.map((step, index) => (
+                      <li key={index}>
+                        <span style={{ color: STEP_COLORS[step.status] || '#666', fontWeight: 600 }}>{step.status}</span>
+                        {' '}{step.title}: {step.detail}
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </div>
+            ))}
+          </div>
         </div>
       )}
       
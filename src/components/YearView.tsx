@@ -0,0 +1,150 @@
+import React, { useMemo } from 'react';
+import { addDays, addYears, format, startOfDay } from 'date-fns';
+import { useStore } from '../stores/appStore';
+import { RecurrenceEngine } from '../services/recurrence';
+import { TimeZoneService } from '../services/timeZone';
+import { getActivityColor, ACTIVITY_COLORS } from './HeatmapView';
+
+interface YearViewProps {
+  width: number;
+  height: number;
+}
+
+const HEADERS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+export const YearView: React.FC<YearViewProps> = ({ width, height }) => {
+  const {
+    events,
+    tasks,
+    recurrenceOverrides,
+    selectedDate,
+    displayTimeZone,
+    setSelectedDate,
+    setViewMode
+  } = useStore();
+  
+  const year = selectedDate.getFullYear();
+  const cellSize = Math.floor((width - 40) / 3 / 7);
+  
+  // Events and tasks per local day of the year. Occurrences are shifted to the
+  // display zone first, and multi-day events count on every day they touch.
+  const counts = useMemo(() => {
+    const local = TimeZoneService.getLocalZone();
+    const first = new Date(year, 0, 1);
+    const last = addYears(first, 1);
+    const rangeStart = TimeZoneService.convertWallClock(first, local, displayTimeZone);
+    const rangeEnd = TimeZoneService.convertWallClock(last, local, displayTimeZone);
+    const result: Record<string, number> = {};
+    const bump = (key: string) => {
+      result[key] = (result[key] || 0) + 1;
+    };
+    
+    RecurrenceEngine.expandAll(events, rangeStart, rangeEnd, recurrenceOverrides)
+      .map(occurrence => TimeZoneService.shiftForDisplay(occurrence, displayTimeZone))
+      .forEach(occurrence => {
+        const end = Math.max(occurrence.endTime.getTime(), occurrence.startTime.getTime() + 1);
+        for (let day = startOfDay(occurrence.startTime); day.getTime() < end && day < last; day = addDays(day, 1)) {
+          if (day >= first) bump(format(day, 'yyyy-MM-dd'));
+        }
+      });
+      
+    tasks.forEach(task => {
+      if (task.date.startsWith(`${year}-`)) bump(task.date);
+    });
+    
+    return result;
+  }, [events, tasks, recurrenceOverrides, year, displayTimeZone]);
+  
+  const maxActivity = Math.max(...Object.values(counts), 1);
+  const todayKey = format(new Date(), 'yyyy-MM-dd');
+  
+  const openDay = (day: Date) => {
+    setSelectedDate(day);
+    setViewMode('daily');
+  };
+  
+  const openMonth = (month: number) => {
+    setSelectedDate(new Date(year, month, 1));
+    setViewMode('monthly');
+  };
+  
+  return (
+    <div style={{ width, height, overflowY: 'auto', backgroundColor: 'white', padding: '8px 12px', boxSizing: 'border-box' }}>
+      <div style={{ display: 'flex', alignItems: 'center', marginBottom: 8 }}>
+        <button
+          onClick={() => setSelectedDate(new Date(year - 1, selectedDate.getMonth(), 1))}
+          style={{ border: 'none', background: '#f3f4f6', borderRadius: 4, cursor: 'pointer', padding: '2px 8px' }}
+        >
+          ←
+        </button>
+        <div style={{ flex: 1, textAlign: 'center', fontSize: 18, fontWeight: 600, color: '#1f2937' }}>{year}</div>
+        <button
+          onClick={() => setSelectedDate(new Date(year + 1, selectedDate.getMonth(), 1))}
+          style={{ border: 'none', background: '#f3f4f6', borderRadius: 4, cursor: 'pointer', padding: '2px 8px' }}
+        >
+          →
+        </button>
+      </div>
+      
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: 8 }}>
+        {Array.from({ length: 12 }, (_, month) => {
+          const firstDay = new Date(year, month, 1).getDay();
+          const daysInMonth = new Date(year, month + 1, 0).getDate();
+          
+          return (
+            <div key={month}>
+              <div
+                onClick={() => openMonth(month)}
+                style={{ fontSize: 12, fontWeight: 600, color: '#374151', marginBottom: 2, cursor: 'pointer' }}
+              >
+                {format(new Date(year, month, 1), 'MMMM')}
+              </div>
+              <div style={{ display: 'grid', gridTemplateColumns: `repeat(7, ${cellSize}px)`, gap: 1 }}>
+                {HEADERS.map((header, i) => (
+                  <div key={i} style={{ fontSize: 8, color: '#9ca3af', textAlign: 'center' }}>{header}</div>
+                ))}
+                {Array.from({ length: firstDay }, (_, i) => <div key={`blank-${i}`} />)}
+                {Array.from({ length: daysInMonth }, (_, i) => {
+                  const day = new Date(year, month, i + 1);
+                  const key = format(day, 'yyyy-MM-dd');
+                  const count = counts[key] || 0;
+                  
+                  return (
+                    <div
+                      key={key}
+                      onClick={() => openDay(day)}
+                      title={`${format(day, 'MMM d, yyyy')}: ${count} activities`}
+                      style={{
+                        height: cellSize,
+                        lineHeight: `${cellSize}px`,
+                        fontSize: 8,
+                        textAlign: 'center',
+                        borderRadius: 2,
+                        backgroundColor: getActivityColor(count, maxActivity),
+                        color: '#1f2937',
+                        outline: key === todayKey ? '1px solid #ef4444' : 'none',
+                        cursor: 'pointer'
+                      }}
+                    >
+                      {i + 1}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      
+      <div style={{ display: 'flex', alignItems: 'center', gap: 4, marginTop: 10, fontSize: 11, color: '#6b7280' }}>
+        Less
+        {ACTIVITY_COLORS.map(activityColor => (
+          <div key={activityColor} style={{ width: 10, height: 10, borderRadius: 2, backgroundColor: activityColor }} />
+        ))}
+        More
+      </div>
+    </div>
+  );
+};
+
+export default YearView;
@@ -1,6 +1,8 @@
 import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { useStore } from '../stores/appStore';
-import { startOfMonth, endOfMonth, eachDayOfInterval, isSameDay, startOfWeek, endOfWeek } from 'date-fns';
+import { startOfMonth, endOfMonth, eachDayOfInterval, isSameDay, startOfWeek, endOfWeek, addDays, startOfDay } from 'date-fns';
+import { RecurrenceEngine } from '../services/recurrence';
+import { TimeZoneService } from '../services/timeZone';
 
 export const useCalendarCanvas = (width: number, height: number) => {
   const {
@@ -12,26 +14,32 @@ export const useCalendarCanvas = (width: number, height: number) => {
     currentTheme,
     selectedDate,
     zoomLevel,
-    viewMode
+    viewMode,
+    recurrenceOverrides,
+    displayTimeZone,
+    secondaryTimeZone
   } = useStore();
-
+  
   const canvasRef = useRef<HTMLDivElement>(null);
   const [cellDimensions, setCellDimensions] = useState({ width: 0, height: 0 });
   const [draggedSticker, setDraggedSticker] = useState<{ id: string; initialX: number; initialY: number } | null>(null);
   const [resizingSticker, setResizingSticker] = useState<{ id: string; handle: string } | null>(null);
-
+  
   useEffect(() => {
-    const baseWidth = width / 7;
-    const baseHeight = viewMode === 'weekly' ? height / 4 : height / 6;
+    // The daily view is a single full-page column
+    const baseWidth = viewMode === 'daily' ? width : width / 7;
+    const baseHeight = viewMode === 'daily' ? height : viewMode === 'weekly' ? height / 4 : height / 6;
     
     setCellDimensions({
       width: baseWidth * zoomLevel,
       height: baseHeight * zoomLevel
     });
   }, [width, height, zoomLevel, viewMode]);
-
+  
   const days = useMemo(() => {
-    if (viewMode === 'weekly') {
+    if (viewMode === 'daily') {
+      return [startOfDay(selectedDate)];
+    } else if (viewMode === 'weekly') {
       const start = startOfWeek(selectedDate, { weekStartsOn: 0 });
       const end = endOfWeek(selectedDate, { weekStartsOn: 0 });
       return eachDayOfInterval({ start, end });
@@ -41,14 +49,25 @@ export const useCalendarCanvas = (width: number, height: number) => {
       return eachDayOfInterval({ start, end });
     }
   }, [selectedDate, viewMode]);
-
+  
+  // Recurring events are expanded into the occurrences visible on this page,
+  // then shifted so the page's local-time layout shows the display zone
+  const occurrences = useMemo(() => {
+    if (days.length === 0) return [];
+    const local = TimeZoneService.getLocalZone();
+    const rangeStart = TimeZoneService.convertWallClock(days[0], local, displayTimeZone);
+    const rangeEnd = TimeZoneService.convertWallClock(addDays(days[days.length - 1], 1), local, displayTimeZone);
+    return RecurrenceEngine.expandAll(events, rangeStart, rangeEnd, recurrenceOverrides)
+      .map(occurrence => TimeZoneService.shiftForDisplay(occurrence, displayTimeZone));
+  }, [events, days, recurrenceOverrides, displayTimeZone]);
+  
   const dateToPosition = useCallback((dateString: string): { x: number, y: number } => {
     const targetDate = new Date(dateString);
     const dayIndex = days.findIndex(day => isSameDay(day, targetDate));
     
     if (dayIndex === -1) return { x: 0, y: 0 };
     
-    const row = viewMode === 'weekly' ? 0 : Math.floor(dayIndex / 7);
+    const row = viewMode !== 'monthly' ? 0 : Math.floor(dayIndex / 7);
     const col = dayIndex % 7;
     
     return {
@@ -56,7 +75,7 @@ export const useCalendarCanvas = (width: number, height: number) => {
       y: row * cellDimensions.height
     };
   }, [days, cellDimensions, viewMode]);
-
+  
   const handleStickerDrop = useCallback((e: React.DragEvent<SVGSVGElement>) => {
     e.preventDefault();
     
@@ -69,7 +88,7 @@ export const useCalendarCanvas = (width: number, height: number) => {
     const y = e.clientY - rect.top;
     
     const col = Math.floor(x / cellDimensions.width);
-    const row = viewMode === 'weekly' ? 0 : Math.floor(y / cellDimensions.height);
+    const row = viewMode !== 'monthly' ? 0 : Math.floor(y / cellDimensions.height);
     
     const dayIndex = row * 7 + col;
     if (dayIndex >= 0 && dayIndex < days.length) {
@@ -85,9 +104,10 @@ export const useCalendarCanvas = (width: number, height: number) => {
       });
     }
   }, [cellDimensions, viewMode, days]);
-
+  
   const startDraggingSticker = useCallback((e: React.MouseEvent, stickerId: string) => {
     e.stopPropagation();
+    useStore.getState().beginTransaction('Moved sticker');
     const rect = (e.target as HTMLElement).getBoundingClientRect();
     setDraggedSticker({
       id: stickerId,
@@ -95,12 +115,13 @@ export const useCalendarCanvas = (width: number, height: number) => {
       initialY: e.clientY - rect.top
     });
   }, []);
-
+  
   const startResizingSticker = useCallback((e: React.MouseEvent, stickerId: string, handle: string) => {
     e.stopPropagation();
+    useStore.getState().beginTransaction('Resized sticker');
     setResizingSticker({ id: stickerId, handle });
   }, []);
-
+  
   const handleMouseMove = useCallback((e: MouseEvent) => {
     if (!canvasRef.current) return;
     
@@ -118,7 +139,7 @@ export const useCalendarCanvas = (width: number, height: number) => {
         
         // Convert position back to date
         const col = Math.floor(newX / cellDimensions.width);
-        const row = viewMode === 'weekly' ? 0 : Math.floor(newY / cellDimensions.height);
+        const row = viewMode !== 'monthly' ? 0 : Math.floor(newY / cellDimensions.height);
         
         const dayIndex = row * 7 + col;
         if (dayIndex >= 0 && dayIndex < days.length) {
@@ -170,12 +191,14 @@ export const useCalendarCanvas = (width: number, height: number) => {
       }
     }
   }, [draggedSticker, resizingSticker, decorations, cellDimensions, viewMode, days, dateToPosition]);
-
+  
   const handleMouseUp = useCallback(() => {
+    // The whole drag or resize undoes as one step
+    useStore.getState().endTransaction();
     setDraggedSticker(null);
     setResizingSticker(null);
   }, []);
-
+  
   useEffect(() => {
     if (draggedSticker || resizingSticker) {
       document.addEventListener('mousemove', handleMouseMove);
@@ -187,7 +210,7 @@ export const useCalendarCanvas = (width: number, height: number) => {
       };
     }
   }, [draggedSticker, resizingSticker, handleMouseMove, handleMouseUp]);
-
+  
   const applyThemeTemplate = useCallback(() => {
     if (!currentTheme) return {};
     
@@ -198,21 +221,30 @@ export const useCalendarCanvas = (width: number, height: number) => {
     
     return cssVars;
   }, [currentTheme]);
-
-  // Generate time slots for weekly view
+  
+  // Generate time slots for the weekly and daily views, with the second zone's
+  // clock alongside when one is set
   const timeSlots = useMemo(() => {
-    if (viewMode !== 'weekly') return [];
+    if (viewMode !== 'weekly' && viewMode !== 'daily') return [];
     
     const slots = [];
     for (let hour = 0; hour < 24; hour++) {
+      const at = TimeZoneService.fromParts(
+        displayTimeZone,
+        selectedDate.getFullYear(),
+        selectedDate.getMonth() + 1,
+        selectedDate.getDate(),
+        hour
+      );
       slots.push({
         hour,
-        label: `${hour === 0 ? 12 : hour > 12 ? hour - 12 : hour}${hour >= 12 ? 'PM' : 'AM'}`
+        label: `${hour === 0 ? 12 : hour > 12 ? hour - 12 : hour}${hour >= 12 ? 'PM' : 'AM'}`,
+        secondaryLabel: secondaryTimeZone ? TimeZoneService.format(at, secondaryTimeZone, { hour: 'numeric', minute: '2-digit' }) : null
       });
     }
     return slots;
-  }, [viewMode]);
-
+  }, [viewMode, selectedDate, displayTimeZone, secondaryTimeZone]);
+  
   return {
     canvasRef,
     cellDimensions,
@@ -226,7 +258,7 @@ export const useCalendarCanvas = (width: number, height: number) => {
     startDraggingSticker,
     startResizingSticker,
     applyThemeTemplate,
-    events,
+    events: occurrences,
     decorations,
     handwriting,
     tasks
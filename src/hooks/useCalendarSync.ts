@@ -0,0 +1,62 @@
+import { useEffect, useState } from 'react';
+import { useStore } from '../stores/appStore';
+import { CalendarSyncConfig } from '../types';
+import { CalendarSyncService, CalendarSyncDelta } from '../services/calendarSync';
+
+const PROVIDER = import.meta.env.VITE_CALENDAR_PROVIDER as CalendarSyncConfig['provider'] | undefined;
+
+/**
+ * Sync events with the provider calendar named by VITE_CALENDAR_PROVIDER, merging
+ * polled changes into the planner. Returns the service so its conflict queue can
+ * be shown, or null when no provider is configured.
+ */
+export const useCalendarSync = (): CalendarSyncService | null => {
+  const [service, setService] = useState<CalendarSyncService | null>(null);
+  
+  useEffect(() => {
+    if (!PROVIDER) return;
+    
+    const sync = new CalendarSyncService({
+      provider: PROVIDER,
+      apiEndpoint: import.meta.env.VITE_CALENDAR_ENDPOINT || '',
+      accessToken: import.meta.env.VITE_CALENDAR_TOKEN || '',
+      refreshToken: import.meta.env.VITE_CALENDAR_REFRESH_TOKEN || '',
+      username: import.meta.env.VITE_CALENDAR_USERNAME,
+      conflictResolution: 'timestamp'
+    });
+    sync.setLocalEventSource((eventId) => useStore.getState().events.find((event) => event.id === eventId));
+    
+    // Provider changes are applied as facts, outside undo, realtime sync and plugin hooks
+    const unsubscribe = sync.onRemoteChanges((delta: CalendarSyncDelta) => {
+      useStore.getState().applyProviderChanges(delta.changed, delta.removed, delta.overrides);
+    });
+    
+    let active = true;
+    sync.initializeSync()
+      .then((remote) => {
+        if (!active) {
+          sync.stopSync();
+          return;
+        }
+        // Events already here are reconciled by polling; only new ones are added now
+        // Modified occurrences travel with CalDAV events; other providers have none
+        const { events, applyProviderChanges } = useStore.getState();
+        const added = remote.filter((event) => !events.some((existing) => existing.id === event.id));
+        const overrides = Object.fromEntries(added
+          .map((event) => [event.id, sync.getRemoteOverrides(event.id)] as const)
+          .filter(([, list]) => list.length > 0));
+        applyProviderChanges(added, [], overrides);
+      })
+      .catch(() => undefined); // initializeSync logs the failure itself
+    setService(sync);
+    
+    return () => {
+      active = false;
+      unsubscribe();
+      sync.stopSync();
+      setService(null);
+    };
+  }, []);
+  
+  return service;
+};
@@ -1,4 +1,4 @@
-import { useState, useCallback, useRef } from 'react';
+import { useState, useCallback, useRef, useMemo } from 'react';
 import { LayerState } from '../types';
 
 interface HistoryOptions {
@@ -7,15 +7,97 @@ interface HistoryOptions {
   enableDiffing?: boolean;
 }
 
-interface HistoryState<T> {
-  past: T[];
-  present: T;
-  future: T[];
-  lastSavedIndex: number;
+export interface HistoryNode<T> {
+  id: string;
+  parentId: string | null;
+  state: T;
+  label: string;
+  timestamp: number;
+  redoChildId: string | null; // Child that redo follows; the most recently visited branch
 }
 
+interface HistoryTree<T> {
+  nodes: Record<string, HistoryNode<T>>;
+  rootId: string;
+  headId: string;
+  savedId: string | null;
+}
+
+let nodeCounter = 0;
+const createNode = <T>(state: T, label: string, parentId: string | null): HistoryNode<T> => ({
+  id: `history-${Date.now()}-${nodeCounter++}`,
+  parentId,
+  state,
+  label,
+  timestamp: Date.now(),
+  redoChildId: null
+});
+
+// Nodes from the root to the head, then on along the redo path
+const branchPath = <T>(tree: HistoryTree<T>): HistoryNode<T>[] => {
+  const past: HistoryNode<T>[] = [];
+  for (let node: HistoryNode<T> | undefined = tree.nodes[tree.headId]; node; node = node.parentId ? tree.nodes[node.parentId] : undefined) {
+    past.unshift(node);
+  }
+  
+  const future: HistoryNode<T>[] = [];
+  for (let id = tree.nodes[tree.headId].redoChildId; id && tree.nodes[id]; id = tree.nodes[id].redoChildId) {
+    future.push(tree.nodes[id]);
+  }
+  return [...past, ...future];
+};
+
+// Move the head, pointing every ancestor's redo at the branch that leads to it
+const moveHead = <T>(tree: HistoryTree<T>, headId: string): HistoryTree<T> => {
+  const nodes = { ...tree.nodes };
+  let child = nodes[headId];
+  while (child.parentId) {
+    const parent = nodes[child.parentId];
+    nodes[parent.id] = { ...parent, redoChildId: child.id };
+    child = nodes[parent.id];
+  }
+  return { ...tree, nodes, headId };
+};
+
+// Drop the oldest nodes off the current branch, then the oldest roots, until within the limit
+const prune = <T>(tree: HistoryTree<T>, limit: number): HistoryTree<T> => {
+  let { nodes, rootId } = tree;
+  const onBranch = new Set(branchPath(tree).map((node) => node.id));
+  
+  while (Object.keys(nodes).length > limit) {
+    const parents = new Set(Object.values(nodes).map((node) => node.parentId));
+    const leaf = Object.values(nodes)
+      .filter((node) => !parents.has(node.id) && !onBranch.has(node.id))
+      .sort((a, b) => a.timestamp - b.timestamp)[0];
+      
+    nodes = { ...nodes };
+    if (leaf) {
+      delete nodes[leaf.id];
+      const parent = leaf.parentId ? nodes[leaf.parentId] : null;
+      if (parent && parent.redoChildId === leaf.id) {
+        nodes[parent.id] = { ...parent, redoChildId: null };
+      }
+      continue;
+    }
+    
+    // Only the current branch is left; it has a single child at the root
+    if (rootId === tree.headId) break;
+    const nextRoot = Object.values(nodes).find((node) => node.parentId === rootId)!;
+    delete nodes[rootId];
+    nodes[nextRoot.id] = { ...nextRoot, parentId: null };
+    rootId = nextRoot.id;
+  }
+  
+  return {
+    ...tree,
+    nodes,
+    rootId,
+    savedId: tree.savedId && nodes[tree.savedId] ? tree.savedId : null
+  };
+};
+
 export const useHistory = <T extends LayerState>(
-  initialState: T, 
+  initialState: T,
   options: HistoryOptions = {}
 ) => {
   const {
@@ -24,11 +106,9 @@ export const useHistory = <T extends LayerState>(
     enableDiffing = false
   } = options;
   
-  const [historyState, setHistoryState] = useState<HistoryState<T>>({
-    past: [],
-    present: initialState,
-    future: [],
-    lastSavedIndex: -1
+  const [tree, setTree] = useState<HistoryTree<T>>(() => {
+    const root = createNode(initialState, 'Opened planner', null);
+    return { nodes: { [root.id]: root }, rootId: root.id, headId: root.id, savedId: null };
   });
   
   const debounceTimerRef = useRef<NodeJS.Timeout | null>(null);
@@ -40,6 +120,8 @@ export const useHistory = <T extends LayerState>(
     
     if (obj1 == null || obj2 == null) return obj1 === obj2;
     
+    if (obj1 instanceof Date && obj2 instanceof Date) return obj1.getTime() === obj2.getTime();
+    
     if (typeof obj1 !== 'object' || typeof obj2 !== 'object') return obj1 === obj2;
     
     const keys1 = Object.keys(obj1);
@@ -61,8 +143,23 @@ export const useHistory = <T extends LayerState>(
     return !deepEqual(currentState, newState);
   }, [enableDiffing, deepEqual]);
   
+  // Add a node under the head. Earlier redo branches stay in the tree.
+  const addNode = useCallback((newState: T, label: string) => {
+    setTree(prev => {
+      if (!hasStateChanged(prev.nodes[prev.headId].state, newState)) {
+        return prev;
+      }
+      
+      const node = createNode(newState, label, prev.headId);
+      const next = moveHead({ ...prev, nodes: { ...prev.nodes, [node.id]: node } }, node.id);
+      return prune(next, maxHistoryLength);
+    });
+    
+    lastStateRef.current = newState;
+  }, [hasStateChanged, maxHistoryLength]);
+  
   // Save state to history with debouncing
-  const saveToHistory = useCallback((newState: T) => {
+  const saveToHistory = useCallback((newState: T, label: string = 'Edited planner') => {
     // Clear existing debounce timer
     if (debounceTimerRef.current) {
       clearTimeout(debounceTimerRef.current);
@@ -70,177 +167,157 @@ export const useHistory = <T extends LayerState>(
     
     // Set new debounce timer
     debounceTimerRef.current = setTimeout(() => {
-      setHistoryState(prev => {
-        // Check if state has actually changed
-        if (!hasStateChanged(prev.present, newState)) {
-          return prev;
-        }
-        
-        // Limit history length
-        const newPast = [...prev.past, prev.present];
-        if (newPast.length > maxHistoryLength) {
-          newPast.shift();
-        }
-        
-        return {
-          past: newPast,
-          present: newState,
-          future: [], // Clear future when new action is performed
-          lastSavedIndex: prev.lastSavedIndex === -1 ? -1 : 
-                         prev.lastSavedIndex < prev.past.length ? prev.lastSavedIndex : 
-                         prev.past.length
-        };
-      });
-      
-      lastStateRef.current = newState;
+      debounceTimerRef.current = null;
+      addNode(newState, label);
     }, debounceTime);
-  }, [debounceTime, hasStateChanged, maxHistoryLength]);
+  }, [debounceTime, addNode]);
   
   // Immediate save without debouncing
-  const saveToHistoryImmediate = useCallback((newState: T) => {
+  const saveToHistoryImmediate = useCallback((newState: T, label: string = 'Edited planner') => {
     // Clear existing debounce timer
     if (debounceTimerRef.current) {
       clearTimeout(debounceTimerRef.current);
       debounceTimerRef.current = null;
     }
     
-    setHistoryState(prev => {
-      // Check if state has actually changed
-      if (!hasStateChanged(prev.present, newState)) {
-        return prev;
-      }
-      
-      // Limit history length
-      const newPast = [...prev.past, prev.present];
-      if (newPast.length > maxHistoryLength) {
-        newPast.shift();
+    addNode(newState, label);
+  }, [addNode]);
+  
+  // Move the head to the nearest node whose state matches: an ancestor if one
+  // does, else the newest match. Records `newState` when nothing matches.
+  const followTo = useCallback((match: (state: T) => boolean, newState: T, label: string) => {
+    if (debounceTimerRef.current) {
+      clearTimeout(debounceTimerRef.current);
+      debounceTimerRef.current = null;
+    }
+    
+    setTree(prev => {
+      for (let node: HistoryNode<T> | undefined = prev.nodes[prev.headId]; node; node = node.parentId ? prev.nodes[node.parentId] : undefined) {
+        if (match(node.state)) return moveHead(prev, node.id);
       }
+      const newest = Object.values(prev.nodes)
+        .filter(node => match(node.state))
+        .sort((a, b) => b.timestamp - a.timestamp)[0];
+      if (newest) return moveHead(prev, newest.id);
       
-      return {
-        past: newPast,
-        present: newState,
-        future: [], // Clear future when new action is performed
-        lastSavedIndex: prev.lastSavedIndex === -1 ? -1 : 
-                       prev.lastSavedIndex < prev.past.length ? prev.lastSavedIndex : 
-                       prev.past.length
-      };
+      const node = createNode(newState, label, prev.headId);
+      return prune(moveHead({ ...prev, nodes: { ...prev.nodes, [node.id]: node } }, node.id), maxHistoryLength);
     });
     
     lastStateRef.current = newState;
-  }, [hasStateChanged, maxHistoryLength]);
+  }, [maxHistoryLength]);
   
   // Undo action
   const undo = useCallback(() => {
-    setHistoryState(prev => {
-      if (prev.past.length === 0) return prev;
-      
-      const previous = prev.past[prev.past.length - 1];
-      const newPast = prev.past.slice(0, prev.past.length - 1);
-      
-      return {
-        past: newPast,
-        present: previous,
-        future: [prev.present, ...prev.future],
-        lastSavedIndex: prev.lastSavedIndex
-      };
+    setTree(prev => {
+      const parentId = prev.nodes[prev.headId].parentId;
+      return parentId ? { ...prev, headId: parentId } : prev;
     });
   }, []);
   
   // Redo action
   const redo = useCallback(() => {
-    setHistoryState(prev => {
-      if (prev.future.length === 0) return prev;
-      
-      const next = prev.future[0];
-      const newFuture = prev.future.slice(1);
-      
-      return {
-        past: [...prev.past, prev.present],
-        present: next,
-        future: newFuture,
-        lastSavedIndex: prev.lastSavedIndex
-      };
+    setTree(prev => {
+      const childId = prev.nodes[prev.headId].redoChildId;
+      return childId ? { ...prev, headId: childId } : prev;
     });
   }, []);
   
-  // Jump to a specific point in history
+  // Jump to a specific point on the current branch
   const jumpTo = useCallback((index: number) => {
-    setHistoryState(prev => {
-      if (index < 0 || index >= prev.past.length + 1 + prev.future.length) {
+    setTree(prev => {
+      const path = branchPath(prev);
+      if (index < 0 || index >= path.length) {
         return prev;
       }
-      
-      const allStates = [...prev.past, prev.present, ...prev.future];
-      const targetState = allStates[index];
-      
-      const newPast = allStates.slice(0, index);
-      const newFuture = allStates.slice(index + 1);
-      
-      // Limit past history
-      if (newPast.length > maxHistoryLength) {
-        newPast.splice(0, newPast.length - maxHistoryLength);
-      }
-      
-      return {
-        past: newPast,
-        present: targetState,
-        future: newFuture,
-        lastSavedIndex: prev.lastSavedIndex
-      };
+      return { ...prev, headId: path[index].id };
     });
-  }, [maxHistoryLength]);
+  }, []);
+  
+  // Jump to any node, switching branches if needed
+  const jumpToNode = useCallback((nodeId: string) => {
+    setTree(prev => prev.nodes[nodeId] ? moveHead(prev, nodeId) : prev);
+  }, []);
+  
+  // Copy a node's state into a new node under the head and return that state
+  const restoreAsHead = useCallback((nodeId: string): T | null => {
+    const node = tree.nodes[nodeId];
+    if (!node) return null;
+    
+    const restored = createNode(node.state, `Restored "${node.label}"`, tree.headId);
+    setTree(prev => prune(moveHead({ ...prev, nodes: { ...prev.nodes, [restored.id]: restored } }, restored.id), maxHistoryLength));
+    lastStateRef.current = node.state;
+    return node.state;
+  }, [tree, maxHistoryLength]);
   
   // Clear history
   const clearHistory = useCallback(() => {
-    setHistoryState({
-      past: [],
-      present: historyState.present,
-      future: [],
-      lastSavedIndex: -1
+    setTree(prev => {
+      const root = createNode(prev.nodes[prev.headId].state, 'Cleared history', null);
+      return { nodes: { [root.id]: root }, rootId: root.id, headId: root.id, savedId: null };
     });
-  }, [historyState.present]);
+  }, []);
+  
+  const path = useMemo(() => branchPath(tree), [tree]);
+  const currentIndex = path.findIndex(node => node.id === tree.headId);
   
   // Check if there are undo/redo actions available
-  const canUndo = historyState.past.length > 0;
-  const canRedo = historyState.future.length > 0;
+  const canUndo = currentIndex > 0;
+  const canRedo = currentIndex < path.length - 1;
   
   // Get history info
   const getHistoryInfo = useCallback(() => {
+    const nodes = Object.values(tree.nodes);
     return {
-      pastLength: historyState.past.length,
-      futureLength: historyState.future.length,
-      currentIndex: historyState.past.length,
-      totalLength: historyState.past.length + 1 + historyState.future.length,
-      hasUnsavedChanges: historyState.lastSavedIndex !== historyState.past.length
+      pastLength: currentIndex,
+      futureLength: path.length - 1 - currentIndex,
+      currentIndex,
+      totalLength: path.length,
+      nodeCount: nodes.length,
+      branchCount: nodes.filter(node => !nodes.some(other => other.parentId === node.id)).length,
+      hasUnsavedChanges: tree.savedId !== tree.headId
     };
-  }, [historyState]);
+  }, [tree, path, currentIndex]);
   
   // Mark current state as saved
   const markAsSaved = useCallback(() => {
-    setHistoryState(prev => ({
+    setTree(prev => ({
       ...prev,
-      lastSavedIndex: prev.past.length
+      savedId: prev.headId
     }));
   }, []);
   
-  // Get state at specific index
+  // Get state at specific index on the current branch
   const getStateAtIndex = useCallback((index: number) => {
-    const allStates = [...historyState.past, historyState.present, ...historyState.future];
-    return allStates[index] || null;
-  }, [historyState]);
+    return path[index]?.state || null;
+  }, [path]);
+  
+  const getNode = useCallback((nodeId: string) => {
+    return tree.nodes[nodeId] || null;
+  }, [tree]);
+  
+  // Children of a node, oldest first, for drawing the tree
+  const getChildren = useCallback((nodeId: string) => {
+    return Object.values(tree.nodes)
+      .filter(node => node.parentId === nodeId)
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }, [tree]);
   
   // Clean up debounce timer on unmount
   
   return {
     // Current state
-    state: historyState.present,
+    state: tree.nodes[tree.headId].state,
     
     // History controls
     saveToHistory,
     saveToHistoryImmediate,
+    followTo,
     undo,
     redo,
     jumpTo,
+    jumpToNode,
+    restoreAsHead,
     clearHistory,
     
     // State information
@@ -248,8 +325,13 @@ export const useHistory = <T extends LayerState>(
     canRedo,
     getHistoryInfo,
     getStateAtIndex,
+    getNode,
+    getChildren,
+    rootId: tree.rootId,
+    headId: tree.headId,
+    savedId: tree.savedId,
     
     // Save state management
     markAsSaved
   };
-};
\ No newline at end of file
+};
@@ -247,6 +247,28 @@ const translations: Record<SupportedLanguages, Translations> = {
       education: 'Education',
       nonprofit: 'Nonprofit',
       government: 'Government'
+    },
+    nlp: {
+      allDay: 'all day',
+      every: {
+        daily: 'Every day',
+        weekly: 'Every week',
+        monthly: 'Every month',
+        yearly: 'Every year'
+      },
+      everyN: 'Every {{count}} {{unit}}',
+      units: {
+        daily: 'days',
+        weekly: 'weeks',
+        monthly: 'months',
+        yearly: 'years'
+      },
+      onDays: 'on {{days}}',
+      priorities: {
+        low: 'Low',
+        medium: 'Medium',
+        high: 'High'
+      }
     }
   },
   es: {
@@ -486,6 +508,28 @@ const translations: Record<SupportedLanguages, Translations> = {
       education: 'Educación',
       nonprofit: 'Sin fines de lucro',
       government: 'Gobierno'
+    },
+    nlp: {
+      allDay: 'todo el día',
+      every: {
+        daily: 'Cada día',
+        weekly: 'Cada semana',
+        monthly: 'Cada mes',
+        yearly: 'Cada año'
+      },
+      everyN: 'Cada {{count}} {{unit}}',
+      units: {
+        daily: 'días',
+        weekly: 'semanas',
+        monthly: 'meses',
+        yearly: 'años'
+      },
+      onDays: 'los {{days}}',
+      priorities: {
+        low: 'Baja',
+        medium: 'Media',
+        high: 'Alta'
+      }
     }
   },
   fr: {
@@ -725,6 +769,28 @@ const translations: Record<SupportedLanguages, Translations> = {
       education: 'Éducation',
       nonprofit: 'À but non lucratif',
       government: 'Gouvernement'
+    },
+    nlp: {
+      allDay: 'toute la journée',
+      every: {
+        daily: 'Tous les jours',
+        weekly: 'Toutes les semaines',
+        monthly: 'Tous les mois',
+        yearly: 'Tous les ans'
+      },
+      everyN: 'Tous les {{count}} {{unit}}',
+      units: {
+        daily: 'jours',
+        weekly: 'semaines',
+        monthly: 'mois',
+        yearly: 'ans'
+      },
+      onDays: 'le {{days}}',
+      priorities: {
+        low: 'Basse',
+        medium: 'Moyenne',
+        high: 'Haute'
+      }
     }
   },
   de: {
@@ -964,6 +1030,28 @@ const translations: Record<SupportedLanguages, Translations> = {
       education: 'Bildung',
       nonprofit: 'Nonprofit',
       government: 'Behörden'
+    },
+    nlp: {
+      allDay: 'ganztägig',
+      every: {
+        daily: 'Jeden Tag',
+        weekly: 'Jede Woche',
+        monthly: 'Jeden Monat',
+        yearly: 'Jedes Jahr'
+      },
+      everyN: 'Alle {{count}} {{unit}}',
+      units: {
+        daily: 'Tage',
+        weekly: 'Wochen',
+        monthly: 'Monate',
+        yearly: 'Jahre'
+      },
+      onDays: 'am {{days}}',
+      priorities: {
+        low: 'Niedrig',
+        medium: 'Mittel',
+        high: 'Hoch'
+      }
     }
   },
   zh: {
@@ -1203,6 +1291,28 @@ const translations: Record<SupportedLanguages, Translations> = {
       education: '教育',
       nonprofit: '非营利',
       government: '政府'
+    },
+    nlp: {
+      allDay: '全天',
+      every: {
+        daily: '每天',
+        weekly: '每周',
+        monthly: '每月',
+        yearly: '每年'
+      },
+      everyN: '每{{count}}{{unit}}',
+      units: {
+        daily: '天',
+        weekly: '周',
+        monthly: '个月',
+        yearly: '年'
+      },
+      onDays: '在{{days}}',
+      priorities: {
+        low: '低',
+        medium: '中',
+        high: '高'
+      }
     }
   }
 };
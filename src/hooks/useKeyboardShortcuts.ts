@@ -28,6 +28,9 @@ interface UseKeyboardShortcutsProps {
   handleHelp?: () => void;
 }
 
+// Order used when cycling views and for Alt + 1-5
+const VIEW_MODES: ViewMode[] = ['monthly', 'weekly', 'daily', 'yearly', 'agenda'];
+
 interface ShortcutCategory {
   name: string;
   shortcuts: Shortcut[];
@@ -67,7 +70,8 @@ export const useKeyboardShortcuts = ({
       name: "Navigation",
       shortcuts: [
         { keys: "Ctrl/Cmd + 1-9", description: "Switch to tab", category: "Navigation", action: () => {} },
-        { keys: "Ctrl/Cmd + M", description: "Toggle view mode", category: "Navigation", action: () => {} },
+        { keys: "Ctrl/Cmd + M", description: "Next view mode (Shift for previous)", category: "Navigation", action: () => {} },
+        { keys: "Alt + 1-5", description: "Month, week, day, year or agenda view", category: "Navigation", action: () => {} },
         { keys: "Ctrl/Cmd + B", description: "Open menu", category: "Navigation", action: () => {} },
         { keys: "Ctrl/Cmd + /", description: "Open search", category: "Navigation", action: () => {} },
       ]
@@ -130,6 +134,17 @@ export const useKeyboardShortcuts = ({
       return;
     }
 
+    // Handle Alt + 1-5 for jumping straight to a view. Uses the physical key
+    // because Alt changes the character on some layouts.
+    if (e.altKey && !e.ctrlKey && !e.metaKey) {
+      const mode = VIEW_MODES[parseInt(e.code.replace('Digit', ''), 10) - 1];
+      if (/^Digit\d$/.test(e.code) && mode) {
+        e.preventDefault();
+        setViewMode(mode);
+        return;
+      }
+    }
+
     // Handle Ctrl/Cmd + P for print
     if ((e.ctrlKey || e.metaKey) && e.key === 'p' && !e.shiftKey) {
       e.preventDefault();
@@ -156,8 +171,11 @@ export const useKeyboardShortcuts = ({
           }
           break;
         case 'm':
-          setViewMode(viewMode === 'monthly' ? 'weekly' : 'monthly');
+        case 'M': {
+          const step = e.shiftKey ? VIEW_MODES.length - 1 : 1;
+          setViewMode(VIEW_MODES[(VIEW_MODES.indexOf(viewMode) + step) % VIEW_MODES.length]);
           break;
+        }
         case 'n':
           handleNaturalLanguageInput();
           break;
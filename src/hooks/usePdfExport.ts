@@ -1,6 +1,7 @@
 import { useState, useCallback } from 'react';
 import { jsPDF } from 'jspdf';
 import { CalendarEvent, TaskItem } from '../types';
+import { useStore } from '../stores/appStore';
 import 'jspdf-autotable';
 
 interface PdfExportState {
@@ -22,6 +23,7 @@ interface PdfExportOptions {
   addWatermark?: boolean;
   watermarkText?: string;
   compress?: boolean;
+  timeZone?: string; // Defaults to the planner's display zone
 }
 
 interface TemplateStyle {
@@ -67,6 +69,9 @@ export const usePdfExport = (options: PdfExportOptions = {}) => {
     compress = true
   } = options;
   
+  const displayTimeZone = useStore(state => state.displayTimeZone);
+  const timeZone = options.timeZone || displayTimeZone;
+  
   const [state, setState] = useState<PdfExportState>({
     isExporting: false,
     progress: 0,
@@ -130,8 +135,8 @@ export const usePdfExport = (options: PdfExportOptions = {}) => {
       // Add events using autotable for better formatting
       const tableData = events.map(event => [
         event.title,
-        `${event.startTime.toLocaleDateString()} ${event.startTime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`,
-        `${event.endTime.toLocaleDateString()} ${event.endTime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`,
+        `${event.startTime.toLocaleDateString([], { timeZone })} ${event.startTime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', timeZone })}`,
+        `${event.endTime.toLocaleDateString([], { timeZone })} ${event.endTime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', timeZone })}`,
         event.description || ''
       ]);
       
@@ -209,7 +214,7 @@ export const usePdfExport = (options: PdfExportOptions = {}) => {
       
       return null;
     }
-  }, [fileName, pageSize, orientation, includeHeader, includeFooter, template, encrypt, password, addWatermark, watermarkText, compress, applyTemplate, addDocumentWatermark]);
+  }, [fileName, pageSize, orientation, includeHeader, includeFooter, template, encrypt, password, addWatermark, watermarkText, compress, timeZone, applyTemplate, addDocumentWatermark]);
   
   // Export tasks to PDF
   const exportTasks = useCallback(async (tasks: TaskItem[], title: string = 'Tasks') => {
@@ -363,7 +368,7 @@ export const usePdfExport = (options: PdfExportOptions = {}) => {
       
       return null;
     }
-  }, [fileName, pageSize, orientation, includeHeader, includeFooter, template, encrypt, password, addWatermark, watermarkText, compress, applyTemplate, addDocumentWatermark]);
+  }, [fileName, pageSize, orientation, includeHeader, includeFooter, template, encrypt, password, addWatermark, watermarkText, compress, timeZone, applyTemplate, addDocumentWatermark]);
   
   // Export combined report
   const exportReport = useCallback(async (
@@ -434,8 +439,8 @@ export const usePdfExport = (options: PdfExportOptions = {}) => {
         if (upcomingEvents.length > 0) {
           const tableData = upcomingEvents.map(event => [
             event.title,
-            event.startTime.toLocaleDateString(),
-            event.startTime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+            event.startTime.toLocaleDateString([], { timeZone }),
+            event.startTime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', timeZone })
           ]);
           
           (doc as any).autoTable({
@@ -552,7 +557,7 @@ export const usePdfExport = (options: PdfExportOptions = {}) => {
       
       return null;
     }
-  }, [fileName, pageSize, orientation, includeHeader, includeFooter, template, encrypt, password, addWatermark, watermarkText, compress, applyTemplate, addDocumentWatermark]);
+  }, [fileName, pageSize, orientation, includeHeader, includeFooter, template, encrypt, password, addWatermark, watermarkText, compress, timeZone, applyTemplate, addDocumentWatermark]);
   
   // Export with custom HTML content
   const exportHtmlContent = useCallback(async (htmlContent: string, title: string = 'Custom Content') => {
@@ -636,7 +641,7 @@ export const usePdfExport = (options: PdfExportOptions = {}) => {
       
       return null;
     }
-  }, [fileName, pageSize, orientation, includeHeader, template, encrypt, password, addWatermark, watermarkText, compress, applyTemplate, addDocumentWatermark]);
+  }, [fileName, pageSize, orientation, includeHeader, template, encrypt, password, addWatermark, watermarkText, compress, timeZone, applyTemplate, addDocumentWatermark]);
   
   // Helper function to convert data URI to Blob
   const dataURItoBlob = (dataURI: string): Blob => {
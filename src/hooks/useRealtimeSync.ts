@@ -0,0 +1,33 @@
+import { useEffect } from 'react';
+import { useStore } from '../stores/appStore';
+import { RealtimeSyncService } from '../services/realtimeSync';
+
+const SYNC_URL = import.meta.env.VITE_SYNC_URL || 'http://localhost:3001';
+const SYNC_TOKEN = import.meta.env.VITE_SYNC_TOKEN || '';
+const SYNC_CALENDAR = import.meta.env.VITE_SYNC_CALENDAR || 'default';
+
+/**
+ * Connect the store to the collaboration server when VITE_SYNC_TOKEN is set,
+ * so queued edits drain and collaborators' edits arrive. Returns whether sync
+ * is configured; without it the planner is local only.
+ */
+export const useRealtimeSync = (username: string = ''): boolean => {
+  const enabled = SYNC_TOKEN !== '';
+  
+  useEffect(() => {
+    if (!enabled) return;
+    
+    const service = new RealtimeSyncService(SYNC_URL, SYNC_TOKEN);
+    service.connect((operations) => useStore.getState().applyRemoteChanges(operations));
+    service.joinCalendar(SYNC_CALENDAR, username);
+    useStore.getState().setSyncService(service);
+    
+    return () => {
+      useStore.getState().setSyncService(null);
+      service.leaveCalendar(SYNC_CALENDAR);
+      service.disconnect();
+    };
+  }, [enabled, username]);
+  
+  return enabled;
+};
@@ -0,0 +1,62 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { useStore } from '../stores/appStore';
+
+interface SyncQueueOptions {
+  baseDelay?: number;
+  maxDelay?: number;
+  flushDelay?: number; // Batch edits made in quick succession into one send
+}
+
+/**
+ * Flush the persisted sync queue while online, backing off exponentially
+ * after failed sends. Pass `isOnline` from useOnlineStatus.
+ */
+export const useSyncQueue = (isOnline: boolean, options: SyncQueueOptions = {}) => {
+  const { baseDelay = 1000, maxDelay = 60000, flushDelay = 300 } = options;
+  const syncQueue = useStore((state) => state.syncQueue);
+  const isSyncing = useStore((state) => state.isSyncing);
+  const failedCount = useStore((state) => state.syncFailedCount);
+  const retryAttempt = useStore((state) => state.syncRetryAttempt);
+  const lastError = useStore((state) => state.syncError);
+  const syncService = useStore((state) => state.syncService);
+  const [nextRetryAt, setNextRetryAt] = useState<Date | null>(null);
+  const wasOnlineRef = useRef(isOnline);
+  
+  useEffect(() => {
+    useStore.getState().restoreSyncQueue();
+  }, []);
+  
+  // Coming back online retries straight away instead of waiting out the backoff
+  useEffect(() => {
+    if (isOnline && !wasOnlineRef.current) {
+      useStore.getState().processSyncQueue();
+    }
+    wasOnlineRef.current = isOnline;
+  }, [isOnline]);
+  
+  useEffect(() => {
+    if (!isOnline || isSyncing || !syncService || syncQueue.length === 0) {
+      setNextRetryAt(null);
+      return;
+    }
+    
+    const delay = retryAttempt === 0
+      ? flushDelay
+      : Math.min(baseDelay * 2 ** (retryAttempt - 1), maxDelay);
+    setNextRetryAt(retryAttempt === 0 ? null : new Date(Date.now() + delay));
+    
+    const timer = setTimeout(() => useStore.getState().processSyncQueue(), delay);
+    return () => clearTimeout(timer);
+  }, [isOnline, isSyncing, syncService, syncQueue, retryAttempt, baseDelay, maxDelay, flushDelay]);
+  
+  const retryNow = useCallback(() => useStore.getState().processSyncQueue(), []);
+  
+  return {
+    pendingCount: syncQueue.length,
+    failedCount,
+    isSyncing,
+    lastError,
+    nextRetryAt,
+    retryNow
+  };
+};
@@ -1,4 +1,6 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
+import { NaturalLanguageParser } from '../services/naturalLanguage';
+import { useI18n } from './useI18n';
 
 interface VoiceInputState {
   isListening: boolean;
@@ -45,6 +47,7 @@ export const useVoiceInput = (options: VoiceInputOptions = {}) => {
     isContinuous: continuous
   });
   
+  const { language, t } = useI18n();
   const recognitionRef = useRef<any>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
   const analyserRef = useRef<AnalyserNode | null>(null);
@@ -260,29 +263,20 @@ export const useVoiceInput = (options: VoiceInputOptions = {}) => {
     setState(prev => ({ ...prev, volume: 0 }));
   }, []);
   
-  // Parse natural language commands
+  // Parse natural language commands with the shared grammar. Dates and the
+  // summary come back in the UI language; numeric dates follow the speech language.
   const parseCommand = useCallback((text: string) => {
-    const lowerText = text.toLowerCase().trim();
-    
-    // Parse date commands
-    const dateRegex = /(today|tomorrow|yesterday|next (monday|tuesday|wednesday|thursday|friday|saturday|sunday))/i;
-    const dateMatch = lowerText.match(dateRegex);
-    
-    // Parse time commands
-    const timeRegex = /(\d{1,2}:\d{2}\s*(am|pm)?)|(\d{1,2}\s*(am|pm))/i;
-    const timeMatch = lowerText.match(timeRegex);
-    
-    // Parse duration commands
-    const durationRegex = /(\d+\s*(minute|hour|day|week)s?)/i;
-    const durationMatch = lowerText.match(durationRegex);
+    const parsed = NaturalLanguageParser.parse(text, { locale: state.language });
     
     return {
-      date: dateMatch ? dateMatch[0] : null,
-      time: timeMatch ? timeMatch[0] : null,
-      duration: durationMatch ? durationMatch[0] : null,
-      raw: text
+      date: parsed.start ? parsed.start.toLocaleDateString(language, { weekday: 'short', month: 'short', day: 'numeric' }) : null,
+      time: parsed.start && parsed.hasTime ? parsed.start.toLocaleTimeString(language, { hour: 'numeric', minute: '2-digit' }) : null,
+      duration: parsed.durationMinutes ? `${parsed.durationMinutes} min` : null,
+      raw: text,
+      parsed,
+      summary: NaturalLanguageParser.describe(parsed, t, language)
     };
-  }, []);
+  }, [state.language, language, t]);
   
   return {
     ...state,
@@ -1,66 +1,25 @@
 import { CalendarEvent, TaskItem } from '../types';
+import { AutoScheduler, SchedulerOptions, SchedulingPreferences } from './autoScheduler';
+import { NaturalLanguageParser, ParseOptions } from './naturalLanguage';
 
 export class AIScheduler {
   /**
-   * Suggest optimal times for events based on user habits and preferences
+   * Suggest optimal times for events based on user habits and preferences.
+   * Slots come from AutoScheduler, best first; use it directly for the reasons.
    */
   static suggestEventTime(
     title: string,
     duration: number, // in minutes
     priority: 'low' | 'medium' | 'high',
     userSchedule: CalendarEvent[],
-    userPreferences: {
-      workStartHour: number;
-      workEndHour: number;
-      preferredDays: number[]; // 0 = Sunday, 1 = Monday, etc.
-      lunchStartHour: number;
-      lunchDuration: number;
-    }
+    userPreferences: SchedulingPreferences,
+    options: SchedulerOptions = {}
   ): Date[] {
     // Use the provided parameters to generate intelligent suggestions
     console.log(`Generating suggestions for "${title}" with ${duration}min duration, ${priority} priority`);
     
-    const suggestions: Date[] = [];
-    const today = new Date();
-    
-    // Look for the next 7 days, checking conflicts with existing schedule
-    for (let i = 0; i < 7; i++) {
-      const date = new Date(today);
-      date.setDate(today.getDate() + i);
-      
-      // Skip if not a preferred day
-      if (!userPreferences.preferredDays.includes(date.getDay())) {
-        continue;
-      }
-      
-      // Check for conflicts with existing schedule
-      const hasConflict = (timeSlot: Date) => {
-        return userSchedule.some(event => {
-          const eventStart = new Date(event.startTime);
-          const eventEnd = new Date(event.endTime);
-          const slotEnd = new Date(timeSlot.getTime() + duration * 60 * 1000);
-          
-          return (timeSlot >= eventStart && timeSlot < eventEnd) ||
-                 (slotEnd > eventStart && slotEnd <= eventEnd);
-        });
-      };
-      
-      // Suggest morning slot (9-11 AM) if no conflict
-      const morningStart = new Date(date);
-      morningStart.setHours(9, 0, 0, 0);
-      if (!hasConflict(morningStart)) {
-        suggestions.push(morningStart);
-      }
-      
-      // Suggest afternoon slot (2-4 PM) if no conflict
-      const afternoonStart = new Date(date);
-      afternoonStart.setHours(14, 0, 0, 0);
-      if (!hasConflict(afternoonStart)) {
-        suggestions.push(afternoonStart);
-      }
-    }
-    
-    return suggestions;
+    return AutoScheduler.findSlots({ duration, priority, kind: 'meeting' }, userSchedule, userPreferences, { limit: 14, ...options })
+      .map(slot => slot.start);
   }
   
   /**
@@ -89,52 +48,23 @@ export class AIScheduler {
   }
   
   /**
-   * Parse natural language input and create events
+   * Parse natural language input and create events. Dated input without a
+   * time starts at 10 AM and runs an hour unless a duration is given.
    */
-  static parseNaturalLanguage(input: string): Partial<CalendarEvent> | null {
-    // This is a simplified implementation
-    // In a real application, this would use NLP models
-    
-    const lowerInput = input.toLowerCase();
-    
-    // Extract title (everything before "on" or "at")
-    const titleMatch = input.match(/^(.*?)(?=\s+(on|at)\s+)/i);
-    const title = titleMatch ? titleMatch[1].trim() : input;
-    
-    // Extract date and time
-    let startTime: Date | undefined = undefined;
-    let endTime: Date | undefined = undefined;
-    
-    // Simple pattern matching for demonstration
-    if (lowerInput.includes('tomorrow')) {
-      const tomorrow = new Date();
-      tomorrow.setDate(tomorrow.getDate() + 1);
-      startTime = tomorrow;
-    } else if (lowerInput.includes('next week')) {
-      const nextWeek = new Date();
-      nextWeek.setDate(nextWeek.getDate() + 7);
-      startTime = nextWeek;
-    } else if (lowerInput.includes('next monday')) {
-      const nextMonday = new Date();
-      nextMonday.setDate(nextMonday.getDate() + (8 - nextMonday.getDay()) % 7);
-      startTime = nextMonday;
-    }
-    
-    if (startTime) {
-      // Set default time to 10 AM
-      startTime.setHours(10, 0, 0, 0);
-      endTime = new Date(startTime);
-      endTime.setHours(11, 0, 0, 0); // Default 1-hour duration
-    }
+  static parseNaturalLanguage(input: string, options: ParseOptions = {}): Partial<CalendarEvent> | null {
+    const parsed = NaturalLanguageParser.parse(input, { defaultHour: 10, defaultDuration: 60, ...options });
     
-    if (!startTime) {
+    if (!parsed.start || !parsed.end) {
       return null;
     }
     
     return {
-      title,
-      startTime,
-      endTime,
+      title: parsed.title || input,
+      startTime: parsed.start,
+      endTime: parsed.end,
+      ...(parsed.allDay && { allDay: true }),
+      ...(parsed.location && { location: parsed.location }),
+      ...(parsed.recurrence && { recurrence: parsed.recurrence }),
       description: `Created from natural language: "${input}"`
     };
   }
@@ -22,6 +22,8 @@ export interface APIEndpoint {
   description: string;
 }
 
+export const LOCAL_API_SERVICE = 'artful-agenda';
+
 export class APIGateway {
   private static instance: APIGateway;
   private services: Map<string, APIService> = new Map();
@@ -97,6 +99,17 @@ export class APIGateway {
       enabled: false,
       connected: false
     });
+
+    // Planner REST API served next to the collaboration server
+    this.registerService({
+      id: LOCAL_API_SERVICE,
+      name: 'Artful Agenda API',
+      description: 'Read and write calendar layers from scripts',
+      baseUrl: 'http://localhost:3001/api/v1',
+      authType: 'apikey',
+      enabled: false,
+      connected: false
+    });
   }
 
   /**
@@ -319,6 +332,32 @@ export class APIGateway {
     console.log(`API key set for service: ${serviceId}`);
   }
 
+  /**
+   * Find which service an API key was issued to, comparing in constant time
+   */
+  getServiceForApiKey(apiKey: string): string | undefined {
+    let match: string | undefined;
+    this.apiKeys.forEach((key, serviceId) => {
+      let difference = key.length ^ apiKey.length;
+      for (let i = 0; i < key.length; i++) {
+        difference |= key.charCodeAt(i) ^ apiKey.charCodeAt(i % Math.max(1, apiKey.length));
+      }
+      if (difference === 0) match = serviceId;
+    });
+    return match;
+  }
+
+  /**
+   * Revoke the API key for a service
+   */
+  removeApiKey(serviceId: string): boolean {
+    const result = this.apiKeys.delete(serviceId);
+    if (result) {
+      console.log(`API key removed for service: ${serviceId}`);
+    }
+    return result;
+  }
+
   /**
    * Get service connection status
    */
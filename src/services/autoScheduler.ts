@@ -0,0 +1,347 @@
+import { CalendarEvent, EventOverride, TaskItem } from '../types';
+import { RecurrenceEngine } from './recurrence';
+import { TimeZoneService } from './timeZone';
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+// Hours of protected deep work; meetings stay out, tasks are drawn in
+export interface FocusBlock {
+  weekday: number; // 0 = Sunday
+  startHour: number;
+  endHour: number;
+}
+
+export interface SchedulingPreferences {
+  workStartHour: number; // Fractional hours allowed, e.g. 8.5
+  workEndHour: number;
+  preferredDays: number[]; // 0 = Sunday, 1 = Monday, etc.
+  lunchStartHour: number;
+  lunchDuration: number; // in minutes
+  timeZone?: string; // IANA zone the hours and days refer to; defaults to the device zone
+  bufferMinutes?: number; // Kept clear either side of existing events
+  travelMinutes?: number; // Extra gap next to events held somewhere else
+  focusBlocks?: FocusBlock[];
+}
+
+export interface SlotRequest {
+  duration: number; // in minutes
+  priority: 'low' | 'medium' | 'high';
+  kind?: 'meeting' | 'task';
+  location?: string;
+  notBefore?: Date;
+  deadline?: Date; // The slot must end by then
+}
+
+export interface SchedulerOptions {
+  from?: Date; // Defaults to now; pass a fixed instant for repeatable results
+  horizonDays?: number;
+  stepMinutes?: number; // Slot starts are aligned to this grid from the start of the working day
+  limit?: number;
+  overrides?: Record<string, EventOverride[]>;
+}
+
+export interface SlotSuggestion {
+  start: Date;
+  end: Date;
+  score: number;
+  reasons: string[];
+}
+
+export interface TaskPlacement extends SlotSuggestion {
+  taskId: string;
+}
+
+export interface TaskPlan {
+  placements: TaskPlacement[];
+  unscheduled: Array<{ taskId: string; reason: string }>;
+}
+
+interface Blocker {
+  start: number;
+  end: number;
+  after: string; // How a free stretch that begins at `end` is explained
+  before: string; // ... and one that stops at `start`
+}
+
+interface FreeSegment {
+  start: number;
+  end: number;
+  focus: boolean;
+  after?: string;
+  before?: string;
+}
+
+const DAY_WEIGHT: Record<SlotRequest['priority'], number> = { high: 8, medium: 4, low: 2 };
+
+/**
+ * Auto Scheduler
+ * Constraint-based slot finding: working hours, lunch, buffers, travel and
+ * focus blocks are hard limits, preferences only change a slot's rank
+ */
+export class AutoScheduler {
+  /**
+   * Free slots for a request, best first. Each free stretch of a day offers
+   * its earliest aligned start, so results are spread across the week and
+   * equal scores fall back to the earlier slot.
+   */
+  static findSlots(
+    request: SlotRequest,
+    events: CalendarEvent[],
+    preferences: SchedulingPreferences,
+    options: SchedulerOptions = {}
+  ): SlotSuggestion[] {
+    const from = options.from || new Date();
+    const horizonDays = options.horizonDays || 7;
+    const rangeEnd = new Date(from.getTime() + (horizonDays + 1) * DAY);
+    const occurrences = RecurrenceEngine.expandAll(events, from, rangeEnd, options.overrides || {});
+    
+    return this.rank(request, this.blockersFor(occurrences, request, preferences), preferences, { ...options, from })
+      .slice(0, options.limit || 5);
+  }
+  
+  /**
+   * Pack estimated, open tasks into free time one after another. Tasks go in
+   * order of deadline, then priority; blockers are always placed first and
+   * each placement becomes busy time for the tasks after it.
+   */
+  static planTasks(
+    tasks: TaskItem[],
+    events: CalendarEvent[],
+    preferences: SchedulingPreferences,
+    options: SchedulerOptions = {}
+  ): TaskPlan {
+    const from = options.from || new Date();
+    const horizonDays = options.horizonDays || 7;
+    const timeZone = preferences.timeZone || TimeZoneService.getLocalZone();
+    const rangeEnd = new Date(from.getTime() + (horizonDays + 1) * DAY);
+    const occurrences = RecurrenceEngine.expandAll(events, from, rangeEnd, options.overrides || {});
+    const plan: TaskPlan = { placements: [], unscheduled: [] };
+    
+    const open = tasks.filter(task => !task.completed);
+    const pending = open
+      .filter(task => {
+        if (task.estimateMinutes && task.estimateMinutes > 0) return true;
+        plan.unscheduled.push({ taskId: task.id, reason: 'No time estimate' });
+        return false;
+      })
+      .sort((a, b) =>
+        (this.deadlineOf(a) ?? Infinity) - (this.deadlineOf(b) ?? Infinity) ||
+        DAY_WEIGHT[b.priority] - DAY_WEIGHT[a.priority] ||
+        a.date.localeCompare(b.date) ||
+        a.id.localeCompare(b.id));
+    const placed = new Map<string, TaskPlacement>();
+    const taskBlockers: Blocker[] = [];
+    
+    while (pending.length > 0) {
+      // The first task in order whose open blockers have all been decided
+      const index = pending.findIndex(task => (task.blockedBy || []).every(id => !pending.some(other => other.id === id)));
+      if (index === -1) {
+        pending.forEach(task => plan.unscheduled.push({ taskId: task.id, reason: 'Blocked by tasks that wait on each other' }));
+        break;
+      }
+      const [task] = pending.splice(index, 1);
+      
+      const blockers = open.filter(other => task.blockedBy?.includes(other.id));
+      if (blockers.some(other => other.estimateMinutes && !placed.has(other.id))) {
+        plan.unscheduled.push({ taskId: task.id, reason: 'Waits on a task that could not be scheduled' });
+        continue;
+      }
+      
+      const deadline = this.deadlineOf(task);
+      const dayStart = TimeZoneService.fromParts(timeZone, ...this.dateParts(task.date));
+      const notBefore = Math.max(dayStart.getTime(), ...blockers.map(other => placed.get(other.id)?.end.getTime() || 0));
+      const request: SlotRequest = {
+        duration: task.estimateMinutes!,
+        priority: task.priority,
+        kind: 'task',
+        notBefore: new Date(notBefore),
+        deadline: deadline !== null && deadline > from.getTime() ? new Date(deadline) : undefined
+      };
+      
+      const [best] = this.rank(request, [...this.blockersFor(occurrences, request, preferences), ...taskBlockers], preferences, { ...options, from });
+      if (!best) {
+        plan.unscheduled.push({
+          taskId: task.id,
+          reason: request.deadline ? 'No free time before its deadline' : `No free time in the next ${horizonDays} days`
+        });
+        continue;
+      }
+      
+      const placement = { ...best, taskId: task.id };
+      if (deadline !== null && !request.deadline) placement.reasons.push('Already past its due time');
+      plan.placements.push(placement);
+      placed.set(task.id, placement);
+      taskBlockers.push({
+        start: best.start.getTime(),
+        end: best.end.getTime(),
+        after: `after “${task.content}”`,
+        before: `before “${task.content}”`
+      });
+    }
+    
+    plan.placements.sort((a, b) => a.start.getTime() - b.start.getTime());
+    return plan;
+  }
+  
+  // Every candidate slot in the horizon, scored and sorted
+  private static rank(
+    request: SlotRequest,
+    blockers: Blocker[],
+    preferences: SchedulingPreferences,
+    options: SchedulerOptions & { from: Date }
+  ): SlotSuggestion[] {
+    const timeZone = preferences.timeZone || TimeZoneService.getLocalZone();
+    const today = TimeZoneService.getParts(options.from, timeZone);
+    const duration = request.duration * MINUTE;
+    const step = (options.stepMinutes || 15) * MINUTE;
+    const earliest = Math.max(options.from.getTime(), request.notBefore?.getTime() || 0);
+    const latest = request.deadline?.getTime() ?? Infinity;
+    const format = (time: number, fields?: Intl.DateTimeFormatOptions) => TimeZoneService.format(new Date(time), timeZone, fields);
+    const slots: SlotSuggestion[] = [];
+    
+    for (let i = 0; i < (options.horizonDays || 7); i++) {
+      // Days are walked as wall-clock dates so the hours hold across DST changes
+      const date = new Date(Date.UTC(today.year, today.month - 1, today.day + i));
+      const [year, month, day] = [date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate()];
+      const weekday = date.getUTCDay();
+      const at = (hour: number) => TimeZoneService.fromParts(timeZone, year, month, day, Math.floor(hour), Math.round((hour % 1) * 60)).getTime();
+      
+      const workStart = at(preferences.workStartHour);
+      const lunchStart = at(preferences.lunchStartHour);
+      const dayBlockers: Blocker[] = [
+        ...blockers,
+        { start: lunchStart, end: lunchStart + preferences.lunchDuration * MINUTE, after: 'after lunch', before: 'before lunch' }
+      ];
+      const focusBlocks = (preferences.focusBlocks || [])
+        .filter(block => block.weekday === weekday)
+        .map(block => ({ start: at(block.startHour), end: at(block.endHour) }));
+      if (request.kind !== 'task') {
+        focusBlocks.forEach(block => dayBlockers.push({ ...block, after: 'after your focus block', before: 'before your focus block' }));
+      }
+      
+      this.freeSegments(workStart, at(preferences.workEndHour), dayBlockers, focusBlocks).forEach(segment => {
+        const start = workStart + Math.ceil(Math.max(0, Math.max(segment.start, earliest) - workStart) / step) * step;
+        const end = start + duration;
+        if (end > Math.min(segment.end, latest)) return;
+        
+        let score = 100 - i * DAY_WEIGHT[request.priority];
+        const reasons = [
+          `Free ${format(segment.start, { weekday: 'short', hour: 'numeric', minute: '2-digit' })}–${format(segment.end)}`
+        ];
+        
+        if (start === segment.start && segment.after) {
+          score += 5;
+          reasons.push(`Starts ${segment.after}`);
+        } else if (end === segment.end && segment.before) {
+          reasons.push(`Ends ${segment.before}`);
+        }
+        
+        if (preferences.preferredDays.includes(weekday)) {
+          score += 20;
+          reasons.push('On a preferred day');
+        } else {
+          reasons.push('Not one of your preferred days');
+        }
+        
+        if (segment.focus) {
+          score += 25;
+          reasons.push('Inside a focus block');
+        }
+        
+        if (request.priority === 'high' && TimeZoneService.getParts(new Date(start), timeZone).hour < 12) {
+          score += 10;
+          reasons.push('Morning slot for a high-priority item');
+        }
+        
+        if (request.deadline) {
+          const spare = Math.floor((latest - end) / DAY);
+          reasons.push(spare > 0 ? `Ends ${spare} day${spare === 1 ? '' : 's'} before the deadline` : 'Ends just before the deadline');
+        }
+        
+        slots.push({ start: new Date(start), end: new Date(end), score, reasons });
+      });
+    }
+    
+    return slots.sort((a, b) => b.score - a.score || a.start.getTime() - b.start.getTime());
+  }
+  
+  /**
+   * Working hours minus every blocker, split at focus block edges. Each
+   * stretch remembers what closed it off on either side.
+   */
+  private static freeSegments(
+    workStart: number,
+    workEnd: number,
+    blockers: Blocker[],
+    focusBlocks: Array<{ start: number; end: number }>
+  ): FreeSegment[] {
+    let segments: FreeSegment[] = [{ start: workStart, end: workEnd, focus: false }];
+    
+    [...blockers].sort((a, b) => a.start - b.start).forEach(blocker => {
+      segments = segments.flatMap(segment => {
+        if (blocker.end <= segment.start || blocker.start >= segment.end) return [segment];
+        const pieces: FreeSegment[] = [];
+        if (blocker.start > segment.start) pieces.push({ ...segment, end: blocker.start, before: blocker.before });
+        if (blocker.end < segment.end) pieces.push({ ...segment, start: blocker.end, after: blocker.after });
+        return pieces;
+      });
+    });
+    
+    focusBlocks.forEach(block => {
+      segments = segments.flatMap(segment => {
+        if (segment.focus || block.end <= segment.start || block.start >= segment.end) return [segment];
+        const inside = { start: Math.max(segment.start, block.start), end: Math.min(segment.end, block.end) };
+        return [
+          ...(segment.start < inside.start ? [{ ...segment, end: inside.start, before: 'before your focus block' }] : []),
+          {
+            ...inside,
+            focus: true,
+            after: inside.start === segment.start ? segment.after : undefined,
+            before: inside.end === segment.end ? segment.before : undefined
+          },
+          ...(inside.end < segment.end ? [{ ...segment, start: inside.end, after: 'after your focus block' }] : [])
+        ];
+      });
+    });
+    
+    return segments.filter(segment => segment.end > segment.start);
+  }
+  
+  /**
+   * Existing events as busy time, widened by the buffer and, when they are
+   * held somewhere other than the request's location, by travel time.
+   * All-day events mark a date rather than book hours, so they never block.
+   */
+  private static blockersFor(events: CalendarEvent[], request: SlotRequest, preferences: SchedulingPreferences): Blocker[] {
+    return events
+      .filter(event => !event.allDay)
+      .map(event => {
+        const buffer = preferences.bufferMinutes || 0;
+        const travel = event.location && request.location &&
+          event.location.trim().toLowerCase() !== request.location.trim().toLowerCase()
+          ? preferences.travelMinutes || 0
+          : 0;
+        const gap = buffer + travel;
+        const note = travel ? ` to allow ${travel} min travel` : gap ? ' (buffer)' : '';
+        
+        return {
+          start: event.startTime.getTime() - gap * MINUTE,
+          end: event.endTime.getTime() + gap * MINUTE,
+          after: gap ? `${gap} min after “${event.title}”${note}` : `right after “${event.title}”`,
+          before: gap ? `${gap} min before “${event.title}”${note}` : `right before “${event.title}”`
+        };
+      });
+  }
+  
+  private static deadlineOf(task: TaskItem): number | null {
+    return task.dueAt ? new Date(task.dueAt).getTime() : null;
+  }
+  
+  private static dateParts(date: string): [number, number, number] {
+    const [year, month, day] = date.split('-').map(Number);
+    return [year, month, day];
+  }
+}
+
+export default AutoScheduler;
@@ -0,0 +1,429 @@
+/**
+ * CalDAV Client
+ * Speaks RFC 4791 CalDAV (iCloud, Radicale, Nextcloud, ...) over axios
+ */
+
+import axios, { AxiosRequestConfig, AxiosResponse } from 'axios';
+import { CalendarEvent, EventOverride } from '../types';
+import { ICalendarCodec } from './icalendar';
+
+export interface CalDAVCredentials {
+  username?: string; // Basic auth when set (iCloud app-specific passwords), Bearer otherwise
+  password: string;
+}
+
+export interface CalDAVCalendar {
+  href: string;
+  displayName: string;
+  ctag?: string;
+  syncToken?: string;
+  color?: string;
+}
+
+export interface CalDAVResource {
+  href: string;
+  etag: string;
+  event: CalendarEvent;
+  overrides: EventOverride[]; // Modified occurrences stored in the same resource
+}
+
+export interface CalDAVSyncResult {
+  changed: CalDAVResource[];
+  removed: string[]; // Hrefs that no longer exist on the server
+  ctag?: string;
+}
+
+interface XmlNode {
+  name: string; // Local name
+  ns: string; // Resolved namespace URI
+  children: XmlNode[];
+  text: string;
+}
+
+const NS = {
+  dav: 'DAV:',
+  caldav: 'urn:ietf:params:xml:ns:caldav',
+  calendarServer: 'http://calendarserver.org/ns/',
+  apple: 'http://apple.com/ns/ical/'
+};
+
+const XML_HEADER = '<?xml version="1.0" encoding="utf-8"?>';
+
+export class CalDAVClient {
+  private baseUrl: string;
+  private credentials: CalDAVCredentials;
+  private principalHref: string | null = null;
+  private calendarHomeHref: string | null = null;
+  
+  // Last seen state per calendar, used for incremental sync
+  private ctags: Map<string, string> = new Map();
+  private etags: Map<string, Map<string, string>> = new Map();
+  
+  constructor(baseUrl: string, credentials: CalDAVCredentials) {
+    this.baseUrl = baseUrl.replace(/\/$/, '');
+    this.credentials = credentials;
+  }
+  
+  /**
+   * Discover the current user's principal and calendar-home URLs
+   */
+  async discover(): Promise<{ principal: string; calendarHome: string }> {
+    if (this.principalHref && this.calendarHomeHref) {
+      return { principal: this.principalHref, calendarHome: this.calendarHomeHref };
+    }
+    
+    const principalResponse = await this.propfind(this.baseUrl, 0, `<d:prop><d:current-user-principal/></d:prop>`);
+    const principal = this.findText(principalResponse, NS.dav, 'current-user-principal', 'href');
+    if (!principal) throw new Error('CalDAV server did not report a current-user-principal');
+    
+    const homeResponse = await this.propfind(this.resolve(principal), 0, `<d:prop><c:calendar-home-set/></d:prop>`);
+    const calendarHome = this.findText(homeResponse, NS.caldav, 'calendar-home-set', 'href');
+    if (!calendarHome) throw new Error('CalDAV server did not report a calendar-home-set');
+    
+    this.principalHref = principal;
+    this.calendarHomeHref = calendarHome;
+    return { principal, calendarHome };
+  }
+  
+  /**
+   * List calendar collections that can hold events
+   */
+  async listCalendars(): Promise<CalDAVCalendar[]> {
+    const { calendarHome } = await this.discover();
+    const root = await this.propfind(this.resolve(calendarHome), 1, `
+      <d:prop>
+        <d:resourcetype/>
+        <d:displayname/>
+        <d:sync-token/>
+        <cs:getctag/>
+        <ic:calendar-color/>
+        <c:supported-calendar-component-set/>
+      </d:prop>`);
+      
+    return this.responses(root)
+      .filter(response => {
+        const type = this.find(response, NS.dav, 'resourcetype');
+        if (!type || !this.find(type, NS.caldav, 'calendar')) return false;
+        // Collections that declare their components must include VEVENT
+        const components = this.find(response, NS.caldav, 'supported-calendar-component-set');
+        return !components || this.findAll(components, NS.caldav, 'comp').some(c => /VEVENT/i.test(c.text));
+      })
+      .map(response => ({
+        href: this.findText(response, NS.dav, 'href') || '',
+        displayName: this.findText(response, NS.dav, 'displayname') || 'Calendar',
+        ctag: this.findText(response, NS.calendarServer, 'getctag') || undefined,
+        syncToken: this.findText(response, NS.dav, 'sync-token') || undefined,
+        color: this.findText(response, NS.apple, 'calendar-color') || undefined
+      }));
+  }
+  
+  /**
+   * Fetch events overlapping a time range with a calendar-query REPORT
+   */
+  async fetchEvents(calendarHref: string, start?: Date, end?: Date): Promise<CalDAVResource[]> {
+    const root = await this.report(calendarHref, `
+      <c:calendar-query xmlns:d="DAV:" xmlns:c="${NS.caldav}">
+        <d:prop><d:getetag/><c:calendar-data/></d:prop>
+        ${this.eventFilter(start, end)}
+      </c:calendar-query>`);
+      
+    const resources = this.toResources(root);
+    const known = this.etagsFor(calendarHref);
+    resources.forEach(resource => known.set(resource.href, resource.etag));
+    return resources;
+  }
+  
+  /**
+   * Incrementally sync a calendar: nothing is fetched when the ctag is unchanged,
+   * otherwise ETags are compared and only new or modified resources are downloaded.
+   * With a time range, known resources missing from the listing may just lie
+   * outside it, so they are only reported removed once a multiget 404s them.
+   */
+  async syncCalendar(calendar: CalDAVCalendar, start?: Date, end?: Date): Promise<CalDAVSyncResult> {
+    const previousCtag = this.ctags.get(calendar.href);
+    if (calendar.ctag && previousCtag === calendar.ctag) {
+      return { changed: [], removed: [], ctag: calendar.ctag };
+    }
+    
+    const root = await this.report(calendar.href, `
+      <c:calendar-query xmlns:d="DAV:" xmlns:c="${NS.caldav}">
+        <d:prop><d:getetag/></d:prop>
+        ${this.eventFilter(start, end)}
+      </c:calendar-query>`);
+      
+    const remote = new Map<string, string>();
+    this.responses(root).forEach(response => {
+      const href = this.findText(response, NS.dav, 'href');
+      const etag = this.findText(response, NS.dav, 'getetag');
+      if (href && etag) remote.set(href, etag);
+    });
+    
+    const known = this.etagsFor(calendar.href);
+    const changedHrefs = Array.from(remote.entries())
+      .filter(([href, etag]) => known.get(href) !== etag)
+      .map(([href]) => href);
+    const missing = Array.from(known.keys()).filter(href => !remote.has(href));
+    const ranged = !!(start || end);
+    
+    const requested = ranged ? [...changedHrefs, ...missing] : changedHrefs;
+    const fetched = requested.length > 0 ? await this.multiget(calendar.href, requested) : { resources: [], notFound: [] };
+    const changed = fetched.resources.filter(resource => known.get(resource.href) !== resource.etag);
+    const removed = ranged ? missing.filter(href => fetched.notFound.includes(href)) : missing;
+    
+    removed.forEach(href => known.delete(href));
+    changed.forEach(resource => known.set(resource.href, resource.etag));
+    if (calendar.ctag) this.ctags.set(calendar.href, calendar.ctag);
+    
+    return { changed, removed, ctag: calendar.ctag };
+  }
+  
+  /**
+   * Create or update an event along with its modified occurrences, which live in
+   * the same resource. Updates send If-Match so concurrent server-side edits fail
+   * with 412 instead of being overwritten. Returns the new ETag.
+   */
+  async putEvent(
+    calendarHref: string,
+    event: CalendarEvent,
+    overrides: EventOverride[] = [],
+    etag?: string
+  ): Promise<{ href: string; etag: string | null }> {
+    const href = this.eventHref(calendarHref, event.id);
+    const knownEtag = etag ?? this.etagsFor(calendarHref).get(href);
+    
+    const response = await this.request({
+      method: 'PUT',
+      url: this.resolve(href),
+      data: ICalendarCodec.serialize([event], [], { [event.id]: overrides }),
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        ...(knownEtag ? { 'If-Match': knownEtag } : { 'If-None-Match': '*' })
+      }
+    });
+    
+    const newEtag = (response.headers['etag'] as string | undefined) || null;
+    if (newEtag) {
+      this.etagsFor(calendarHref).set(href, newEtag);
+    } else {
+      // Server changed the data on write; force a re-fetch next sync
+      this.etagsFor(calendarHref).delete(href);
+    }
+    this.ctags.delete(calendarHref);
+    
+    return { href, etag: newEtag };
+  }
+  
+  /**
+   * Delete an event, guarded by If-Match when its ETag is known
+   */
+  async deleteEvent(calendarHref: string, eventId: string, etag?: string): Promise<void> {
+    const href = this.eventHref(calendarHref, eventId);
+    const knownEtag = etag ?? this.etagsFor(calendarHref).get(href);
+    
+    await this.request({
+      method: 'DELETE',
+      url: this.resolve(href),
+      headers: knownEtag ? { 'If-Match': knownEtag } : {}
+    });
+    
+    this.etagsFor(calendarHref).delete(href);
+    this.ctags.delete(calendarHref);
+  }
+  
+  /**
+   * Href of the resource holding an event, preferring the one the server reported
+   */
+  eventHref(calendarHref: string, eventId: string): string {
+    const known = Array.from(this.etagsFor(calendarHref).keys())
+      .find(href => decodeURIComponent(href.split('/').pop() || '') === `${eventId}.ics`);
+    if (known) return known;
+    const base = calendarHref.endsWith('/') ? calendarHref : `${calendarHref}/`;
+    return `${base}${encodeURIComponent(eventId)}.ics`;
+  }
+  
+  // Resources by href, plus the hrefs the server answered with 404
+  private async multiget(calendarHref: string, hrefs: string[]): Promise<{ resources: CalDAVResource[]; notFound: string[] }> {
+    const root = await this.report(calendarHref, `
+      <c:calendar-multiget xmlns:d="DAV:" xmlns:c="${NS.caldav}">
+        <d:prop><d:getetag/><c:calendar-data/></d:prop>
+        ${hrefs.map(href => `<d:href>${this.escapeXml(href)}</d:href>`).join('')}
+      </c:calendar-multiget>`);
+      
+    const notFound = this.responses(root)
+      .filter(response => / 404 /.test(this.findText(response, NS.dav, 'status') || ''))
+      .map(response => this.findText(response, NS.dav, 'href'))
+      .filter((href): href is string => !!href);
+    return { resources: this.toResources(root), notFound };
+  }
+  
+  private toResources(root: XmlNode): CalDAVResource[] {
+    const resources: CalDAVResource[] = [];
+    
+    this.responses(root).forEach(response => {
+      const href = this.findText(response, NS.dav, 'href');
+      const etag = this.findText(response, NS.dav, 'getetag');
+      const data = this.findText(response, NS.caldav, 'calendar-data');
+      if (!href || !etag || !data) return;
+      
+      const parsed = ICalendarCodec.parse(data);
+      if (parsed.skipped.length) {
+        console.warn(`CalDAV resource ${href} had skipped entries:`, parsed.skipped);
+      }
+      parsed.events.forEach(event => {
+        resources.push({ href, etag, event: { ...event, sourceCalendar: 'apple' }, overrides: parsed.overrides[event.id] || [] });
+      });
+    });
+    
+    return resources;
+  }
+  
+  private eventFilter(start?: Date, end?: Date): string {
+    const format = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+    const range = start || end
+      ? `<c:time-range${start ? ` start="${format(start)}"` : ''}${end ? ` end="${format(end)}"` : ''}/>`
+      : '';
+      
+    return `
+      <c:filter>
+        <c:comp-filter name="VCALENDAR">
+          <c:comp-filter name="VEVENT">${range}</c:comp-filter>
+        </c:comp-filter>
+      </c:filter>`;
+  }
+  
+  private async propfind(url: string, depth: 0 | 1, body: string): Promise<XmlNode> {
+    const response = await this.request({
+      method: 'PROPFIND',
+      url,
+      data: `${XML_HEADER}
+        <d:propfind xmlns:d="DAV:" xmlns:c="${NS.caldav}" xmlns:cs="${NS.calendarServer}" xmlns:ic="${NS.apple}">
+          ${body}
+        </d:propfind>`,
+      headers: { Depth: String(depth), 'Content-Type': 'application/xml; charset=utf-8' }
+    });
+    return this.parseXml(response.data);
+  }
+  
+  private async report(calendarHref: string, body: string): Promise<XmlNode> {
+    const response = await this.request({
+      method: 'REPORT',
+      url: this.resolve(calendarHref),
+      data: `${XML_HEADER}${body}`,
+      headers: { Depth: '1', 'Content-Type': 'application/xml; charset=utf-8' }
+    });
+    return this.parseXml(response.data);
+  }
+  
+  private request(config: AxiosRequestConfig): Promise<AxiosResponse> {
+    const authorization = this.credentials.username
+      ? `Basic ${btoa(`${this.credentials.username}:${this.credentials.password}`)}`
+      : `Bearer ${this.credentials.password}`;
+      
+    return axios.request({
+      ...config,
+      responseType: 'text',
+      transformResponse: [(data) => data],
+      headers: { Authorization: authorization, ...config.headers }
+    });
+  }
+  
+  private resolve(href: string): string {
+    if (/^https?:\/\//i.test(href)) return href;
+    const origin = new URL(this.baseUrl).origin;
+    return href.startsWith('/') ? `${origin}${href}` : `${this.baseUrl}/${href}`;
+  }
+  
+  private etagsFor(calendarHref: string): Map<string, string> {
+    if (!this.etags.has(calendarHref)) {
+      this.etags.set(calendarHref, new Map());
+    }
+    return this.etags.get(calendarHref)!;
+  }
+  
+  private responses(root: XmlNode): XmlNode[] {
+    return this.findAll(root, NS.dav, 'response');
+  }
+  
+  private find(node: XmlNode, ns: string, name: string): XmlNode | null {
+    for (const child of node.children) {
+      if (child.ns === ns && child.name === name) return child;
+      const nested = this.find(child, ns, name);
+      if (nested) return nested;
+    }
+    return null;
+  }
+  
+  private findAll(node: XmlNode, ns: string, name: string): XmlNode[] {
+    return node.children.flatMap(child =>
+      child.ns === ns && child.name === name ? [child] : this.findAll(child, ns, name)
+    );
+  }
+  
+  // Text of the first matching element, optionally of a DAV:href nested inside it
+  private findText(node: XmlNode, ns: string, name: string, hrefChild?: 'href'): string | null {
+    const found = this.find(node, ns, name);
+    if (!found) return null;
+    if (hrefChild) {
+      const href = this.find(found, NS.dav, hrefChild);
+      return href ? href.text.trim() : null;
+    }
+    return found.text.trim();
+  }
+  
+  /**
+   * Minimal namespace-aware XML reader for multistatus bodies. Kept dependency-free
+   * so the client runs the same in the browser and under Node against a local server.
+   */
+  private parseXml(xml: string): XmlNode {
+    const root: XmlNode = { name: '#document', ns: '', children: [], text: '' };
+    const stack: Array<{ node: XmlNode; namespaces: Record<string, string> }> = [{ node: root, namespaces: {} }];
+    const tokenizer = /<!\[CDATA\[([\s\S]*?)\]\]>|<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<\/([^\s>]+)\s*>|<([^\s/>]+)((?:\s+[^\s=]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/g;
+    let match: RegExpExecArray | null;
+    
+    while ((match = tokenizer.exec(xml)) !== null) {
+      const top = stack[stack.length - 1];
+      const [, cdata, closing, opening, attributes, selfClosing, text] = match;
+      
+      if (cdata !== undefined) {
+        top.node.text += cdata;
+      } else if (text !== undefined) {
+        top.node.text += this.decodeEntities(text);
+      } else if (closing !== undefined) {
+        if (stack.length > 1) stack.pop();
+      } else if (opening !== undefined) {
+        const namespaces = { ...top.namespaces };
+        const attrPattern = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+        let attr: RegExpExecArray | null;
+        while ((attr = attrPattern.exec(attributes || '')) !== null) {
+          const value = this.decodeEntities(attr[2] ?? attr[3] ?? '');
+          if (attr[1] === 'xmlns') namespaces[''] = value;
+          else if (attr[1].startsWith('xmlns:')) namespaces[attr[1].slice(6)] = value;
+        }
+        
+        const [prefix, local] = opening.includes(':') ? opening.split(':') : ['', opening];
+        const node: XmlNode = { name: local, ns: namespaces[prefix] || '', children: [], text: '' };
+        top.node.children.push(node);
+        if (!selfClosing) stack.push({ node, namespaces });
+      }
+    }
+    
+    return root;
+  }
+  
+  private decodeEntities(value: string): string {
+    return value
+      .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+      .replace(/&#(\d+);/g, (_, dec: string) => String.fromCodePoint(parseInt(dec, 10)))
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, "'")
+      .replace(/&amp;/g, '&');
+  }
+  
+  private escapeXml(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  }
+}
+
+export default CalDAVClient;
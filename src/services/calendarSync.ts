@@ -1,12 +1,53 @@
 import axios from 'axios';
-import { CalendarEvent, CalendarSyncConfig } from '../types';
+import { CalendarEvent, CalendarSyncConfig, EventOverride } from '../types';
+import { CalDAVClient, CalDAVCalendar } from './caldavClient';
+import { EventMerger, MergeableField, MERGEABLE_FIELDS } from './eventMerge';
+
+export interface CalendarSyncDelta {
+  changed: CalendarEvent[];
+  removed: string[]; // Ids of events deleted or cancelled remotely
+  fullResync: boolean;
+  overrides?: Record<string, EventOverride[]>; // Modified occurrences of changed events, keyed by master id (CalDAV)
+}
+
+export interface SyncConflict {
+  id: string;
+  eventId: string;
+  base: CalendarEvent | null;
+  local: CalendarEvent;
+  remote: CalendarEvent;
+  merged: CalendarEvent; // Non-conflicting changes from both sides already applied
+  fields: MergeableField[];
+  detectedAt: number;
+}
 
 export class CalendarSyncService {
   private config: CalendarSyncConfig;
   private syncInterval: NodeJS.Timeout | null = null;
+  private caldav: CalDAVClient | null = null;
+  private caldavCalendars: CalDAVCalendar[] = [];
+  private caldavResources: Map<string, CalendarEvent[]> = new Map(); // Keyed by resource href
+  private caldavEventCalendars: Map<string, string> = new Map(); // Event id -> calendar href
+  private caldavOverrides: Map<string, EventOverride[]> = new Map(); // Last known per master event id
+  private syncTokens: Map<CalendarSyncConfig['provider'], string> = new Map();
+  private remoteEvents: Map<string, CalendarEvent> = new Map();
+  private changeListeners: Array<(delta: CalendarSyncDelta) => void> = [];
+  private baseVersions: Map<string, CalendarEvent> = new Map(); // Last version both sides agreed on
+  private conflicts: Map<string, SyncConflict> = new Map();
+  private conflictListeners: Array<(conflicts: SyncConflict[]) => void> = [];
+  private localEvents: (eventId: string) => CalendarEvent | undefined = () => undefined;
   
   constructor(config: CalendarSyncConfig) {
     this.config = config;
+    
+    if (config.provider === 'apple') {
+      this.caldav = new CalDAVClient(this.getProviderEndpoint(), {
+        username: config.username,
+        password: config.accessToken
+      });
+    }
+    
+    this.loadBaseVersions();
   }
   
   /**
@@ -14,9 +55,9 @@ export class CalendarSyncService {
    */
   async initializeSync(): Promise<CalendarEvent[]> {
     try {
-      const remoteEvents = await this.fetchRemoteEvents();
+      await this.fetchRemoteChanges();
       this.startPolling();
-      return remoteEvents;
+      return Array.from(this.remoteEvents.values());
     } catch (error) {
       console.error('Calendar sync initialization failed:', error);
       throw error;
@@ -24,33 +65,209 @@ export class CalendarSyncService {
   }
   
   /**
-   * Fetches events from external calendar API using provider-specific endpoints
+   * Subscribes to remote changes picked up by polling. Returns an unsubscribe function.
    */
-  private async fetchRemoteEvents(): Promise<CalendarEvent[]> {
-    const endpoint = this.getProviderEndpoint();
-    
+  onRemoteChanges(listener: (delta: CalendarSyncDelta) => void): () => void {
+    this.changeListeners.push(listener);
+    return () => {
+      this.changeListeners = this.changeListeners.filter(l => l !== listener);
+    };
+  }
+  
+  /**
+   * Looks up the local copy of an event, so polled changes to an event edited on
+   * both sides are three-way merged before listeners see them
+   */
+  setLocalEventSource(source: (eventId: string) => CalendarEvent | undefined): void {
+    this.localEvents = source;
+  }
+  
+  /**
+   * Remote events as of the last fetch, e.g. for free/busy lookups
+   */
+  getRemoteEvents(): CalendarEvent[] {
+    return Array.from(this.remoteEvents.values());
+  }
+  
+  /**
+   * Modified occurrences of a remote recurring event as of the last fetch (CalDAV)
+   */
+  getRemoteOverrides(eventId: string): EventOverride[] {
+    return this.caldavOverrides.get(eventId) || [];
+  }
+  
+  /**
+   * Current incremental sync token (Google nextSyncToken or Outlook deltaLink), for persistence
+   */
+  getSyncToken(): string | null {
+    return this.syncTokens.get(this.config.provider) || null;
+  }
+  
+  /**
+   * Restores a previously persisted sync token so the next fetch is incremental
+   */
+  restoreSyncToken(token: string): void {
+    this.syncTokens.set(this.config.provider, token);
+  }
+  
+  /**
+   * Fetches changes since the last sync and applies them to the remote event cache.
+   * An expired token (410 Gone) falls back to a full resync.
+   */
+  private async fetchRemoteChanges(): Promise<CalendarSyncDelta> {
     try {
-      const response = await axios.get(endpoint, {
+      const delta = this.caldav
+        ? await this.fetchCalDAVChanges(this.caldav)
+        : await this.fetchDeltaPages();
+      
+      delta.removed.forEach(id => this.remoteEvents.delete(id));
+      delta.changed.forEach(event => this.remoteEvents.set(event.id, event));
+      
+      // First sighting of an event establishes its base; later bases move only on merge or push
+      delta.removed.forEach(id => this.baseVersions.delete(id));
+      delta.changed
+        .filter(event => !this.baseVersions.has(event.id))
+        .forEach(event => this.baseVersions.set(event.id, event));
+      this.saveBaseVersions();
+      
+      return delta;
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 401) {
+        await this.refreshAccessToken();
+        return this.fetchRemoteChanges();
+      }
+      
+      if (axios.isAxiosError(error) && error.response?.status === 410 && this.syncTokens.has(this.config.provider)) {
+        console.warn(`Sync token for ${this.config.provider} expired, performing full resync`);
+        this.syncTokens.delete(this.config.provider);
+        
+        const previousIds = Array.from(this.remoteEvents.keys());
+        this.remoteEvents.clear();
+        const delta = await this.fetchRemoteChanges();
+        
+        // Anything the full sync no longer returns was deleted while the token was stale
+        const removed = previousIds.filter(id => !this.remoteEvents.has(id));
+        return { changed: delta.changed, removed, fullResync: true };
+      }
+      
+      throw error;
+    }
+  }
+  
+  /**
+   * Follows Google nextPageToken / Outlook @odata.nextLink pagination until the
+   * final page hands back the next sync token or delta link
+   */
+  private async fetchDeltaPages(): Promise<CalendarSyncDelta> {
+    const token = this.syncTokens.get(this.config.provider);
+    const delta: CalendarSyncDelta = { changed: [], removed: [], fullResync: !token };
+    let request: { url: string; params?: Record<string, string> } | null = this.getDeltaRequest(token);
+    
+    while (request) {
+      const response = await axios.get<any>(request.url, {
+        params: request.params,
         headers: {
           'Authorization': `Bearer ${this.config.accessToken}`,
           'Content-Type': 'application/json'
         }
       });
       
-      return this.normalizeProviderEvents(response.data);
-    } catch (error) {
-      if (axios.isAxiosError(error) && error.response?.status === 401) {
-        await this.refreshAccessToken();
-        return this.fetchRemoteEvents();
+      const data: any = response.data;
+      const items: any[] = data.items || data.value || [];
+      
+      // Cancelled (Google) and @removed (Outlook) entries carry only an id
+      const removedItems = items.filter(item => item.status === 'cancelled' || item['@removed']);
+      delta.removed.push(...removedItems.map(item => item.id));
+      delta.changed.push(...this.normalizeProviderEvents(items.filter(item => !removedItems.includes(item))));
+      
+      if (this.config.provider === 'google') {
+        request = data.nextPageToken
+          ? { url: request.url, params: { ...request.params, pageToken: data.nextPageToken } }
+          : null;
+        if (data.nextSyncToken) this.syncTokens.set('google', data.nextSyncToken);
+      } else {
+        request = data['@odata.nextLink'] ? { url: data['@odata.nextLink'] } : null;
+        if (data['@odata.deltaLink']) this.syncTokens.set('outlook', data['@odata.deltaLink']);
       }
-      throw error;
     }
+    
+    return delta;
+  }
+  
+  /**
+   * First request of a sync round: incremental when a token exists, full otherwise
+   */
+  private getDeltaRequest(token: string | undefined): { url: string; params?: Record<string, string> } {
+    if (this.config.provider === 'outlook') {
+      if (token) return { url: token };
+      
+      // Graph's delta query needs a window; cover the past month and the next year
+      const now = Date.now();
+      return {
+        url: 'https://graph.microsoft.com/v1.0/me/calendarView/delta',
+        params: {
+          startDateTime: new Date(now - 30 * 24 * 60 * 60 * 1000).toISOString(),
+          endDateTime: new Date(now + 365 * 24 * 60 * 60 * 1000).toISOString()
+        }
+      };
+    }
+    
+    return {
+      url: this.getProviderEndpoint(),
+      params: token ? { syncToken: token } : undefined
+    };
+  }
+  
+  /**
+   * Syncs every CalDAV calendar incrementally and reports what changed
+   */
+  private async fetchCalDAVChanges(caldav: CalDAVClient): Promise<CalendarSyncDelta> {
+    const delta: CalendarSyncDelta = { changed: [], removed: [], fullResync: this.caldavResources.size === 0 };
+    const overrides: Record<string, EventOverride[]> = {};
+    this.caldavCalendars = await caldav.listCalendars();
+    
+    for (const calendar of this.caldavCalendars) {
+      const { changed, removed } = await caldav.syncCalendar(calendar);
+      
+      removed.forEach(href => {
+        this.caldavResources.get(href)?.forEach(event => {
+          this.caldavEventCalendars.delete(event.id);
+          this.caldavOverrides.delete(event.id);
+          delta.removed.push(event.id);
+        });
+        this.caldavResources.delete(href);
+      });
+      
+      const changedByHref = new Map<string, CalendarEvent[]>();
+      changed.forEach(resource => {
+        const event = { ...resource.event, color: resource.event.color || calendar.color };
+        changedByHref.set(resource.href, [...(changedByHref.get(resource.href) || []), event]);
+        this.caldavEventCalendars.set(event.id, calendar.href);
+        this.caldavOverrides.set(event.id, resource.overrides);
+        overrides[event.id] = resource.overrides;
+        delta.changed.push(event);
+      });
+      changedByHref.forEach((events, href) => {
+        // Events dropped from a resource that still exists are removals too
+        this.caldavResources.get(href)
+          ?.filter(previous => !events.some(event => event.id === previous.id))
+          .forEach(previous => delta.removed.push(previous.id));
+        this.caldavResources.set(href, events);
+      });
+    }
+    
+    return { ...delta, overrides };
   }
   
   /**
    * Returns provider-specific API endpoint for calendar data
    */
   private getProviderEndpoint(): string {
+    // CalDAV servers vary per deployment, so a configured endpoint wins for 'apple'
+    if (this.config.provider === 'apple' && this.config.apiEndpoint) {
+      return this.config.apiEndpoint;
+    }
+    
     const endpoints = {
       google: 'https://www.googleapis.com/calendar/v3/calendars/primary/events',
       apple: 'https://caldav.icloud.com',
@@ -60,6 +277,16 @@ export class CalendarSyncService {
     return endpoints[this.config.provider] || this.config.apiEndpoint;
   }
   
+  /**
+   * URL of one existing event: Google's events/{id} in the synced calendar, Graph's /me/events/{id}
+   */
+  private getEventEndpoint(eventId: string): string {
+    if (this.config.provider === 'outlook') {
+      return `https://graph.microsoft.com/v1.0/me/events/${encodeURIComponent(eventId)}`;
+    }
+    return `${this.getProviderEndpoint()}/${encodeURIComponent(eventId)}`;
+  }
+  
   /**
    * Normalizes provider-specific event formats into unified structure
    */
@@ -101,29 +328,172 @@ export class CalendarSyncService {
   }
   
   /**
-   * Pushes local event to remote calendar with conflict detection
+   * Pushes local event to remote calendar with conflict detection. CalDAV stores
+   * modified occurrences with the event, so they are sent too; without them the
+   * last known remote ones are kept.
    */
-  async pushEvent(event: CalendarEvent): Promise<void> {
+  async pushEvent(event: CalendarEvent, overrides?: EventOverride[]): Promise<void> {
     const endpoint = this.getProviderEndpoint();
     const payload = this.formatEventForProvider(event);
     
     try {
-      await axios.post(endpoint, payload, {
+      if (this.caldav) {
+        const sent = overrides || this.caldavOverrides.get(event.id) || [];
+        await this.caldav.putEvent(this.getCalDAVCalendarHref(event.id), event, sent);
+        this.caldavOverrides.set(event.id, sent);
+      } else {
+        // Events the provider already has are patched in place; only new ones are created
+        const exists = this.remoteEvents.has(event.id);
+        await axios.request({
+          method: exists ? 'PATCH' : 'POST',
+          url: exists ? this.getEventEndpoint(event.id) : endpoint,
+          data: payload,
+          headers: {
+            'Authorization': `Bearer ${this.config.accessToken}`,
+            'Content-Type': 'application/json'
+          }
+        });
+        if (exists) this.remoteEvents.set(event.id, event);
+      }
+      
+      this.setBaseVersion(event);
+    } catch (error) {
+      console.error('Failed to push event to remote calendar:', error);
+      throw error;
+    }
+  }
+  
+  /**
+   * Deletes an event from the remote calendar
+   */
+  async deleteRemoteEvent(eventId: string): Promise<void> {
+    try {
+      if (this.caldav) {
+        await this.caldav.deleteEvent(this.getCalDAVCalendarHref(eventId), eventId);
+        this.caldavEventCalendars.delete(eventId);
+        this.caldavOverrides.delete(eventId);
+        return;
+      }
+      
+      await axios.delete(this.getEventEndpoint(eventId), {
         headers: {
-          'Authorization': `Bearer ${this.config.accessToken}`,
-          'Content-Type': 'application/json'
+          'Authorization': `Bearer ${this.config.accessToken}`
         }
       });
     } catch (error) {
-      console.error('Failed to push event to remote calendar:', error);
+      console.error('Failed to delete event from remote calendar:', error);
       throw error;
     }
   }
   
   /**
-   * Resolves conflicts between local and remote versions using configured strategy
+   * Calendar an event lives in, defaulting to the first writable calendar for new events
+   */
+  private getCalDAVCalendarHref(eventId: string): string {
+    const href = this.caldavEventCalendars.get(eventId) || this.caldavCalendars[0]?.href;
+    if (!href) {
+      throw new Error('No CalDAV calendar available; run initializeSync first');
+    }
+    return href;
+  }
+  
+  /**
+   * Resolves conflicts between local and remote versions with a field-level three-way
+   * merge against the last synced base. Fields edited on both sides are queued for the
+   * user; until then they hold the value picked by the configured strategy.
    */
   resolveConflict(localEvent: CalendarEvent, remoteEvent: CalendarEvent): CalendarEvent {
+    const base = this.baseVersions.get(localEvent.id) || null;
+    const { merged, conflicts } = EventMerger.threeWay(base, localEvent, remoteEvent);
+    
+    if (conflicts.length === 0) {
+      this.conflicts.delete(localEvent.id);
+      this.setBaseVersion(merged);
+      this.notifyConflictListeners();
+      return merged;
+    }
+    
+    this.conflicts.set(localEvent.id, {
+      id: `conflict-${localEvent.id}-${Date.now()}`,
+      eventId: localEvent.id,
+      base,
+      local: localEvent,
+      remote: remoteEvent,
+      merged,
+      fields: conflicts,
+      detectedAt: Date.now()
+    });
+    this.notifyConflictListeners();
+    
+    const preferred = this.pickByStrategy(localEvent, remoteEvent);
+    return EventMerger.applyChoices(localEvent, remoteEvent, merged, Object.fromEntries(
+      conflicts.map(field => [field, preferred === remoteEvent ? 'remote' : 'local'])
+    ));
+  }
+  
+  /**
+   * Conflicts waiting for the user to choose between versions
+   */
+  getConflicts(): SyncConflict[] {
+    return Array.from(this.conflicts.values()).sort((a, b) => a.detectedAt - b.detectedAt);
+  }
+  
+  /**
+   * Subscribes to conflict queue changes. Returns an unsubscribe function.
+   */
+  onConflictsChanged(listener: (conflicts: SyncConflict[]) => void): () => void {
+    this.conflictListeners.push(listener);
+    return () => {
+      this.conflictListeners = this.conflictListeners.filter(l => l !== listener);
+    };
+  }
+  
+  /**
+   * Applies the user's per-field choices, records the result as the new base and
+   * pushes it to the remote calendar. Returns the resolved event for the local store.
+   */
+  async resolveQueuedConflict(
+    conflictId: string,
+    choices: Partial<Record<MergeableField, 'local' | 'remote'>>
+  ): Promise<CalendarEvent> {
+    const conflict = this.getConflicts().find(c => c.id === conflictId);
+    if (!conflict) {
+      throw new Error(`Conflict not found: ${conflictId}`);
+    }
+    
+    const resolved = EventMerger.applyChoices(conflict.local, conflict.remote, conflict.merged, choices);
+    
+    // The conflict stays queued until the push lands, so a failed push can be retried
+    await this.pushEvent(resolved);
+    this.setBaseVersion(resolved);
+    
+    // A newer conflict may have replaced this one while the push was in flight
+    if (this.conflicts.get(conflict.eventId)?.id === conflictId) {
+      this.conflicts.delete(conflict.eventId);
+      this.notifyConflictListeners();
+    }
+    return resolved;
+  }
+  
+  /**
+   * Records the version both sides agree on, e.g. after a successful push or pull
+   */
+  setBaseVersion(event: CalendarEvent): void {
+    this.baseVersions.set(event.id, event);
+    this.saveBaseVersions();
+  }
+  
+  /**
+   * Last synced version of an event, if any
+   */
+  getBaseVersion(eventId: string): CalendarEvent | null {
+    return this.baseVersions.get(eventId) || null;
+  }
+  
+  /**
+   * Whole-event choice from the configured strategy, used for provisional values
+   */
+  private pickByStrategy(localEvent: CalendarEvent, remoteEvent: CalendarEvent): CalendarEvent {
     switch (this.config.conflictResolution) {
       case 'source':
         return remoteEvent.sourceCalendar !== 'native' ? remoteEvent : localEvent;
@@ -137,6 +507,44 @@ export class CalendarSyncService {
     }
   }
   
+  private notifyConflictListeners(): void {
+    const conflicts = this.getConflicts();
+    this.conflictListeners.forEach(listener => listener(conflicts));
+  }
+  
+  private get baseStorageKey(): string {
+    return `calendarSync:base:${this.config.provider}`;
+  }
+  
+  /**
+   * Restores base versions persisted by a previous session
+   */
+  private loadBaseVersions(): void {
+    if (typeof localStorage === 'undefined') return;
+    
+    try {
+      const stored = localStorage.getItem(this.baseStorageKey);
+      if (!stored) return;
+      
+      const reviveDates = (_: string, value: any) =>
+        typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/.test(value) ? new Date(value) : value;
+      const events: CalendarEvent[] = JSON.parse(stored, reviveDates);
+      events.forEach(event => this.baseVersions.set(event.id, event));
+    } catch (error) {
+      console.error('Failed to load sync base versions:', error);
+    }
+  }
+  
+  private saveBaseVersions(): void {
+    if (typeof localStorage === 'undefined') return;
+    
+    try {
+      localStorage.setItem(this.baseStorageKey, JSON.stringify(Array.from(this.baseVersions.values())));
+    } catch (error) {
+      console.error('Failed to save sync base versions:', error);
+    }
+  }
+  
   /**
    * Formats event data according to provider's API schema
    */
@@ -185,13 +593,44 @@ export class CalendarSyncService {
     
     this.syncInterval = setInterval(async () => {
       try {
-        await this.fetchRemoteEvents();
+        const delta = await this.mergeWithLocal(await this.fetchRemoteChanges());
+        if (delta.fullResync || delta.changed.length > 0 || delta.removed.length > 0) {
+          this.changeListeners.forEach(listener => listener(delta));
+        }
       } catch (error) {
         console.error('Polling sync failed:', error);
       }
     }, intervalMs);
   }
   
+  /**
+   * Replaces each polled event that also exists locally with its merge against the
+   * local copy. Local edits the remote lacks are pushed back once nothing is left
+   * for the user to decide.
+   */
+  private async mergeWithLocal(delta: CalendarSyncDelta): Promise<CalendarSyncDelta> {
+    const changed = await Promise.all(delta.changed.map(async remote => {
+      const local = this.localEvents(remote.id);
+      if (!local) return remote;
+      
+      const base = this.getBaseVersion(remote.id);
+      const merged = this.resolveConflict(local, remote);
+      const unpushed = MERGEABLE_FIELDS.some(field => !EventMerger.isEqual(merged[field], remote[field]));
+      
+      if (unpushed && !this.conflicts.has(remote.id)) {
+        try {
+          await this.pushEvent(merged);
+        } catch {
+          // Keep the old base so the local edits are merged and pushed again next round
+          if (base) this.setBaseVersion(base);
+        }
+      }
+      return merged;
+    }));
+    
+    return { ...delta, changed };
+  }
+  
   /**
    * Stops the polling sync mechanism
    */
@@ -0,0 +1,133 @@
+import { HistoryCommand, SyncOperation } from '../types';
+
+const NOUNS: Record<SyncOperation['layer'], string> = {
+  events: 'event',
+  decorations: 'sticker',
+  handwriting: 'stroke',
+  tasks: 'task'
+};
+
+/**
+ * Command History
+ * Builds invertible commands from store operations for bounded undo/redo
+ */
+export class CommandHistory {
+  /**
+   * Operations that undo `operation`, given the entity as it was beforehand
+   */
+  static invert(operation: SyncOperation, before?: any): SyncOperation[] {
+    const { layer, entityId, timestamp } = operation;
+    
+    switch (operation.type) {
+      case 'create':
+        return [{ type: 'delete', layer, entityId, data: null, timestamp }];
+      case 'delete':
+        return before ? [{ type: 'create', layer, entityId, data: before, timestamp }] : [];
+      case 'update': {
+        if (!before) return [];
+        const data: Record<string, any> = {};
+        Object.keys(operation.data || {}).forEach((field) => {
+          data[field] = before[field];
+        });
+        return [{ type: 'update', layer, entityId, data, timestamp }];
+      }
+    }
+  }
+  
+  static describe(operation: SyncOperation): string {
+    const noun = NOUNS[operation.layer];
+    const data = operation.data || {};
+    
+    if (operation.type === 'create') return operation.layer === 'handwriting' ? 'Drew stroke' : `Added ${noun}`;
+    if (operation.type === 'delete') return `Deleted ${noun}`;
+    
+    if (operation.layer === 'tasks' && 'completed' in data) return data.completed ? 'Completed task' : 'Reopened task';
+    if (operation.layer === 'tasks' && 'recurrence' in data && 'date' in data) return 'Skipped task';
+    if (operation.layer === 'tasks' && 'subtasks' in data) return 'Edited subtasks';
+    if (operation.layer === 'tasks' && 'blockedBy' in data) return 'Changed task dependencies';
+    if (operation.layer === 'decorations' && 'position' in data) return 'Moved sticker';
+    if (operation.layer === 'decorations' && 'style' in data) return 'Resized sticker';
+    if (operation.layer === 'events' && 'recurrenceOverrides' in data) return 'Edited occurrence';
+    if (operation.layer === 'events' && ('startTime' in data || 'endTime' in data)) return 'Rescheduled event';
+    return `Edited ${noun}`;
+  }
+  
+  /**
+   * Add an operation and its inverse to a command. Repeated updates to the
+   * same entity, such as the steps of a drag, fold into one.
+   */
+  static extend(command: HistoryCommand, operation: SyncOperation, inverse: SyncOperation[]): HistoryCommand {
+    const last = command.forward[command.forward.length - 1];
+    const firstInverse = command.inverse[0];
+    const folds = last && firstInverse && inverse.length === 1 &&
+      operation.type === 'update' && last.type === 'update' && firstInverse.type === 'update' &&
+      last.layer === operation.layer && last.entityId === operation.entityId &&
+      firstInverse.layer === operation.layer && firstInverse.entityId === operation.entityId;
+      
+    if (folds) {
+      return {
+        ...command,
+        forward: [...command.forward.slice(0, -1), { ...operation, data: { ...last.data, ...operation.data } }],
+        // The earliest value of each field is what undo must restore
+        inverse: [{ ...firstInverse, data: { ...inverse[0].data, ...firstInverse.data } }, ...command.inverse.slice(1)]
+      };
+    }
+    
+    return {
+      ...command,
+      label: command.label || this.describe(operation),
+      forward: [...command.forward, operation],
+      inverse: [...inverse, ...command.inverse]
+    };
+  }
+  
+  /**
+   * Add a command after the head. Commands that were undone stay behind as
+   * another branch. Beyond `limit`, the oldest commands off the current
+   * branch are dropped first, then the oldest on it.
+   */
+  static push(history: HistoryCommand[], head: string | null, command: HistoryCommand, limit: number) {
+    let next = [...history, { ...command, parentId: head }];
+    const branch = new Set(this.lineage(next, command.id).map((c) => c.id));
+    
+    while (next.length > limit) {
+      // Commands are kept oldest first
+      const parents = new Set(next.map((c) => c.parentId));
+      const leaf = next.find((c) => !parents.has(c.id) && !branch.has(c.id));
+      if (leaf) {
+        next = next.filter((c) => c !== leaf);
+        continue;
+      }
+      
+      const root = next.find((c) => c.parentId === null)!;
+      next = next.filter((c) => c !== root).map((c) => c.parentId === root.id ? { ...c, parentId: null } : c);
+    }
+    
+    return { history: next, historyHead: command.id, historyRedo: [] as string[] };
+  }
+  
+  /**
+   * A command and its ancestors, newest first
+   */
+  static lineage(history: HistoryCommand[], id: string | null): HistoryCommand[] {
+    const byId = new Map(history.map((c) => [c.id, c]));
+    const commands: HistoryCommand[] = [];
+    for (let command = id ? byId.get(id) : undefined; command; command = command.parentId ? byId.get(command.parentId) : undefined) {
+      commands.push(command);
+    }
+    return commands;
+  }
+  
+  static create(label: string = ''): HistoryCommand {
+    return {
+      id: `cmd-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      label,
+      forward: [],
+      inverse: [],
+      timestamp: Date.now(),
+      parentId: null
+    };
+  }
+}
+
+export default CommandHistory;
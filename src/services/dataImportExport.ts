@@ -1,11 +1,16 @@
-import { LayerState, CalendarEvent, DecorativeElement, HandwritingStroke, TaskItem } from '../types';
+import { LayerState, CalendarEvent, DecorativeElement, HandwritingStroke, TaskItem, Subtask, EventOverride } from '../types';
+import { ICalendarCodec, ICalendarImportResult } from './icalendar';
+import { TaskDependencies } from './taskDependencies';
+
+// Version 2 added task due times, estimates, subtasks, tags, assignees and dependencies
+const EXPORT_VERSION = 2;
 
 export class DataImportExportService {
   /**
    * Export calendar data to JSON format
    */
   static exportData(state: LayerState): string {
-    return JSON.stringify(state, null, 2);
+    return JSON.stringify({ version: EXPORT_VERSION, ...state }, null, 2);
   }
 
   /**
@@ -15,12 +20,18 @@ export class DataImportExportService {
     try {
       const parsedData = JSON.parse(jsonData);
       
+      // Older exports carry version 1 tasks; bring them up to date before validating
+      if (Array.isArray(parsedData?.tasks)) {
+        parsedData.tasks = this.migrateTasks(parsedData.tasks);
+      }
+      
       // Validate the structure
       if (!this.isValidLayerState(parsedData)) {
         throw new Error('Invalid data structure');
       }
       
-      return parsedData;
+      const { version: _version, ...state } = parsedData as LayerState & { version?: number };
+      return state;
     } catch (error) {
       throw new Error(`Failed to import data: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -70,6 +81,122 @@ export class DataImportExportService {
     });
   }
 
+  /**
+   * Export events and tasks to iCalendar (.ics) format
+   */
+  static exportICalendar(
+    state: Pick<LayerState, 'events' | 'tasks'>,
+    overrides: Record<string, EventOverride[]> = {}
+  ): string {
+    return ICalendarCodec.serialize(state.events, state.tasks, overrides);
+  }
+
+  /**
+   * Import events and tasks from iCalendar (.ics) format, reporting skipped entries
+   */
+  static importICalendar(icsData: string): ICalendarImportResult {
+    return ICalendarCodec.parse(icsData);
+  }
+
+  /**
+   * Export events and tasks to an .ics file
+   */
+  static exportICalendarToFile(
+    state: Pick<LayerState, 'events' | 'tasks'>,
+    overrides: Record<string, EventOverride[]> = {},
+    filename: string = 'artful-agenda.ics'
+  ): void {
+    const dataStr = this.exportICalendar(state, overrides);
+    const dataUri = `data:text/calendar;charset=utf-8,${encodeURIComponent(dataStr)}`;
+    
+    const linkElement = document.createElement('a');
+    linkElement.setAttribute('href', dataUri);
+    linkElement.setAttribute('download', filename);
+    linkElement.click();
+  }
+
+  /**
+   * Import events and tasks from an .ics file
+   */
+  static importICalendarFromFile(file: File): Promise<ICalendarImportResult> {
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      
+      reader.onload = (event) => {
+        const result = event.target?.result;
+        if (typeof result === 'string') {
+          resolve(this.importICalendar(result));
+        } else {
+          reject(new Error('Failed to read file'));
+        }
+      };
+      
+      reader.onerror = () => {
+        reject(new Error('Failed to read file'));
+      };
+      
+      reader.readAsText(file);
+    });
+  }
+
+  /**
+   * Upgrade tasks from older exports or storage to the current shape. Missing
+   * fields get defaults, loosely typed ones are coerced, and blockers that point
+   * nowhere or would form a cycle are dropped.
+   */
+  static migrateTasks(tasks: any[]): TaskItem[] {
+    const migrated = tasks
+      .filter(task => task && typeof task === 'object' && typeof task.id === 'string')
+      .map((task): TaskItem => {
+        const result: TaskItem = {
+          id: task.id,
+          content: String(task.content ?? task.title ?? ''),
+          completed: Boolean(task.completed),
+          date: typeof task.date === 'string' ? task.date : '',
+          priority: ['low', 'medium', 'high'].includes(task.priority) ? task.priority : 'medium'
+        };
+        
+        const dueAt = task.dueAt ?? task.dueDate;
+        if (dueAt && !isNaN(new Date(dueAt).getTime())) result.dueAt = new Date(dueAt).toISOString();
+        if (!result.date && result.dueAt) result.date = result.dueAt.split('T')[0];
+        
+        const estimate = Number(task.estimateMinutes ?? task.estimate);
+        if (isFinite(estimate) && estimate > 0) result.estimateMinutes = Math.round(estimate);
+        
+        if (Array.isArray(task.subtasks) && task.subtasks.length > 0) {
+          result.subtasks = task.subtasks.map((subtask: any, i: number): Subtask => typeof subtask === 'string'
+            ? { id: `${task.id}-subtask-${i}`, content: subtask, completed: false }
+            : { id: String(subtask.id ?? `${task.id}-subtask-${i}`), content: String(subtask.content ?? ''), completed: Boolean(subtask.completed) });
+        }
+        
+        // Tags were once a comma-separated string
+        const tags = typeof task.tags === 'string' ? task.tags.split(',') : Array.isArray(task.tags) ? task.tags : [];
+        const cleaned = Array.from(new Set<string>(tags.map((tag: any) => String(tag).trim()).filter(Boolean)));
+        if (cleaned.length > 0) result.tags = cleaned;
+        
+        if (typeof task.assignee === 'string' && task.assignee.trim()) result.assignee = task.assignee.trim();
+        if (Array.isArray(task.blockedBy)) result.blockedBy = task.blockedBy.map(String);
+        
+        // Rule dates come back from JSON as strings
+        if (task.recurrence && ['schedule', 'afterCompletion'].includes(task.recurrence.mode)) {
+          const rule = task.recurrence.rule;
+          result.recurrence = {
+            ...task.recurrence,
+            rule: rule && {
+              ...rule,
+              until: rule.until ? new Date(rule.until) : undefined,
+              exDates: rule.exDates?.map((date: string) => new Date(date))
+            },
+            skipped: Array.isArray(task.recurrence.skipped) ? task.recurrence.skipped : []
+          };
+        }
+        
+        return result;
+      });
+    
+    return TaskDependencies.sanitize(migrated);
+  }
+
   /**
    * Validate the structure of imported data
    */
@@ -192,7 +319,10 @@ export class DataImportExportService {
       typeof task.content === 'string' &&
       typeof task.completed === 'boolean' &&
       typeof task.date === 'string' &&
-      ['low', 'medium', 'high'].includes(task.priority)
+      ['low', 'medium', 'high'].includes(task.priority) &&
+      (task.subtasks === undefined || Array.isArray(task.subtasks)) &&
+      (task.tags === undefined || Array.isArray(task.tags)) &&
+      (task.blockedBy === undefined || Array.isArray(task.blockedBy))
     );
   }
 }
\ No newline at end of file
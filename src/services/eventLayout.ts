@@ -0,0 +1,173 @@
+import { addDays } from 'date-fns';
+import { CalendarEvent } from '../types';
+
+/**
+ * One row-bound piece of an event bar. Events that cross a week row are
+ * split into one segment per row.
+ */
+export interface SpanSegment<T extends CalendarEvent = CalendarEvent> {
+  event: T;
+  dayIndex: number; // First day of the segment in the page's day list
+  span: number; // Days covered in this row
+  lane: number; // Stacking position inside the row, 0 at the top
+  continuesBefore: boolean;
+  continuesAfter: boolean;
+}
+
+export interface SpanLayout<T extends CalendarEvent = CalendarEvent> {
+  segments: SpanSegment<T>[]; // Only segments that fit in the visible lanes
+  hiddenByDay: number[]; // Events without a visible lane, per day
+  eventsByDay: T[][]; // Every event touching each day, for "+N more" popovers
+}
+
+export interface DayColumnPlacement<T extends CalendarEvent = CalendarEvent> {
+  event: T;
+  column: number;
+  columns: number; // Columns in the event's overlap cluster, for its width
+}
+
+/**
+ * Event Layout
+ * Places all-day, multi-day and timed events into lanes on a grid of days
+ */
+export class EventLayout {
+  /**
+   * Lay out events over `days` (consecutive local midnights), wrapping bars
+   * every `columns` days and stacking overlaps into at most `maxLanes` lanes
+   */
+  static layoutSpans<T extends CalendarEvent>(
+    events: T[],
+    days: Date[],
+    maxLanes: number,
+    columns: number = 7
+  ): SpanLayout<T> {
+    const dayStarts = days.map(day => day.getTime());
+    const dayEnds = days.map(day => addDays(day, 1).getTime());
+    const eventsByDay: T[][] = days.map(() => []);
+    const hiddenByDay: number[] = days.map(() => 0);
+    const taken: Set<number>[] = days.map(() => new Set());
+    const segments: SpanSegment<T>[] = [];
+    
+    const placed = events
+      .map(event => ({ event, ...this.dayRange(event, dayStarts, dayEnds) }))
+      .filter(({ first }) => first !== -1)
+      .sort((a, b) =>
+        a.first - b.first ||
+        (b.last - b.first) - (a.last - a.first) || // Longer spans claim the upper lanes
+        Number(!!b.event.allDay) - Number(!!a.event.allDay) ||
+        a.event.startTime.getTime() - b.event.startTime.getTime()
+      );
+      
+    placed.forEach(({ event, first, last }) => {
+      for (let day = first; day <= last; day++) eventsByDay[day].push(event);
+      
+      // Split at row boundaries; each piece takes the lowest lane free on all its days
+      for (let start = first; start <= last; ) {
+        const rowEnd = Math.min(last, (Math.floor(start / columns) + 1) * columns - 1);
+        let lane = 0;
+        while (this.laneTaken(taken, start, rowEnd, lane)) lane++;
+        
+        for (let day = start; day <= rowEnd; day++) {
+          taken[day].add(lane);
+          if (lane >= maxLanes) hiddenByDay[day]++;
+        }
+        
+        if (lane < maxLanes) {
+          segments.push({
+            event,
+            dayIndex: start,
+            span: rowEnd - start + 1,
+            lane,
+            continuesBefore: start > first || event.startTime.getTime() < dayStarts[start],
+            continuesAfter: rowEnd < last || this.effectiveEnd(event) > dayEnds[rowEnd]
+          });
+        }
+        start = rowEnd + 1;
+      }
+    });
+    
+    return { segments, hiddenByDay, eventsByDay };
+  }
+  
+  /**
+   * Lay out timed events side by side in a day's time grid. Events that overlap,
+   * directly or through a chain, form a cluster that shares its column count.
+   */
+  static layoutDay<T extends CalendarEvent>(events: T[]): DayColumnPlacement<T>[] {
+    const sorted = [...events].sort((a, b) =>
+      a.startTime.getTime() - b.startTime.getTime() ||
+      this.effectiveEnd(b) - this.effectiveEnd(a)
+    );
+    const placements: DayColumnPlacement<T>[] = [];
+    let cluster: DayColumnPlacement<T>[] = [];
+    let columnEnds: number[] = [];
+    let clusterEnd = -Infinity;
+    
+    const flush = () => {
+      cluster.forEach(placement => {
+        placement.columns = columnEnds.length;
+      });
+      placements.push(...cluster);
+      cluster = [];
+      columnEnds = [];
+    };
+    
+    sorted.forEach(event => {
+      const start = event.startTime.getTime();
+      const end = this.effectiveEnd(event);
+      if (start >= clusterEnd) flush();
+      
+      // Reuse the leftmost column that is free again, or open a new one
+      let column = columnEnds.findIndex(columnEnd => columnEnd <= start);
+      if (column === -1) column = columnEnds.length;
+      columnEnds[column] = end;
+      
+      cluster.push({ event, column, columns: 0 });
+      clusterEnd = Math.max(clusterEnd, end);
+    });
+    flush();
+    
+    return placements;
+  }
+  
+  /**
+   * Whether an event should draw as a bar rather than a timed entry
+   */
+  static isSpanning(event: CalendarEvent): boolean {
+    if (event.allDay) return true;
+    const start = new Date(event.startTime);
+    start.setHours(0, 0, 0, 0);
+    return this.effectiveEnd(event) > addDays(start, 1).getTime();
+  }
+  
+  // Indices of the first and last days the event touches, or -1 when off the page
+  private static dayRange(event: CalendarEvent, dayStarts: number[], dayEnds: number[]): { first: number; last: number } {
+    const start = event.startTime.getTime();
+    const end = this.effectiveEnd(event);
+    let first = -1;
+    let last = -1;
+    
+    dayStarts.forEach((dayStart, i) => {
+      if (start < dayEnds[i] && end > dayStart) {
+        if (first === -1) first = i;
+        last = i;
+      }
+    });
+    
+    return { first, last };
+  }
+  
+  // All-day ends are exclusive midnights; zero-length events still occupy their start
+  private static effectiveEnd(event: CalendarEvent): number {
+    return Math.max(event.endTime.getTime(), event.startTime.getTime() + 1);
+  }
+  
+  private static laneTaken(taken: Set<number>[], from: number, to: number, lane: number): boolean {
+    for (let day = from; day <= to; day++) {
+      if (taken[day].has(lane)) return true;
+    }
+    return false;
+  }
+}
+
+export default EventLayout;
@@ -0,0 +1,101 @@
+import { CalendarEvent } from '../types';
+
+export type MergeableField =
+  | 'title'
+  | 'startTime'
+  | 'endTime'
+  | 'description'
+  | 'color'
+  | 'location'
+  | 'allDay'
+  | 'recurrence'
+  | 'attendees'
+  | 'alarms';
+
+export const MERGEABLE_FIELDS: MergeableField[] = [
+  'title',
+  'startTime',
+  'endTime',
+  'description',
+  'color',
+  'location',
+  'allDay',
+  'recurrence',
+  'attendees',
+  'alarms'
+];
+
+export interface MergeResult {
+  merged: CalendarEvent;
+  conflicts: MergeableField[]; // Fields changed differently on both sides; merged keeps the local value
+}
+
+/**
+ * Event Merger
+ * Field-level three-way merge of calendar events against their last synced base
+ */
+export class EventMerger {
+  /**
+   * Merge local and remote edits. A field changed on only one side takes that
+   * side's value; a field changed differently on both sides is a conflict.
+   * Without a base every differing field is a conflict.
+   */
+  static threeWay(base: CalendarEvent | null, local: CalendarEvent, remote: CalendarEvent): MergeResult {
+    const merged: CalendarEvent = { ...local };
+    const conflicts: MergeableField[] = [];
+    
+    MERGEABLE_FIELDS.forEach(field => {
+      const localValue = local[field];
+      const remoteValue = remote[field];
+      
+      if (this.isEqual(localValue, remoteValue)) return;
+      
+      if (base && this.isEqual(base[field], localValue)) {
+        this.assign(merged, field, remoteValue);
+      } else if (base && this.isEqual(base[field], remoteValue)) {
+        this.assign(merged, field, localValue);
+      } else {
+        conflicts.push(field);
+      }
+    });
+    
+    merged.timestamp = Math.max(local.timestamp, remote.timestamp);
+    return { merged, conflicts };
+  }
+  
+  /**
+   * Apply per-field choices to produce the resolved event
+   */
+  static applyChoices(
+    local: CalendarEvent,
+    remote: CalendarEvent,
+    merged: CalendarEvent,
+    choices: Partial<Record<MergeableField, 'local' | 'remote'>>
+  ): CalendarEvent {
+    const resolved: CalendarEvent = { ...merged, timestamp: Date.now() };
+    (Object.keys(choices) as MergeableField[]).forEach(field => {
+      this.assign(resolved, field, choices[field] === 'remote' ? remote[field] : local[field]);
+    });
+    return resolved;
+  }
+  
+  static isEqual(a: unknown, b: unknown): boolean {
+    return this.normalize(a) === this.normalize(b);
+  }
+  
+  private static assign<K extends MergeableField>(event: CalendarEvent, field: K, value: CalendarEvent[K]): void {
+    if (value === undefined) {
+      delete event[field];
+    } else {
+      event[field] = value;
+    }
+  }
+  
+  // Comparison key: Dates serialize to their instant, empty values compare alike
+  private static normalize(value: unknown): string {
+    if (value === undefined || value === null || value === '') return '';
+    return JSON.stringify(value);
+  }
+}
+
+export default EventMerger;
@@ -0,0 +1,253 @@
+import { CalendarEvent, EventOverride } from '../types';
+import { CalendarSyncService } from './calendarSync';
+import { RecurrenceEngine } from './recurrence';
+import { TimeZoneService } from './timeZone';
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+export interface AttendeeCalendar {
+  id: string;
+  name: string;
+  email?: string; // Matched against event attendees so declined invitations don't count as busy
+  timeZone: string;
+  workStartHour: number;
+  workEndHour: number;
+  workDays?: number[]; // 0 = Sunday; defaults to Monday-Friday
+  optional?: boolean;
+  events: CalendarEvent[];
+  overrides?: Record<string, EventOverride[]>;
+}
+
+export interface BusyBlock {
+  start: Date;
+  end: Date;
+  titles: string[];
+}
+
+export interface MeetingSlot {
+  start: Date;
+  end: Date;
+  window: { start: Date; end: Date }; // The common free stretch the slot sits in
+  score: number;
+  available: string[]; // Attendee ids free for the whole slot
+  unavailable: string[]; // Optional attendees who are busy or off
+  reasons: string[];
+}
+
+interface Interval {
+  start: number;
+  end: number;
+}
+
+/**
+ * Free/Busy Service
+ * Aggregates attendee calendars across time zones and finds the windows where
+ * every required attendee is both free and within working hours
+ */
+export class FreeBusyService {
+  /**
+   * An attendee calendar backed by a synced provider's events, with the moved
+   * and cancelled occurrences the provider reported for its series
+   */
+  static fromSync(
+    sync: CalendarSyncService,
+    attendee: Omit<AttendeeCalendar, 'events' | 'overrides'>
+  ): AttendeeCalendar {
+    const events = sync.getRemoteEvents();
+    const overrides = Object.fromEntries(events
+      .filter(event => event.recurrence)
+      .map(event => [event.id, sync.getRemoteOverrides(event.id)] as const)
+      .filter(([, list]) => list.length > 0));
+    return { ...attendee, events, overrides };
+  }
+  
+  /**
+   * Merged busy time in [rangeStart, rangeEnd). All-day events and invitations
+   * the attendee declined leave them free.
+   */
+  static busyBlocks(attendee: AttendeeCalendar, rangeStart: Date, rangeEnd: Date): BusyBlock[] {
+    const blocks: BusyBlock[] = [];
+    
+    RecurrenceEngine.expandAll(attendee.events, rangeStart, rangeEnd, attendee.overrides || {})
+      .filter(event => !event.allDay && !this.declined(event, attendee))
+      .forEach(event => {
+        const start = Math.max(event.startTime.getTime(), rangeStart.getTime());
+        const end = Math.min(event.endTime.getTime(), rangeEnd.getTime());
+        if (end <= start) return;
+        
+        const last = blocks[blocks.length - 1];
+        if (last && start <= last.end.getTime()) {
+          last.end = new Date(Math.max(last.end.getTime(), end));
+          last.titles.push(event.title);
+        } else {
+          blocks.push({ start: new Date(start), end: new Date(end), titles: [event.title] });
+        }
+      });
+      
+    return blocks;
+  }
+  
+  /**
+   * The attendee's working hours in [rangeStart, rangeEnd), walked as
+   * wall-clock dates in their own zone so DST changes keep the hours
+   */
+  static workingWindows(attendee: AttendeeCalendar, rangeStart: Date, rangeEnd: Date): Array<{ start: Date; end: Date }> {
+    const workDays = attendee.workDays || [1, 2, 3, 4, 5];
+    const first = TimeZoneService.getParts(new Date(rangeStart.getTime() - DAY), attendee.timeZone);
+    const windows: Array<{ start: Date; end: Date }> = [];
+    
+    for (let i = 0; ; i++) {
+      const date = new Date(Date.UTC(first.year, first.month - 1, first.day + i));
+      const [year, month, day] = [date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate()];
+      const at = (hour: number) => TimeZoneService.fromParts(attendee.timeZone, year, month, day, Math.floor(hour), Math.round((hour % 1) * 60));
+      
+      const start = at(attendee.workStartHour);
+      if (start >= rangeEnd) break;
+      if (!workDays.includes(date.getUTCDay())) continue;
+      
+      const window = {
+        start: new Date(Math.max(start.getTime(), rangeStart.getTime())),
+        end: new Date(Math.min(at(attendee.workEndHour).getTime(), rangeEnd.getTime()))
+      };
+      if (window.end > window.start) windows.push(window);
+    }
+    
+    return windows;
+  }
+  
+  /**
+   * Meeting slots of `duration` minutes, best first. Every required attendee
+   * is free and at work for the whole slot; ranking then favours slots more
+   * optional attendees can make, hours well clear of the edges of everyone's day and
+   * earlier dates. Each common window offers its best-placed start.
+   */
+  static findMeetingSlots(
+    attendees: AttendeeCalendar[],
+    rangeStart: Date,
+    rangeEnd: Date,
+    duration: number, // in minutes
+    options: { stepMinutes?: number; limit?: number } = {}
+  ): MeetingSlot[] {
+    const length = duration * MINUTE;
+    const step = (options.stepMinutes || 15) * MINUTE;
+    const required = attendees.filter(attendee => !attendee.optional);
+    const optional = attendees.filter(attendee => attendee.optional);
+    const availability = new Map(attendees.map(attendee => [attendee.id, this.availability(attendee, rangeStart, rangeEnd)]));
+    const working = new Map(attendees.map(attendee => [
+      attendee.id,
+      this.workingWindows(attendee, rangeStart, rangeEnd).map(w => ({ start: w.start.getTime(), end: w.end.getTime() }))
+    ]));
+    
+    // With nobody required, any optional attendee's free time is a candidate
+    const common = required.length
+      ? required.reduce<Interval[]>((acc, attendee) => this.intersect(acc, availability.get(attendee.id)!), [{ start: rangeStart.getTime(), end: rangeEnd.getTime() }])
+      : this.union(optional.map(attendee => availability.get(attendee.id)!));
+      
+    const slots: MeetingSlot[] = [];
+    common.filter(window => window.end - window.start >= length).forEach(window => {
+      let best: MeetingSlot | null = null;
+      
+      // Align starts to the step on the UTC clock, which every zone's quarter hours share
+      for (let start = Math.ceil(window.start / step) * step; start + length <= window.end; start += step) {
+        const end = start + length;
+        const free = optional.filter(attendee => this.covers(availability.get(attendee.id)!, start, end));
+        const margins = attendees
+          .filter(attendee => !attendee.optional || free.includes(attendee))
+          .map(attendee => this.edgeMargin(working.get(attendee.id)!, start, end));
+        const comfort = Math.min(2 * 60 * MINUTE, ...margins) / (2 * 60 * MINUTE); // The worst-placed attendee sets it
+        const days = Math.floor((start - rangeStart.getTime()) / DAY);
+        const score = Math.round(100 +
+          (optional.length ? 20 * free.length / optional.length : 0) +
+          10 * comfort -
+          2 * days);
+          
+        if (best && score <= best.score) continue;
+        
+        const reasons = [`All ${required.length} required attendee${required.length === 1 ? '' : 's'} free and at work`];
+        if (optional.length) reasons.push(`${free.length} of ${optional.length} optional attendee${optional.length === 1 ? '' : 's'} can make it`);
+        const tight = attendees.filter(attendee => free.includes(attendee) || !attendee.optional)
+          .filter(attendee => this.edgeMargin(working.get(attendee.id)!, start, end) < 60 * MINUTE);
+        reasons.push(tight.length
+          ? `Near the start or end of the day for ${tight.map(attendee => attendee.name).join(', ')}`
+          : 'Well inside everyone’s working hours');
+          
+        best = {
+          start: new Date(start),
+          end: new Date(end),
+          window: { start: new Date(window.start), end: new Date(window.end) },
+          score,
+          available: [...required, ...free].map(attendee => attendee.id),
+          unavailable: optional.filter(attendee => !free.includes(attendee)).map(attendee => attendee.id),
+          reasons
+        };
+      }
+      
+      if (best) slots.push(best);
+    });
+    
+    return slots
+      .sort((a, b) => b.score - a.score || a.start.getTime() - b.start.getTime())
+      .slice(0, options.limit || 5);
+  }
+  
+  // Working hours minus busy time
+  private static availability(attendee: AttendeeCalendar, rangeStart: Date, rangeEnd: Date): Interval[] {
+    const busy = this.busyBlocks(attendee, rangeStart, rangeEnd).map(block => ({ start: block.start.getTime(), end: block.end.getTime() }));
+    return this.workingWindows(attendee, rangeStart, rangeEnd).flatMap(window => {
+      let pieces: Interval[] = [{ start: window.start.getTime(), end: window.end.getTime() }];
+      busy.forEach(block => {
+        pieces = pieces.flatMap(piece => block.end <= piece.start || block.start >= piece.end
+          ? [piece]
+          : [
+              ...(block.start > piece.start ? [{ start: piece.start, end: block.start }] : []),
+              ...(block.end < piece.end ? [{ start: block.end, end: piece.end }] : [])
+            ]);
+      });
+      return pieces;
+    });
+  }
+  
+  // Both lists are sorted and non-overlapping
+  private static intersect(a: Interval[], b: Interval[]): Interval[] {
+    const result: Interval[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+      const start = Math.max(a[i].start, b[j].start);
+      const end = Math.min(a[i].end, b[j].end);
+      if (end > start) result.push({ start, end });
+      if (a[i].end < b[j].end) i++;
+      else j++;
+    }
+    return result;
+  }
+  
+  private static union(lists: Interval[][]): Interval[] {
+    const result: Interval[] = [];
+    lists.flat().sort((a, b) => a.start - b.start).forEach(interval => {
+      const last = result[result.length - 1];
+      if (last && interval.start <= last.end) last.end = Math.max(last.end, interval.end);
+      else result.push({ ...interval });
+    });
+    return result;
+  }
+  
+  private static covers(intervals: Interval[], start: number, end: number): boolean {
+    return intervals.some(interval => interval.start <= start && interval.end >= end);
+  }
+  
+  // Distance from the slot to the nearer edge of the working window holding it
+  private static edgeMargin(windows: Interval[], start: number, end: number): number {
+    const window = windows.find(w => w.start <= start && w.end >= end);
+    return window ? Math.min(start - window.start, window.end - end) : 0;
+  }
+  
+  private static declined(event: CalendarEvent, attendee: AttendeeCalendar): boolean {
+    if (!attendee.email) return false;
+    const email = attendee.email.toLowerCase();
+    return !!event.attendees?.some(a => a.email.toLowerCase() === email && a.status === 'DECLINED');
+  }
+}
+
+export default FreeBusyService;
@@ -0,0 +1,805 @@
+/**
+ * iCalendar Codec
+ * Parses and serializes RFC 5545 VCALENDAR data (VEVENT, VTODO, VTIMEZONE, VALARM)
+ */
+
+import { CalendarEvent, EventAlarm, EventAttendee, EventOverride, RecurrenceRule, TaskItem } from '../types';
+import { RecurrenceEngine } from './recurrence';
+import { TimeZoneService } from './timeZone';
+
+export interface ICalendarSkippedEntry {
+  component: string;
+  uid?: string;
+  line?: number;
+  reason: string;
+}
+
+export interface ICalendarImportResult {
+  events: CalendarEvent[];
+  tasks: TaskItem[];
+  overrides: Record<string, EventOverride[]>; // Keyed by master event UID
+  skipped: ICalendarSkippedEntry[];
+}
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+  line: number;
+}
+
+interface Component {
+  name: string;
+  properties: ContentLine[];
+  components: Component[];
+  line: number;
+}
+
+interface DateFields {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  utc: boolean;
+  dateOnly: boolean;
+}
+
+interface TimeZoneObservance {
+  onset: DateFields;
+  offsetFrom: number; // Minutes east of UTC
+  offsetTo: number;
+  rule?: RecurrenceRule;
+  rdates: DateFields[];
+}
+
+const PRODID = '-//Artful Agenda//Planner//EN';
+const MAX_LINE_OCTETS = 75;
+
+export class ICalendarCodec {
+  /**
+   * Parse an iCalendar document. Malformed entries are reported in `skipped`
+   * rather than failing the whole import.
+   */
+  static parse(data: string): ICalendarImportResult {
+    const result: ICalendarImportResult = { events: [], tasks: [], overrides: {}, skipped: [] };
+    const root = this.buildTree(this.parseContentLines(data, result.skipped), result.skipped);
+    const calendars = root.components.filter(c => c.name === 'VCALENDAR');
+    
+    if (calendars.length === 0) {
+      result.skipped.push({ component: 'VCALENDAR', reason: 'No VCALENDAR component found' });
+      return result;
+    }
+    
+    calendars.forEach(calendar => {
+      const instances: Component[] = [];
+      const zones = new Map<string, TimeZoneObservance[]>();
+      calendar.components
+        .filter(c => c.name === 'VTIMEZONE')
+        .forEach(c => {
+          const tzid = this.prop(c, 'TZID')?.value;
+          if (tzid) zones.set(tzid, this.parseTimeZone(c));
+        });
+        
+      calendar.components.forEach(component => {
+        const uid = this.prop(component, 'UID')?.value;
+        try {
+          switch (component.name) {
+            case 'VEVENT':
+              if (this.prop(component, 'RECURRENCE-ID')) {
+                instances.push(component);
+              } else if (uid && result.events.some(e => e.id === uid)) {
+                result.skipped.push({ component: 'VEVENT', uid, line: component.line, reason: 'Duplicate UID' });
+              } else {
+                result.events.push(this.toEvent(component, zones));
+              }
+              break;
+            case 'VTODO':
+              result.tasks.push(this.toTask(component, zones));
+              break;
+            case 'VTIMEZONE':
+              break;
+            default:
+              result.skipped.push({ component: component.name, uid, line: component.line, reason: 'Unsupported component' });
+          }
+        } catch (error) {
+          result.skipped.push({
+            component: component.name,
+            uid,
+            line: component.line,
+            reason: error instanceof Error ? error.message : 'Unknown error'
+          });
+        }
+      });
+      
+      // Modified instances are resolved once every master in the calendar is known
+      instances.forEach(component => {
+        try {
+          this.applyInstance(component, zones, result);
+        } catch (error) {
+          result.skipped.push({
+            component: component.name,
+            uid: this.prop(component, 'UID')?.value,
+            line: component.line,
+            reason: error instanceof Error ? error.message : 'Unknown error'
+          });
+        }
+      });
+    });
+    
+    return result;
+  }
+  
+  /**
+   * Serialize events (as VEVENT) and tasks (as VTODO) into an iCalendar document
+   */
+  static serialize(
+    events: CalendarEvent[],
+    tasks: TaskItem[] = [],
+    overrides: Record<string, EventOverride[]> = {}
+  ): string {
+    const lines: string[] = ['BEGIN:VCALENDAR', 'VERSION:2.0', `PRODID:${PRODID}`, 'CALSCALE:GREGORIAN'];
+    const stamp = this.formatDateTime(new Date());
+    
+    // Every TZID used below needs a matching VTIMEZONE
+    const zoned = events.filter(e => e.timeZone && !e.allDay);
+    Array.from(new Set(zoned.map(e => e.timeZone!))).forEach(zone => {
+      const starts = zoned.filter(e => e.timeZone === zone).map(e => e.startTime.getFullYear());
+      lines.push(...this.fromTimeZone(zone, Math.min(...starts), Math.max(...starts, new Date().getFullYear()) + 1));
+    });
+    
+    events.forEach(event => {
+      lines.push(...this.fromEvent(event, stamp));
+      (overrides[event.id] || []).forEach(override => {
+        lines.push(...this.fromEvent(
+          { ...event, ...override.changes, id: event.id, recurrence: undefined },
+          stamp,
+          new Date(override.recurrenceId)
+        ));
+      });
+    });
+    
+    tasks.forEach(task => lines.push(...this.fromTask(task, stamp)));
+    
+    lines.push('END:VCALENDAR');
+    return lines.map(line => this.foldLine(line)).join('\r\n') + '\r\n';
+  }
+  
+  private static parseContentLines(data: string, skipped: ICalendarSkippedEntry[]): ContentLine[] {
+    const physical = data.split(/\r?\n/);
+    const lines: ContentLine[] = [];
+    let current = '';
+    let currentLine = 0;
+    
+    const flush = () => {
+      if (!current.trim()) return;
+      const parsed = this.parseContentLine(current, currentLine);
+      if (parsed) {
+        lines.push(parsed);
+      } else {
+        skipped.push({ component: 'LINE', line: currentLine, reason: `Malformed content line: ${current.slice(0, 40)}` });
+      }
+    };
+    
+    physical.forEach((text, index) => {
+      // Folded lines continue with a single leading space or tab
+      if ((text.startsWith(' ') || text.startsWith('\t')) && current) {
+        current += text.slice(1);
+        return;
+      }
+      flush();
+      current = text;
+      currentLine = index + 1;
+    });
+    flush();
+    
+    return lines;
+  }
+  
+  private static parseContentLine(text: string, line: number): ContentLine | null {
+    let inQuotes = false;
+    let colon = -1;
+    
+    for (let i = 0; i < text.length; i++) {
+      const ch = text[i];
+      if (ch === '"') inQuotes = !inQuotes;
+      if (ch === ':' && !inQuotes) {
+        colon = i;
+        break;
+      }
+    }
+    if (colon <= 0) return null;
+    
+    const head = text.slice(0, colon);
+    const value = text.slice(colon + 1);
+    const segments: string[] = [];
+    let segment = '';
+    inQuotes = false;
+    
+    for (const ch of head) {
+      if (ch === '"') inQuotes = !inQuotes;
+      if (ch === ';' && !inQuotes) {
+        segments.push(segment);
+        segment = '';
+      } else {
+        segment += ch;
+      }
+    }
+    segments.push(segment);
+    
+    const name = segments.shift()!.toUpperCase();
+    if (!/^[A-Z0-9-]+$/.test(name)) return null;
+    
+    const params: Record<string, string> = {};
+    segments.forEach(param => {
+      const eq = param.indexOf('=');
+      if (eq > 0) {
+        params[param.slice(0, eq).toUpperCase()] = param.slice(eq + 1).replace(/^"(.*)"$/, '$1');
+      }
+    });
+    
+    return { name, params, value, line };
+  }
+  
+  private static buildTree(lines: ContentLine[], skipped: ICalendarSkippedEntry[]): Component {
+    const root: Component = { name: 'ROOT', properties: [], components: [], line: 0 };
+    const stack: Component[] = [root];
+    
+    lines.forEach(line => {
+      const top = stack[stack.length - 1];
+      if (line.name === 'BEGIN') {
+        const component: Component = { name: line.value.toUpperCase(), properties: [], components: [], line: line.line };
+        top.components.push(component);
+        stack.push(component);
+      } else if (line.name === 'END') {
+        if (stack.length > 1 && top.name === line.value.toUpperCase()) {
+          stack.pop();
+        } else {
+          skipped.push({ component: line.value, line: line.line, reason: 'Unmatched END' });
+        }
+      } else {
+        top.properties.push(line);
+      }
+    });
+    
+    stack.slice(1).forEach(component => {
+      skipped.push({ component: component.name, line: component.line, reason: 'Missing END, data may be truncated' });
+    });
+    
+    return root;
+  }
+  
+  private static toEvent(component: Component, zones: Map<string, TimeZoneObservance[]>): CalendarEvent {
+    const uid = this.prop(component, 'UID')?.value;
+    const dtstart = this.prop(component, 'DTSTART');
+    if (!uid) throw new Error('Missing UID');
+    if (!dtstart) throw new Error('Missing DTSTART');
+    
+    const startFields = this.parseDateFields(dtstart.value);
+    const allDay = startFields.dateOnly || dtstart.params.VALUE === 'DATE';
+    const startTime = this.resolveDate(startFields, dtstart.params.TZID, zones);
+    const endTime = this.resolveEnd(component, startTime, allDay, zones);
+    
+    const rrule = this.prop(component, 'RRULE');
+    let recurrence: RecurrenceRule | undefined;
+    if (rrule) {
+      recurrence = RecurrenceEngine.parseRRule(rrule.value) || undefined;
+      if (!recurrence) throw new Error(`Unsupported RRULE: ${rrule.value}`);
+      const exDates = this.props(component, 'EXDATE').flatMap(p => this.parseDateList(p, zones));
+      if (exDates.length) recurrence.exDates = exDates;
+    }
+    
+    const modified = this.prop(component, 'LAST-MODIFIED') || this.prop(component, 'DTSTAMP');
+    const attendees = this.props(component, 'ATTENDEE').map(p => this.toAttendee(p));
+    const alarms = component.components
+      .filter(c => c.name === 'VALARM')
+      .map(c => this.toAlarm(c, startTime, zones))
+      .filter((a): a is EventAlarm => a !== null);
+      
+    const event: CalendarEvent = {
+      id: uid,
+      title: this.unescapeText(this.prop(component, 'SUMMARY')?.value || ''),
+      startTime,
+      endTime,
+      sourceCalendar: 'native',
+      timestamp: modified ? this.resolveDate(this.parseDateFields(modified.value), undefined, zones).getTime() : Date.now()
+    };
+    
+    const description = this.prop(component, 'DESCRIPTION');
+    const location = this.prop(component, 'LOCATION');
+    const color = this.prop(component, 'COLOR');
+    if (description) event.description = this.unescapeText(description.value);
+    if (location) event.location = this.unescapeText(location.value);
+    if (color) event.color = color.value;
+    if (allDay) event.allDay = true;
+    if (!allDay && dtstart.params.TZID && TimeZoneService.isValidZone(dtstart.params.TZID)) event.timeZone = dtstart.params.TZID;
+    if (recurrence) event.recurrence = recurrence;
+    if (attendees.length) event.attendees = attendees;
+    if (alarms.length) event.alarms = alarms;
+    
+    return event;
+  }
+  
+  private static applyInstance(
+    component: Component,
+    zones: Map<string, TimeZoneObservance[]>,
+    result: ICalendarImportResult
+  ): void {
+    const recurrenceIdProp = this.prop(component, 'RECURRENCE-ID')!;
+    const uid = this.prop(component, 'UID')?.value;
+    const master = result.events.find(e => e.id === uid);
+    const recurrenceId = this.resolveDate(
+      this.parseDateFields(recurrenceIdProp.value),
+      recurrenceIdProp.params.TZID,
+      zones
+    );
+    const cancelled = this.prop(component, 'STATUS')?.value.toUpperCase() === 'CANCELLED';
+    
+    if (!master || !master.recurrence) {
+      if (cancelled) throw new Error('Cancelled instance of an unknown series');
+      // Keep the instance as a standalone event rather than losing it
+      const event = this.toEvent(component, zones);
+      result.events.push({ ...event, id: `${event.id}-${recurrenceId.getTime()}` });
+      return;
+    }
+    
+    if (cancelled) {
+      master.recurrence.exDates = [...(master.recurrence.exDates || []), recurrenceId];
+      return;
+    }
+    
+    const instance = this.toEvent(component, zones);
+    const { id: _id, recurrence: _recurrence, sourceCalendar: _source, ...changes } = instance;
+    result.overrides[master.id] = [
+      ...(result.overrides[master.id] || []),
+      { masterId: master.id, recurrenceId: recurrenceId.toISOString(), changes }
+    ];
+  }
+  
+  private static toTask(component: Component, zones: Map<string, TimeZoneObservance[]>): TaskItem {
+    const uid = this.prop(component, 'UID')?.value;
+    const summary = this.prop(component, 'SUMMARY');
+    const deadline = this.prop(component, 'DUE');
+    const due = deadline || this.prop(component, 'DTSTART');
+    if (!uid) throw new Error('Missing UID');
+    if (!summary) throw new Error('Missing SUMMARY');
+    if (!due) throw new Error('Missing DUE or DTSTART');
+    
+    // A date-time is planned on its local day; a DUE one also keeps the instant
+    const fields = this.parseDateFields(due.value);
+    const at = fields.dateOnly || due.params.VALUE === 'DATE' ? null : this.resolveDate(fields, due.params.TZID, zones);
+    const date = at
+      ? `${at.getFullYear()}-${this.pad(at.getMonth() + 1)}-${this.pad(at.getDate())}`
+      : `${fields.year}-${this.pad(fields.month)}-${this.pad(fields.day)}`;
+      
+    const status = this.prop(component, 'STATUS')?.value.toUpperCase();
+    const priority = parseInt(this.prop(component, 'PRIORITY')?.value || '0', 10);
+    
+    return {
+      id: uid,
+      content: this.unescapeText(summary.value),
+      completed: status === 'COMPLETED' || !!this.prop(component, 'COMPLETED'),
+      date,
+      ...(at && due === deadline && { dueAt: at.toISOString() }),
+      priority: priority >= 1 && priority <= 4 ? 'high' : priority >= 6 ? 'low' : 'medium'
+    };
+  }
+  
+  private static toAttendee(line: ContentLine): EventAttendee {
+    const attendee: EventAttendee = { email: line.value.replace(/^mailto:/i, '') };
+    if (line.params.CN) attendee.name = line.params.CN;
+    if (line.params.ROLE) attendee.role = line.params.ROLE.toUpperCase() as EventAttendee['role'];
+    if (line.params.PARTSTAT) attendee.status = line.params.PARTSTAT.toUpperCase() as EventAttendee['status'];
+    return attendee;
+  }
+  
+  private static toAlarm(component: Component, startTime: Date, zones: Map<string, TimeZoneObservance[]>): EventAlarm | null {
+    const trigger = this.prop(component, 'TRIGGER');
+    const action = (this.prop(component, 'ACTION')?.value.toUpperCase() || 'DISPLAY') as EventAlarm['action'];
+    if (!trigger || !['DISPLAY', 'AUDIO', 'EMAIL'].includes(action)) return null;
+    
+    let minutesBefore: number;
+    if (trigger.params.VALUE === 'DATE-TIME') {
+      const at = this.resolveDate(this.parseDateFields(trigger.value), undefined, zones);
+      minutesBefore = Math.round((startTime.getTime() - at.getTime()) / 60000);
+    } else {
+      const duration = this.parseDuration(trigger.value);
+      if (duration === null) return null;
+      minutesBefore = Math.round(-duration / 60000);
+    }
+    
+    const alarm: EventAlarm = { action, minutesBefore };
+    const description = this.prop(component, 'DESCRIPTION');
+    if (description) alarm.description = this.unescapeText(description.value);
+    return alarm;
+  }
+  
+  private static resolveEnd(
+    component: Component,
+    startTime: Date,
+    allDay: boolean,
+    zones: Map<string, TimeZoneObservance[]>
+  ): Date {
+    const dtend = this.prop(component, 'DTEND');
+    if (dtend) {
+      return this.resolveDate(this.parseDateFields(dtend.value), dtend.params.TZID, zones);
+    }
+    
+    const duration = this.prop(component, 'DURATION');
+    if (duration) {
+      const ms = this.parseDuration(duration.value);
+      if (ms === null) throw new Error(`Invalid DURATION: ${duration.value}`);
+      return new Date(startTime.getTime() + ms);
+    }
+    
+    // RFC 5545: all-day events without an end last one day, timed ones are instantaneous
+    if (allDay) {
+      const end = new Date(startTime);
+      end.setDate(end.getDate() + 1);
+      return end;
+    }
+    return new Date(startTime);
+  }
+  
+  private static parseDateList(line: ContentLine, zones: Map<string, TimeZoneObservance[]>): Date[] {
+    return line.value
+      .split(',')
+      .filter(Boolean)
+      .map(value => this.resolveDate(this.parseDateFields(value), line.params.TZID, zones));
+  }
+  
+  private static parseDateFields(value: string): DateFields {
+    const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value.trim());
+    if (!match) throw new Error(`Invalid date value: ${value}`);
+    
+    const [, year, month, day, hour, minute, second, utc] = match;
+    return {
+      year: +year,
+      month: +month,
+      day: +day,
+      hour: hour ? +hour : 0,
+      minute: minute ? +minute : 0,
+      second: second ? +second : 0,
+      utc: !!utc,
+      dateOnly: hour === undefined
+    };
+  }
+  
+  /**
+   * Convert parsed fields to an instant: UTC values directly, TZID values through
+   * the document's VTIMEZONE or the IANA database, and floating values as local time
+   */
+  private static resolveDate(fields: DateFields, tzid: string | undefined, zones: Map<string, TimeZoneObservance[]>): Date {
+    if (fields.dateOnly) {
+      return new Date(fields.year, fields.month - 1, fields.day);
+    }
+    
+    const wall = Date.UTC(fields.year, fields.month - 1, fields.day, fields.hour, fields.minute, fields.second);
+    if (fields.utc) return new Date(wall);
+    
+    if (tzid) {
+      const observances = zones.get(tzid);
+      if (observances?.length) {
+        return new Date(wall - this.vtimezoneOffset(observances, wall) * 60000);
+      }
+      const offset = this.ianaWallOffset(tzid, wall);
+      if (offset !== null) return new Date(wall - offset * 60000);
+    }
+    
+    return new Date(fields.year, fields.month - 1, fields.day, fields.hour, fields.minute, fields.second);
+  }
+  
+  private static parseTimeZone(component: Component): TimeZoneObservance[] {
+    return component.components
+      .filter(c => c.name === 'STANDARD' || c.name === 'DAYLIGHT')
+      .map(c => {
+        const dtstart = this.prop(c, 'DTSTART');
+        const rrule = this.prop(c, 'RRULE');
+        return {
+          onset: this.parseDateFields(dtstart?.value || '19700101T000000'),
+          offsetFrom: this.parseUtcOffset(this.prop(c, 'TZOFFSETFROM')?.value || '+0000'),
+          offsetTo: this.parseUtcOffset(this.prop(c, 'TZOFFSETTO')?.value || '+0000'),
+          rule: rrule ? RecurrenceEngine.parseRRule(rrule.value) || undefined : undefined,
+          rdates: this.props(c, 'RDATE').flatMap(p => p.value.split(',').map(v => this.parseDateFields(v)))
+        };
+      });
+  }
+  
+  /**
+   * Offset in effect at a wall-clock time, taken from the observance whose most
+   * recent onset precedes it. Wall-clock times are carried as UTC milliseconds.
+   */
+  private static vtimezoneOffset(observances: TimeZoneObservance[], wall: number): number {
+    let bestOnset = -Infinity;
+    let offset = observances[0].offsetFrom; // Before any onset, use the prior offset
+    
+    for (const observance of observances) {
+      const onset = this.latestOnset(observance, wall);
+      if (onset !== null && onset > bestOnset) {
+        bestOnset = onset;
+        offset = observance.offsetTo;
+      }
+    }
+    
+    return offset;
+  }
+  
+  private static latestOnset(observance: TimeZoneObservance, wall: number): number | null {
+    const toWall = (f: DateFields) => Date.UTC(f.year, f.month - 1, f.day, f.hour, f.minute, f.second);
+    const start = toWall(observance.onset);
+    if (start > wall) return null;
+    
+    const candidates = [start, ...observance.rdates.map(toWall)];
+    const rule = observance.rule;
+    
+    if (rule && rule.freq === 'YEARLY') {
+      const year = new Date(wall).getUTCFullYear();
+      const months = rule.byMonth?.length ? rule.byMonth : [observance.onset.month];
+      for (const y of [year - 1, year]) {
+        months.forEach(month => {
+          const day = this.observanceDay(rule, y, month, observance.onset.day);
+          if (day === null) return;
+          const at = Date.UTC(y, month - 1, day, observance.onset.hour, observance.onset.minute, observance.onset.second);
+          const until = rule.until?.getTime();
+          if (at >= start && (until === undefined || at <= until)) candidates.push(at);
+        });
+      }
+    }
+    
+    const past = candidates.filter(c => c <= wall);
+    return past.length ? Math.max(...past) : null;
+  }
+  
+  private static observanceDay(rule: RecurrenceRule, year: number, month: number, fallbackDay: number): number | null {
+    const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+    
+    if (rule.byDay?.length) {
+      const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(rule.byDay[0]);
+      if (!match) return null;
+      const weekday = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'].indexOf(match[2]);
+      const ordinal = match[1] ? parseInt(match[1], 10) : 1;
+      const days: number[] = [];
+      for (let d = 1; d <= daysInMonth; d++) {
+        if (new Date(Date.UTC(year, month - 1, d)).getUTCDay() === weekday) days.push(d);
+      }
+      // Some generators pair a weekday with a BYMONTHDAY range ("the Sunday between the 8th and 14th")
+      if (rule.byMonthDay?.length) return days.find(d => rule.byMonthDay!.includes(d)) ?? null;
+      return (ordinal > 0 ? days[ordinal - 1] : days[days.length + ordinal]) ?? null;
+    }
+    
+    if (rule.byMonthDay?.length) return rule.byMonthDay[0];
+    return fallbackDay <= daysInMonth ? fallbackDay : null;
+  }
+  
+  // Offset of an IANA zone at a wall-clock time, or null if the zone is unknown
+  private static ianaWallOffset(tzid: string, wall: number): number | null {
+    try {
+      const first = this.ianaOffsetAt(tzid, wall);
+      return this.ianaOffsetAt(tzid, wall - first * 60000);
+    } catch {
+      return null;
+    }
+  }
+  
+  private static ianaOffsetAt(tzid: string, instant: number): number {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: tzid,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    }).formatToParts(new Date(instant));
+    const get = (type: string) => parseInt(parts.find(p => p.type === type)?.value || '0', 10);
+    const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+    return Math.round((asUtc - Math.floor(instant / 1000) * 1000) / 60000);
+  }
+  
+  private static parseUtcOffset(value: string): number {
+    const match = /^([+-])(\d{2})(\d{2})(\d{2})?$/.exec(value.trim());
+    if (!match) return 0;
+    const minutes = parseInt(match[2], 10) * 60 + parseInt(match[3], 10);
+    return match[1] === '-' ? -minutes : minutes;
+  }
+  
+  // Returns milliseconds, negative for durations like "-PT15M"
+  private static parseDuration(value: string): number | null {
+    const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+    if (!match) return null;
+    const [, sign, weeks, days, hours, minutes, seconds] = match;
+    const ms = ((+(weeks || 0) * 7 + +(days || 0)) * 86400 + +(hours || 0) * 3600 + +(minutes || 0) * 60 + +(seconds || 0)) * 1000;
+    return sign === '-' ? -ms : ms;
+  }
+  
+  private static prop(component: Component, name: string): ContentLine | undefined {
+    return component.properties.find(p => p.name === name);
+  }
+  
+  private static props(component: Component, name: string): ContentLine[] {
+    return component.properties.filter(p => p.name === name);
+  }
+  
+  private static unescapeText(value: string): string {
+    return value.replace(/\\([\\;,nN])/g, (_, ch: string) => (ch === 'n' || ch === 'N' ? '\n' : ch));
+  }
+  
+  private static fromEvent(event: CalendarEvent, stamp: string, recurrenceId?: Date): string[] {
+    const lines = ['BEGIN:VEVENT', `UID:${event.id}`, `DTSTAMP:${stamp}`];
+    
+    if (event.allDay) {
+      lines.push(`DTSTART;VALUE=DATE:${this.formatDate(event.startTime)}`);
+      lines.push(`DTEND;VALUE=DATE:${this.formatDate(event.endTime)}`);
+    } else {
+      lines.push(`DTSTART${this.formatZoned(event.startTime, event.timeZone)}`);
+      lines.push(`DTEND${this.formatZoned(event.endTime, event.timeZone)}`);
+    }
+    
+    if (recurrenceId) {
+      lines.push(event.allDay
+        ? `RECURRENCE-ID;VALUE=DATE:${this.formatDate(recurrenceId)}`
+        : `RECURRENCE-ID${this.formatZoned(recurrenceId, event.timeZone)}`);
+    }
+    
+    lines.push(`SUMMARY:${this.escapeText(event.title)}`);
+    if (event.description) lines.push(`DESCRIPTION:${this.escapeText(event.description)}`);
+    if (event.location) lines.push(`LOCATION:${this.escapeText(event.location)}`);
+    if (event.color) lines.push(`COLOR:${event.color}`);
+    lines.push(`LAST-MODIFIED:${this.formatDateTime(new Date(event.timestamp || Date.now()))}`);
+    
+    if (event.recurrence) {
+      lines.push(`RRULE:${RecurrenceEngine.toRRuleString(event.recurrence)}`);
+      event.recurrence.exDates?.forEach(date => {
+        lines.push(event.allDay ? `EXDATE;VALUE=DATE:${this.formatDate(date)}` : `EXDATE${this.formatZoned(date, event.timeZone)}`);
+      });
+    }
+    
+    event.attendees?.forEach(attendee => {
+      const params = [
+        attendee.name ? `;CN=${this.quoteParam(attendee.name)}` : '',
+        attendee.role ? `;ROLE=${attendee.role}` : '',
+        attendee.status ? `;PARTSTAT=${attendee.status}` : ''
+      ].join('');
+      lines.push(`ATTENDEE${params}:mailto:${attendee.email}`);
+    });
+    
+    event.alarms?.forEach(alarm => {
+      lines.push(
+        'BEGIN:VALARM',
+        `ACTION:${alarm.action}`,
+        `TRIGGER:${this.formatDuration(-alarm.minutesBefore)}`,
+        `DESCRIPTION:${this.escapeText(alarm.description || event.title)}`,
+        'END:VALARM'
+      );
+    });
+    
+    lines.push('END:VEVENT');
+    return lines;
+  }
+  
+  private static fromTask(task: TaskItem, stamp: string): string[] {
+    const due = task.dueAt
+      ? `DUE:${this.formatDateTime(new Date(task.dueAt))}`
+      : `DUE;VALUE=DATE:${task.date.replace(/-/g, '')}`;
+    const priority = { high: 1, medium: 5, low: 9 }[task.priority];
+    
+    return [
+      'BEGIN:VTODO',
+      `UID:${task.id}`,
+      `DTSTAMP:${stamp}`,
+      `SUMMARY:${this.escapeText(task.content)}`,
+      due,
+      `PRIORITY:${priority}`,
+      `STATUS:${task.completed ? 'COMPLETED' : 'NEEDS-ACTION'}`,
+      'END:VTODO'
+    ];
+  }
+  
+  /**
+   * VTIMEZONE for an IANA zone: one observance per offset change from `fromYear`,
+   * with the changes of `toYear` repeating yearly from there on
+   */
+  private static fromTimeZone(zone: string, fromYear: number, toYear: number): string[] {
+    const transitions = TimeZoneService.transitions(zone, new Date(Date.UTC(fromYear, 0, 1)), new Date(Date.UTC(toYear, 11, 31)));
+    const lines = ['BEGIN:VTIMEZONE', `TZID:${zone}`];
+    
+    if (!transitions.length) {
+      const offset = this.formatUtcOffset(TimeZoneService.getOffset(new Date(Date.UTC(toYear, 0, 1)), zone));
+      lines.push('BEGIN:STANDARD', 'DTSTART:19700101T000000', `TZOFFSETFROM:${offset}`, `TZOFFSETTO:${offset}`, 'END:STANDARD');
+    }
+    
+    transitions.forEach(({ at, offsetFrom, offsetTo }) => {
+      const kind = offsetTo > offsetFrom ? 'DAYLIGHT' : 'STANDARD';
+      const wall = new Date(at.getTime() + offsetFrom * 60000);
+      lines.push(`BEGIN:${kind}`, `DTSTART:${this.formatDateTime(wall).replace(/Z$/, '')}`);
+      
+      if (wall.getUTCFullYear() === toYear) {
+        const day = wall.getUTCDate();
+        const daysInMonth = new Date(Date.UTC(toYear, wall.getUTCMonth() + 1, 0)).getUTCDate();
+        const ordinal = day + 7 > daysInMonth ? -1 : Math.ceil(day / 7);
+        const weekday = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'][wall.getUTCDay()];
+        lines.push(`RRULE:FREQ=YEARLY;BYMONTH=${wall.getUTCMonth() + 1};BYDAY=${ordinal}${weekday}`);
+      }
+      
+      lines.push(
+        `TZOFFSETFROM:${this.formatUtcOffset(offsetFrom)}`,
+        `TZOFFSETTO:${this.formatUtcOffset(offsetTo)}`,
+        `TZNAME:${this.escapeText(TimeZoneService.abbreviation(zone, at, 'en-US'))}`,
+        `END:${kind}`
+      );
+    });
+    
+    lines.push('END:VTIMEZONE');
+    return lines;
+  }
+  
+  private static formatUtcOffset(minutes: number): string {
+    const total = Math.abs(minutes);
+    return `${minutes < 0 ? '-' : '+'}${this.pad(Math.floor(total / 60))}${this.pad(total % 60)}`;
+  }
+  
+  // ":<utc>" for instants, or ";TZID=<zone>:<wall clock>" when the event has a zone
+  private static formatZoned(date: Date, zone?: string): string {
+    if (!zone) return `:${this.formatDateTime(date)}`;
+    return `;TZID=${zone}:${this.formatDateTime(TimeZoneService.toFloating(date, zone)).replace(/Z$/, '')}`;
+  }
+  
+  private static formatDateTime(date: Date): string {
+    return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  }
+  
+  private static formatDate(date: Date): string {
+    return `${date.getFullYear()}${this.pad(date.getMonth() + 1)}${this.pad(date.getDate())}`;
+  }
+  
+  private static formatDuration(minutes: number): string {
+    const sign = minutes < 0 ? '-' : '';
+    const total = Math.abs(minutes);
+    const days = Math.floor(total / 1440);
+    const hours = Math.floor((total % 1440) / 60);
+    const mins = total % 60;
+    const time = `${hours ? `${hours}H` : ''}${mins || (!days && !hours) ? `${mins}M` : ''}`;
+    return `${sign}P${days ? `${days}D` : ''}${time ? `T${time}` : ''}`;
+  }
+  
+  private static escapeText(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+  }
+  
+  private static quoteParam(value: string): string {
+    return /[:;,]/.test(value) ? `"${value.replace(/"/g, '')}"` : value;
+  }
+  
+  // Fold at 75 octets without splitting multi-byte characters
+  private static foldLine(line: string): string {
+    const encoder = new TextEncoder();
+    if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line;
+    
+    const parts: string[] = [];
+    let current = '';
+    let octets = 0;
+    
+    for (const ch of line) {
+      const size = encoder.encode(ch).length;
+      const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+      if (octets + size > limit) {
+        parts.push(current);
+        current = '';
+        octets = 0;
+      }
+      current += ch;
+      octets += size;
+    }
+    parts.push(current);
+    
+    return parts.join('\r\n ');
+  }
+  
+  private static pad(value: number): string {
+    return value.toString().padStart(2, '0');
+  }
+}
+
+export default ICalendarCodec;
@@ -0,0 +1,138 @@
+import { LamportTimestamp, SyncOperation } from '../types';
+
+type SyncLayer = SyncOperation['layer'];
+
+interface Register<T> {
+  value: T;
+  clock: LamportTimestamp;
+}
+
+interface EntityRecord {
+  exists: Register<boolean> | null; // null until a create or delete has been seen
+  fields: Record<string, Register<unknown>>;
+}
+
+export interface MergeOutcome {
+  layer: SyncLayer;
+  entityId: string;
+  exists: boolean | null;
+  entity: Record<string, any>; // Every known field value
+  changes: Record<string, any>; // Fields whose value this operation won
+}
+
+// Operations from peers that predate clocks lose to any stamped write
+const ZERO_CLOCK: LamportTimestamp = { counter: 0, replicaId: '' };
+
+/**
+ * Layer CRDT
+ * Last-writer-wins register map per entity with a Lamport clock on every field,
+ * so replicas converge whatever order operations are delivered in
+ */
+export class LayerCRDT {
+  private replicaId: string;
+  private counter = 0;
+  private records: Map<string, EntityRecord> = new Map();
+  
+  constructor(replicaId: string = Math.random().toString(36).substr(2, 9)) {
+    this.replicaId = replicaId;
+  }
+  
+  static compare(a: LamportTimestamp, b: LamportTimestamp): number {
+    if (a.counter !== b.counter) return a.counter - b.counter;
+    if (a.replicaId === b.replicaId) return 0;
+    return a.replicaId < b.replicaId ? -1 : 1;
+  }
+  
+  getReplicaId(): string {
+    return this.replicaId;
+  }
+  
+  /**
+   * Stamp a local operation with the next clock value and record its writes
+   */
+  recordLocal(operation: SyncOperation): SyncOperation {
+    this.counter++;
+    const stamped = { ...operation, clock: { counter: this.counter, replicaId: this.replicaId } };
+    this.merge(stamped, stamped.clock);
+    return stamped;
+  }
+  
+  /**
+   * Merge a remote operation. Re-applying an operation already seen is a no-op.
+   */
+  applyRemote(operation: SyncOperation): MergeOutcome {
+    const clock = operation.clock || ZERO_CLOCK;
+    this.counter = Math.max(this.counter, clock.counter);
+    return this.merge(operation, clock);
+  }
+  
+  /**
+   * Fold a newer local operation into an unsent earlier one for the same entity.
+   * Returns the operations that should take the pair's place in the queue.
+   */
+  coalesce(previous: SyncOperation, next: SyncOperation): SyncOperation[] {
+    const record = this.records.get(`${previous.layer}:${previous.entityId}`);
+    if (!record || !previous.clock || !next.clock) return [previous, next];
+    
+    if (next.type === 'delete') {
+      // An entity created and deleted before anyone saw it never needs to leave this device
+      return previous.type === 'create' ? [] : [next];
+    }
+    if (next.type !== 'update' || previous.type === 'delete') return [previous, next];
+    
+    const restamp = (register: Register<unknown> | null | undefined) =>
+      !!register && LayerCRDT.compare(register.clock, previous.clock!) === 0;
+    
+    // A concurrent remote delete won the existence register; keep the create separate
+    if (previous.type === 'create' && !restamp(record.exists)) return [previous, next];
+    if (previous.type === 'create') record.exists!.clock = next.clock;
+    
+    // Carry over earlier writes a remote operation has not since overwritten,
+    // re-stamped so every replica records them under the same clock
+    const data: Record<string, any> = {};
+    Object.entries(previous.data || {}).forEach(([field, value]) => {
+      if (field in next.data || !restamp(record.fields[field])) return;
+      record.fields[field].clock = next.clock!;
+      data[field] = value;
+    });
+    
+    return [{ ...previous, data: { ...data, ...next.data }, timestamp: next.timestamp, clock: next.clock }];
+  }
+  
+  private merge(operation: SyncOperation, clock: LamportTimestamp): MergeOutcome {
+    const key = `${operation.layer}:${operation.entityId}`;
+    const record = this.records.get(key) || { exists: null, fields: {} };
+    this.records.set(key, record);
+    
+    // Create and delete race on the existence register; updates never revive a deleted entity
+    if (operation.type !== 'update' && (!record.exists || LayerCRDT.compare(clock, record.exists.clock) > 0)) {
+      record.exists = { value: operation.type === 'create', clock };
+    }
+    
+    const changes: Record<string, any> = {};
+    if (operation.type !== 'delete' && operation.data) {
+      Object.entries(operation.data).forEach(([field, value]) => {
+        const current = record.fields[field];
+        if (!current || LayerCRDT.compare(clock, current.clock) > 0) {
+          record.fields[field] = { value, clock };
+          changes[field] = value;
+        }
+      });
+    }
+    
+    const entity: Record<string, any> = {};
+    Object.entries(record.fields).forEach(([field, register]) => {
+      entity[field] = register.value;
+    });
+    
+    return {
+      layer: operation.layer,
+      entityId: operation.entityId,
+      exists: record.exists ? record.exists.value : null,
+      entity,
+      changes
+    };
+  }
+}
+
+export default LayerCRDT;
@@ -0,0 +1,533 @@
+import {
+  addDays,
+  addMinutes,
+  addMonths,
+  addWeeks,
+  addYears,
+  endOfMonth,
+  endOfYear,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+  startOfYear
+} from 'date-fns';
+import { ByDay, RecurrenceRule, Weekday } from '../types';
+
+export interface ParseOptions {
+  now?: Date;
+  locale?: string; // Decides whether 3/4 is March 4 (en-US) or 3 April
+  defaultHour?: number; // Gives dated input without a time a start instead of making it all-day
+  defaultDuration?: number; // in minutes
+}
+
+export interface ParsedCommand {
+  title: string;
+  start?: Date;
+  end?: Date;
+  allDay: boolean;
+  hasTime: boolean;
+  durationMinutes?: number;
+  recurrence?: RecurrenceRule;
+  location?: string;
+  tags: string[];
+  priority?: 'low' | 'medium' | 'high';
+  matches: string[]; // Phrases the grammar recognised, in input order
+}
+
+type Translate = (key: string, params?: Record<string, string | number>) => string;
+
+interface ClockTime {
+  hour: number;
+  minute: number;
+  meridiem?: 'am' | 'pm';
+  explicit: boolean; // Had a colon or meridiem, so it can't be a bare count
+}
+
+type Piece =
+  | { kind: 'date'; date: Date }
+  | { kind: 'instant'; date: Date }
+  | { kind: 'time'; time: ClockTime; date?: Date }
+  | { kind: 'range'; start: ClockTime; end: ClockTime }
+  | { kind: 'until'; end: ClockTime }
+  | { kind: 'duration'; minutes: number }
+  | { kind: 'recurrence'; rule: RecurrenceRule }
+  | { kind: 'location' }
+  | { kind: 'tag'; tag: string }
+  | { kind: 'priority'; priority: 'low' | 'medium' | 'high' };
+
+interface Production {
+  pattern: RegExp;
+  build: (match: RegExpExecArray, now: Date, options: ParseOptions) => Piece | null; // Null rejects the match
+}
+
+const WEEKDAY_CODES: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12
+};
+const FREQ_KEYS: Record<RecurrenceRule['freq'], string> = {
+  DAILY: 'daily',
+  WEEKLY: 'weekly',
+  MONTHLY: 'monthly',
+  YEARLY: 'yearly'
+};
+
+// Terminals of the grammar; productions below are built from these
+const WEEKDAY = '(?:sun(?:day)?|mon(?:day)?|tue(?:s(?:day)?)?|wed(?:nesday)?|thu(?:r(?:s(?:day)?)?)?|fri(?:day)?|sat(?:urday)?)';
+const MONTH = '(?:jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)';
+const ORDINAL = '(\\d{1,2})(st|nd|rd|th)?';
+const COUNT = '(\\d+(?:\\.\\d+)?|an?|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve)';
+const CLOCK = '(\\d{1,2})(?::(\\d{2}))?\\s*(am|pm|a\\.m\\.|p\\.m\\.)?';
+const UNIT = '(minutes?|mins?|hours?|hrs?|h|days?|weeks?|wks?|months?|years?)';
+const CONNECTOR = /^(?:on|at|from|for|by|in|the|to|and|with|,)$/i;
+const COMMAND = /^(?:please\s+)?(?:(?:can|could)\s+you\s+)?(?:schedule|book|add|create|set\s+up|plan|put|remind\s+me\s+to|remind\s+me\s+about|new)\s+(?:an?\s+|the\s+)?/i;
+
+const production = (pattern: string, build: Production['build']): Production => ({
+  // Sticky, so each production is tried at the scanner's position; must end on a word boundary
+  pattern: new RegExp(`${pattern}(?![\\p{L}\\d])`, 'iuy'),
+  build
+});
+
+const count = (value: string): number => NUMBER_WORDS[value.toLowerCase()] ?? parseFloat(value);
+
+const weekdayIndex = (value: string): number =>
+  ['su', 'mo', 'tu', 'we', 'th', 'fr', 'sa'].indexOf(value.slice(0, 2).toLowerCase());
+
+const monthIndex = (value: string): number => MONTH_NAMES.indexOf(value.slice(0, 3).toLowerCase());
+
+const clock = (hour?: string, minute?: string, meridiem?: string): ClockTime => ({
+  hour: Number(hour),
+  minute: Number(minute || 0),
+  meridiem: meridiem ? (meridiem[0].toLowerCase() === 'p' ? 'pm' : 'am') : undefined,
+  explicit: !!(minute || meridiem)
+});
+
+const unitMinutes = (unit: string): number => {
+  const u = unit.toLowerCase();
+  if (u.startsWith('m') && !u.startsWith('mo')) return 1;
+  if (u.startsWith('h')) return 60;
+  if (u.startsWith('d')) return 24 * 60;
+  if (u.startsWith('w')) return 7 * 24 * 60;
+  return 0; // Months and years aren't a fixed length
+};
+
+// Upcoming date for a day of the month, rolling into next month once it has passed
+const dayOfMonth = (now: Date, day: number): Date | null => {
+  if (day < 1 || day > 31) return null;
+  const today = startOfDay(now);
+  for (let month = 0; month < 3; month++) {
+    const base = addMonths(startOfMonth(today), month);
+    const date = new Date(base.getFullYear(), base.getMonth(), day);
+    if (date.getMonth() === base.getMonth() && date >= today) return date;
+  }
+  return null;
+};
+
+// A month and day, in the given year or else the next time it comes round
+const monthDay = (now: Date, month: number, day: number, year?: string): Date | null => {
+  if (month < 0 || month > 11 || day < 1 || day > 31) return null;
+  const fullYear = year ? Number(year.length === 2 ? `20${year}` : year) : now.getFullYear();
+  let date = new Date(fullYear, month, day);
+  if (date.getMonth() !== month) return null;
+  if (!year && date < startOfDay(now)) date = new Date(fullYear + 1, month, day);
+  return date;
+};
+
+const weekdayDate = (now: Date, weekday: number, modifier?: string): Date => {
+  const today = startOfDay(now);
+  const ahead = (weekday - today.getDay() + 7) % 7;
+  switch (modifier?.toLowerCase()) {
+    case 'last':
+      return addDays(today, -((today.getDay() - weekday + 7) % 7 || 7));
+    case 'next': {
+      // The one in the following week, never later this week
+      const date = addDays(today, ahead || 7);
+      return date < addDays(startOfWeek(today), 7) ? addDays(date, 7) : date;
+    }
+    default:
+      return addDays(today, ahead);
+  }
+};
+
+const recurrence = (freq: RecurrenceRule['freq'], interval = 1, byDay?: ByDay[]): Piece => ({
+  kind: 'recurrence',
+  rule: { freq, ...(interval > 1 && { interval }), ...(byDay && { byDay }) }
+});
+
+const PERIODS: Record<string, RecurrenceRule['freq']> = { day: 'DAILY', week: 'WEEKLY', month: 'MONTHLY', year: 'YEARLY' };
+
+/**
+ * Productions tried at every word. The longest match wins; among equal
+ * lengths the earlier production does.
+ */
+const GRAMMAR: Production[] = [
+  // Dates
+  production('(?:on\\s+)?(today|tonight|tomorrow|tmrw?|yesterday|(?:the\\s+)?day\\s+after\\s+tomorrow)', (m, now) => {
+    const word = m[1].toLowerCase();
+    const today = startOfDay(now);
+    if (word === 'tonight') return { kind: 'time', time: { hour: 20, minute: 0, explicit: true }, date: today };
+    if (word === 'yesterday') return { kind: 'date', date: addDays(today, -1) };
+    if (word.endsWith('after tomorrow')) return { kind: 'date', date: addDays(today, 2) };
+    return { kind: 'date', date: word === 'today' ? today : addDays(today, 1) };
+  }),
+  production(`(on\\s+)?(?:(this|next|last|coming)\\s+)?(${WEEKDAY})`, (m, now) => {
+    // "sun", "sat" and "wed" on their own are more likely plain words
+    if (!m[1] && !m[2] && ['sun', 'sat', 'wed'].includes(m[3].toLowerCase())) return null;
+    return { kind: 'date', date: weekdayDate(now, weekdayIndex(m[3]), m[2]) };
+  }),
+  production('(next|this)\\s+(week|month|year)', (m, now) => {
+    if (m[1].toLowerCase() === 'this') return { kind: 'date', date: startOfDay(now) };
+    const today = startOfDay(now);
+    const unit = m[2].toLowerCase();
+    return { kind: 'date', date: unit === 'week' ? addWeeks(today, 1) : unit === 'month' ? addMonths(today, 1) : addYears(today, 1) };
+  }),
+  production('(?:by\\s+|at\\s+)?(?:the\\s+)?end\\s+of\\s+(?:the\\s+)?(day|week|month|year)|(eod|eow|eom|eoy)', (m, now) => {
+    const today = startOfDay(now);
+    const unit = (m[1] || { eod: 'day', eow: 'week', eom: 'month', eoy: 'year' }[m[2].toLowerCase()]!).toLowerCase();
+    if (unit === 'day') return { kind: 'time', time: { hour: 17, minute: 0, explicit: true }, date: today };
+    if (unit === 'week') return { kind: 'date', date: addDays(today, (5 - today.getDay() + 7) % 7) }; // Friday
+    return { kind: 'date', date: startOfDay(unit === 'month' ? endOfMonth(today) : endOfYear(today)) };
+  }),
+  production('(?:at\\s+)?(?:the\\s+)?(?:start|beginning)\\s+of\\s+(?:(the|next)\\s+)?(week|month|year)', (m, now) => {
+    const today = startOfDay(now);
+    const unit = m[2].toLowerCase();
+    const start = (date: Date) => unit === 'week' ? startOfWeek(date, { weekStartsOn: 1 }) : unit === 'month' ? startOfMonth(date) : startOfYear(date);
+    const following = (date: Date) => unit === 'week' ? addWeeks(date, 1) : unit === 'month' ? addMonths(date, 1) : addYears(date, 1);
+    const current = start(today);
+    return { kind: 'date', date: m[1]?.toLowerCase() === 'next' || current < today ? start(following(today)) : current };
+  }),
+  production(`in\\s+${COUNT}\\s+${UNIT}`, (m, now) => {
+    const amount = count(m[1]);
+    const unit = m[2].toLowerCase();
+    if (unit.startsWith('mo')) return { kind: 'date', date: addMonths(startOfDay(now), amount) };
+    if (unit.startsWith('y')) return { kind: 'date', date: addYears(startOfDay(now), amount) };
+    const minutes = amount * unitMinutes(unit);
+    return minutes < 24 * 60
+      ? { kind: 'instant', date: addMinutes(now, Math.round(minutes)) }
+      : { kind: 'date', date: addDays(startOfDay(now), Math.round(minutes / (24 * 60))) };
+  }),
+  production(`${COUNT}\\s+(days?|weeks?)\\s+from\\s+(now|today|tomorrow)`, (m, now) => {
+    const days = count(m[1]) * (m[2].toLowerCase().startsWith('w') ? 7 : 1) + (m[3].toLowerCase() === 'tomorrow' ? 1 : 0);
+    return { kind: 'date', date: addDays(startOfDay(now), Math.round(days)) };
+  }),
+  production(`(?:on\\s+)?(${MONTH})\\.?\\s+${ORDINAL}(?:,?\\s+(\\d{4}))?`, (m, now) => {
+    const date = monthDay(now, monthIndex(m[1]), Number(m[2]), m[4]);
+    return date && { kind: 'date', date };
+  }),
+  production(`(?:on\\s+)?(?:the\\s+)?${ORDINAL}\\s+(?:of\\s+)?(${MONTH})(?:,?\\s+(\\d{4}))?`, (m, now) => {
+    const date = monthDay(now, monthIndex(m[3]), Number(m[1]), m[4]);
+    return date && { kind: 'date', date };
+  }),
+  production(`(?:on\\s+)?(the\\s+)?${ORDINAL}(?:\\s+of\\s+(?:the|this)\\s+month)?`, (m, now) => {
+    // A bare number is a count, not a date; "the 3" or "3rd" is a day of the month
+    if (!m[1] && !m[3]) return null;
+    const date = dayOfMonth(now, Number(m[2]));
+    return date && { kind: 'date', date };
+  }),
+  production('(?:on\\s+)?(\\d{4})-(\\d{1,2})-(\\d{1,2})', (m, now) => {
+    const date = monthDay(now, Number(m[2]) - 1, Number(m[3]), m[1]);
+    return date && { kind: 'date', date };
+  }),
+  production('(?:on\\s+)?(\\d{1,2})[/.](\\d{1,2})(?:[/.](\\d{4}|\\d{2}))?', (m, now, options) => {
+    const monthFirst = (options.locale || 'en-US').toLowerCase() === 'en-us';
+    const [month, day] = monthFirst ? [m[1], m[2]] : [m[2], m[1]];
+    const date = monthDay(now, Number(month) - 1, Number(day), m[3]);
+    return date && { kind: 'date', date };
+  }),
+  
+  // Times, ranges and durations
+  production(`(?:from\\s+|between\\s+)?${CLOCK}\\s*(?:-|–|to|until|till|and)\\s*${CLOCK}(?!\\s*${UNIT}(?![\\p{L}\\d]))`, m => {
+    const start = clock(m[1], m[2], m[3]);
+    const end = clock(m[4], m[5], m[6]);
+    const introduced = /^(from|between)\s/i.test(m[0]);
+    // Bare numbers only make a range when dashed hours of the clock, as in "11-1"
+    const dashedHours = /^\d{1,2}\s*[-–]\s*\d{1,2}$/.test(m[0]) && [start, end].every(time => time.hour >= 1 && time.hour <= 12);
+    if (!introduced && !start.explicit && !end.explicit && !dashedHours) return null;
+    // "and" only joins a range after "between"
+    if (/\sand\s/i.test(m[0]) && !/^between\s/i.test(m[0])) return null;
+    return { kind: 'range', start, end };
+  }),
+  production(`(?:until|till|til)\\s+${CLOCK}`, m => {
+    const end = clock(m[1], m[2], m[3]);
+    return end.explicit ? { kind: 'until', end } : null;
+  }),
+  production(`(?:at\\s+|around\\s+|@\\s*)?${CLOCK}(?:\\s*o'?clock)?`, m => {
+    const time = clock(m[1], m[2], m[3]);
+    // Bare numbers are only times after "at"/"around" or with "o'clock"
+    if (!time.explicit && !/^(at|around)\s/i.test(m[0]) && !/o'?clock$/i.test(m[0])) return null;
+    if (/^@/.test(m[0]) && !time.explicit) return null;
+    return time.hour <= 24 && time.minute < 60 ? { kind: 'time', time: { ...time, explicit: true } } : null;
+  }),
+  production('(?:at\\s+|around\\s+)?(noon|midday|midnight)', m => (
+    { kind: 'time', time: { hour: m[1].toLowerCase() === 'midnight' ? 0 : 12, minute: 0, explicit: true } }
+  )),
+  production('(?:in\\s+the\\s+|this\\s+)?(morning|afternoon|evening)', m => (
+    { kind: 'time', time: { hour: { morning: 9, afternoon: 14, evening: 18 }[m[1].toLowerCase() as 'morning']!, minute: 0, explicit: true } }
+  )),
+  production(`for\\s+(?:${COUNT}\\s*${UNIT}(?:\\s*(?:and\\s+)?(\\d+)\\s*(?:minutes?|mins?|m))?|half\\s+an?\\s+hour|(\\d+)h(\\d{1,2}))`, m => {
+    if (m[4]) return { kind: 'duration', minutes: Number(m[4]) * 60 + Number(m[5]) };
+    if (!m[1]) return { kind: 'duration', minutes: 30 };
+    const minutes = count(m[1]) * unitMinutes(m[2]) + Number(m[3] || 0);
+    return minutes > 0 ? { kind: 'duration', minutes: Math.round(minutes) } : null;
+  }),
+  
+  // Recurrence
+  production('(daily|weekly|monthly|yearly|annually|fortnightly|biweekly)', m => {
+    const word = m[1].toLowerCase();
+    if (word === 'fortnightly' || word === 'biweekly') return recurrence('WEEKLY', 2);
+    return recurrence(word === 'annually' ? 'YEARLY' : word.toUpperCase() as RecurrenceRule['freq']);
+  }),
+  production('every\\s+(other\\s+|\\d+\\s+|two\\s+|three\\s+|four\\s+)?(days?|weeks?|months?|years?)', m => {
+    const interval = m[1] ? (m[1].trim().toLowerCase() === 'other' ? 2 : count(m[1].trim())) : 1;
+    return recurrence(PERIODS[m[2].toLowerCase().replace(/s$/, '')], interval);
+  }),
+  production(`(?:every|on)\\s+(weekdays?|weekends?)`, m => {
+    if (/^on\s/i.test(m[0]) && !/s$/i.test(m[1])) return null;
+    return /^weekday/i.test(m[1])
+      ? recurrence('WEEKLY', 1, ['MO', 'TU', 'WE', 'TH', 'FR'])
+      : recurrence('WEEKLY', 1, ['SA', 'SU']);
+  }),
+  production(`every\\s+(other\\s+)?(${WEEKDAY}(?:\\s*(?:,|and|&)\\s*${WEEKDAY})*)`, m => {
+    const days = m[2].split(/\s*(?:,|and|&)\s*/i).map(day => WEEKDAY_CODES[weekdayIndex(day)]);
+    return recurrence('WEEKLY', m[1] ? 2 : 1, Array.from(new Set(days)));
+  }),
+  
+  // Location, tags and priority
+  production('@', () => ({ kind: 'location' })),
+  production('#([\\p{L}\\d_-]+)', m => ({ kind: 'tag', tag: m[1].toLowerCase() })),
+  production('!(high|medium|med|low|urgent)|(!{1,3})|p([123])', m => {
+    if (m[1]) return { kind: 'priority', priority: m[1].toLowerCase() === 'urgent' ? 'high' : m[1].toLowerCase().startsWith('med') ? 'medium' : m[1].toLowerCase() as 'low' | 'high' };
+    if (m[2]) return { kind: 'priority', priority: (['low', 'medium', 'high'] as const)[m[2].length - 1] };
+    return { kind: 'priority', priority: (['high', 'medium', 'low'] as const)[Number(m[3]) - 1] };
+  }),
+  production('(high|medium|low)[\\s-]+priority|priority\\s+(high|medium|low)|(urgent(?:ly)?|asap)', m => ({
+    kind: 'priority',
+    priority: m[3] ? 'high' : (m[1] || m[2]).toLowerCase() as 'low' | 'medium' | 'high'
+  }))
+];
+
+/**
+ * Natural Language Parser
+ * Grammar-based reading of event and task phrases: dates, times, ranges,
+ * durations, recurrence, locations, tags and priority
+ */
+export class NaturalLanguageParser {
+  /**
+   * Parse a phrase such as "Design review every other Tue 2-3pm @ Room A #team !high".
+   * Whatever the grammar doesn't recognise becomes the title.
+   */
+  static parse(input: string, options: ParseOptions = {}): ParsedCommand {
+    const now = options.now || new Date();
+    const pieces: Piece[] = [];
+    const matches: string[] = [];
+    const titleWords: string[] = [];
+    const locationWords: string[] = [];
+    let inLocation = false;
+    
+    let position = 0;
+    while (position < input.length) {
+      if (/\s/.test(input[position])) {
+        position++;
+        continue;
+      }
+      
+      const best = this.match(input, position, now, options);
+      if (best) {
+        // A location runs until the next recognised phrase
+        inLocation = best.piece.kind === 'location';
+        if (!inLocation) pieces.push(best.piece);
+        matches.push(best.text);
+        position += best.text.length;
+        continue;
+      }
+      
+      const word = input.slice(position).match(/^\S+/)![0];
+      position += word.length;
+      if (inLocation) {
+        const end = word.search(/[,;]/);
+        locationWords.push(end === -1 ? word : word.slice(0, end));
+        if (end !== -1) inLocation = false;
+      } else {
+        titleWords.push(word);
+      }
+    }
+    
+    return this.assemble(pieces, titleWords, locationWords, matches, now, options);
+  }
+  
+  /**
+   * One-line summary in the caller's language, e.g. from useI18n's `t`
+   */
+  static describe(parsed: ParsedCommand, t: Translate, locale = 'en'): string {
+    const parts: string[] = [parsed.title];
+    
+    if (parsed.start) {
+      const date = parsed.start.toLocaleDateString(locale, { weekday: 'short', month: 'short', day: 'numeric' });
+      const time = (value: Date) => value.toLocaleTimeString(locale, { hour: 'numeric', minute: '2-digit' });
+      parts.push(parsed.allDay || !parsed.end
+        ? `${date} (${t('nlp.allDay')})`
+        : `${date}, ${time(parsed.start)} – ${time(parsed.end)}`);
+    }
+    if (parsed.recurrence) parts.push(this.describeRule(parsed.recurrence, t, locale));
+    if (parsed.location) parts.push(`${t('common.location')}: ${parsed.location}`);
+    if (parsed.priority) parts.push(`${t('common.priority')}: ${t(`nlp.priorities.${parsed.priority}`)}`);
+    if (parsed.tags.length) parts.push(`${t('common.tags')}: ${parsed.tags.map(tag => `#${tag}`).join(' ')}`);
+    
+    return parts.join(' · ');
+  }
+  
+  static describeRule(rule: RecurrenceRule, t: Translate, locale = 'en'): string {
+    const key = FREQ_KEYS[rule.freq];
+    const interval = Math.max(1, rule.interval || 1);
+    const every = interval === 1
+      ? t(`nlp.every.${key}`)
+      : t('nlp.everyN', { count: interval, unit: t(`nlp.units.${key}`) });
+    if (!rule.byDay?.length) return every;
+    
+    // 2024-01-07 was a Sunday, so day i of that week is weekday i
+    const names = rule.byDay
+      .map(day => WEEKDAY_CODES.indexOf(day.slice(-2) as Weekday))
+      .map(index => new Date(2024, 0, 7 + index).toLocaleDateString(locale, { weekday: 'long' }));
+    return `${every} ${t('nlp.onDays', { days: names.join(', ') })}`;
+  }
+  
+  // Longest production matching at `position`, skipping ones that reject their match
+  private static match(input: string, position: number, now: Date, options: ParseOptions): { text: string; piece: Piece } | null {
+    let best: { text: string; piece: Piece } | null = null;
+    for (const { pattern, build } of GRAMMAR) {
+      pattern.lastIndex = position;
+      const match = pattern.exec(input);
+      if (!match || (best && match[0].length <= best.text.length)) continue;
+      const piece = build(match, now, options);
+      if (piece) best = { text: match[0], piece };
+    }
+    return best;
+  }
+  
+  private static assemble(
+    pieces: Piece[],
+    titleWords: string[],
+    locationWords: string[],
+    matches: string[],
+    now: Date,
+    options: ParseOptions
+  ): ParsedCommand {
+    let day: Date | undefined;
+    let instant: Date | undefined;
+    let startTime: ClockTime | undefined;
+    let endTime: ClockTime | undefined;
+    let duration: number | undefined;
+    let rule: RecurrenceRule | undefined;
+    let priority: ParsedCommand['priority'];
+    const tags: string[] = [];
+    
+    pieces.forEach(piece => {
+      switch (piece.kind) {
+        case 'date': day = piece.date; break;
+        case 'instant': instant = piece.date; break;
+        case 'time':
+          startTime = piece.time;
+          if (piece.date && !day) day = piece.date;
+          break;
+        case 'range': [startTime, endTime] = this.resolveRange(piece.start, piece.end); break;
+        case 'until': endTime = piece.end; break;
+        case 'duration': duration = piece.minutes; break;
+        case 'recurrence':
+          // "every Monday and every Wednesday" adds up
+          rule = rule?.byDay && piece.rule.byDay && rule.freq === piece.rule.freq
+            ? { ...rule, byDay: Array.from(new Set([...rule.byDay, ...piece.rule.byDay])) }
+            : piece.rule;
+          break;
+        case 'tag': if (!tags.includes(piece.tag)) tags.push(piece.tag); break;
+        case 'priority': priority = piece.priority; break;
+      }
+    });
+    
+    const title = this.cleanTitle(titleWords);
+    const location = locationWords.join(' ').trim() || undefined;
+    const result: ParsedCommand = {
+      title,
+      allDay: false,
+      hasTime: !!(startTime || instant),
+      durationMinutes: duration,
+      tags,
+      matches,
+      ...(rule && { recurrence: rule }),
+      ...(location && { location }),
+      ...(priority && { priority })
+    };
+    
+    if (instant && !day) {
+      result.start = instant;
+    } else {
+      // A recurring phrase without a date starts on its first matching day
+      if (!day && rule?.byDay?.length) {
+        const today = startOfDay(now);
+        const offsets = rule.byDay.map(code => (WEEKDAY_CODES.indexOf(code.slice(-2) as Weekday) - today.getDay() + 7) % 7);
+        day = addDays(today, Math.min(...offsets));
+      }
+      if (!day && (startTime || rule)) day = startOfDay(now);
+      if (!day) return result;
+      
+      const hour = startTime ? this.hour24(startTime) : options.defaultHour;
+      if (hour === undefined) {
+        result.allDay = true;
+        result.start = startOfDay(day);
+        result.end = addDays(result.start, Math.max(1, Math.round((duration || 0) / (24 * 60))));
+        return result;
+      }
+      
+      result.start = new Date(day.getFullYear(), day.getMonth(), day.getDate(), Math.floor(hour), startTime?.minute || Math.round((hour % 1) * 60));
+      // A time with no date means the next time the clock shows it
+      if (startTime && !pieces.some(piece => piece.kind === 'date' || (piece.kind === 'time' && piece.date)) && !rule && result.start < now) {
+        result.start = addDays(result.start, 1);
+      }
+    }
+    
+    if (endTime) {
+      const end = new Date(result.start);
+      end.setHours(this.hour24(endTime), endTime.minute, 0, 0);
+      result.end = end > result.start ? end : addDays(end, 1);
+      result.durationMinutes = Math.round((result.end.getTime() - result.start.getTime()) / 60000);
+    } else {
+      result.end = addMinutes(result.start, duration ?? options.defaultDuration ?? 60);
+    }
+    return result;
+  }
+  
+  // Lend a meridiem from one end of a range to the other, keeping the range forward.
+  // With neither, the start reads like a single time and the end follows it.
+  private static resolveRange(start: ClockTime, end: ClockTime): [ClockTime, ClockTime] {
+    if (!start.meridiem && !end.meridiem && start.hour <= 12 && end.hour <= 12) {
+      return this.resolveRange({ ...start, meridiem: this.hour24(start) >= 12 ? 'pm' : 'am' }, end);
+    }
+    if (!start.meridiem && end.meridiem) {
+      const endMinutes = this.hour24(end) * 60 + end.minute;
+      const pm = (start.hour % 12 + 12) * 60 + start.minute;
+      start = { ...start, meridiem: end.meridiem === 'pm' && pm <= endMinutes ? 'pm' : 'am' };
+    } else if (start.meridiem && !end.meridiem && end.hour <= 12) {
+      const startMinutes = this.hour24(start) * 60 + start.minute;
+      const same: ClockTime = { ...end, meridiem: start.meridiem };
+      end = this.hour24(same) * 60 + end.minute > startMinutes ? same : { ...end, meridiem: start.meridiem === 'am' ? 'pm' : 'am' };
+    }
+    return [start, end];
+  }
+  
+  private static hour24(time: ClockTime): number {
+    if (time.meridiem === 'pm') return time.hour % 12 + 12;
+    if (time.meridiem === 'am') return time.hour % 12;
+    // Without a meridiem, 1-6 reads as afternoon: nobody books "at 3" for 3 AM
+    return time.hour >= 1 && time.hour <= 6 ? time.hour + 12 : time.hour % 24;
+  }
+  
+  private static cleanTitle(words: string[]): string {
+    const kept = [...words];
+    while (kept.length && CONNECTOR.test(kept[kept.length - 1])) kept.pop();
+    while (kept.length && CONNECTOR.test(kept[0])) kept.shift();
+    const title = kept.join(' ').replace(/\s+([,.;:])/g, '$1').replace(/[,;:]+$/, '').replace(COMMAND, '').trim();
+    return title ? title[0].toUpperCase() + title.slice(1) : '';
+  }
+}
+
+export default NaturalLanguageParser;
@@ -1,8 +1,19 @@
 /**
  * Plugin Manager Service
- * Provides a plugin architecture for extending Artful Agenda functionality
+ * Provides a plugin architecture for extending Artful Agenda functionality.
+ * Third-party plugins run sandboxed (see PluginSandbox) and reach the app
+ * only through calls checked against the permissions their manifest declares.
  */
 
+import { format, parseISO } from 'date-fns';
+import { useStore } from '../stores/appStore';
+import { CalendarEvent, DecorativeElement, EventOverride, HandwritingStroke, TaskItem } from '../types';
+import { rbac, Permission } from './rbac';
+import { enhancedNotificationService } from './enhancedNotifications';
+import { PluginSandbox, PluginManifest, PluginApiMethod, ContributionKind, PluginRule, PluginRuleCondition } from './pluginSandbox';
+
+export type PluginStatus = 'stopped' | 'starting' | 'running' | 'crashed';
+
 export interface Plugin {
   id: string;
   name: string;
@@ -12,13 +23,116 @@ export interface Plugin {
   enabled: boolean;
   init?: () => void;
   destroy?: () => void;
+  manifest?: PluginManifest; // Set for sandboxed plugins
+  status?: PluginStatus;
+  error?: string; // Why a sandboxed plugin last stopped
   [key: string]: any; // Allow plugins to define custom methods
 }
 
+export interface PluginCommand {
+  pluginId: string;
+  id: string;
+  title: string;
+  description?: string;
+}
+
+export interface PluginView {
+  pluginId: string;
+  id: string;
+  title: string;
+}
+
+export interface PluginSticker {
+  id: string;
+  label?: string;
+  content?: string; // Emoji or short text
+  imageUrl?: string;
+}
+
+export interface PluginStickerPack {
+  pluginId: string;
+  id: string;
+  name: string;
+  stickers: PluginSticker[];
+}
+
+export type PluginHook = typeof PLUGIN_HOOKS[keyof typeof PLUGIN_HOOKS];
+
+// What each hook carries: the entity as stored after the change, or as it
+// was for deletes. Update hooks also pass the entity as it was before.
+export interface PluginHookPayloads {
+  [PLUGIN_HOOKS.CALENDAR_EVENT_CREATED]: CalendarEvent;
+  [PLUGIN_HOOKS.CALENDAR_EVENT_UPDATED]: CalendarEvent;
+  [PLUGIN_HOOKS.CALENDAR_EVENT_DELETED]: CalendarEvent;
+  [PLUGIN_HOOKS.TASK_CREATED]: TaskItem;
+  [PLUGIN_HOOKS.TASK_UPDATED]: TaskItem;
+  [PLUGIN_HOOKS.TASK_COMPLETED]: TaskItem;
+  [PLUGIN_HOOKS.TASK_DELETED]: TaskItem;
+  [PLUGIN_HOOKS.DECORATION_ADDED]: DecorativeElement;
+  [PLUGIN_HOOKS.DECORATION_UPDATED]: DecorativeElement;
+  [PLUGIN_HOOKS.DECORATION_DELETED]: DecorativeElement;
+  [PLUGIN_HOOKS.STICKER_ADDED]: DecorativeElement;
+  [PLUGIN_HOOKS.STICKER_MOVED]: DecorativeElement;
+  [PLUGIN_HOOKS.STROKE_ADDED]: HandwritingStroke;
+  [PLUGIN_HOOKS.STROKE_DELETED]: HandwritingStroke;
+  [PLUGIN_HOOKS.USER_LOGIN]: { userId: string };
+  [PLUGIN_HOOKS.USER_LOGOUT]: { userId: string };
+}
+
+// What a before-hook is asked to approve: the new entity for creates, the
+// changed fields for updates and the entity about to go for deletes. Edits to
+// single occurrences arrive as the series' full new list of overrides.
+export interface PluginBeforeHookPayloads {
+  [PLUGIN_HOOKS.CALENDAR_EVENT_CREATED]: CalendarEvent;
+  [PLUGIN_HOOKS.CALENDAR_EVENT_UPDATED]: Partial<CalendarEvent> & { recurrenceOverrides?: EventOverride[] };
+  [PLUGIN_HOOKS.CALENDAR_EVENT_DELETED]: CalendarEvent;
+  [PLUGIN_HOOKS.TASK_CREATED]: TaskItem;
+  [PLUGIN_HOOKS.TASK_UPDATED]: Partial<TaskItem>;
+  [PLUGIN_HOOKS.TASK_DELETED]: TaskItem;
+  [PLUGIN_HOOKS.DECORATION_ADDED]: DecorativeElement;
+  [PLUGIN_HOOKS.DECORATION_UPDATED]: Partial<DecorativeElement>;
+  [PLUGIN_HOOKS.DECORATION_DELETED]: DecorativeElement;
+  [PLUGIN_HOOKS.STROKE_ADDED]: HandwritingStroke;
+  [PLUGIN_HOOKS.STROKE_DELETED]: HandwritingStroke;
+}
+
+export type PluginBeforeHook = keyof PluginBeforeHookPayloads;
+
+export type PluginHookCallback<H extends PluginHook> = (payload: PluginHookPayloads[H], previous?: PluginHookPayloads[H]) => unknown;
+
+// Returning nothing lets the change through as proposed. A transformed
+// payload replaces the proposal; deletes can only be vetoed.
+export type PluginBeforeHookResult<H extends PluginBeforeHook> =
+  | void
+  | { veto: string }
+  | { payload: PluginBeforeHookPayloads[H] };
+
+export type PluginBeforeHookCallback<H extends PluginBeforeHook> = (
+  proposed: PluginBeforeHookPayloads[H],
+  current?: PluginHookPayloads[H]
+) => PluginBeforeHookResult<H>;
+
+export type PluginHookVerdict<H extends PluginBeforeHook> =
+  | { veto: string }
+  | { payload: PluginBeforeHookPayloads[H] };
+
+const INSTALLED_KEY = 'installedPlugins';
+const MAX_PACK_STICKERS = 100;
+const MAX_VIEW_HTML = 100 * 1024;
+
 export class PluginManager {
   private static instance: PluginManager;
   private plugins: Map<string, Plugin> = new Map();
-  private hooks: Map<string, Function[]> = new Map();
+  private hooks: Map<PluginHook, PluginHookCallback<any>[]> = new Map();
+  private beforeHooks: Map<PluginBeforeHook, PluginBeforeHookCallback<any>[]> = new Map();
+  private sandboxes: Map<string, PluginSandbox> = new Map();
+  private installed: Set<string> = new Set(); // Sandboxed plugins kept across sessions
+  private subscriptions: Map<string, { hook: PluginHook; callback: PluginHookCallback<any> }[]> = new Map();
+  private rules: Map<string, (() => void)[]> = new Map(); // Removers for each plugin's manifest rules
+  private commands: PluginCommand[] = [];
+  private views: PluginView[] = [];
+  private stickerPacks: PluginStickerPack[] = [];
+  private listeners: Set<() => void> = new Set();
 
   private constructor() {}
 
@@ -50,6 +164,7 @@ export class PluginManager {
         console.error(`Failed to initialize plugin ${plugin.name}:`, error);
       }
     }
+    this.notify();
   }
 
   /**
@@ -73,7 +188,14 @@ export class PluginManager {
     }
 
     this.plugins.delete(pluginId);
+    if (plugin.manifest) {
+      this.sandboxes.delete(pluginId);
+      this.installed.delete(pluginId);
+      rbac.removeUser(this.principal(pluginId));
+      this.saveInstalled();
+    }
     console.log(`Plugin unregistered: ${plugin.name}`);
+    this.notify();
   }
 
   /**
@@ -93,6 +215,7 @@ export class PluginManager {
 
     plugin.enabled = true;
     console.log(`Plugin enabled: ${plugin.name}`);
+    this.saveInstalled();
 
     // Initialize plugin if it has an init method
     if (plugin.init) {
@@ -103,6 +226,7 @@ export class PluginManager {
         console.error(`Failed to initialize plugin ${plugin.name}:`, error);
       }
     }
+    this.notify();
   }
 
   /**
@@ -122,6 +246,7 @@ export class PluginManager {
 
     plugin.enabled = false;
     console.log(`Plugin disabled: ${plugin.name}`);
+    this.saveInstalled();
 
     // Destroy plugin if it has a destroy method
     if (plugin.destroy) {
@@ -132,6 +257,7 @@ export class PluginManager {
         console.error(`Failed to destroy plugin ${plugin.name}:`, error);
       }
     }
+    this.notify();
   }
 
   /**
@@ -149,9 +275,9 @@ export class PluginManager {
   }
 
   /**
-   * Register a hook for plugins to extend functionality
+   * Be told after a change has been made
    */
-  registerHook(hookName: string, callback: Function): void {
+  registerHook<H extends PluginHook>(hookName: H, callback: PluginHookCallback<H>): void {
     if (!this.hooks.has(hookName)) {
       this.hooks.set(hookName, []);
     }
@@ -161,9 +287,24 @@ export class PluginManager {
   }
 
   /**
-   * Trigger a hook with optional parameters
+   * Remove a callback added with registerHook
    */
-  triggerHook(hookName: string, ...args: any[]): any[] {
+  unregisterHook<H extends PluginHook>(hookName: H, callback: PluginHookCallback<H>): void {
+    const callbacks = this.hooks.get(hookName);
+    if (!callbacks) return;
+
+    const remaining = callbacks.filter(registered => registered !== callback);
+    if (remaining.length > 0) {
+      this.hooks.set(hookName, remaining);
+    } else {
+      this.hooks.delete(hookName);
+    }
+  }
+
+  /**
+   * Trigger a hook, returning what each callback returned
+   */
+  triggerHook<H extends PluginHook>(hookName: H, payload: PluginHookPayloads[H], previous?: PluginHookPayloads[H]): unknown[] {
     const callbacks = this.hooks.get(hookName);
     if (!callbacks || callbacks.length === 0) {
       return [];
@@ -172,7 +313,7 @@ export class PluginManager {
     console.log(`Hook triggered: ${hookName}`);
     return callbacks.map(callback => {
       try {
-        return callback(...args);
+        return callback(payload, previous);
       } catch (error) {
         console.error(`Error in hook ${hookName}:`, error);
         return null;
@@ -181,33 +322,158 @@ export class PluginManager {
   }
 
   /**
-   * Load plugins from a configuration
+   * Be asked before a local change is made, with the chance to veto or
+   * transform it. Before-hooks run synchronously inside the store action, so
+   * only in-process plugins can add them; sandboxed plugins declare rules in
+   * their manifest instead, which the host checks for them.
+   */
+  registerBeforeHook<H extends PluginBeforeHook>(hookName: H, callback: PluginBeforeHookCallback<H>): () => void {
+    this.beforeHooks.set(hookName, [...(this.beforeHooks.get(hookName) || []), callback]);
+    return () => {
+      const remaining = (this.beforeHooks.get(hookName) || []).filter(registered => registered !== callback);
+      if (remaining.length > 0) {
+        this.beforeHooks.set(hookName, remaining);
+      } else {
+        this.beforeHooks.delete(hookName);
+      }
+    };
+  }
+
+  /**
+   * Pass a proposed change through every before-hook in turn. Each one sees
+   * the previous one's transform; the first veto stops the change.
    */
-  async loadPluginsFromConfig(config: any[]): Promise<void> {
+  runBeforeHooks<H extends PluginBeforeHook>(hookName: H, proposed: PluginBeforeHookPayloads[H], current?: PluginHookPayloads[H]): PluginHookVerdict<H> {
+    let payload = proposed;
+    for (const callback of this.beforeHooks.get(hookName) || []) {
+      let result: PluginBeforeHookResult<H>;
+      try {
+        result = callback(payload, current);
+      } catch (error) {
+        console.error(`Error in before-hook ${hookName}:`, error);
+        continue;
+      }
+      if (!result) continue;
+      if ('veto' in result) return { veto: String(result.veto) || 'Blocked by a plugin' };
+      if (result.payload && typeof result.payload === 'object') payload = result.payload;
+    }
+    return { payload };
+  }
+
+  /**
+   * Load sandboxed plugins from a configuration, for this session only
+   */
+  async loadPluginsFromConfig(config: (PluginManifest & { enabled?: boolean })[]): Promise<void> {
     console.log('Loading plugins from configuration...');
     
     for (const pluginConfig of config) {
       try {
-        // In a real application, this would dynamically import the plugin
-        // For demo purposes, we'll create mock plugins
-        const mockPlugin: Plugin = {
-          id: pluginConfig.id,
-          name: pluginConfig.name,
-          version: pluginConfig.version || '1.0.0',
-          description: pluginConfig.description || '',
-          author: pluginConfig.author || 'Unknown',
-          enabled: pluginConfig.enabled !== false, // Default to true if not specified
-          init: () => console.log(`Initializing ${pluginConfig.name}`),
-          destroy: () => console.log(`Destroying ${pluginConfig.name}`)
-        };
-
-        this.registerPlugin(mockPlugin);
+        this.registerSandboxedPlugin(pluginConfig, pluginConfig.enabled !== false);
       } catch (error) {
         console.error(`Failed to load plugin ${pluginConfig.id}:`, error);
       }
     }
   }
 
+  /**
+   * Install a sandboxed plugin and keep it for later sessions
+   */
+  installPlugin(manifest: PluginManifest, enabled: boolean = true): Plugin {
+    const plugin = this.registerSandboxedPlugin(manifest, enabled);
+    this.installed.add(plugin.id);
+    this.saveInstalled();
+    return plugin;
+  }
+
+  /**
+   * Fetch a manifest and install the plugin it describes. A relative main
+   * is resolved against the manifest's URL.
+   */
+  async installFromUrl(manifestUrl: string): Promise<Plugin> {
+    const url = new URL(manifestUrl, window.location.href);
+    const response = await fetch(url.href);
+    if (!response.ok) {
+      throw new Error(`Could not fetch ${url.href} (HTTP ${response.status})`);
+    }
+
+    const manifest = await response.json();
+    const main = typeof manifest?.main === 'string' ? new URL(manifest.main, url).href : manifest?.main;
+    return this.installPlugin({ ...manifest, main });
+  }
+
+  /**
+   * Start the sandboxed plugins installed in earlier sessions
+   */
+  restorePlugins(): void {
+    this.readInstalled().forEach(({ manifest, enabled }) => {
+      if (this.plugins.has(manifest?.id)) return;
+      try {
+        this.installPlugin(manifest, enabled);
+      } catch (error) {
+        console.error(`Failed to restore plugin ${manifest?.id}:`, error);
+      }
+    });
+  }
+
+  /**
+   * Start a crashed sandboxed plugin again
+   */
+  restartPlugin(pluginId: string): void {
+    const plugin = this.plugins.get(pluginId);
+    if (!plugin?.manifest || !plugin.enabled || plugin.status !== 'crashed') return;
+    this.startSandbox(pluginId);
+  }
+
+  /**
+   * Commands contributed by running plugins
+   */
+  getCommands(): PluginCommand[] {
+    return this.commands;
+  }
+
+  /**
+   * Views contributed by running plugins
+   */
+  getViews(): PluginView[] {
+    return this.views;
+  }
+
+  /**
+   * Sticker packs contributed by running plugins
+   */
+  getStickerPacks(): PluginStickerPack[] {
+    return this.stickerPacks;
+  }
+
+  /**
+   * Run a plugin command. Rejects with the plugin's error if it fails.
+   */
+  async executeCommand(pluginId: string, commandId: string): Promise<void> {
+    const sandbox = this.sandboxes.get(pluginId);
+    if (!sandbox?.running) throw new Error(`Plugin ${pluginId} is not running`);
+    await sandbox.invoke('command', commandId);
+  }
+
+  /**
+   * Render a plugin view to HTML. Show it in a frame without scripts.
+   */
+  async renderView(pluginId: string, viewId: string, context?: Record<string, unknown>): Promise<string> {
+    const sandbox = this.sandboxes.get(pluginId);
+    if (!sandbox?.running) throw new Error(`Plugin ${pluginId} is not running`);
+    const html = await sandbox.invoke('view', viewId, context);
+    return String(html ?? '').slice(0, MAX_VIEW_HTML);
+  }
+
+  /**
+   * Listen for plugins being added, started, stopped or contributing
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
   /**
    * Get plugin statistics
    */
@@ -225,20 +491,507 @@ export class PluginManager {
       disabled: plugins.length - enabled
     };
   }
+
+  private registerSandboxedPlugin(manifest: PluginManifest, enabled: boolean): Plugin {
+    const checked = this.validateManifest(manifest);
+    if (this.plugins.has(checked.id)) {
+      throw new Error(`A plugin with ID ${checked.id} is already registered`);
+    }
+
+    // The plugin acts as its own rbac user, holding only what it declared
+    const principal = this.principal(checked.id);
+    rbac.addUser({ id: principal, name: checked.name, email: '', role: 'plugin' });
+    checked.permissions.forEach(permission => rbac.grantPermission(principal, permission));
+
+    this.sandboxes.set(checked.id, new PluginSandbox(checked, {
+      call: (method, args) => this.handleCall(checked.id, method, args),
+      contribute: (kind, contribution) => this.addContribution(checked.id, kind, contribution),
+      crash: (reason) => this.handleCrash(checked.id, reason)
+    }));
+
+    const plugin: Plugin = {
+      id: checked.id,
+      name: checked.name,
+      version: checked.version,
+      description: checked.description || '',
+      author: checked.author || 'Unknown',
+      enabled,
+      manifest: checked,
+      status: 'stopped',
+      init: () => this.startSandbox(checked.id),
+      destroy: () => this.stopSandbox(checked.id)
+    };
+    this.registerPlugin(plugin);
+    return plugin;
+  }
+
+  private validateManifest(manifest: PluginManifest): PluginManifest {
+    const raw = (manifest || {}) as Partial<Record<keyof PluginManifest, any>>;
+    if (typeof raw.id !== 'string' || !/^[a-z0-9][a-z0-9._-]{0,63}$/i.test(raw.id)) {
+      throw new Error('Plugin manifest needs an id of letters, digits, dots, dashes or underscores');
+    }
+    if (typeof raw.name !== 'string' || !raw.name.trim()) {
+      throw new Error(`Plugin manifest for ${raw.id} needs a name`);
+    }
+
+    let main: string | undefined;
+    if (typeof raw.code !== 'string') {
+      const url = typeof raw.main === 'string' ? new URL(raw.main, window.location.href) : null;
+      if (!url || !['http:', 'https:'].includes(url.protocol)) {
+        throw new Error(`Plugin manifest for ${raw.id} needs an http(s) main module or bundled code`);
+      }
+      main = url.href;
+    }
+
+    const permissions: unknown[] = Array.isArray(raw.permissions) ? raw.permissions : [];
+    const unsupported = permissions.filter(permission => !PLUGIN_PERMISSIONS.includes(permission as Permission));
+    if (unsupported.length > 0) {
+      throw new Error(`Plugin ${raw.id} asks for permissions plugins can't have: ${unsupported.join(', ')}`);
+    }
+
+    return {
+      id: raw.id,
+      name: raw.name.trim(),
+      version: typeof raw.version === 'string' ? raw.version : '1.0.0',
+      description: typeof raw.description === 'string' ? raw.description : undefined,
+      author: typeof raw.author === 'string' ? raw.author : undefined,
+      main,
+      code: typeof raw.code === 'string' ? raw.code : undefined,
+      permissions: Array.from(new Set(permissions as Permission[])),
+      rules: this.validateRules(raw.id, raw.rules, permissions as Permission[])
+    };
+  }
+
+  private validateRules(pluginId: string, value: unknown, permissions: Permission[]): PluginRule[] | undefined {
+    if (value === undefined) return undefined;
+    if (!Array.isArray(value)) throw new Error(`Plugin ${pluginId} has rules that aren't a list`);
+
+    const scalar = (test: unknown) => ['string', 'number', 'boolean'].includes(typeof test);
+    const hours = (test: unknown) => Array.isArray(test) && test.length === 2 && test.every(hour => typeof hour === 'number' && hour >= 0 && hour <= 24);
+    return value.map((raw, index) => {
+      const rule = (raw && typeof raw === 'object' ? raw : {}) as Record<string, any>;
+      const permission = PLUGIN_RULE_PERMISSIONS[rule.hook as PluginBeforeHook];
+      if (!permission) throw new Error(`Plugin ${pluginId} rule ${index + 1}: rules can't check "${rule.hook}"`);
+      if (!permissions.includes(permission)) throw new Error(`Plugin ${pluginId} rule ${index + 1}: checking ${rule.hook} needs "${permission}"`);
+
+      const veto = this.text(rule.veto, 200);
+      const when = Array.isArray(rule.when) ? rule.when as Record<string, any>[] : [];
+      const valid = when.length > 0 && when.every(condition => condition && typeof condition.field === 'string' && condition.field
+        && (condition.equals === undefined || scalar(condition.equals))
+        && (condition.oneOf === undefined || (Array.isArray(condition.oneOf) && condition.oneOf.every(scalar)))
+        && (condition.contains === undefined || typeof condition.contains === 'string')
+        && (condition.weekday === undefined || (Array.isArray(condition.weekday) && condition.weekday.every((day: unknown) => Number.isInteger(day))))
+        && (condition.hours === undefined || hours(condition.hours))
+        && ['equals', 'oneOf', 'contains', 'weekday', 'hours'].some(test => condition[test] !== undefined));
+      if (!veto || !valid) throw new Error(`Plugin ${pluginId} rule ${index + 1} needs a veto reason and conditions to check`);
+
+      return {
+        hook: rule.hook,
+        veto,
+        when: when.map(({ field, equals, oneOf, contains, weekday, hours }) => ({ field, equals, oneOf, contains, weekday, hours }))
+      };
+    });
+  }
+
+  private startSandbox(pluginId: string): void {
+    const plugin = this.plugins.get(pluginId);
+    const sandbox = this.sandboxes.get(pluginId);
+    if (!plugin || !sandbox) return;
+
+    plugin.status = 'starting';
+    plugin.error = undefined;
+    this.registerRules(pluginId);
+    this.notify();
+
+    sandbox.start().then(
+      () => {
+        if (!sandbox.running) return;
+        plugin.status = 'running';
+        this.notify();
+      },
+      (error) => this.handleCrash(pluginId, error instanceof Error ? error.message : String(error))
+    );
+  }
+
+  private stopSandbox(pluginId: string): void {
+    const plugin = this.plugins.get(pluginId);
+    this.removeContributions(pluginId);
+    if (plugin) plugin.status = 'stopped';
+    void this.sandboxes.get(pluginId)?.stop();
+    this.notify();
+  }
+
+  // The sandbox is already torn down; drop what the plugin contributed
+  private handleCrash(pluginId: string, reason: string): void {
+    const plugin = this.plugins.get(pluginId);
+    this.removeContributions(pluginId);
+    if (!plugin || !plugin.enabled) return;
+
+    plugin.status = 'crashed';
+    plugin.error = reason;
+    console.error(`Plugin ${plugin.name} stopped: ${reason}`);
+    this.notify();
+  }
+
+  private addContribution(pluginId: string, kind: ContributionKind, contribution: unknown): void {
+    const raw = (contribution && typeof contribution === 'object' ? contribution : {}) as Record<string, unknown>;
+    const id = this.text(raw.id, 64);
+    const title = this.text(kind === 'stickerPack' ? raw.name : raw.title, 80);
+    if (!id || !title) {
+      console.warn(`Plugin ${pluginId} contributed a ${kind} without an id and ${kind === 'stickerPack' ? 'name' : 'title'}`);
+      return;
+    }
+
+    const others = <T extends { pluginId: string; id: string }>(items: T[]) => items.filter(item => item.pluginId !== pluginId || item.id !== id);
+    switch (kind) {
+      case 'command':
+        this.commands = [...others(this.commands), { pluginId, id, title, description: this.text(raw.description, 200) }];
+        break;
+      case 'view':
+        this.views = [...others(this.views), { pluginId, id, title }];
+        break;
+      case 'stickerPack': {
+        const stickers = (Array.isArray(raw.stickers) ? raw.stickers : [])
+          .slice(0, MAX_PACK_STICKERS)
+          .map((sticker, index) => this.sticker(sticker, String(index)))
+          .filter((sticker): sticker is PluginSticker => sticker !== null);
+        this.stickerPacks = [...others(this.stickerPacks), { pluginId, id, name: title, stickers }];
+        break;
+      }
+    }
+    this.notify();
+  }
+
+  private removeContributions(pluginId: string): void {
+    this.commands = this.commands.filter(command => command.pluginId !== pluginId);
+    this.views = this.views.filter(view => view.pluginId !== pluginId);
+    this.stickerPacks = this.stickerPacks.filter(pack => pack.pluginId !== pluginId);
+    (this.subscriptions.get(pluginId) || []).forEach(({ hook, callback }) => this.unregisterHook(hook, callback));
+    this.subscriptions.delete(pluginId);
+    (this.rules.get(pluginId) || []).forEach(remove => remove());
+    this.rules.delete(pluginId);
+  }
+
+  // Turn a plugin's manifest rules into before-hooks that veto matching changes
+  private registerRules(pluginId: string): void {
+    const plugin = this.plugins.get(pluginId);
+    (this.rules.get(pluginId) || []).forEach(remove => remove());
+    this.rules.set(pluginId, (plugin?.manifest?.rules || []).map(rule =>
+      this.registerBeforeHook(rule.hook as PluginBeforeHook, (proposed, current) => {
+        const entity = { ...current, ...proposed } as Record<string, unknown>;
+        if (rule.when.every(condition => this.ruleMatches(entity, condition))) return { veto: `${plugin!.name}: ${rule.veto}` };
+      })
+    ));
+  }
+
+  private ruleMatches(entity: Record<string, unknown>, condition: PluginRuleCondition): boolean {
+    const value = condition.field.split('.').reduce<unknown>(
+      (object, key) => (object && typeof object === 'object' ? (object as Record<string, unknown>)[key] : undefined),
+      entity
+    );
+    if (condition.equals !== undefined && value !== condition.equals) return false;
+    if (condition.oneOf && !condition.oneOf.includes(value as string | number | boolean)) return false;
+    if (condition.contains !== undefined && !(typeof value === 'string' && value.toLowerCase().includes(condition.contains.toLowerCase()))) return false;
+
+    if (condition.weekday || condition.hours) {
+      // Plain yyyy-MM-dd task dates are local days, not UTC midnight
+      const date = typeof value === 'string' ? parseISO(value) : value instanceof Date || typeof value === 'number' ? new Date(value) : null;
+      if (!date || isNaN(date.getTime())) return false;
+      if (condition.weekday && !condition.weekday.includes(date.getDay())) return false;
+      if (condition.hours && (date.getHours() < condition.hours[0] || date.getHours() >= condition.hours[1])) return false;
+    }
+    return true;
+  }
+
+  /**
+   * Answer a sandboxed plugin's API call. Everything it sends is untrusted,
+   * so fields are picked and checked rather than passed to the store.
+   */
+  private async handleCall(pluginId: string, method: PluginApiMethod, args: unknown[]): Promise<unknown> {
+    if (!this.plugins.get(pluginId)?.enabled) throw new Error('Plugin is disabled');
+    if (!(method in PLUGIN_API_PERMISSIONS)) throw new Error(`Unknown call "${method}"`);
+    this.requirePermission(pluginId, PLUGIN_API_PERMISSIONS[method]);
+
+    const store = useStore.getState();
+    const [first, second] = args;
+    const input = (value: unknown) => (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+
+    switch (method) {
+      case 'events.list': {
+        const { from, to } = input(first);
+        const start = from !== undefined ? this.date(from, 'from') : null;
+        const end = to !== undefined ? this.date(to, 'to') : null;
+        return store.events.filter(event => (!start || new Date(event.endTime) > start) && (!end || new Date(event.startTime) < end));
+      }
+      case 'events.create': {
+        const fields = this.eventFields(input(first));
+        if (!fields.title || !fields.startTime || !fields.endTime) throw new Error('Events need a title, startTime and endTime');
+        const event: CalendarEvent = {
+          ...fields,
+          id: `event-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+          title: fields.title,
+          startTime: fields.startTime,
+          endTime: fields.endTime,
+          sourceCalendar: 'native',
+          timestamp: Date.now()
+        };
+        this.checkEventTimes(event);
+        this.apply(() => store.addEvent(event));
+        return useStore.getState().events.find(created => created.id === event.id) || event;
+      }
+      case 'events.update': {
+        const current = store.events.find(event => event.id === first);
+        if (!current) throw new Error(`No event ${first}`);
+        const updates = { ...this.eventFields(input(second)), timestamp: Date.now() };
+        this.checkEventTimes({ ...current, ...updates });
+        this.apply(() => store.updateEvent(current.id, updates));
+        return useStore.getState().events.find(event => event.id === current.id);
+      }
+      case 'events.delete':
+        if (!store.events.some(event => event.id === first)) throw new Error(`No event ${first}`);
+        this.apply(() => store.deleteEvent(String(first)));
+        return undefined;
+      case 'tasks.list': {
+        const { date, completed } = input(first);
+        return store.tasks.filter(task => (date === undefined || task.date === date) && (completed === undefined || task.completed === completed));
+      }
+      case 'tasks.create': {
+        const fields = this.taskFields(input(first));
+        if (!fields.content) throw new Error('Tasks need content');
+        const task: TaskItem = {
+          completed: false,
+          date: format(store.selectedDate, 'yyyy-MM-dd'),
+          priority: 'medium',
+          ...fields,
+          id: `task-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+          content: fields.content
+        };
+        this.apply(() => store.addTask(task));
+        return useStore.getState().tasks.find(created => created.id === task.id) || task;
+      }
+      case 'tasks.update': {
+        if (!store.tasks.some(task => task.id === first)) throw new Error(`No task ${first}`);
+        this.apply(() => store.updateTask(String(first), this.taskFields(input(second))));
+        return useStore.getState().tasks.find(task => task.id === first);
+      }
+      case 'tasks.delete':
+        if (!store.tasks.some(task => task.id === first)) throw new Error(`No task ${first}`);
+        this.apply(() => store.deleteTask(String(first)));
+        return undefined;
+      case 'stickers.list':
+        return store.decorations.filter(decoration => decoration.type === 'sticker');
+      case 'stickers.place': {
+        const fields = input(first);
+        const sticker = this.sticker(fields, 'placed');
+        if (!sticker) throw new Error('Stickers need content (an emoji) or an http(s) imageUrl');
+        const size = typeof fields.size === 'number' ? Math.min(200, Math.max(10, fields.size)) : 40;
+        const decoration: DecorativeElement = {
+          id: `sticker-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+          type: 'sticker',
+          position: {
+            dateX: (fields.date !== undefined ? this.date(fields.date, 'date') : store.selectedDate).toISOString(),
+            offsetY: typeof fields.offsetY === 'number' ? fields.offsetY : Math.random() * 100,
+            zIndex: 100
+          },
+          imageUrl: sticker.imageUrl,
+          content: sticker.content,
+          style: { width: size, height: size, rotation: 0, opacity: 1 }
+        };
+        this.apply(() => store.addDecoration(decoration));
+        return useStore.getState().decorations.find(placed => placed.id === decoration.id) || decoration;
+      }
+      case 'notifications.show': {
+        const title = this.text(first, 100);
+        if (!title) throw new Error('Notifications need a title');
+        const plugin = this.plugins.get(pluginId)!;
+        await enhancedNotificationService.showNotification(`${plugin.name}: ${title}`, {
+          body: this.text(second, 500),
+          tag: `plugin-${pluginId}`
+        });
+        return undefined;
+      }
+      case 'hooks.subscribe': {
+        const hook = String(first) as PluginHook;
+        const permission = PLUGIN_HOOK_PERMISSIONS[hook];
+        if (!permission) throw new Error(`Plugins can't listen to "${hook}"`);
+        this.requirePermission(pluginId, permission);
+
+        const callback = (payload?: unknown) => {
+          this.sandboxes.get(pluginId)?.invoke('hook', hook, payload).catch(error => {
+            console.warn(`Plugin ${pluginId} failed to handle ${hook}:`, error);
+          });
+        };
+        this.registerHook(hook, callback);
+        this.subscriptions.set(pluginId, [...(this.subscriptions.get(pluginId) || []), { hook, callback }]);
+        return undefined;
+      }
+    }
+  }
+
+  // Store actions don't return; a before-hook veto shows up as a new lastVeto
+  private apply(action: () => void): void {
+    const previous = useStore.getState().lastVeto;
+    action();
+    const veto = useStore.getState().lastVeto;
+    if (veto && veto !== previous) throw new Error(`Blocked: ${veto.reason}`);
+  }
+
+  private requirePermission(pluginId: string, permission: Permission | null): void {
+    if (permission && !rbac.hasPermission(this.principal(pluginId), permission)) {
+      throw new Error(`Permission "${permission}" was not granted`);
+    }
+  }
+
+  private principal(pluginId: string): string {
+    return `plugin:${pluginId}`;
+  }
+
+  private eventFields(input: Record<string, unknown>): Partial<CalendarEvent> {
+    const fields: Partial<CalendarEvent> = {};
+    if (input.title !== undefined) fields.title = this.text(input.title, 200);
+    if (input.startTime !== undefined) fields.startTime = this.date(input.startTime, 'startTime');
+    if (input.endTime !== undefined) fields.endTime = this.date(input.endTime, 'endTime');
+    if (input.description !== undefined) fields.description = this.text(input.description, 5000);
+    if (input.location !== undefined) fields.location = this.text(input.location, 200);
+    if (input.color !== undefined) fields.color = this.text(input.color, 32);
+    if (input.allDay !== undefined) fields.allDay = input.allDay === true;
+    return fields;
+  }
+
+  private checkEventTimes(event: Pick<CalendarEvent, 'startTime' | 'endTime'>): void {
+    if (new Date(event.endTime) < new Date(event.startTime)) throw new Error('endTime must not be before startTime');
+  }
+
+  private taskFields(input: Record<string, unknown>): Partial<TaskItem> {
+    const fields: Partial<TaskItem> = {};
+    if (input.content !== undefined) fields.content = this.text(input.content, 500);
+    if (input.completed !== undefined) fields.completed = input.completed === true;
+    if (input.date !== undefined) {
+      if (typeof input.date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(input.date)) throw new Error('"date" must be yyyy-MM-dd');
+      fields.date = input.date;
+    }
+    if (input.priority !== undefined) {
+      if (!['low', 'medium', 'high'].includes(input.priority as string)) throw new Error('"priority" must be low, medium or high');
+      fields.priority = input.priority as TaskItem['priority'];
+    }
+    if (input.dueAt !== undefined) fields.dueAt = this.date(input.dueAt, 'dueAt').toISOString();
+    if (input.tags !== undefined) {
+      fields.tags = (Array.isArray(input.tags) ? input.tags : []).map(tag => this.text(tag, 40)).filter((tag): tag is string => !!tag);
+    }
+    return fields;
+  }
+
+  private sticker(value: unknown, fallbackId: string): PluginSticker | null {
+    const raw = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+    const content = this.text(raw.content, 16);
+    const imageUrl = typeof raw.imageUrl === 'string' && /^https?:\/\//.test(raw.imageUrl) ? raw.imageUrl : undefined;
+    if (!content && !imageUrl) return null;
+    return { id: this.text(raw.id, 64) || fallbackId, label: this.text(raw.label, 40), content: imageUrl ? undefined : content, imageUrl };
+  }
+
+  private text(value: unknown, maxLength: number): string | undefined {
+    return typeof value === 'string' && value.trim() ? value.trim().slice(0, maxLength) : undefined;
+  }
+
+  private date(value: unknown, field: string): Date {
+    const date = typeof value === 'string' || typeof value === 'number' || value instanceof Date ? new Date(value) : null;
+    if (!date || isNaN(date.getTime())) throw new Error(`"${field}" must be a date`);
+    return date;
+  }
+
+  private readInstalled(): { manifest: PluginManifest; enabled: boolean }[] {
+    try {
+      const saved = JSON.parse(localStorage.getItem(INSTALLED_KEY) || '[]');
+      return Array.isArray(saved) ? saved : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private saveInstalled(): void {
+    const installed = this.getPlugins()
+      .filter(plugin => plugin.manifest && this.installed.has(plugin.id))
+      .map(plugin => ({ manifest: plugin.manifest, enabled: plugin.enabled }));
+    try {
+      localStorage.setItem(INSTALLED_KEY, JSON.stringify(installed));
+    } catch (error) {
+      console.error('Failed to save installed plugins:', error);
+    }
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
 }
 
 // Export a singleton instance
 export const pluginManager = PluginManager.getInstance();
 
-// Example plugin hooks that can be used in the application
+// Hooks the app fires. Every layer mutation has one; task:completed and the
+// sticker hooks narrow them down and are fired alongside.
 export const PLUGIN_HOOKS = {
   CALENDAR_EVENT_CREATED: 'calendar:event:created',
   CALENDAR_EVENT_UPDATED: 'calendar:event:updated',
   CALENDAR_EVENT_DELETED: 'calendar:event:deleted',
   TASK_CREATED: 'task:created',
+  TASK_UPDATED: 'task:updated',
   TASK_COMPLETED: 'task:completed',
+  TASK_DELETED: 'task:deleted',
+  DECORATION_ADDED: 'decoration:added',
+  DECORATION_UPDATED: 'decoration:updated',
+  DECORATION_DELETED: 'decoration:deleted',
   STICKER_ADDED: 'sticker:added',
   STICKER_MOVED: 'sticker:moved',
+  STROKE_ADDED: 'handwriting:stroke:added',
+  STROKE_DELETED: 'handwriting:stroke:deleted',
   USER_LOGIN: 'user:login',
   USER_LOGOUT: 'user:logout'
-};
\ No newline at end of file
+} as const;
+
+// What each plugin API call needs; null for calls every plugin may make
+export const PLUGIN_API_PERMISSIONS: Record<PluginApiMethod, Permission | null> = {
+  'events.list': 'calendar:view',
+  'events.create': 'calendar:create',
+  'events.update': 'calendar:edit',
+  'events.delete': 'calendar:delete',
+  'tasks.list': 'tasks:view',
+  'tasks.create': 'tasks:create',
+  'tasks.update': 'tasks:edit',
+  'tasks.delete': 'tasks:delete',
+  'stickers.list': 'stickers:view',
+  'stickers.place': 'stickers:create',
+  'notifications.show': null,
+  'hooks.subscribe': null // Checked per hook
+};
+
+// Hooks sandboxed plugins may listen to, and what seeing the payload needs
+export const PLUGIN_HOOK_PERMISSIONS: Partial<Record<PluginHook, Permission>> = {
+  [PLUGIN_HOOKS.CALENDAR_EVENT_CREATED]: 'calendar:view',
+  [PLUGIN_HOOKS.CALENDAR_EVENT_UPDATED]: 'calendar:view',
+  [PLUGIN_HOOKS.CALENDAR_EVENT_DELETED]: 'calendar:view',
+  [PLUGIN_HOOKS.TASK_CREATED]: 'tasks:view',
+  [PLUGIN_HOOKS.TASK_UPDATED]: 'tasks:view',
+  [PLUGIN_HOOKS.TASK_COMPLETED]: 'tasks:view',
+  [PLUGIN_HOOKS.TASK_DELETED]: 'tasks:view',
+  [PLUGIN_HOOKS.DECORATION_ADDED]: 'stickers:view',
+  [PLUGIN_HOOKS.DECORATION_UPDATED]: 'stickers:view',
+  [PLUGIN_HOOKS.DECORATION_DELETED]: 'stickers:view',
+  [PLUGIN_HOOKS.STICKER_ADDED]: 'stickers:view',
+  [PLUGIN_HOOKS.STICKER_MOVED]: 'stickers:view'
+};
+
+// Before-hooks a manifest's rules may check, and what vetoing those changes needs
+export const PLUGIN_RULE_PERMISSIONS: Partial<Record<PluginBeforeHook, Permission>> = {
+  [PLUGIN_HOOKS.CALENDAR_EVENT_CREATED]: 'calendar:edit',
+  [PLUGIN_HOOKS.CALENDAR_EVENT_UPDATED]: 'calendar:edit',
+  [PLUGIN_HOOKS.CALENDAR_EVENT_DELETED]: 'calendar:edit',
+  [PLUGIN_HOOKS.TASK_CREATED]: 'tasks:edit',
+  [PLUGIN_HOOKS.TASK_UPDATED]: 'tasks:edit',
+  [PLUGIN_HOOKS.TASK_DELETED]: 'tasks:edit'
+};
+
+// Permissions a manifest may declare: the ones some call or hook checks
+export const PLUGIN_PERMISSIONS: Permission[] = Array.from(new Set([
+  ...Object.values(PLUGIN_API_PERMISSIONS),
+  ...Object.values(PLUGIN_HOOK_PERMISSIONS)
+].filter((permission): permission is Permission => !!permission)));
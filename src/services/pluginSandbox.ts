@@ -0,0 +1,305 @@
+import type { Permission } from './rbac';
+
+export interface PluginManifest {
+  id: string;
+  name: string;
+  version: string;
+  description?: string;
+  author?: string;
+  main?: string; // ES module URL
+  code?: string; // Bundled module source, loaded instead of main
+  permissions: Permission[];
+  rules?: PluginRule[]; // Checked before local changes; see PluginManager
+}
+
+// A check a plugin declares for a before-hook. The worker can't answer while a
+// store action waits, so the host evaluates rules itself and can only veto.
+export interface PluginRule {
+  hook: string; // The before-hook, e.g. 'calendar:event:created'
+  when: PluginRuleCondition[]; // The change is vetoed when all of them hold
+  veto: string; // Why, shown to the user
+}
+
+// Tests on one field of the entity as it would be after the change; all given must pass
+export interface PluginRuleCondition {
+  field: string; // Dotted path, e.g. 'startTime' or 'recurrence.freq'
+  equals?: string | number | boolean;
+  oneOf?: Array<string | number | boolean>;
+  contains?: string; // Case-insensitive, for text
+  weekday?: number[]; // For dates, in local time: 0 is Sunday
+  hours?: [number, number]; // For dates, in local time: from (inclusive) to (exclusive)
+}
+
+export type PluginApiMethod =
+  | 'events.list'
+  | 'events.create'
+  | 'events.update'
+  | 'events.delete'
+  | 'tasks.list'
+  | 'tasks.create'
+  | 'tasks.update'
+  | 'tasks.delete'
+  | 'stickers.list'
+  | 'stickers.place'
+  | 'notifications.show'
+  | 'hooks.subscribe';
+
+export type ContributionKind = 'command' | 'view' | 'stickerPack';
+
+export type InvokeKind = 'activate' | 'deactivate' | 'command' | 'view' | 'hook';
+
+// Host to worker
+export type HostMessage =
+  | { type: 'invoke'; id: number; kind: InvokeKind; target?: string; payload?: unknown }
+  | { type: 'response'; id: number; result?: unknown; error?: string };
+
+// Worker to host
+export type WorkerMessage =
+  | { type: 'result'; id: number; result?: unknown; error?: string }
+  | { type: 'call'; id: number; method: PluginApiMethod; args: unknown[] }
+  | { type: 'contribute'; kind: ContributionKind; contribution: unknown };
+
+export interface SandboxHost {
+  call: (method: PluginApiMethod, args: unknown[]) => unknown;
+  contribute: (kind: ContributionKind, contribution: unknown) => void;
+  crash: (reason: string) => void; // The sandbox has already been torn down
+}
+
+const ACTIVATE_TIMEOUT_MS = 10 * 1000;
+const INVOKE_TIMEOUT_MS = 5 * 1000;
+const DEACTIVATE_TIMEOUT_MS = 1000;
+const MAX_CALLS_PER_SECOND = 50;
+
+// Sandbox frame to host, alongside the worker's own messages
+type FrameMessage =
+  | { type: 'ready'; url: string } // Where the frame put the plugin module
+  | { type: 'crash'; reason: string };
+
+// The frame's only job is to own the worker, so the worker inherits the frame's
+// opaque origin, and to relay messages between it and the host's port
+const FRAME_HTML = `<!DOCTYPE html><script>
+addEventListener('message', (event) => {
+  if (event.source !== parent || !event.data || event.data.type !== 'start') return;
+  const { source, code, name } = event.data;
+  const port = event.ports[0];
+  const toUrl = (text) => URL.createObjectURL(new Blob([text], { type: 'text/javascript' }));
+  const crash = (reason) => port.postMessage({ type: 'crash', reason });
+  const worker = new Worker(toUrl(source), { type: 'module', name });
+  worker.onmessage = (message) => port.postMessage(message.data);
+  worker.onerror = (error) => {
+    error.preventDefault();
+    crash('Uncaught error: ' + (error.message || 'unknown error'));
+  };
+  worker.onmessageerror = () => crash('Sent a message that could not be read');
+  port.onmessage = (message) => worker.postMessage(message.data);
+  port.postMessage({ type: 'ready', url: toUrl(code) });
+});
+</script>`;
+
+interface PendingInvoke {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Plugin Sandbox
+ * Runs one third-party plugin in a dedicated module Web Worker, started from a
+ * hidden sandbox="allow-scripts" frame so that it has an opaque origin: no
+ * access to the app's storage, cookies or same-origin requests. The plugin
+ * has no DOM or store access either: everything goes through messages, and
+ * the host decides what each call may do. A plugin that throws, hangs or
+ * floods the host is terminated without taking the app down.
+ */
+export class PluginSandbox {
+  private static workerSource: Promise<string> | null = null;
+  private manifest: PluginManifest;
+  private host: SandboxHost;
+  private frame: HTMLIFrameElement | null = null;
+  private port: MessagePort | null = null;
+  private onReady: ((url: string) => void) | null = null;
+  private pending: Map<number, PendingInvoke> = new Map();
+  private nextId = 1;
+  private recentCalls: number[] = [];
+
+  constructor(manifest: PluginManifest, host: SandboxHost) {
+    this.manifest = manifest;
+    this.host = host;
+  }
+
+  get running(): boolean {
+    return this.port !== null;
+  }
+
+  /**
+   * Start the worker and run the plugin's activate(). Rejects, with the
+   * sandbox torn down, if the module fails to load or activate throws.
+   */
+  async start(): Promise<void> {
+    if (this.port) return;
+
+    // Both sources are read here; the frame's origin cannot fetch from the app's
+    const { code, ...manifest } = this.manifest;
+    const [source, module] = await Promise.all([
+      PluginSandbox.loadWorkerSource(),
+      code ?? PluginSandbox.fetchModule(manifest.main!)
+    ]);
+    if (this.port) return;
+
+    const channel = new MessageChannel();
+    const frame = document.createElement('iframe');
+    this.port = channel.port1;
+    this.frame = frame;
+    this.port.onmessage = (event: MessageEvent<WorkerMessage | FrameMessage>) => this.receive(event.data);
+    this.port.onmessageerror = () => this.fail('Sent a message that could not be read');
+
+    frame.setAttribute('sandbox', 'allow-scripts');
+    frame.style.display = 'none';
+    frame.srcdoc = FRAME_HTML;
+    frame.onload = () => frame.contentWindow?.postMessage(
+      { type: 'start', source, code: module, name: `plugin:${this.manifest.id}` },
+      '*', // An opaque origin can't be named
+      [channel.port2]
+    );
+
+    try {
+      const url = await new Promise<string>((resolve, reject) => {
+        const timer = setTimeout(() => reject(new Error('Sandbox did not start')), ACTIVATE_TIMEOUT_MS);
+        this.onReady = (url) => {
+          clearTimeout(timer);
+          resolve(url);
+        };
+        document.body.appendChild(frame);
+      });
+      await this.invoke('activate', undefined, { url, manifest }, ACTIVATE_TIMEOUT_MS);
+    } catch (error) {
+      this.terminate(error instanceof Error ? error.message : String(error));
+      throw error;
+    }
+  }
+
+  /**
+   * Give the plugin a moment to run deactivate(), then end the worker
+   */
+  async stop(): Promise<void> {
+    if (!this.port) return;
+    try {
+      await this.invoke('deactivate', undefined, undefined, DEACTIVATE_TIMEOUT_MS);
+    } catch {
+      // Stopping anyway
+    }
+    this.terminate('Plugin was stopped');
+  }
+
+  /**
+   * Ask the plugin to run a command, render a view or handle a hook. A
+   * plugin that doesn't answer in time is treated as hung and terminated.
+   */
+  invoke(kind: InvokeKind, target?: string, payload?: unknown, timeoutMs: number = INVOKE_TIMEOUT_MS): Promise<unknown> {
+    const port = this.port;
+    if (!port) return Promise.reject(new Error(`${this.manifest.name} is not running`));
+
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.fail(`Stopped responding (no answer to ${kind}${target ? ` "${target}"` : ''} within ${timeoutMs / 1000}s)`);
+      }, timeoutMs);
+      this.pending.set(id, { resolve, reject, timer });
+      try {
+        port.postMessage({ type: 'invoke', id, kind, target, payload } satisfies HostMessage);
+      } catch (error) {
+        clearTimeout(timer);
+        this.pending.delete(id);
+        reject(error instanceof Error ? error : new Error(String(error)));
+      }
+    });
+  }
+
+  /**
+   * The worker bootstrap shipped as-is in public/, fetched once
+   */
+  private static loadWorkerSource(): Promise<string> {
+    if (!this.workerSource) {
+      this.workerSource = this.fetchModule(`${import.meta.env.BASE_URL}plugin-worker.js`).catch(error => {
+        this.workerSource = null;
+        throw error;
+      });
+    }
+    return this.workerSource;
+  }
+
+  private static async fetchModule(url: string): Promise<string> {
+    const response = await fetch(url, { credentials: 'omit' });
+    if (!response.ok) throw new Error(`Could not load ${url} (HTTP ${response.status})`);
+    return response.text();
+  }
+
+  private async receive(message: WorkerMessage | FrameMessage): Promise<void> {
+    if (!message || typeof message !== 'object') return;
+
+    switch (message.type) {
+      case 'ready':
+        this.onReady?.(message.url);
+        this.onReady = null;
+        return;
+      case 'crash':
+        this.fail(message.reason);
+        return;
+      case 'result': {
+        const pending = this.pending.get(message.id);
+        if (!pending) return;
+        clearTimeout(pending.timer);
+        this.pending.delete(message.id);
+        if (message.error !== undefined) pending.reject(new Error(String(message.error)));
+        else pending.resolve(message.result);
+        return;
+      }
+      case 'contribute':
+        this.host.contribute(message.kind, message.contribution);
+        return;
+      case 'call': {
+        const now = Date.now();
+        this.recentCalls = this.recentCalls.filter(time => now - time < 1000);
+        this.recentCalls.push(now);
+
+        let response: HostMessage;
+        if (this.recentCalls.length > MAX_CALLS_PER_SECOND) {
+          response = { type: 'response', id: message.id, error: `Too many calls; the limit is ${MAX_CALLS_PER_SECOND} a second` };
+        } else {
+          try {
+            response = { type: 'response', id: message.id, result: await this.host.call(message.method, Array.isArray(message.args) ? message.args : []) };
+          } catch (error) {
+            response = { type: 'response', id: message.id, error: error instanceof Error ? error.message : String(error) };
+          }
+        }
+        try {
+          this.port?.postMessage(response);
+        } catch (error) {
+          this.port?.postMessage({ type: 'response', id: message.id, error: `Result could not be sent: ${error}` } satisfies HostMessage);
+        }
+        return;
+      }
+    }
+  }
+
+  private fail(reason: string): void {
+    if (!this.port) return;
+    this.terminate(reason);
+    this.host.crash(reason);
+  }
+
+  private terminate(reason: string): void {
+    // Removing the frame ends the worker it owns
+    this.port?.close();
+    this.port = null;
+    this.frame?.remove();
+    this.frame = null;
+    this.onReady = null;
+    this.pending.forEach(({ reject, timer }) => {
+      clearTimeout(timer);
+      reject(new Error(reason));
+    });
+    this.pending.clear();
+    this.recentCalls = [];
+  }
+}
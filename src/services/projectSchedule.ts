@@ -0,0 +1,188 @@
+import { EventDependency, ProjectBaseline } from '../types';
+
+export interface ScheduledItem {
+  id: string;
+  startTime: Date;
+  endTime: Date;
+  dependencies?: EventDependency[];
+}
+
+export interface ScheduleChange {
+  startTime: Date;
+  endTime: Date;
+}
+
+const MINUTE = 60 * 1000;
+
+/**
+ * Project Schedule
+ * Critical-path analysis and dependency-driven rescheduling for Gantt bars
+ */
+export class ProjectSchedule {
+  /**
+   * Minimum gap from the predecessor's start to the successor's start that a
+   * link requires. Every link type reduces to this one number.
+   */
+  static startOffset(dependency: EventDependency, predecessor: ScheduledItem, successor: ScheduledItem): number {
+    const fromFinish = dependency.type === 'FS' || dependency.type === 'FF';
+    const toFinish = dependency.type === 'FF' || dependency.type === 'SF';
+    return (fromFinish ? this.duration(predecessor) : 0) +
+      (dependency.lagMinutes || 0) * MINUTE -
+      (toFinish ? this.duration(successor) : 0);
+  }
+  
+  /**
+   * Earliest start the successor's links allow, or null when it has none
+   */
+  static earliestStart(item: ScheduledItem, byId: Map<string, ScheduledItem>): number | null {
+    let earliest: number | null = null;
+    (item.dependencies || []).forEach(dependency => {
+      const predecessor = byId.get(dependency.predecessorId);
+      if (!predecessor) return;
+      const bound = predecessor.startTime.getTime() + this.startOffset(dependency, predecessor, item);
+      earliest = earliest === null ? bound : Math.max(earliest, bound);
+    });
+    return earliest;
+  }
+  
+  /**
+   * Items ordered so every predecessor comes before its successors. Links
+   * to missing items are ignored; items caught in a cycle are left out.
+   */
+  static topologicalOrder<T extends ScheduledItem>(items: T[]): T[] {
+    const byId = new Map(items.map(item => [item.id, item]));
+    const successors = this.successors(items);
+    const waiting = new Map(items.map(item => [
+      item.id,
+      (item.dependencies || []).filter(dependency => byId.has(dependency.predecessorId)).length
+    ]));
+    const ready = items.filter(item => waiting.get(item.id) === 0);
+    const order: T[] = [];
+    
+    while (ready.length > 0) {
+      const item = ready.shift()!;
+      order.push(item);
+      (successors.get(item.id) || []).forEach(id => {
+        const remaining = waiting.get(id)! - 1;
+        waiting.set(id, remaining);
+        if (remaining === 0) ready.push(byId.get(id)!);
+      });
+    }
+    
+    return order;
+  }
+  
+  /**
+   * Whether linking `predecessorId` before `successorId` would close a loop
+   */
+  static wouldCreateCycle(items: ScheduledItem[], successorId: string, predecessorId: string): boolean {
+    if (successorId === predecessorId) return true;
+    const successors = this.successors(items);
+    
+    // The link is cyclic when the predecessor already follows the successor
+    const stack = [successorId];
+    const seen = new Set<string>();
+    while (stack.length > 0) {
+      const id = stack.pop()!;
+      if (id === predecessorId) return true;
+      if (seen.has(id)) continue;
+      seen.add(id);
+      stack.push(...(successors.get(id) || []));
+    }
+    return false;
+  }
+  
+  /**
+   * Ids of items with no total float: moving any of them later delays the
+   * project's finish. The scheduled times act as the early schedule and the
+   * latest finish of all items as the project deadline.
+   */
+  static criticalPath(items: ScheduledItem[]): Set<string> {
+    const critical = new Set<string>();
+    if (items.length === 0) return critical;
+    
+    const byId = new Map(items.map(item => [item.id, item]));
+    const projectEnd = Math.max(...items.map(item => item.endTime.getTime()));
+    const latestStart = new Map<string, number>();
+    
+    // Backward pass: each item may start no later than its successors allow
+    const order = this.topologicalOrder(items);
+    for (let i = order.length - 1; i >= 0; i--) {
+      latestStart.set(order[i].id, projectEnd - this.duration(order[i]));
+    }
+    for (let i = order.length - 1; i >= 0; i--) {
+      const successor = order[i];
+      (successor.dependencies || []).forEach(dependency => {
+        const predecessor = byId.get(dependency.predecessorId);
+        if (!predecessor || !latestStart.has(predecessor.id)) return;
+        const bound = latestStart.get(successor.id)! - this.startOffset(dependency, predecessor, successor);
+        latestStart.set(predecessor.id, Math.min(latestStart.get(predecessor.id)!, bound));
+      });
+    }
+    
+    latestStart.forEach((latest, id) => {
+      if (latest - byId.get(id)!.startTime.getTime() < MINUTE) critical.add(id);
+    });
+    return critical;
+  }
+  
+  /**
+   * New times for an item moved to `startTime` and for every successor that
+   * has to follow. A successor that sat hard against its links moves with them,
+   * in either direction; one with slack only moves when a link would be broken.
+   */
+  static reschedule(items: ScheduledItem[], movedId: string, startTime: Date): Map<string, ScheduleChange> {
+    const changes = new Map<string, ScheduleChange>();
+    const moved = items.find(item => item.id === movedId);
+    if (!moved) return changes;
+    
+    const before = new Map(items.map(item => [item.id, item]));
+    const after = new Map(before);
+    const place = (item: ScheduledItem, start: number) => {
+      const change = { startTime: new Date(start), endTime: new Date(start + this.duration(item)) };
+      after.set(item.id, { ...item, ...change });
+      changes.set(item.id, change);
+    };
+    place(moved, startTime.getTime());
+    
+    this.topologicalOrder(items).forEach(item => {
+      if (item.id === movedId) return;
+      if (!(item.dependencies || []).some(dependency => changes.has(dependency.predecessorId))) return;
+      
+      const start = item.startTime.getTime();
+      const wasEarliest = this.earliestStart(item, before);
+      const earliest = this.earliestStart(item, after)!;
+      const tight = wasEarliest !== null && Math.abs(start - wasEarliest) < MINUTE;
+      const next = tight ? earliest : Math.max(start, earliest);
+      if (next !== start) place(item, next);
+    });
+    
+    return changes;
+  }
+  
+  static snapshot(items: ScheduledItem[]): ProjectBaseline {
+    const bars: ProjectBaseline['bars'] = {};
+    items.forEach(item => {
+      bars[item.id] = { startTime: new Date(item.startTime), endTime: new Date(item.endTime) };
+    });
+    return { takenAt: Date.now(), bars };
+  }
+  
+  private static duration(item: ScheduledItem): number {
+    return item.endTime.getTime() - item.startTime.getTime();
+  }
+  
+  private static successors(items: ScheduledItem[]): Map<string, string[]> {
+    const ids = new Set(items.map(item => item.id));
+    const successors = new Map<string, string[]>();
+    items.forEach(item => {
+      (item.dependencies || []).forEach(({ predecessorId }) => {
+        if (!ids.has(predecessorId)) return;
+        successors.set(predecessorId, [...(successors.get(predecessorId) || []), item.id]);
+      });
+    });
+    return successors;
+  }
+}
+
+export default ProjectSchedule;
@@ -34,7 +34,8 @@ export type Role =
   | 'manager'
   | 'member'
   | 'viewer'
-  | 'guest';
+  | 'guest'
+  | 'plugin'; // Sandboxed plugins; granted exactly what their manifest declares
 
 export interface User {
   id: string;
@@ -105,13 +106,17 @@ export class RBAC {
       'calendar:view',
       'tasks:view'
     ]);
+
+    // Plugin - Nothing until granted per manifest
+    this.roles.set('plugin', []);
   }
 
   /**
    * Add a new user
    */
   addUser(user: Omit<User, 'permissions'>): User {
-    const permissions = this.roles.get(user.role) || [];
+    // Copied so grants to one user don't leak into the role
+    const permissions = [...(this.roles.get(user.role) || [])];
     const newUser: User = { ...user, permissions };
     this.users.set(user.id, newUser);
     console.log(`User added: ${user.name} (${user.role})`);
@@ -139,7 +144,7 @@ export class RBAC {
       return false;
     }
 
-    const permissions = this.roles.get(newRole) || [];
+    const permissions = [...(this.roles.get(newRole) || [])];
     user.role = newRole;
     user.permissions = permissions;
     
@@ -1,10 +1,29 @@
 import { io, Socket } from 'socket.io-client';
 import { SyncOperation } from '../types';
 
+const ACK_TIMEOUT = 10000;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+export interface CollaboratorPresence {
+  userId: string;
+  username: string;
+}
+
+export interface CursorUpdate extends CollaboratorPresence {
+  x: number;
+  y: number;
+}
+
 export class RealtimeSyncService {
   private socket: Socket | null = null;
   private token: string;
   private url: string;
+  private calendar: { calendarId: string; username: string } | null = null;
+  private lastSeq: Map<string, number> = new Map(); // Server log position per calendar
+  private hasConnected = false;
+  private collaborators: Map<string, CollaboratorPresence> = new Map();
+  private presenceListeners: Set<(users: CollaboratorPresence[]) => void> = new Set();
+  private cursorListeners: Set<(cursor: CursorUpdate) => void> = new Set();
   
   constructor(url: string, token: string) {
     this.url = url;
@@ -19,38 +38,91 @@ export class RealtimeSyncService {
       }
     });
     
-    // Handle incoming operations
-    this.socket.on('operations', (operations: SyncOperation[]) => {
-      callback(operations);
+    // Rejoin after a dropped connection so the server replays what was missed
+    this.socket.on('connect', () => {
+      if (this.hasConnected && this.calendar) {
+        this.joinCalendar(this.calendar.calendarId, this.calendar.username);
+      }
+      this.hasConnected = true;
+    });
+    
+    // Handle incoming operations; dates arrive as ISO strings over the wire
+    this.socket.on('operations', (operations: SyncOperation[], meta?: { calendarId: string; seq: number }) => {
+      if (meta) this.lastSeq.set(meta.calendarId, meta.seq);
+      if (operations.length === 0) return;
+      callback(operations.map((op) => op.layer === 'events' && op.data ? { ...op, data: this.reviveEventDates(op.data) } : op));
     });
     
     // Handle user cursor updates
-    this.socket.on('cursorUpdate', (data: { userId: string; x: number; y: number; username: string }) => {
-      // This would update UI to show other users' cursors
-      console.log('Cursor update from', data.username, 'at', data.x, data.y);
+    this.socket.on('cursorUpdate', (data: CursorUpdate) => {
+      this.cursorListeners.forEach((listener) => listener(data));
     });
     
     // Handle user presence updates
-    this.socket.on('userJoined', (data: { userId: string; username: string }) => {
-      console.log('User joined:', data.username);
+    this.socket.on('presence', (data: { calendarId: string; users: CollaboratorPresence[] }) => {
+      this.collaborators = new Map(data.users.map((user) => [user.userId, user]));
+      this.notifyPresenceListeners();
     });
     
-    this.socket.on('userLeft', (data: { userId: string; username: string }) => {
-      console.log('User left:', data.username);
+    this.socket.on('userJoined', (data: CollaboratorPresence) => {
+      this.collaborators.set(data.userId, data);
+      this.notifyPresenceListeners();
     });
+    
+    this.socket.on('userLeft', (data: CollaboratorPresence) => {
+      this.collaborators.delete(data.userId);
+      this.notifyPresenceListeners();
+    });
+  }
+  
+  onPresenceChange(listener: (users: CollaboratorPresence[]) => void): () => void {
+    this.presenceListeners.add(listener);
+    return () => this.presenceListeners.delete(listener);
+  }
+  
+  onCursorUpdate(listener: (cursor: CursorUpdate) => void): () => void {
+    this.cursorListeners.add(listener);
+    return () => this.cursorListeners.delete(listener);
+  }
+  
+  getCollaborators(): CollaboratorPresence[] {
+    return Array.from(this.collaborators.values());
+  }
+  
+  private notifyPresenceListeners() {
+    const users = this.getCollaborators();
+    this.presenceListeners.forEach((listener) => listener(users));
   }
   
   disconnect() {
     if (this.socket) {
       this.socket.disconnect();
       this.socket = null;
+      this.hasConnected = false;
     }
   }
   
-  sendOperations(operations: SyncOperation[]) {
-    if (this.socket) {
-      this.socket.emit('operations', operations);
-    }
+  /**
+   * Send operations and resolve with the server log position once they are
+   * acknowledged. Rejects when offline, on timeout, or if the server refuses them.
+   */
+  sendOperations(operations: SyncOperation[], timeout: number = ACK_TIMEOUT): Promise<number> {
+    return new Promise((resolve, reject) => {
+      if (!this.socket?.connected) {
+        reject(new Error('Not connected to the sync server'));
+        return;
+      }
+      
+      this.socket.timeout(timeout).emit('operations', operations, (err: Error | null, response?: { seq?: number; error?: string }) => {
+        if (err) {
+          reject(new Error('Timed out waiting for the sync server'));
+        } else if (!response || response.error) {
+          reject(new Error(response?.error || 'Sync server rejected the operations'));
+        } else {
+          resolve(response.seq ?? 0);
+        }
+      });
+    });
   }
   
   sendCursorUpdate(x: number, y: number, username: string) {
@@ -59,13 +131,46 @@ export class RealtimeSyncService {
     }
   }
   
+  // Only the fields typed as Date; strings that merely look like dates, such
+  // as override recurrenceIds and task dueAt, stay strings
+  private reviveEventDates(data: Record<string, any>): Record<string, any> {
+    const revived = { ...data };
+    (['startTime', 'endTime'] as const).forEach((field) => {
+      if (typeof revived[field] === 'string') revived[field] = this.reviveDate(revived[field]);
+    });
+    if (revived.recurrence) {
+      const { until, exDates } = revived.recurrence;
+      revived.recurrence = {
+        ...revived.recurrence,
+        ...(until !== undefined && { until: this.reviveDate(until) }),
+        ...(Array.isArray(exDates) && { exDates: exDates.map((date: unknown) => this.reviveDate(date)) })
+      };
+    }
+    if (Array.isArray(revived.recurrenceOverrides)) {
+      revived.recurrenceOverrides = revived.recurrenceOverrides.map((override: Record<string, any>) =>
+        override?.changes ? { ...override, changes: this.reviveEventDates(override.changes) } : override
+      );
+    }
+    return revived;
+  }
+  
+  private reviveDate(value: unknown): unknown {
+    return typeof value === 'string' && ISO_DATE.test(value) ? new Date(value) : value;
+  }
+  
   joinCalendar(calendarId: string, username: string) {
+    this.calendar = { calendarId, username };
     if (this.socket) {
-      this.socket.emit('joinCalendar', { calendarId, username });
+      this.socket.emit('joinCalendar', { calendarId, username, lastSeq: this.lastSeq.get(calendarId) || 0 });
     }
   }
   
   leaveCalendar(calendarId: string) {
+    if (this.calendar?.calendarId === calendarId) {
+      this.calendar = null;
+      this.collaborators.clear();
+      this.notifyPresenceListeners();
+    }
     if (this.socket) {
       this.socket.emit('leaveCalendar', { calendarId });
     }
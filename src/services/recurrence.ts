@@ -0,0 +1,366 @@
+import { ByDay, CalendarEvent, EventOccurrence, EventOverride, RecurrenceRule, Weekday } from '../types';
+import { TimeZoneService } from './timeZone';
+
+const WEEKDAYS: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// Upper bound on generated periods so a malformed rule can never hang the UI
+const MAX_ITERATIONS = 10000;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Recurrence Engine
+ * Expands RFC 5545 recurrence rules into concrete event occurrences
+ */
+export class RecurrenceEngine {
+  /**
+   * Expand every event into the occurrences that overlap [rangeStart, rangeEnd)
+   */
+  static expandAll(
+    events: CalendarEvent[],
+    rangeStart: Date,
+    rangeEnd: Date,
+    overrides: Record<string, EventOverride[]> = {}
+  ): EventOccurrence[] {
+    return events
+      .flatMap(event => this.expand(event, rangeStart, rangeEnd, overrides[event.id] || []))
+      .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+  }
+  
+  /**
+   * Expand a single event, applying per-occurrence overrides
+   */
+  static expand(
+    event: CalendarEvent,
+    rangeStart: Date,
+    rangeEnd: Date,
+    overrides: EventOverride[] = []
+  ): EventOccurrence[] {
+    if (!event.recurrence) {
+      const occurrence: EventOccurrence = {
+        ...event,
+        masterId: event.id,
+        recurrenceId: event.startTime.toISOString(),
+        isOverride: false
+      };
+      return this.overlaps(occurrence, rangeStart, rangeEnd) ? [occurrence] : [];
+    }
+    
+    const duration = event.endTime.getTime() - event.startTime.getTime();
+    const overridesById = new Map(overrides.map(o => [o.recurrenceId, o]));
+    
+    // Overrides may move an occurrence into the range from just outside it
+    const margin = Math.max(duration, 7 * 24 * 60 * 60 * 1000);
+    const starts = this.occurrenceStarts(
+      event.startTime,
+      event.recurrence,
+      new Date(rangeEnd.getTime() + margin),
+      event.timeZone,
+      new Date(rangeStart.getTime() - duration - margin)
+    );
+    
+    const occurrences: EventOccurrence[] = [];
+    for (const start of starts) {
+      if (start.getTime() + duration + margin < rangeStart.getTime()) continue;
+      
+      const recurrenceId = start.toISOString();
+      const override = overridesById.get(recurrenceId);
+      const occurrence: EventOccurrence = {
+        ...event,
+        ...override?.changes,
+        id: `${event.id}::${recurrenceId}`,
+        startTime: override?.changes.startTime || start,
+        endTime: override?.changes.endTime || new Date(start.getTime() + duration),
+        masterId: event.id,
+        recurrenceId,
+        isOverride: !!override
+      };
+      
+      if (this.overlaps(occurrence, rangeStart, rangeEnd)) {
+        occurrences.push(occurrence);
+      }
+    }
+    
+    return occurrences;
+  }
+  
+  /**
+   * Generate occurrence start times from dtstart up to (but excluding) limit.
+   * COUNT is applied before EXDATE removal, as the RFC requires. Periods are
+   * stepped in the wall-clock time of `timeZone`, so a 9:00 meeting stays at
+   * 9:00 there across DST changes. Given `from`, a rule without COUNT starts
+   * at the period containing it, and some starts before it may be included.
+   */
+  static occurrenceStarts(
+    dtstart: Date,
+    rule: RecurrenceRule,
+    limit: Date,
+    timeZone: string = TimeZoneService.getLocalZone(),
+    from?: Date
+  ): Date[] {
+    const interval = Math.max(1, rule.interval || 1);
+    const excluded = new Set((rule.exDates || []).map(d => d.getTime()));
+    const floatingStart = TimeZoneService.toFloating(dtstart, timeZone);
+    const results: Date[] = [];
+    let generated = 0;
+    
+    // COUNT needs every earlier occurrence counted, so only open rules can skip ahead
+    const first = from && rule.count === undefined
+      ? this.stepsBefore(floatingStart, rule.freq, interval, TimeZoneService.toFloating(from, timeZone))
+      : 0;
+    
+    for (let i = first; i < first + MAX_ITERATIONS; i++) {
+      const floatingPeriod = this.periodStart(floatingStart, rule.freq, interval * i);
+      const periodStart = TimeZoneService.fromFloating(floatingPeriod, timeZone);
+      if (periodStart > limit) break;
+      if (rule.until && periodStart > rule.until) break;
+      
+      const candidates = this.candidatesForPeriod(floatingStart, rule, floatingPeriod)
+        .map(candidate => TimeZoneService.fromFloating(candidate, timeZone));
+      let done = false;
+      
+      for (const candidate of candidates) {
+        if (candidate < dtstart) continue;
+        if (rule.until && candidate > rule.until) {
+          done = true;
+          break;
+        }
+        if (rule.count !== undefined && generated >= rule.count) {
+          done = true;
+          break;
+        }
+        if (candidate >= limit) {
+          done = true;
+          break;
+        }
+        
+        generated++;
+        if (!excluded.has(candidate.getTime())) {
+          results.push(candidate);
+        }
+      }
+      
+      if (done) break;
+    }
+    
+    return results;
+  }
+  
+  /**
+   * Parse an RRULE value such as "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE"
+   */
+  static parseRRule(value: string): RecurrenceRule | null {
+    const parts = value.replace(/^RRULE:/i, '').split(';');
+    const rule: Partial<RecurrenceRule> = {};
+    
+    for (const part of parts) {
+      const [key, raw] = part.split('=');
+      if (!key || raw === undefined) continue;
+      
+      switch (key.toUpperCase()) {
+        case 'FREQ':
+          if (['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(raw.toUpperCase())) {
+            rule.freq = raw.toUpperCase() as RecurrenceRule['freq'];
+          }
+          break;
+        case 'INTERVAL':
+          rule.interval = parseInt(raw, 10);
+          break;
+        case 'COUNT':
+          rule.count = parseInt(raw, 10);
+          break;
+        case 'UNTIL':
+          rule.until = this.parseRRuleDate(raw) || undefined;
+          break;
+        case 'BYDAY':
+          rule.byDay = raw.split(',').filter(d => this.parseByDay(d as ByDay)) as ByDay[];
+          break;
+        case 'BYMONTHDAY':
+          rule.byMonthDay = raw.split(',').map(d => parseInt(d, 10)).filter(d => !isNaN(d));
+          break;
+        case 'BYMONTH':
+          rule.byMonth = raw.split(',').map(d => parseInt(d, 10)).filter(d => !isNaN(d));
+          break;
+      }
+    }
+    
+    return rule.freq ? (rule as RecurrenceRule) : null;
+  }
+  
+  /**
+   * Serialize a rule back to its RRULE value (without the "RRULE:" prefix)
+   */
+  static toRRuleString(rule: RecurrenceRule): string {
+    const parts = [`FREQ=${rule.freq}`];
+    if (rule.interval && rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+    if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+    if (rule.until) parts.push(`UNTIL=${this.formatRRuleDate(rule.until)}`);
+    if (rule.byDay?.length) parts.push(`BYDAY=${rule.byDay.join(',')}`);
+    if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+    if (rule.byMonth?.length) parts.push(`BYMONTH=${rule.byMonth.join(',')}`);
+    return parts.join(';');
+  }
+  
+  /**
+   * Number of occurrences generated strictly before the given start time
+   */
+  static countBefore(dtstart: Date, rule: RecurrenceRule, before: Date, timeZone?: string): number {
+    const withoutExclusions = { ...rule, exDates: [] };
+    return this.occurrenceStarts(dtstart, withoutExclusions, before, timeZone).length;
+  }
+  
+  private static overlaps(event: CalendarEvent, rangeStart: Date, rangeEnd: Date): boolean {
+    const start = event.startTime.getTime();
+    const end = Math.max(event.endTime.getTime(), start + 1);
+    return start < rangeEnd.getTime() && end > rangeStart.getTime();
+  }
+  
+  // Calendar arithmetic below works on floating dates, whose UTC fields hold the wall-clock time
+  
+  // Whole steps of `interval` periods that end before `from`, less one to stay clear of DST edges
+  private static stepsBefore(dtstart: Date, freq: RecurrenceRule['freq'], interval: number, from: Date): number {
+    let periods: number;
+    switch (freq) {
+      case 'DAILY':
+        periods = Math.floor((from.getTime() - dtstart.getTime()) / DAY);
+        break;
+      case 'WEEKLY':
+        periods = Math.floor((from.getTime() - this.periodStart(dtstart, 'WEEKLY', 0).getTime()) / (7 * DAY));
+        break;
+      case 'MONTHLY':
+        periods = (from.getUTCFullYear() - dtstart.getUTCFullYear()) * 12 + from.getUTCMonth() - dtstart.getUTCMonth();
+        break;
+      case 'YEARLY':
+      default:
+        periods = from.getUTCFullYear() - dtstart.getUTCFullYear();
+    }
+    return Math.max(0, Math.floor(periods / interval) - 1);
+  }
+  
+  private static periodStart(dtstart: Date, freq: RecurrenceRule['freq'], steps: number): Date {
+    switch (freq) {
+      case 'DAILY':
+        return new Date(dtstart.getTime() + steps * DAY);
+      case 'WEEKLY': {
+        const weekday = (dtstart.getUTCDay() + 6) % 7; // Weeks start on Monday
+        return this.date(dtstart.getUTCFullYear(), dtstart.getUTCMonth(), dtstart.getUTCDate() - weekday + steps * 7);
+      }
+      case 'MONTHLY':
+        return this.withTimeOf(this.date(dtstart.getUTCFullYear(), dtstart.getUTCMonth() + steps, 1), dtstart);
+      case 'YEARLY':
+      default:
+        return this.withTimeOf(this.date(dtstart.getUTCFullYear() + steps, 0, 1), dtstart);
+    }
+  }
+  
+  private static candidatesForPeriod(dtstart: Date, rule: RecurrenceRule, periodStart: Date): Date[] {
+    const byDay = (rule.byDay || []).map(d => this.parseByDay(d)).filter(Boolean) as Array<{ day: number; ordinal?: number }>;
+    
+    switch (rule.freq) {
+      case 'DAILY': {
+        const day = this.withTimeOf(periodStart, dtstart);
+        if (byDay.length && !byDay.some(d => d.day === day.getUTCDay())) return [];
+        if (rule.byMonth?.length && !rule.byMonth.includes(day.getUTCMonth() + 1)) return [];
+        return [day];
+      }
+      
+      case 'WEEKLY': {
+        const days = byDay.length ? byDay.map(d => d.day) : [dtstart.getUTCDay()];
+        return days
+          .map(day => this.withTimeOf(new Date(periodStart.getTime() + ((day + 6) % 7) * DAY), dtstart))
+          .filter(d => !rule.byMonth?.length || rule.byMonth.includes(d.getUTCMonth() + 1))
+          .sort((a, b) => a.getTime() - b.getTime());
+      }
+      
+      case 'MONTHLY':
+        if (rule.byMonth?.length && !rule.byMonth.includes(periodStart.getUTCMonth() + 1)) return [];
+        return this.candidatesInMonth(dtstart, rule, byDay, periodStart.getUTCFullYear(), periodStart.getUTCMonth());
+        
+      case 'YEARLY':
+      default: {
+        // Without BYMONTH the rule repeats in DTSTART's month
+        const months = rule.byMonth?.length ? rule.byMonth.map(m => m - 1) : [dtstart.getUTCMonth()];
+        return months
+          .sort((a, b) => a - b)
+          .flatMap(month => this.candidatesInMonth(dtstart, rule, byDay, periodStart.getUTCFullYear(), month));
+      }
+    }
+  }
+  
+  private static candidatesInMonth(
+    dtstart: Date,
+    rule: RecurrenceRule,
+    byDay: Array<{ day: number; ordinal?: number }>,
+    year: number,
+    month: number
+  ): Date[] {
+    const daysInMonth = this.date(year, month + 1, 0).getUTCDate();
+    const dates = new Set<number>();
+    
+    if (rule.byMonthDay?.length) {
+      rule.byMonthDay.forEach(d => {
+        const date = d < 0 ? daysInMonth + d + 1 : d;
+        if (date >= 1 && date <= daysInMonth) dates.add(date);
+      });
+    }
+    
+    if (byDay.length) {
+      byDay.forEach(({ day, ordinal }) => {
+        const matches: number[] = [];
+        for (let date = 1; date <= daysInMonth; date++) {
+          if (this.date(year, month, date).getUTCDay() === day) matches.push(date);
+        }
+        if (ordinal === undefined) {
+          matches.forEach(m => dates.add(m));
+        } else {
+          const match = ordinal > 0 ? matches[ordinal - 1] : matches[matches.length + ordinal];
+          if (match !== undefined) dates.add(match);
+        }
+      });
+    }
+    
+    // Months without DTSTART's day (e.g. the 31st) are skipped, per the RFC
+    if (!rule.byMonthDay?.length && !byDay.length && dtstart.getUTCDate() <= daysInMonth) {
+      dates.add(dtstart.getUTCDate());
+    }
+    
+    return Array.from(dates)
+      .sort((a, b) => a - b)
+      .map(date => this.withTimeOf(this.date(year, month, date), dtstart));
+  }
+  
+  private static parseByDay(value: ByDay): { day: number; ordinal?: number } | null {
+    const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/i.exec(value);
+    if (!match) return null;
+    return {
+      day: WEEKDAYS.indexOf(match[2].toUpperCase() as Weekday),
+      ordinal: match[1] ? parseInt(match[1], 10) : undefined
+    };
+  }
+  
+  // Copy the wall-clock time so occurrences keep their hour across DST changes
+  private static withTimeOf(date: Date, time: Date): Date {
+    const result = new Date(date);
+    result.setUTCHours(time.getUTCHours(), time.getUTCMinutes(), time.getUTCSeconds(), time.getUTCMilliseconds());
+    return result;
+  }
+  
+  private static date(year: number, month: number, day: number): Date {
+    return new Date(Date.UTC(year, month, day));
+  }
+  
+  private static parseRRuleDate(value: string): Date | null {
+    const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value);
+    if (!match) return null;
+    const [, y, mo, d, h = '23', mi = '59', s = '59', utc] = match;
+    return utc
+      ? new Date(Date.UTC(+y, +mo - 1, +d, +h, +mi, +s))
+      : new Date(+y, +mo - 1, +d, +h, +mi, +s);
+  }
+  
+  private static formatRRuleDate(date: Date): string {
+    return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  }
+}
+
+export default RecurrenceEngine;
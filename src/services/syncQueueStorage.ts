@@ -0,0 +1,90 @@
+import { SyncOperation } from '../types';
+
+const DB_NAME = 'ArtfulAgendaSyncDB';
+const DB_VERSION = 1;
+const STORE_NAME = 'syncQueue';
+const QUEUE_KEY = 'pending';
+
+/**
+ * Sync Queue Storage
+ * Keeps unsent sync operations in IndexedDB so offline edits survive a reload
+ */
+export class SyncQueueStorage {
+  private static db: Promise<IDBDatabase> | null = null;
+  private static writes: Promise<void> = Promise.resolve();
+  
+  static isAvailable(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+  
+  /**
+   * Read the stored queue. Saves issued after this call wait for it, so a
+   * fresh session cannot overwrite operations it has not loaded yet.
+   */
+  static load(): Promise<SyncOperation[]> {
+    if (!this.isAvailable()) return Promise.resolve([]);
+    
+    const loaded = this.writes.then(async () => {
+      try {
+        const db = await this.open();
+        const request = db.transaction([STORE_NAME], 'readonly').objectStore(STORE_NAME).get(QUEUE_KEY);
+        
+        return await new Promise<SyncOperation[]>((resolve, reject) => {
+          request.onsuccess = () => resolve(request.result?.operations || []);
+          request.onerror = () => reject(request.error);
+        });
+      } catch (error) {
+        console.error('Failed to load sync queue:', error);
+        return [];
+      }
+    });
+    this.writes = loaded.then(() => undefined);
+    return loaded;
+  }
+  
+  /**
+   * Replace the stored queue. Writes are serialized so a slow earlier save
+   * never lands on top of a newer one.
+   */
+  static save(operations: SyncOperation[]): Promise<void> {
+    if (!this.isAvailable()) return Promise.resolve();
+    
+    this.writes = this.writes.then(async () => {
+      try {
+        const db = await this.open();
+        const transaction = db.transaction([STORE_NAME], 'readwrite');
+        transaction.objectStore(STORE_NAME).put({ key: QUEUE_KEY, operations });
+        
+        await new Promise<void>((resolve, reject) => {
+          transaction.oncomplete = () => resolve();
+          transaction.onerror = () => reject(transaction.error);
+        });
+      } catch (error) {
+        console.error('Failed to persist sync queue:', error);
+      }
+    });
+    return this.writes;
+  }
+  
+  private static open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => resolve(request.result);
+        
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+            request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+          }
+        };
+      });
+      // Let the next call retry if opening failed
+      this.db.catch(() => { this.db = null; });
+    }
+    return this.db;
+  }
+}
+
+export default SyncQueueStorage;
@@ -0,0 +1,97 @@
+import { TaskItem } from '../types';
+
+/**
+ * Task Dependencies
+ * The blocked-by graph between tasks: cycle detection and open blockers
+ */
+export class TaskDependencies {
+  /**
+   * Whether giving `taskId` these blockers would let it, directly or through a
+   * chain, wait on itself
+   */
+  static wouldCreateCycle(tasks: TaskItem[], taskId: string, blockedBy: string[]): boolean {
+    const edges = this.edges(tasks);
+    edges.set(taskId, blockedBy);
+    
+    // Walk everything the task would wait on; reaching it again closes a loop
+    const seen = new Set<string>();
+    const stack = [...blockedBy];
+    while (stack.length > 0) {
+      const id = stack.pop()!;
+      if (id === taskId) return true;
+      if (seen.has(id)) continue;
+      seen.add(id);
+      stack.push(...(edges.get(id) || []));
+    }
+    return false;
+  }
+  
+  /**
+   * One cycle in the graph as a list of task ids, or null when it is acyclic
+   */
+  static findCycle(tasks: TaskItem[]): string[] | null {
+    const edges = this.edges(tasks);
+    const state = new Map<string, 'visiting' | 'done'>();
+    const path: string[] = [];
+    
+    const visit = (id: string): string[] | null => {
+      if (state.get(id) === 'done') return null;
+      if (state.get(id) === 'visiting') return path.slice(path.indexOf(id));
+      
+      state.set(id, 'visiting');
+      path.push(id);
+      for (const next of edges.get(id) || []) {
+        const cycle = visit(next);
+        if (cycle) return cycle;
+      }
+      path.pop();
+      state.set(id, 'done');
+      return null;
+    };
+    
+    for (const task of tasks) {
+      const cycle = visit(task.id);
+      if (cycle) return cycle;
+    }
+    return null;
+  }
+  
+  /**
+   * Drop blockers that point at missing tasks or that would close a cycle,
+   * keeping the earliest-listed edges
+   */
+  static sanitize(tasks: TaskItem[]): TaskItem[] {
+    const ids = new Set(tasks.map(task => task.id));
+    const result = tasks.map(task => ({ ...task, blockedBy: undefined as string[] | undefined }));
+    
+    tasks.forEach((task, i) => {
+      const kept: string[] = [];
+      (task.blockedBy || []).forEach(id => {
+        if (!ids.has(id) || kept.includes(id)) return;
+        if (this.wouldCreateCycle(result, task.id, [...kept, id])) return;
+        kept.push(id);
+        result[i].blockedBy = [...kept];
+      });
+    });
+    
+    return result.map(({ blockedBy, ...task }) => blockedBy?.length ? { ...task, blockedBy } : task);
+  }
+  
+  /**
+   * Incomplete tasks this one is still waiting on
+   */
+  static openBlockers(task: TaskItem, tasks: TaskItem[]): TaskItem[] {
+    if (!task.blockedBy?.length) return [];
+    return tasks.filter(other => task.blockedBy!.includes(other.id) && !other.completed);
+  }
+  
+  static isBlocked(task: TaskItem, tasks: TaskItem[]): boolean {
+    return this.openBlockers(task, tasks).length > 0;
+  }
+  
+  private static edges(tasks: TaskItem[]): Map<string, string[]> {
+    return new Map(tasks.map(task => [task.id, task.blockedBy || []]));
+  }
+}
+
+export default TaskDependencies;
@@ -0,0 +1,170 @@
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { TaskItem, TaskRecurrence, RecurrenceRule, Weekday } from '../types';
+import { RecurrenceEngine } from './recurrence';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const UNITS: Record<RecurrenceRule['freq'], string> = {
+  DAILY: 'day',
+  WEEKLY: 'week',
+  MONTHLY: 'month',
+  YEARLY: 'year'
+};
+
+const WEEKDAY_NAMES: Record<string, string> = {
+  SU: 'Sun', MO: 'Mon', TU: 'Tue', WE: 'Wed', TH: 'Thu', FR: 'Fri', SA: 'Sat'
+};
+
+const WEEKDAYS: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+export type RepeatPreset = 'none' | 'daily' | 'weekdays' | 'weekly' | 'monthly' | 'yearly' | 'weekAfterDone';
+
+// Choices offered by the task repeat pickers
+export const REPEAT_PRESETS: Array<{ preset: RepeatPreset; label: string }> = [
+  { preset: 'none', label: 'Does not repeat' },
+  { preset: 'daily', label: 'Every day' },
+  { preset: 'weekdays', label: 'Every weekday' },
+  { preset: 'weekly', label: 'Every week' },
+  { preset: 'monthly', label: 'Every month' },
+  { preset: 'yearly', label: 'Every year' },
+  { preset: 'weekAfterDone', label: '7 days after done' }
+];
+
+/**
+ * Task Recurrence
+ * Works out when the next instance of a recurring task falls due
+ */
+export class TaskRecurrenceService {
+  /**
+   * Date (yyyy-MM-dd) of the instance after this one, or null once the series
+   * has ended. Fixed schedules continue from the instance's own date, so doing
+   * it late doesn't shift them; completion-based ones count from `doneOn`.
+   */
+  static nextDate(task: TaskItem, doneOn: Date = new Date()): string | null {
+    const recurrence = task.recurrence;
+    if (!recurrence) return null;
+    
+    if (recurrence.mode === 'afterCompletion') {
+      return format(addDays(doneOn, Math.max(1, recurrence.days || 1)), 'yyyy-MM-dd');
+    }
+    if (!recurrence.rule) return null;
+    
+    // Dates are expanded as UTC midnights so day steps never meet a DST change
+    const dtstart = this.toUtcDate(recurrence.anchor || task.date);
+    const after = this.toUtcDate(task.date);
+    const limit = new Date(after.getTime() + 10 * 366 * DAY * Math.max(1, recurrence.rule.interval || 1));
+    const next = RecurrenceEngine.occurrenceStarts(dtstart, recurrence.rule, limit, 'UTC').find(start => start > after);
+    
+    return next ? next.toISOString().split('T')[0] : null;
+  }
+  
+  /**
+   * The instance that follows `task` in its series: a copy with a new id and
+   * date, subtasks reopened and no blockers of its own
+   */
+  static nextInstance(task: TaskItem, doneOn: Date = new Date()): TaskItem | null {
+    const date = this.nextDate(task, doneOn);
+    if (!date) return null;
+    
+    const { blockedBy: _blockedBy, ...rest } = task;
+    return {
+      ...rest,
+      id: `task-${Date.now()}`,
+      date,
+      completed: false,
+      ...(task.dueAt && { dueAt: this.shiftDue(task.dueAt, task.date, date) }),
+      subtasks: task.subtasks?.map(subtask => ({ ...subtask, completed: false })),
+      recurrence: { ...task.recurrence!, seriesId: this.seriesId(task) }
+    };
+  }
+  
+  /**
+   * Changes that move an instance on to the next date without completing it,
+   * adding its current date to the series' skipped history
+   */
+  static skip(task: TaskItem, skippedOn: Date = new Date()): Partial<TaskItem> | null {
+    const date = this.nextDate(task, skippedOn);
+    if (!date || !task.recurrence) return null;
+    
+    return {
+      date,
+      ...(task.dueAt && { dueAt: this.shiftDue(task.dueAt, task.date, date) }),
+      recurrence: { ...task.recurrence, skipped: [...(task.recurrence.skipped || []), task.date] }
+    };
+  }
+  
+  /**
+   * Recurrence for a picker choice, scheduled from the task's current date.
+   * The series id and skipped history carry over; 'none' stops the series
+   * with null, which unlike a missing field survives the trip to other clients.
+   */
+  static fromPreset(preset: RepeatPreset, task: TaskItem): TaskRecurrence | null {
+    if (preset === 'none') return null;
+    
+    const { seriesId, skipped } = task.recurrence || {};
+    const kept = { ...(seriesId && { seriesId }), ...(skipped && { skipped }) };
+    if (preset === 'weekAfterDone') return { mode: 'afterCompletion', days: 7, ...kept };
+    
+    const rules: Record<Exclude<RepeatPreset, 'none' | 'weekAfterDone'>, RecurrenceRule> = {
+      daily: { freq: 'DAILY' },
+      weekdays: { freq: 'WEEKLY', byDay: ['MO', 'TU', 'WE', 'TH', 'FR'] },
+      weekly: { freq: 'WEEKLY', byDay: [WEEKDAYS[this.toUtcDate(task.date).getUTCDay()]] },
+      monthly: { freq: 'MONTHLY' },
+      yearly: { freq: 'YEARLY' }
+    };
+    return { mode: 'schedule', rule: rules[preset], anchor: task.date, ...kept };
+  }
+  
+  /**
+   * The picker choice a recurrence matches, or 'custom' for anything else
+   */
+  static presetOf(recurrence: TaskRecurrence | null | undefined): RepeatPreset | 'custom' {
+    if (!recurrence) return 'none';
+    if (recurrence.mode === 'afterCompletion') return recurrence.days === 7 ? 'weekAfterDone' : 'custom';
+    
+    const rule = recurrence.rule;
+    if (!rule || (rule.interval || 1) !== 1 || rule.count || rule.until || rule.byMonthDay || rule.byMonth) return 'custom';
+    
+    const days = (rule.byDay || []).join(',');
+    if (rule.freq === 'DAILY' && !days) return 'daily';
+    if (rule.freq === 'WEEKLY' && days === 'MO,TU,WE,TH,FR') return 'weekdays';
+    if (rule.freq === 'WEEKLY' && /^[A-Z]{2}$/.test(days)) return 'weekly';
+    if (rule.freq === 'MONTHLY' && !days) return 'monthly';
+    if (rule.freq === 'YEARLY' && !days) return 'yearly';
+    return 'custom';
+  }
+  
+  static seriesId(task: TaskItem): string {
+    return task.recurrence?.seriesId || task.id;
+  }
+  
+  /**
+   * Short label such as "Every 2 weeks on Fri" or "3 days after done"
+   */
+  static describe(recurrence: TaskRecurrence): string {
+    if (recurrence.mode === 'afterCompletion') {
+      const days = Math.max(1, recurrence.days || 1);
+      return `${days} day${days === 1 ? '' : 's'} after done`;
+    }
+    
+    const rule = recurrence.rule;
+    if (!rule) return 'Repeats';
+    
+    const interval = Math.max(1, rule.interval || 1);
+    const every = interval === 1 ? `Every ${UNITS[rule.freq]}` : `Every ${interval} ${UNITS[rule.freq]}s`;
+    const days = (rule.byDay || []).map(day => day.replace(/[A-Z]{2}$/, code => ` ${WEEKDAY_NAMES[code]}`).trim());
+    return days.length ? `${every} on ${days.join(', ')}` : every;
+  }
+  
+  // Move the due time along with the date, keeping its time of day
+  private static shiftDue(dueAt: string, from: string, to: string): string {
+    return addDays(parseISO(dueAt), differenceInCalendarDays(parseISO(to), parseISO(from))).toISOString();
+  }
+  
+  private static toUtcDate(date: string): Date {
+    const [year, month, day] = date.split('-').map(Number);
+    return new Date(Date.UTC(year, month - 1, day));
+  }
+}
+
+export default TaskRecurrenceService;
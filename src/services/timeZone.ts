@@ -0,0 +1,199 @@
+/**
+ * Time Zone Service
+ * IANA zone arithmetic on top of Intl.DateTimeFormat: offsets, wall-clock
+ * conversion with RFC 5545 gap/overlap rules, transitions and formatting
+ */
+
+export interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  weekday: number; // 0 = Sunday
+}
+
+export interface ZoneTransition {
+  at: Date;
+  offsetFrom: number; // Minutes east of UTC
+  offsetTo: number;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+export class TimeZoneService {
+  static getLocalZone(): string {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  }
+  
+  static isValidZone(zone: string): boolean {
+    try {
+      this.formatter(zone);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+  
+  /**
+   * IANA zone names for pickers, falling back to a short list on older engines
+   */
+  static listZones(): string[] {
+    const supported = (Intl as any).supportedValuesOf?.('timeZone') as string[] | undefined;
+    return supported?.length ? supported : [
+      'UTC', 'America/Los_Angeles', 'America/Denver', 'America/Chicago', 'America/New_York',
+      'America/Sao_Paulo', 'Europe/London', 'Europe/Paris', 'Europe/Berlin', 'Africa/Johannesburg',
+      'Asia/Dubai', 'Asia/Kolkata', 'Asia/Singapore', 'Asia/Tokyo', 'Australia/Sydney', 'Pacific/Auckland'
+    ];
+  }
+  
+  static getParts(date: Date, zone: string): ZonedParts {
+    const parts = this.formatter(zone).formatToParts(date);
+    const get = (type: string) => parseInt(parts.find(p => p.type === type)?.value || '0', 10);
+    const weekday = parts.find(p => p.type === 'weekday')?.value || 'Sun';
+    return {
+      year: get('year'),
+      month: get('month'),
+      day: get('day'),
+      hour: get('hour'),
+      minute: get('minute'),
+      second: get('second'),
+      weekday: ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(weekday)
+    };
+  }
+  
+  /**
+   * Minutes east of UTC in effect in the zone at an instant
+   */
+  static getOffset(date: Date, zone: string): number {
+    const p = this.getParts(date, zone);
+    const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+    return Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+  }
+  
+  /**
+   * The zone's wall-clock time at an instant, carried in the UTC fields of a Date.
+   * Calendar arithmetic on these "floating" dates is free of DST effects.
+   */
+  static toFloating(date: Date, zone: string): Date {
+    const p = this.getParts(date, zone);
+    return new Date(Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second, date.getMilliseconds()));
+  }
+  
+  /**
+   * The instant at which the zone's clock shows a floating wall-clock time.
+   * Times skipped by a DST gap use the offset before the gap (so 02:30 becomes
+   * 03:30); repeated times resolve to their first occurrence, per RFC 5545.
+   */
+  static fromFloating(floating: Date, zone: string): Date {
+    const wall = floating.getTime();
+    const before = this.getOffset(new Date(wall - DAY), zone);
+    const after = this.getOffset(new Date(wall + DAY), zone);
+    
+    const matches = [wall - before * 60000, wall - after * 60000]
+      .filter(instant => this.toFloating(new Date(instant), zone).getTime() === wall)
+      .sort((a, b) => a - b);
+      
+    return new Date(matches.length ? matches[0] : wall - before * 60000);
+  }
+  
+  /**
+   * Build an instant from wall-clock fields in a zone
+   */
+  static fromParts(zone: string, year: number, month: number, day: number, hour = 0, minute = 0, second = 0): Date {
+    return this.fromFloating(new Date(Date.UTC(year, month - 1, day, hour, minute, second)), zone);
+  }
+  
+  /**
+   * Midnight at the start of the zone's calendar day containing an instant
+   */
+  static startOfDay(date: Date, zone: string): Date {
+    const p = this.getParts(date, zone);
+    return this.fromParts(zone, p.year, p.month, p.day);
+  }
+  
+  /**
+   * Re-express an instant's wall-clock time from one zone in another, so
+   * "9:00 in Tokyo" can be laid out on a grid drawn in local time
+   */
+  static convertWallClock(date: Date, fromZone: string, toZone: string): Date {
+    return fromZone === toZone ? date : this.fromFloating(this.toFloating(date, fromZone), toZone);
+  }
+  
+  /**
+   * Shift an event so the browser's local getters read its wall-clock times in
+   * `zone`; grids built from local-midnight days can then lay it out directly.
+   * All-day events are dates, not instants, and are left alone.
+   */
+  static shiftForDisplay<T extends { startTime: Date; endTime: Date; allDay?: boolean }>(event: T, zone: string): T {
+    const local = this.getLocalZone();
+    if (event.allDay || zone === local) return event;
+    return {
+      ...event,
+      startTime: this.convertWallClock(event.startTime, zone, local),
+      endTime: this.convertWallClock(event.endTime, zone, local)
+    };
+  }
+  
+  /**
+   * Offset changes in (from, to], found by bisecting days whose offsets differ
+   */
+  static transitions(zone: string, from: Date, to: Date): ZoneTransition[] {
+    const result: ZoneTransition[] = [];
+    let previous = this.getOffset(from, zone);
+    
+    for (let t = from.getTime() + DAY; t < to.getTime() + DAY; t += DAY) {
+      const current = this.getOffset(new Date(t), zone);
+      if (current === previous) continue;
+      
+      let low = t - DAY;
+      let high = t;
+      while (high - low > 60000) {
+        const mid = Math.floor((low + high) / 2 / 60000) * 60000;
+        if (this.getOffset(new Date(mid), zone) === previous) low = mid;
+        else high = mid;
+      }
+      
+      result.push({ at: new Date(high), offsetFrom: previous, offsetTo: current });
+      previous = current;
+    }
+    
+    return result;
+  }
+  
+  static format(date: Date, zone: string, options: Intl.DateTimeFormatOptions = { hour: 'numeric', minute: '2-digit' }, locale?: string): string {
+    return new Intl.DateTimeFormat(locale, { ...options, timeZone: zone }).format(date);
+  }
+  
+  /**
+   * Short label such as "GMT+9" or "EST" for gutters and pickers
+   */
+  static abbreviation(zone: string, date: Date = new Date(), locale?: string): string {
+    const parts = new Intl.DateTimeFormat(locale, { timeZone: zone, timeZoneName: 'short' }).formatToParts(date);
+    return parts.find(p => p.type === 'timeZoneName')?.value || zone;
+  }
+  
+  private static formatter(zone: string): Intl.DateTimeFormat {
+    let formatter = formatters.get(zone);
+    if (!formatter) {
+      formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone: zone,
+        hourCycle: 'h23',
+        weekday: 'short',
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit'
+      });
+      formatters.set(zone, formatter);
+    }
+    return formatter;
+  }
+}
+
+export default TimeZoneService;
@@ -1,3 +1,5 @@
+import { NaturalLanguageParser, ParsedCommand } from './naturalLanguage';
+
 /**
  * Voice Input Service
  * Handles speech recognition for voice commands and event creation
@@ -113,36 +115,20 @@ export class VoiceInputService {
   }
 
   /**
-   * Parse voice command for event creation
+   * Parse voice command for event creation. Numeric dates follow the
+   * recognition language's day/month order.
    */
-  parseEventCommand(text: string): { title: string; date?: Date; time?: string } | null {
-    // Simple parsing for demo purposes
-    // In a real app, this would be much more sophisticated
-    const textLower = text.toLowerCase();
-    
-    // Extract title (everything except date/time keywords)
-    const title = text.replace(/(today|tomorrow|yesterday|next|this|at|on|in|from|to|\d+:\d+|\d+(st|nd|rd|th)|january|february|march|april|may|june|july|august|september|october|november|december)/gi, '').trim();
-    
-    // Simple date detection (demo purposes)
-    let date: Date | undefined;
-    if (textLower.includes('today')) {
-      date = new Date();
-    } else if (textLower.includes('tomorrow')) {
-      date = new Date();
-      date.setDate(date.getDate() + 1);
-    } else if (textLower.includes('yesterday')) {
-      date = new Date();
-      date.setDate(date.getDate() - 1);
-    }
-    
-    // Simple time detection (demo purposes)
-    const timeMatch = text.match(/(\d{1,2}:\d{2}\s*(am|pm)?)/i);
-    const time = timeMatch ? timeMatch[1] : undefined;
+  parseEventCommand(text: string): { title: string; date?: Date; time?: string; parsed: ParsedCommand } | null {
+    const locale = this.recognition?.lang || 'en-US';
+    const parsed = NaturalLanguageParser.parse(text, { locale });
     
     return {
-      title: title || text,
-      date,
-      time
+      title: parsed.title || text,
+      date: parsed.start,
+      time: parsed.start && parsed.hasTime
+        ? parsed.start.toLocaleTimeString(locale, { hour: 'numeric', minute: '2-digit' })
+        : undefined,
+      parsed
     };
   }
 }
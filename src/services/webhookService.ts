@@ -3,24 +3,84 @@
  * Real-time data synchronization with external systems
  */
 
+export const WEBHOOK_EVENTS = [
+  'calendar:event:created',
+  'calendar:event:updated',
+  'calendar:event:deleted',
+  'task:created',
+  'task:completed',
+  'sticker:added',
+  'sticker:moved'
+] as const;
+
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+
 export interface Webhook {
   id: string;
   name: string;
   url: string;
-  event: 'calendar:event:created' | 'calendar:event:updated' | 'calendar:event:deleted' | 'task:created' | 'task:completed' | 'sticker:added' | 'sticker:moved';
+  event: WebhookEvent;
   enabled: boolean;
-  secret?: string;
+  secret?: string; // HMAC-SHA256 key; generated on registration when not given
+  timeoutMs?: number;
+  maxAttempts?: number; // Including the first try
   lastTriggered?: Date;
   successCount: number;
   errorCount: number;
 }
 
+// One HTTP attempt. Retries of a delivery share its id.
+export interface WebhookDeliveryAttempt {
+  deliveryId: string;
+  webhookId: string;
+  event: string;
+  attempt: number;
+  timestamp: Date;
+  url: string;
+  requestHeaders: Record<string, string>;
+  requestBody: string;
+  status?: number; // Missing when the request never got a response
+  responseBody?: string;
+  durationMs: number;
+  success: boolean;
+  error?: string;
+}
+
+// A delivery that used up its attempts or was refused outright
+export interface DeadLetter {
+  deliveryId: string;
+  webhookId: string;
+  event: string;
+  data: any;
+  attempts: number;
+  error: string;
+  failedAt: Date;
+}
+
+export const SIGNATURE_HEADER = 'X-Webhook-Signature';
+export const WEBHOOK_TEST_URL = 'http://localhost:4100/webhooks/test'; // server/webhookReceiver.ts
+
+const DEFAULT_TIMEOUT_MS = 10 * 1000;
+const DEFAULT_MAX_ATTEMPTS = 5;
+const BACKOFF_BASE_MS = 1000;
+const BACKOFF_MAX_MS = 5 * 60 * 1000;
+const LOG_LIMIT = 100; // Attempts kept per webhook
+const BODY_LIMIT = 10 * 1024; // Characters of a response body kept in the log
+const DEAD_LETTER_LIMIT = 200;
+const WEBHOOKS_KEY = 'webhooks';
+const DEAD_LETTERS_KEY = 'webhookDeadLetters';
+
 export class WebhookService {
   private static instance: WebhookService;
   private webhooks: Map<string, Webhook> = new Map();
   private eventListeners: Map<string, Function[]> = new Map();
+  private deliveryLogs: Map<string, WebhookDeliveryAttempt[]> = new Map();
+  private deadLetters: DeadLetter[] = [];
 
-  private constructor() {}
+  // Webhooks (secrets included) and dead letters outlive a reload; workflows refer to them by id
+  private constructor() {
+    this.load();
+  }
 
   static getInstance(): WebhookService {
     if (!WebhookService.instance) {
@@ -35,12 +95,14 @@ export class WebhookService {
   registerWebhook(webhook: Omit<Webhook, 'id' | 'successCount' | 'errorCount'>): Webhook {
     const newWebhook: Webhook = {
       ...webhook,
-      id: `webhook-${Date.now()}`,
+      id: this.createId('webhook'),
+      secret: webhook.secret || this.generateSecret(),
       successCount: 0,
       errorCount: 0
     };
 
     this.webhooks.set(newWebhook.id, newWebhook);
+    this.save();
     console.log(`Webhook registered: ${webhook.name} (${newWebhook.id})`);
     return newWebhook;
   }
@@ -51,6 +113,8 @@ export class WebhookService {
   unregisterWebhook(webhookId: string): boolean {
     const result = this.webhooks.delete(webhookId);
     if (result) {
+      this.deliveryLogs.delete(webhookId);
+      this.save();
       console.log(`Webhook unregistered: ${webhookId}`);
     }
     return result;
@@ -67,6 +131,7 @@ export class WebhookService {
     }
 
     webhook.enabled = true;
+    this.save();
     console.log(`Webhook enabled: ${webhook.name}`);
     return true;
   }
@@ -82,6 +147,7 @@ export class WebhookService {
     }
 
     webhook.enabled = false;
+    this.save();
     console.log(`Webhook disabled: ${webhook.name}`);
     return true;
   }
@@ -97,6 +163,7 @@ export class WebhookService {
     }
 
     Object.assign(webhook, updates);
+    this.save();
     console.log(`Webhook updated: ${webhook.name}`);
     return true;
   }
@@ -116,7 +183,8 @@ export class WebhookService {
   }
 
   /**
-   * Trigger webhooks for an event
+   * Trigger webhooks for an event. Webhooks are delivered side by side, each
+   * with its own retries; local listeners hear about the event straight away.
    */
   async triggerEvent(event: string, data: any): Promise<void> {
     console.log(`Triggering event: ${event}`);
@@ -126,43 +194,181 @@ export class WebhookService {
       webhook => webhook.enabled && webhook.event === event
     );
 
-    // Trigger each webhook
-    for (const webhook of matchingWebhooks) {
+    // Notify local event listeners
+    this.notifyLocalListeners(event, data);
+
+    await Promise.all(matchingWebhooks.map(async webhook => {
       try {
-        await this.sendWebhook(webhook, data);
-        webhook.successCount++;
-        webhook.lastTriggered = new Date();
+        await this.deliverWithRetry(webhook, event, data);
         console.log(`Webhook triggered successfully: ${webhook.name}`);
       } catch (error) {
-        webhook.errorCount++;
         console.error(`Webhook trigger failed: ${webhook.name}`, error);
       }
-    }
+    }));
+  }
 
-    // Notify local event listeners
-    this.notifyLocalListeners(event, data);
+  /**
+   * Send data to one webhook whatever event it listens for, retrying like
+   * any other delivery. Rejects once the delivery is dead-lettered.
+   */
+  async deliver(webhookId: string, data: any, event: string = 'workflow:action'): Promise<void> {
+    const webhook = this.webhooks.get(webhookId);
+    if (!webhook) throw new Error(`Webhook not found: ${webhookId}`);
+    if (!webhook.enabled) throw new Error(`Webhook disabled: ${webhook.name}`);
+
+    await this.deliverWithRetry(webhook, event, data);
+  }
+
+  /**
+   * Delivery attempts for a webhook, newest first
+   */
+  getDeliveryLogs(webhookId: string): WebhookDeliveryAttempt[] {
+    return [...(this.deliveryLogs.get(webhookId) || [])].reverse();
   }
 
   /**
-   * Send webhook request
+   * Deliveries that failed for good, newest first
    */
-  private async sendWebhook(webhook: Webhook, data: any): Promise<void> {
-    console.log(`Sending webhook to ${webhook.url} with data:`, data);
-    // In a real application, this would make an HTTP POST request
-    // For demo purposes, we'll simulate the request
+  getDeadLetters(webhookId?: string): DeadLetter[] {
+    const letters = webhookId ? this.deadLetters.filter(letter => letter.webhookId === webhookId) : this.deadLetters;
+    return [...letters].reverse();
+  }
+
+  /**
+   * Try a dead-lettered delivery again from the first attempt
+   */
+  async retryDeadLetter(deliveryId: string): Promise<boolean> {
+    const letter = this.deadLetters.find(l => l.deliveryId === deliveryId);
+    const webhook = letter && this.webhooks.get(letter.webhookId);
+    if (!letter || !webhook) return false;
+
+    this.discardDeadLetter(deliveryId);
+    try {
+      await this.deliverWithRetry(webhook, letter.event, letter.data, deliveryId);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Drop a dead-lettered delivery
+   */
+  discardDeadLetter(deliveryId: string): void {
+    this.deadLetters = this.deadLetters.filter(letter => letter.deliveryId !== deliveryId);
+    this.save();
+  }
     
-    console.log(`Sending webhook to ${webhook.url}`);
+  /**
+   * Attempt a delivery until it succeeds, fails in a way retrying cannot fix,
+   * or runs out of attempts. Waits double after each failure, or follow the
+   * receiver's Retry-After when it is longer.
+   */
+  private async deliverWithRetry(webhook: Webhook, event: string, data: any, deliveryId: string = this.createId('delivery')): Promise<WebhookDeliveryAttempt> {
+    const maxAttempts = Math.max(1, webhook.maxAttempts ?? DEFAULT_MAX_ATTEMPTS);
+    let result: WebhookDeliveryAttempt | null = null;
+    let retryAfter: number | null = null;
     
-    // Simulate network delay
-    await new Promise(resolve => setTimeout(resolve, 500));
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      if (attempt > 1) {
+        const backoff = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** (attempt - 2));
+        await new Promise(resolve => setTimeout(resolve, Math.max(backoff * (0.8 + Math.random() * 0.4), retryAfter || 0)));
     
-    // Simulate success/failure (90% success rate for demo)
-    if (Math.random() > 0.1) {
-      console.log(`Webhook sent successfully to ${webhook.url}`);
-      return Promise.resolve();
-    } else {
-      throw new Error('Webhook delivery failed');
+        // Stop retrying once the webhook is switched off or removed
+        if (!this.webhooks.get(webhook.id)?.enabled) break;
+      }
+
+      ({ result, retryAfter } = await this.sendWebhook(webhook, event, data, deliveryId, attempt));
+      if (result.success) {
+        webhook.successCount++;
+        webhook.lastTriggered = new Date();
+        this.save();
+        return result;
+      }
+      if (!this.isRetryable(result)) break;
+    }
+
+    webhook.errorCount++;
+    const error = result?.error || 'Webhook was disabled before delivery';
+    this.deadLetters.push({
+      deliveryId,
+      webhookId: webhook.id,
+      event,
+      data,
+      attempts: result?.attempt || 0,
+      error,
+      failedAt: new Date()
+    });
+    this.deadLetters = this.deadLetters.slice(-DEAD_LETTER_LIMIT);
+    this.save();
+    throw new Error(error);
+  }
+
+  /**
+   * Send webhook request: one signed POST, logged with its response. The
+   * signature is an HMAC-SHA256 of "<timestamp>.<body>" keyed with the
+   * webhook's secret, so receivers can reject altered or replayed requests.
+   */
+  private async sendWebhook(
+    webhook: Webhook,
+    event: string,
+    data: any,
+    deliveryId: string,
+    attempt: number,
+    url: string = webhook.url
+  ): Promise<{ result: WebhookDeliveryAttempt; retryAfter: number | null }> {
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const body = JSON.stringify({ id: deliveryId, event, timestamp: new Date().toISOString(), data });
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'X-Webhook-Event': event,
+      'X-Webhook-Delivery': deliveryId,
+      'X-Webhook-Timestamp': timestamp
+    };
+    if (webhook.secret) {
+      headers[SIGNATURE_HEADER] = `sha256=${await this.sign(webhook.secret, `${timestamp}.${body}`)}`;
     }
+
+    const result: WebhookDeliveryAttempt = {
+      deliveryId,
+      webhookId: webhook.id,
+      event,
+      attempt,
+      timestamp: new Date(),
+      url,
+      requestHeaders: headers,
+      requestBody: body,
+      durationMs: 0,
+      success: false
+    };
+    let retryAfter: number | null = null;
+
+    const controller = new AbortController();
+    const timeoutMs = webhook.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const timeout = setTimeout(() => controller.abort(), timeoutMs);
+    const started = Date.now();
+
+    try {
+      const response = await fetch(url, { method: 'POST', headers, body, signal: controller.signal });
+      const text = await response.text();
+      result.status = response.status;
+      result.responseBody = text.length > BODY_LIMIT ? `${text.slice(0, BODY_LIMIT)}…` : text;
+      result.success = response.ok;
+      if (!response.ok) result.error = `HTTP ${response.status}`;
+
+      const seconds = Number(response.headers.get('Retry-After'));
+      if (seconds > 0) retryAfter = seconds * 1000;
+    } catch (error) {
+      result.error = controller.signal.aborted
+        ? `Timed out after ${timeoutMs} ms`
+        : error instanceof Error ? error.message : String(error);
+    } finally {
+      clearTimeout(timeout);
+      result.durationMs = Date.now() - started;
+    }
+
+    this.log(result);
+    return { result, retryAfter };
   }
 
   /**
@@ -219,53 +425,92 @@ export class WebhookService {
   }
 
   /**
-   * Test a webhook
+   * Test a webhook by sending one signed sample payload, without retries.
+   * Goes to the local stand-in (`npm run webhook-receiver`) unless another
+   * URL is given, so a webhook can be checked before its endpoint exists.
    */
-  async testWebhook(webhookId: string): Promise<{ success: boolean; message: string }> {
+  async testWebhook(webhookId: string, url: string = WEBHOOK_TEST_URL): Promise<{ success: boolean; message: string; attempt?: WebhookDeliveryAttempt }> {
     const webhook = this.webhooks.get(webhookId);
     if (!webhook) {
       return { success: false, message: 'Webhook not found' };
     }
 
-    try {
-      // Send a test payload
-      const testData = {
-        event: 'webhook:test',
-        timestamp: new Date().toISOString(),
-        test: true
-      };
-
-      await this.sendWebhook(webhook, testData);
-      return { success: true, message: 'Webhook test successful' };
-    } catch (error) {
-      return { success: false, message: `Webhook test failed: ${error}` };
-    }
+    // Send a test payload
+    const testData = {
+      webhook: { id: webhook.id, name: webhook.name, event: webhook.event },
+      test: true
+    };
+
+    const { result } = await this.sendWebhook(webhook, 'webhook:test', testData, this.createId('test'), 1, url);
+    return result.success
+      ? { success: true, message: `Webhook test successful (HTTP ${result.status} in ${result.durationMs} ms)`, attempt: result }
+      : { success: false, message: `Webhook test failed: ${result.error}`, attempt: result };
   }
 
   /**
-   * Get recent webhook activity
+   * Get recent webhook activity across all webhooks
    */
   getRecentActivity(limit: number = 10): Array<{ webhookId: string; timestamp: Date; success: boolean }> {
-    const activity: Array<{ webhookId: string; timestamp: Date; success: boolean }> = [];
+    return Array.from(this.deliveryLogs.values())
+      .flat()
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
+      .slice(0, limit)
+      .map(attempt => ({ webhookId: attempt.webhookId, timestamp: attempt.timestamp, success: attempt.success }));
+  }
     
-    // For demo purposes, we'll generate mock activity
-    const webhooks = this.getWebhooks();
+  // Timeouts, network errors, 408, 429 and 5xx may pass on another try
+  private isRetryable(attempt: WebhookDeliveryAttempt): boolean {
+    if (attempt.status === undefined) return true;
+    return attempt.status === 408 || attempt.status === 429 || attempt.status >= 500;
+  }
     
-    for (let i = 0; i < limit; i++) {
-      if (webhooks.length === 0) break;
+  private log(attempt: WebhookDeliveryAttempt): void {
+    const logs = this.deliveryLogs.get(attempt.webhookId) || [];
+    logs.push(attempt);
+    this.deliveryLogs.set(attempt.webhookId, logs.slice(-LOG_LIMIT));
+  }
       
-      const webhook = webhooks[Math.floor(Math.random() * webhooks.length)];
-      if (!webhook.lastTriggered) continue;
+  private async sign(secret: string, message: string): Promise<string> {
+    const encoder = new TextEncoder();
+    const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+    const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(message));
+    return Array.from(new Uint8Array(signature), byte => byte.toString(16).padStart(2, '0')).join('');
+  }
       
-      activity.push({
-        webhookId: webhook.id,
-        timestamp: new Date(webhook.lastTriggered.getTime() - Math.random() * 1000 * 60 * 60), // Random time within last hour
-        success: Math.random() > 0.2 // 80% success rate
-      });
+  private generateSecret(): string {
+    const bytes = crypto.getRandomValues(new Uint8Array(24));
+    return `whsec_${Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('')}`;
+  }
+    
+  private load(): void {
+    if (typeof localStorage === 'undefined') return;
+    
+    try {
+      const webhooks: Webhook[] = JSON.parse(localStorage.getItem(WEBHOOKS_KEY) || '[]');
+      webhooks.forEach(webhook => this.webhooks.set(webhook.id, {
+        ...webhook,
+        lastTriggered: webhook.lastTriggered && new Date(webhook.lastTriggered)
+      }));
+      const letters: DeadLetter[] = JSON.parse(localStorage.getItem(DEAD_LETTERS_KEY) || '[]');
+      this.deadLetters = letters.map(letter => ({ ...letter, failedAt: new Date(letter.failedAt) }));
+    } catch (error) {
+      console.warn('Failed to load webhooks:', error);
+    }
+  }
+    
+  private save(): void {
+    if (typeof localStorage === 'undefined') return;
+    
+    try {
+      localStorage.setItem(WEBHOOKS_KEY, JSON.stringify(this.getWebhooks()));
+      localStorage.setItem(DEAD_LETTERS_KEY, JSON.stringify(this.deadLetters));
+    } catch (error) {
+      console.warn('Failed to save webhooks:', error);
     }
+  }
     
-    // Sort by timestamp (newest first)
-    return activity.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+  private createId(prefix: string): string {
+    return `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
   }
 }
 
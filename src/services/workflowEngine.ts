@@ -0,0 +1,781 @@
+import { addDays, format } from 'date-fns';
+import { useStore, AppState } from '../stores/appStore';
+import { TaskItem } from '../types';
+import { PLUGIN_HOOKS, PluginHook, PluginHookPayloads, pluginManager } from './pluginManager';
+import { enhancedNotificationService } from './enhancedNotifications';
+import { webhookService } from './webhookService';
+
+export type WorkflowHook = PluginHook;
+
+// JSON copy of a hook payload, so it reads the same after a reload
+export type WorkflowEntity = Record<string, unknown>;
+
+export type TriggerConfig =
+  | { kind: 'hook'; hook: WorkflowHook }
+  | { kind: 'schedule'; time: string; days?: number[] } // Local HH:mm; days are 0 (Sun)–6, every day when empty
+  | { kind: 'manual' };
+
+export type ConditionOperator = 'equals' | 'notEquals' | 'contains' | 'greaterThan' | 'lessThan' | 'exists';
+
+export interface ConditionRule {
+  field: string; // Dotted path into the triggering entity, e.g. "priority" or "attendees.length"
+  operator: ConditionOperator;
+  value?: string | number | boolean;
+}
+
+export interface ConditionConfig {
+  match: 'all' | 'any';
+  rules: ConditionRule[];
+}
+
+export interface DelayConfig {
+  minutes: number;
+}
+
+// Text fields accept {{field}} placeholders filled from the triggering entity
+export type ActionConfig =
+  | { action: 'createTask'; content: string; priority: TaskItem['priority']; dueInDays?: number }
+  | { action: 'createEvent'; title: string; durationMinutes: number; startOffsetMinutes?: number }
+  | { action: 'notify'; title: string; body?: string }
+  | { action: 'webhook'; webhookId: string };
+
+interface WorkflowNodeBase {
+  id: string;
+  title: string;
+  position: { x: number; y: number };
+}
+
+export type WorkflowNode =
+  | WorkflowNodeBase & { type: 'trigger'; config: TriggerConfig }
+  | WorkflowNodeBase & { type: 'condition'; config: ConditionConfig }
+  | WorkflowNodeBase & { type: 'delay'; config: DelayConfig }
+  | WorkflowNodeBase & { type: 'action'; config: ActionConfig };
+
+export type WorkflowNodeType = WorkflowNode['type'];
+
+export interface WorkflowConnection {
+  id: string;
+  sourceNodeId: string;
+  targetNodeId: string;
+  branch?: 'true' | 'false'; // Which outcome of a condition node this follows
+}
+
+export interface Workflow {
+  id: string;
+  name: string;
+  description: string;
+  nodes: WorkflowNode[];
+  connections: WorkflowConnection[];
+  enabled: boolean;
+}
+
+export interface WorkflowStep {
+  nodeId: string;
+  title: string;
+  status: 'triggered' | 'passed' | 'failed' | 'waiting' | 'resumed' | 'done' | 'simulated' | 'error';
+  detail: string;
+  at: number;
+}
+
+export interface WorkflowRun {
+  id: string;
+  workflowId: string;
+  workflowName: string;
+  trigger: string;
+  test: boolean; // Test runs evaluate conditions but skip delays and side effects
+  status: 'running' | 'waiting' | 'completed' | 'failed' | 'cancelled';
+  startedAt: number;
+  finishedAt?: number;
+  steps: WorkflowStep[];
+}
+
+interface RunContext {
+  trigger: string;
+  entity: WorkflowEntity | null;
+  chain: string[]; // Workflows whose actions led here; none of them runs again
+}
+
+interface PendingDelay {
+  runId: string;
+  workflowId: string;
+  nodeId: string;
+  resumeAt: number;
+  context: RunContext;
+}
+
+export const HOOK_LABELS: Record<WorkflowHook, string> = {
+  [PLUGIN_HOOKS.CALENDAR_EVENT_CREATED]: 'Event created',
+  [PLUGIN_HOOKS.CALENDAR_EVENT_UPDATED]: 'Event updated',
+  [PLUGIN_HOOKS.CALENDAR_EVENT_DELETED]: 'Event deleted',
+  [PLUGIN_HOOKS.TASK_CREATED]: 'Task created',
+  [PLUGIN_HOOKS.TASK_UPDATED]: 'Task updated',
+  [PLUGIN_HOOKS.TASK_COMPLETED]: 'Task completed',
+  [PLUGIN_HOOKS.TASK_DELETED]: 'Task deleted',
+  [PLUGIN_HOOKS.DECORATION_ADDED]: 'Decoration added',
+  [PLUGIN_HOOKS.DECORATION_UPDATED]: 'Decoration updated',
+  [PLUGIN_HOOKS.DECORATION_DELETED]: 'Decoration deleted',
+  [PLUGIN_HOOKS.STICKER_ADDED]: 'Sticker added',
+  [PLUGIN_HOOKS.STICKER_MOVED]: 'Sticker moved',
+  [PLUGIN_HOOKS.STROKE_ADDED]: 'Handwriting added',
+  [PLUGIN_HOOKS.STROKE_DELETED]: 'Handwriting erased',
+  [PLUGIN_HOOKS.USER_LOGIN]: 'User signed in',
+  [PLUGIN_HOOKS.USER_LOGOUT]: 'User signed out'
+};
+
+export const OPERATOR_LABELS: Record<ConditionOperator, string> = {
+  equals: 'is',
+  notEquals: 'is not',
+  contains: 'contains',
+  greaterThan: '>',
+  lessThan: '<',
+  exists: 'is set'
+};
+
+const latest = <T>(items: T[], match: (item: T) => boolean = () => true): T | undefined => [...items].reverse().find(match);
+
+// The latest entity each hook would have carried, for runs started by hand
+const SAMPLES: { [H in PluginHook]: (state: AppState) => PluginHookPayloads[H] | undefined } = {
+  [PLUGIN_HOOKS.CALENDAR_EVENT_CREATED]: state => latest(state.events),
+  [PLUGIN_HOOKS.CALENDAR_EVENT_UPDATED]: state => latest(state.events),
+  [PLUGIN_HOOKS.CALENDAR_EVENT_DELETED]: state => latest(state.events),
+  [PLUGIN_HOOKS.TASK_CREATED]: state => latest(state.tasks),
+  [PLUGIN_HOOKS.TASK_UPDATED]: state => latest(state.tasks),
+  [PLUGIN_HOOKS.TASK_COMPLETED]: state => latest(state.tasks, task => task.completed) || latest(state.tasks),
+  [PLUGIN_HOOKS.TASK_DELETED]: state => latest(state.tasks),
+  [PLUGIN_HOOKS.DECORATION_ADDED]: state => latest(state.decorations),
+  [PLUGIN_HOOKS.DECORATION_UPDATED]: state => latest(state.decorations),
+  [PLUGIN_HOOKS.DECORATION_DELETED]: state => latest(state.decorations),
+  [PLUGIN_HOOKS.STICKER_ADDED]: state => latest(state.decorations, decoration => decoration.type === 'sticker'),
+  [PLUGIN_HOOKS.STICKER_MOVED]: state => latest(state.decorations, decoration => decoration.type === 'sticker'),
+  [PLUGIN_HOOKS.STROKE_ADDED]: state => latest(state.handwriting),
+  [PLUGIN_HOOKS.STROKE_DELETED]: state => latest(state.handwriting),
+  [PLUGIN_HOOKS.USER_LOGIN]: () => undefined,
+  [PLUGIN_HOOKS.USER_LOGOUT]: () => undefined
+};
+
+const WORKFLOWS_KEY = 'workflows';
+const RUNS_KEY = 'workflowRuns';
+const DELAYS_KEY = 'workflowDelays';
+const MINUTE = 60 * 1000;
+const MAX_RUNS = 50;
+const MAX_STEPS = 200; // Per run; stops a runaway graph
+const MAX_TIMEOUT = 2 ** 31 - 1; // setTimeout's limit, about 24 days
+const DEDUPE_MS = 1000; // The same change can arrive from the store and from a plugin hook
+const CLOCK_MS = 30 * 1000;
+
+const EXAMPLE_WORKFLOWS: Workflow[] = [
+  {
+    id: '1',
+    name: 'Morning Routine',
+    description: 'Automated morning routine workflow',
+    nodes: [
+      {
+        id: 'n1',
+        type: 'trigger',
+        title: 'Time Trigger',
+        position: { x: 100, y: 100 },
+        config: { kind: 'schedule', time: '07:00' }
+      },
+      {
+        id: 'n2',
+        type: 'action',
+        title: 'Create Event',
+        position: { x: 300, y: 100 },
+        config: { action: 'createEvent', title: 'Morning Exercise', durationMinutes: 30 }
+      }
+    ],
+    connections: [
+      { id: 'c1', sourceNodeId: 'n1', targetNodeId: 'n2' }
+    ],
+    enabled: false
+  }
+];
+
+/**
+ * Workflow Engine
+ * Runs the workflows drawn in WorkflowBuilder. Triggers come from store
+ * changes, plugin hooks and a daily clock; delays are stored so a reload
+ * picks them up where they left off.
+ */
+export class WorkflowEngine {
+  private static workflows: Workflow[] | null = null;
+  private static runs: WorkflowRun[] | null = null;
+  private static delays: PendingDelay[] | null = null;
+  private static timers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+  private static listeners: Set<() => void> = new Set();
+  private static recent: Map<string, number> = new Map();
+  private static origin: string[] = [];
+  private static active = false;
+  private static lastTick = 0;
+  private static teardown: () => void = () => {};
+  
+  /**
+   * Subscribe to the store, plugin hooks and the clock, and resume stored
+   * delays. Returns a function that stops the engine again.
+   */
+  static start(): () => void {
+    if (this.active) return () => this.stop();
+    this.active = true;
+    
+    const hooks = Object.values(PLUGIN_HOOKS).map(hook => {
+      const callback = (entity: PluginHookPayloads[typeof hook]) => this.emit(hook, entity);
+      pluginManager.registerHook(hook, callback);
+      return { hook, callback };
+    });
+    const unsubscribe = useStore.subscribe((state, previous) => this.diff(state, previous));
+    this.lastTick = Date.now();
+    const clock = setInterval(() => this.tick(), CLOCK_MS);
+    this.loadDelays().forEach(delay => this.arm(delay));
+    
+    this.teardown = () => {
+      hooks.forEach(({ hook, callback }) => pluginManager.unregisterHook(hook, callback));
+      unsubscribe();
+      clearInterval(clock);
+      this.timers.forEach(timer => clearTimeout(timer));
+      this.timers.clear();
+    };
+    return () => this.stop();
+  }
+  
+  static stop(): void {
+    if (!this.active) return;
+    this.active = false;
+    this.teardown();
+  }
+  
+  /**
+   * Be told when workflows or runs change
+   */
+  static subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+  
+  static getWorkflows(): Workflow[] {
+    if (!this.workflows) {
+      this.workflows = this.read<Workflow[]>(WORKFLOWS_KEY) || EXAMPLE_WORKFLOWS;
+    }
+    return this.workflows;
+  }
+  
+  static saveWorkflow(workflow: Workflow): void {
+    const workflows = this.getWorkflows();
+    this.workflows = workflows.some(w => w.id === workflow.id)
+      ? workflows.map(w => (w.id === workflow.id ? workflow : w))
+      : [...workflows, workflow];
+    this.write(WORKFLOWS_KEY, this.workflows);
+    
+    if (!workflow.enabled) this.cancelDelays(workflow.id, 'Workflow was disabled');
+    this.notify();
+  }
+  
+  static deleteWorkflow(workflowId: string): void {
+    this.workflows = this.getWorkflows().filter(w => w.id !== workflowId);
+    this.write(WORKFLOWS_KEY, this.workflows);
+    this.cancelDelays(workflowId, 'Workflow was deleted');
+    this.notify();
+  }
+  
+  /**
+   * Most recent runs first
+   */
+  static getRuns(workflowId?: string): WorkflowRun[] {
+    if (!this.runs) this.runs = this.read<WorkflowRun[]>(RUNS_KEY) || [];
+    return workflowId ? this.runs.filter(run => run.workflowId === workflowId) : this.runs;
+  }
+  
+  static clearRuns(workflowId: string): void {
+    this.runs = this.getRuns().filter(run => run.workflowId !== workflowId || run.status === 'waiting');
+    this.write(RUNS_KEY, this.runs);
+    this.notify();
+  }
+  
+  /**
+   * A node of the given type with a usable starting config
+   */
+  static createNode(type: WorkflowNodeType, position: { x: number; y: number }): WorkflowNode {
+    const id = `node-${Date.now()}`;
+    switch (type) {
+      case 'trigger':
+        return { id, type, title: 'Trigger', position, config: { kind: 'hook', hook: PLUGIN_HOOKS.TASK_COMPLETED } };
+      case 'condition':
+        return { id, type, title: 'Condition', position, config: { match: 'all', rules: [{ field: 'priority', operator: 'equals', value: 'high' }] } };
+      case 'delay':
+        return { id, type, title: 'Delay', position, config: { minutes: 60 } };
+      case 'action':
+        return { id, type, title: 'Action', position, config: { action: 'notify', title: '{{content}} is done' } };
+    }
+  }
+  
+  /**
+   * One-line summary of what a node does
+   */
+  static describe(node: WorkflowNode): string {
+    switch (node.type) {
+      case 'trigger': {
+        const config = node.config;
+        if (config.kind === 'hook') return `When: ${HOOK_LABELS[config.hook] || config.hook}`;
+        if (config.kind === 'manual') return 'When run by hand';
+        const days = config.days?.length
+          ? ` on ${config.days.map(day => ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'][day]).join(', ')}`
+          : ' every day';
+        return `At ${config.time}${days}`;
+      }
+      case 'condition': {
+        const rules = node.config.rules.map(rule =>
+          rule.operator === 'exists' ? `${rule.field} is set` : `${rule.field} ${OPERATOR_LABELS[rule.operator]} ${rule.value ?? ''}`
+        );
+        return rules.length ? `If ${rules.join(node.config.match === 'all' ? ' and ' : ' or ')}` : 'Always true';
+      }
+      case 'delay':
+        return `Wait ${this.formatMinutes(node.config.minutes)}`;
+      case 'action': {
+        const config = node.config;
+        switch (config.action) {
+          case 'createTask': return `Create task "${config.content}"`;
+          case 'createEvent': return `Create event "${config.title}" (${this.formatMinutes(config.durationMinutes)})`;
+          case 'notify': return `Notify "${config.title}"`;
+          case 'webhook': {
+            const webhook = webhookService.getWebhook(config.webhookId);
+            return `Call webhook ${webhook ? webhook.name : config.webhookId || '(none)'}`;
+          }
+        }
+      }
+    }
+  }
+  
+  /**
+   * Whether a connection from source to target keeps the graph acyclic and
+   * leaves triggers as entry points only
+   */
+  static canConnect(workflow: Workflow, sourceId: string, targetId: string): boolean {
+    if (sourceId === targetId) return false;
+    const target = workflow.nodes.find(node => node.id === targetId);
+    if (!target || target.type === 'trigger') return false;
+    
+    // Reject when the target already reaches the source
+    const seen = new Set<string>();
+    const stack = [targetId];
+    while (stack.length) {
+      const id = stack.pop()!;
+      if (id === sourceId) return false;
+      if (seen.has(id)) continue;
+      seen.add(id);
+      workflow.connections.filter(c => c.sourceNodeId === id).forEach(c => stack.push(c.targetNodeId));
+    }
+    return true;
+  }
+  
+  /**
+   * Run a workflow by hand from each of its triggers. Without an entity the
+   * most recent one matching the trigger is used. Test runs record the path
+   * taken without waiting or changing anything.
+   */
+  static async run(workflowId: string, options: { test?: boolean; entity?: PluginHookPayloads[PluginHook] } = {}): Promise<WorkflowRun[]> {
+    const workflow = this.getWorkflows().find(w => w.id === workflowId);
+    if (!workflow) return [];
+    
+    const triggers = workflow.nodes.filter(node => node.type === 'trigger');
+    return Promise.all(triggers.map(trigger => {
+      const hook = trigger.config.kind === 'hook' ? trigger.config.hook : trigger.config.kind;
+      const entity = options.entity ?? (trigger.config.kind === 'hook' ? this.sampleEntity(trigger.config.hook) : null);
+      return this.launch(workflow, trigger, { trigger: hook, entity: this.snapshot(entity), chain: [workflow.id] }, !!options.test);
+    }));
+  }
+  
+  /**
+   * Start enabled workflows listening for `hook`
+   */
+  static emit<H extends PluginHook>(hook: H, entity?: PluginHookPayloads[H]): void {
+    if (!this.active) return;
+    
+    const now = Date.now();
+    const key = `${hook}:${(entity as { id?: string } | undefined)?.id ?? ''}`;
+    if (now - (this.recent.get(key) || 0) < DEDUPE_MS) return;
+    this.recent.set(key, now);
+    this.recent.forEach((at, k) => {
+      if (now - at >= DEDUPE_MS) this.recent.delete(k);
+    });
+    
+    const chain = this.origin;
+    this.getWorkflows()
+      .filter(workflow => workflow.enabled && !chain.includes(workflow.id))
+      .forEach(workflow => {
+        workflow.nodes
+          .filter(node => node.type === 'trigger' && node.config.kind === 'hook' && node.config.hook === hook)
+          .forEach(trigger => {
+            this.launch(workflow, trigger, { trigger: hook, entity: this.snapshot(entity), chain: [...chain, workflow.id] }, false);
+          });
+      });
+  }
+  
+
+  // Turn store changes into the hook events plugins would see
+  private static diff(state: AppState, previous: AppState): void {
+    if (state.events !== previous.events) {
+      const before = new Map(previous.events.map(event => [event.id, event]));
+      const after = new Set(state.events.map(event => event.id));
+      state.events.forEach(event => {
+        const old = before.get(event.id);
+        if (!old) this.emit(PLUGIN_HOOKS.CALENDAR_EVENT_CREATED, event);
+        else if (old !== event) this.emit(PLUGIN_HOOKS.CALENDAR_EVENT_UPDATED, event);
+      });
+      previous.events
+        .filter(event => !after.has(event.id))
+        .forEach(event => this.emit(PLUGIN_HOOKS.CALENDAR_EVENT_DELETED, event));
+    }
+    
+    if (state.tasks !== previous.tasks) {
+      const before = new Map(previous.tasks.map(task => [task.id, task]));
+      state.tasks.forEach(task => {
+        const old = before.get(task.id);
+        if (!old) this.emit(PLUGIN_HOOKS.TASK_CREATED, task);
+        if (task.completed && !old?.completed) this.emit(PLUGIN_HOOKS.TASK_COMPLETED, task);
+      });
+    }
+    
+    if (state.decorations !== previous.decorations) {
+      const before = new Map(previous.decorations.map(decoration => [decoration.id, decoration]));
+      state.decorations
+        .filter(decoration => decoration.type === 'sticker')
+        .forEach(sticker => {
+          const old = before.get(sticker.id);
+          if (!old) this.emit(PLUGIN_HOOKS.STICKER_ADDED, sticker);
+          else if (old.position.dateX !== sticker.position.dateX || old.position.offsetY !== sticker.position.offsetY) {
+            this.emit(PLUGIN_HOOKS.STICKER_MOVED, sticker);
+          }
+        });
+    }
+  }
+  
+  // Fire schedule triggers whose time fell since the last tick
+  private static tick(): void {
+    const now = Date.now();
+    const from = this.lastTick;
+    this.lastTick = now;
+    
+    this.getWorkflows()
+      .filter(workflow => workflow.enabled)
+      .forEach(workflow => {
+        workflow.nodes.forEach(trigger => {
+          if (trigger.type !== 'trigger' || trigger.config.kind !== 'schedule') return;
+          const [hours, minutes] = trigger.config.time.split(':').map(Number);
+          const at = new Date(now);
+          at.setHours(hours, minutes, 0, 0);
+          
+          const days = trigger.config.days || [];
+          if (at.getTime() <= from || at.getTime() > now) return;
+          if (days.length && !days.includes(at.getDay())) return;
+          this.launch(workflow, trigger, { trigger: 'schedule', entity: null, chain: [workflow.id] }, false);
+        });
+      });
+  }
+  
+  private static async launch(workflow: Workflow, trigger: WorkflowNode, context: RunContext, test: boolean): Promise<WorkflowRun> {
+    const run: WorkflowRun = {
+      id: `run-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      workflowId: workflow.id,
+      workflowName: workflow.name,
+      trigger: context.trigger,
+      test,
+      status: 'running',
+      startedAt: Date.now(),
+      steps: []
+    };
+    this.runs = [run, ...this.getRuns()].slice(0, MAX_RUNS);
+    
+    this.step(run, trigger, 'triggered', context.entity ? this.label(context.entity) : this.describe(trigger));
+    await this.follow(workflow, run, trigger.id, context);
+    this.settle(run);
+    return run;
+  }
+  
+  // Visit a node, then whatever it leads to
+  private static async visit(workflow: Workflow, run: WorkflowRun, nodeId: string, context: RunContext): Promise<void> {
+    const node = workflow.nodes.find(n => n.id === nodeId);
+    if (!node) return;
+    if (run.steps.length >= MAX_STEPS) {
+      this.step(run, node, 'error', `Stopped after ${MAX_STEPS} steps`);
+      return;
+    }
+    
+    switch (node.type) {
+      case 'trigger':
+        return;
+      case 'condition': {
+        const passed = this.evaluate(node.config, context.entity);
+        this.step(run, node, passed ? 'passed' : 'failed', this.describe(node));
+        return this.follow(workflow, run, node.id, context, passed ? 'true' : 'false');
+      }
+      case 'delay': {
+        if (run.test) {
+          this.step(run, node, 'simulated', `Would wait ${this.formatMinutes(node.config.minutes)}`);
+          return this.follow(workflow, run, node.id, context);
+        }
+        const delay: PendingDelay = {
+          runId: run.id,
+          workflowId: workflow.id,
+          nodeId: node.id,
+          resumeAt: Date.now() + Math.max(0, node.config.minutes) * MINUTE,
+          context
+        };
+        this.step(run, node, 'waiting', `Until ${new Date(delay.resumeAt).toLocaleString()}`);
+        this.delays = [...this.loadDelays(), delay];
+        this.write(DELAYS_KEY, this.delays);
+        this.arm(delay);
+        return;
+      }
+      case 'action': {
+        if (run.test) {
+          this.step(run, node, 'simulated', `Would ${this.describe({ ...node, config: this.fill(node.config, context.entity) }).replace(/^\w/, c => c.toLowerCase())}`);
+          return this.follow(workflow, run, node.id, context);
+        }
+        try {
+          const detail = await this.perform(workflow, node.config, context);
+          this.step(run, node, 'done', detail);
+        } catch (error) {
+          this.step(run, node, 'error', error instanceof Error ? error.message : String(error));
+          return;
+        }
+        return this.follow(workflow, run, node.id, context);
+      }
+    }
+  }
+  
+  private static async follow(workflow: Workflow, run: WorkflowRun, nodeId: string, context: RunContext, branch?: 'true' | 'false'): Promise<void> {
+    const next = workflow.connections.filter(c => c.sourceNodeId === nodeId && (!branch || (c.branch || 'true') === branch));
+    for (const connection of next) {
+      await this.visit(workflow, run, connection.targetNodeId, context);
+    }
+  }
+  
+  private static async perform(workflow: Workflow, config: ActionConfig, context: RunContext): Promise<string> {
+    const filled = this.fill(config, context.entity);
+    const store = useStore.getState();
+    
+    switch (filled.action) {
+      case 'createTask': {
+        const task: TaskItem = {
+          id: `task-${Date.now()}`,
+          content: filled.content,
+          completed: false,
+          date: format(addDays(new Date(), filled.dueInDays || 0), 'yyyy-MM-dd'),
+          priority: filled.priority
+        };
+        this.withOrigin(context.chain, () => store.addTask(task));
+        return `Created task "${task.content}" for ${task.date}`;
+      }
+      case 'createEvent': {
+        const start = new Date(Date.now() + (filled.startOffsetMinutes || 0) * MINUTE);
+        start.setSeconds(0, 0);
+        this.withOrigin(context.chain, () => store.addEvent({
+          id: `event-${Date.now()}`,
+          title: filled.title,
+          startTime: start,
+          endTime: new Date(start.getTime() + filled.durationMinutes * MINUTE),
+          sourceCalendar: 'native',
+          timestamp: Date.now(),
+          timeZone: store.displayTimeZone
+        }));
+        return `Created event "${filled.title}" at ${start.toLocaleString()}`;
+      }
+      case 'notify':
+        await enhancedNotificationService.showNotification(filled.title, { body: filled.body, tag: `workflow-${workflow.id}` });
+        return `Notified "${filled.title}"`;
+      case 'webhook':
+        await webhookService.deliver(filled.webhookId, {
+          workflow: { id: workflow.id, name: workflow.name },
+          trigger: context.trigger,
+          entity: context.entity
+        });
+        return `Delivered to webhook ${filled.webhookId}`;
+    }
+  }
+  
+  // Store changes made here carry the chain so they cannot retrigger it. The
+  // change must be synchronous: anything the user does during an await is
+  // not part of the chain.
+  private static withOrigin(chain: string[], change: () => void): void {
+    const previous = this.origin;
+    this.origin = chain;
+    try {
+      change();
+    } finally {
+      this.origin = previous;
+    }
+  }
+  
+  private static evaluate(config: ConditionConfig, entity: WorkflowEntity | null): boolean {
+    if (!config.rules.length) return true;
+    const results = config.rules.map(rule => this.test(this.valueAt(entity, rule.field), rule));
+    return config.match === 'all' ? results.every(Boolean) : results.some(Boolean);
+  }
+  
+  private static test(actual: unknown, rule: ConditionRule): boolean {
+    const expected = rule.value;
+    switch (rule.operator) {
+      case 'exists':
+        return actual !== undefined && actual !== null && actual !== '' && !(Array.isArray(actual) && actual.length === 0);
+      case 'equals':
+        return this.same(actual, expected);
+      case 'notEquals':
+        return !this.same(actual, expected);
+      case 'contains': {
+        const needle = String(expected ?? '').toLowerCase();
+        return Array.isArray(actual)
+          ? actual.some(item => String(item).toLowerCase() === needle)
+          : String(actual ?? '').toLowerCase().includes(needle);
+      }
+      case 'greaterThan':
+        return this.toNumber(actual) > this.toNumber(expected);
+      case 'lessThan':
+        return this.toNumber(actual) < this.toNumber(expected);
+    }
+  }
+  
+  // Values typed into the builder are strings, so compare loosely
+  private static same(actual: unknown, expected: unknown): boolean {
+    if (actual === undefined || actual === null) return expected === undefined || expected === null || expected === '';
+    return String(actual).toLowerCase() === String(expected ?? '').toLowerCase();
+  }
+  
+  // Numbers, numeric strings and ISO dates (as epoch ms)
+  private static toNumber(value: unknown): number {
+    if (typeof value === 'number') return value;
+    if (typeof value !== 'string' || value.trim() === '') return NaN;
+    const number = Number(value);
+    return isNaN(number) ? Date.parse(value) : number;
+  }
+  
+  private static valueAt(entity: WorkflowEntity | null, path: string): unknown {
+    return path.split('.').reduce<unknown>(
+      (value, key) => (value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+      entity
+    );
+  }
+  
+  // Replace {{field}} placeholders in every string of an action config
+  private static fill<T extends ActionConfig>(config: T, entity: WorkflowEntity | null): T {
+    const filled: Record<string, unknown> = { ...config };
+    Object.entries(filled).forEach(([key, text]) => {
+      if (typeof text !== 'string' || key === 'action') return;
+      filled[key] = text.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_: string, path: string) => {
+        const value = this.valueAt(entity, path);
+        return value == null ? '' : String(value);
+      });
+    });
+    return filled as T;
+  }
+  
+  private static arm(delay: PendingDelay): void {
+    const wait = delay.resumeAt - Date.now();
+    const timer = setTimeout(() => {
+      this.timers.delete(delay.runId + delay.nodeId);
+      if (delay.resumeAt > Date.now()) this.arm(delay);
+      else this.resume(delay);
+    }, Math.max(0, Math.min(wait, MAX_TIMEOUT)));
+    this.timers.set(delay.runId + delay.nodeId, timer);
+  }
+  
+  private static async resume(delay: PendingDelay): Promise<void> {
+    this.delays = this.loadDelays().filter(d => d !== delay && !(d.runId === delay.runId && d.nodeId === delay.nodeId));
+    this.write(DELAYS_KEY, this.delays);
+    
+    const run = this.getRuns().find(r => r.id === delay.runId);
+    const workflow = this.getWorkflows().find(w => w.id === delay.workflowId);
+    const node = workflow?.nodes.find(n => n.id === delay.nodeId);
+    if (!run || !workflow || !node) return;
+    
+    this.step(run, node, 'resumed', `After ${this.formatMinutes(Math.round((Date.now() - run.startedAt) / MINUTE))}`);
+    await this.follow(workflow, run, node.id, delay.context);
+    this.settle(run);
+  }
+  
+  private static cancelDelays(workflowId: string, reason: string): void {
+    const cancelled = this.loadDelays().filter(delay => delay.workflowId === workflowId);
+    if (!cancelled.length) return;
+    
+    cancelled.forEach(delay => {
+      const key = delay.runId + delay.nodeId;
+      clearTimeout(this.timers.get(key));
+      this.timers.delete(key);
+      
+      const run = this.getRuns().find(r => r.id === delay.runId);
+      if (run) {
+        run.status = 'cancelled';
+        run.finishedAt = Date.now();
+        run.steps.push({ nodeId: delay.nodeId, title: 'Cancelled', status: 'error', detail: reason, at: Date.now() });
+      }
+    });
+    this.delays = this.loadDelays().filter(delay => delay.workflowId !== workflowId);
+    this.write(DELAYS_KEY, this.delays);
+    this.write(RUNS_KEY, this.getRuns());
+  }
+  
+  private static step(run: WorkflowRun, node: WorkflowNode, status: WorkflowStep['status'], detail: string): void {
+    run.steps.push({ nodeId: node.id, title: node.title, status, detail, at: Date.now() });
+    this.write(RUNS_KEY, this.getRuns());
+    this.notify();
+  }
+  
+  // Work out a run's status once no branch is still moving
+  private static settle(run: WorkflowRun): void {
+    if (run.status === 'cancelled') return;
+    const waiting = this.loadDelays().some(delay => delay.runId === run.id);
+    const failed = run.steps.some(step => step.status === 'error');
+    
+    run.status = failed ? 'failed' : waiting ? 'waiting' : 'completed';
+    if (!waiting) run.finishedAt = Date.now();
+    this.write(RUNS_KEY, this.getRuns());
+    this.notify();
+  }
+  
+  private static sampleEntity<H extends PluginHook>(hook: H): PluginHookPayloads[H] | null {
+    return SAMPLES[hook](useStore.getState()) ?? null;
+  }
+  
+  private static snapshot(entity: PluginHookPayloads[PluginHook] | null | undefined): WorkflowEntity | null {
+    return entity == null ? null : JSON.parse(JSON.stringify(entity));
+  }
+  
+  private static label(entity: WorkflowEntity): string {
+    return String(entity.title || entity.content || entity.name || entity.id || 'Entity');
+  }
+  
+  private static formatMinutes(minutes: number): string {
+    if (minutes >= 1440 && minutes % 1440 === 0) return `${minutes / 1440} d`;
+    if (minutes >= 60 && minutes % 60 === 0) return `${minutes / 60} h`;
+    return `${minutes} min`;
+  }
+  
+  private static loadDelays(): PendingDelay[] {
+    if (!this.delays) this.delays = this.read<PendingDelay[]>(DELAYS_KEY) || [];
+    return this.delays;
+  }
+  
+  private static notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+  
+  private static read<T>(key: string): T | null {
+    try {
+      const stored = localStorage.getItem(key);
+      return stored ? JSON.parse(stored) : null;
+    } catch (error) {
+      console.warn(`Failed to read ${key} from localStorage:`, error);
+      return null;
+    }
+  }
+  
+  private static write(key: string, value: unknown): void {
+    try {
+      localStorage.setItem(key, JSON.stringify(value));
+    } catch (error) {
+      console.warn(`Failed to save ${key} to localStorage:`, error);
+    }
+  }
+}
+
+export default WorkflowEngine;
@@ -1,14 +1,37 @@
 import { create } from 'zustand';
-import { LayerState, CalendarEvent, DecorativeElement, HandwritingStroke, TaskItem, VisualTheme, SyncOperation } from '../types';
+import { LayerState, CalendarEvent, DecorativeElement, HandwritingStroke, TaskItem, Subtask, VisualTheme, SyncOperation, EventOverride, RecurrenceEditScope, HistoryCommand, ViewMode, DependencyType, Goal, ProjectBaseline } from '../types';
+import { RecurrenceEngine } from '../services/recurrence';
+import { LayerCRDT, MergeOutcome } from '../services/layerCrdt';
+import { SyncQueueStorage } from '../services/syncQueueStorage';
+import { RealtimeSyncService } from '../services/realtimeSync';
+import { CommandHistory } from '../services/commandHistory';
+import { TimeZoneService } from '../services/timeZone';
+import { TaskDependencies } from '../services/taskDependencies';
+import { TaskRecurrenceService } from '../services/taskRecurrence';
+import { ProjectSchedule } from '../services/projectSchedule';
+import { webhookService, WebhookEvent, WEBHOOK_EVENTS } from '../services/webhookService';
+import { PLUGIN_HOOKS, PluginHook, PluginBeforeHook, PluginBeforeHookPayloads, PluginHookPayloads, pluginManager } from '../services/pluginManager';
 
-interface AppState extends LayerState {
+export interface AppState extends LayerState {
   currentTheme: VisualTheme | null;
   selectedDate: Date;
   zoomLevel: number;
-  viewMode: 'monthly' | 'weekly' | 'daily';
+  viewMode: ViewMode;
+  displayTimeZone: string; // IANA zone the planner is drawn in
+  secondaryTimeZone: string | null; // Extra hour gutter in the weekly and daily views
   syncQueue: SyncOperation[];
-  history: LayerState[];
-  historyIndex: number;
+  isSyncing: boolean;
+  syncFailedCount: number; // Operations in the last batch the server did not acknowledge
+  syncRetryAttempt: number; // Consecutive failed sends; drives retry backoff
+  syncError: string | null;
+  syncService: RealtimeSyncService | null;
+  lastVeto: { hook: PluginBeforeHook; reason: string } | null; // The last local edit a plugin blocked
+  history: HistoryCommand[]; // Oldest first; a tree through parentId
+  historyHead: string | null; // Last applied command; null when there is nothing to undo
+  historyRedo: string[]; // Commands redo applies, in order, along the branch last visited
+  recurrenceOverrides: Record<string, EventOverride[]>; // Keyed by master event id
+  goals: Goal[];
+  projectBaseline: ProjectBaseline | null; // Planned Gantt schedule to compare against
   
   // Customization state
   cover: string;
@@ -21,6 +44,21 @@ interface AppState extends LayerState {
   updateEvent: (id: string, updates: Partial<CalendarEvent>) => void;
   deleteEvent: (id: string) => void;
   
+  // Recurring event operations
+  updateOccurrence: (masterId: string, recurrenceId: string, updates: Partial<CalendarEvent>, scope: RecurrenceEditScope) => void;
+  deleteOccurrence: (masterId: string, recurrenceId: string, scope: RecurrenceEditScope) => void;
+  
+  // Provider calendars
+  applyProviderChanges: (changed: CalendarEvent[], removed: string[], overrides?: Record<string, EventOverride[]>) => void; // Pulled changes: no history, sync or plugin hooks
+  
+  // Project planning
+  addEventDependency: (successorId: string, predecessorId: string, type?: DependencyType) => boolean; // False when it would create a cycle
+  updateEventDependency: (successorId: string, predecessorId: string, updates: { type?: DependencyType; lagMinutes?: number }) => void;
+  removeEventDependency: (successorId: string, predecessorId: string) => void;
+  moveEventWithSuccessors: (id: string, startTime: Date) => void;
+  setProjectBaseline: (baseline: ProjectBaseline | null) => void;
+  setGoals: (goals: Goal[]) => void;
+  
   // Decoration layer operations
   addDecoration: (decoration: DecorativeElement) => void;
   updateDecoration: (id: string, updates: Partial<DecorativeElement>) => void;
@@ -34,6 +72,12 @@ interface AppState extends LayerState {
   addTask: (task: TaskItem) => void;
   updateTask: (id: string, updates: Partial<TaskItem>) => void;
   deleteTask: (id: string) => void;
+  addSubtask: (taskId: string, content: string) => void;
+  updateSubtask: (taskId: string, subtaskId: string, updates: Partial<Subtask>) => void;
+  deleteSubtask: (taskId: string, subtaskId: string) => void;
+  addTaskDependency: (taskId: string, blockedById: string) => boolean; // False when it would create a cycle
+  removeTaskDependency: (taskId: string, blockedById: string) => void;
+  skipTask: (id: string) => void; // Move a recurring task on to its next date without completing it
   
   // Layer visibility controls
   toggleLayerVisibility: (layer: keyof LayerState['visibility']) => void;
@@ -42,26 +86,259 @@ interface AppState extends LayerState {
   setTheme: (theme: VisualTheme) => void;
   setSelectedDate: (date: Date) => void;
   setZoomLevel: (level: number) => void;
-  setViewMode: (mode: 'monthly' | 'weekly') => void;
+  setViewMode: (mode: ViewMode) => void;
+  setDisplayTimeZone: (zone: string) => void;
+  setSecondaryTimeZone: (zone: string | null) => void;
   
   // History controls
   undo: () => void;
   redo: () => void;
+  jumpToCommand: (id: string | null) => void; // Undo and redo across branches until `id` is the head
+  beginTransaction: (label?: string) => void; // Group the following edits into one undo step
+  endTransaction: () => void;
+  restoreSnapshot: (snapshot: Omit<LayerState, 'visibility'>, label?: string) => void;
   
   // Synchronization
   queueSync: (operation: SyncOperation) => void;
   processSyncQueue: () => Promise<void>;
   applyRemoteChanges: (operations: SyncOperation[]) => void;
+  setSyncService: (service: RealtimeSyncService | null) => void;
+  restoreSyncQueue: () => Promise<void>;
+  
+  // Plugin policies
+  clearVeto: () => void;
 }
 
-// Helper function to get current state for history
-const getCurrentState = (state: AppState) => ({
-  events: state.events,
-  decorations: state.decorations,
-  handwriting: state.handwriting,
-  tasks: state.tasks,
-  visibility: state.visibility
-});
+// End a series just before the given occurrence, converting COUNT to UNTIL
+const truncateRule = (master: CalendarEvent, occurrenceStart: Date) => {
+  const { count: _count, ...rule } = master.recurrence!;
+  return {
+    ...rule,
+    until: new Date(occurrenceStart.getTime() - 1),
+    exDates: rule.exDates?.filter((d) => d < occurrenceStart)
+  };
+};
+
+// Replace the overrides for one master event and sync them alongside it.
+// Plugins vet them as an update to the master.
+const setOverrides = (masterId: string, proposed: EventOverride[]) => {
+  const { events, recurrenceOverrides } = useStore.getState();
+  const master = events.find((e) => e.id === masterId);
+  const vetted = master ? vet(PLUGIN_HOOKS.CALENDAR_EVENT_UPDATED, { recurrenceOverrides: proposed }, master) : { recurrenceOverrides: proposed };
+  if (!vetted) return;
+  
+  const overrides = vetted.recurrenceOverrides || proposed;
+  const previous = recurrenceOverrides[masterId] || [];
+  useStore.setState((state) => ({ recurrenceOverrides: { ...state.recurrenceOverrides, [masterId]: overrides } }));
+  commit({ type: 'update', layer: 'events', entityId: masterId, data: { recurrenceOverrides: overrides }, timestamp: Date.now() }, { ...master, recurrenceOverrides: previous });
+};
+
+// Tidy free-form task fields; blockers that would create a cycle are dropped
+const normalizeTaskUpdates = (tasks: TaskItem[], id: string, updates: Partial<TaskItem>): Partial<TaskItem> => {
+  const normalized = { ...updates };
+  if (updates.tags) {
+    normalized.tags = Array.from(new Set(updates.tags.map((tag) => tag.trim()).filter(Boolean)));
+  }
+  if (updates.estimateMinutes !== undefined) {
+    normalized.estimateMinutes = Math.max(0, Math.round(updates.estimateMinutes));
+  }
+  if (updates.assignee !== undefined) {
+    normalized.assignee = updates.assignee.trim(); // Empty means unassigned
+  }
+  if ('recurrence' in updates && !updates.recurrence) {
+    normalized.recurrence = null; // Undo can hand back a missing series, which JSON would drop
+  } else if (updates.recurrence) {
+    // A new series starts at the task's own date
+    const task = tasks.find((t) => t.id === id);
+    normalized.recurrence = {
+      ...updates.recurrence,
+      seriesId: updates.recurrence.seriesId || id,
+      anchor: updates.recurrence.mode === 'schedule' ? updates.recurrence.anchor || updates.date || task?.date : undefined
+    };
+  }
+  if (updates.blockedBy) {
+    const blockedBy = Array.from(new Set(updates.blockedBy)).filter((blocker) => blocker !== id);
+    if (TaskDependencies.wouldCreateCycle(tasks, id, blockedBy)) {
+      console.warn(`Ignored dependencies for task ${id}: they would create a cycle`);
+      delete normalized.blockedBy;
+    } else {
+      normalized.blockedBy = blockedBy;
+    }
+  }
+  return normalized;
+};
+
+const HISTORY_LIMIT = 100;
+
+let transaction: HistoryCommand | null = null;
+let transactionDepth = 0;
+let transactionVetoed = false; // A step of the open transaction was blocked by a plugin
+let replaying = false;
+
+// The hooks a local edit fires: its layer's own, then any narrower ones
+const hooksFor = (operation: SyncOperation, before?: any): PluginHook[] => {
+  const { type, layer, data } = operation;
+  if (layer === 'events') {
+    if (type === 'create') return [PLUGIN_HOOKS.CALENDAR_EVENT_CREATED];
+    if (type === 'delete') return [PLUGIN_HOOKS.CALENDAR_EVENT_DELETED];
+    return [PLUGIN_HOOKS.CALENDAR_EVENT_UPDATED];
+  }
+  if (layer === 'tasks') {
+    if (type === 'create') return [PLUGIN_HOOKS.TASK_CREATED];
+    if (type === 'delete') return [PLUGIN_HOOKS.TASK_DELETED];
+    return data?.completed && !before?.completed
+      ? [PLUGIN_HOOKS.TASK_UPDATED, PLUGIN_HOOKS.TASK_COMPLETED]
+      : [PLUGIN_HOOKS.TASK_UPDATED];
+  }
+  if (layer === 'decorations') {
+    const sticker = (type === 'create' ? data : before)?.type === 'sticker';
+    if (type === 'create') return sticker ? [PLUGIN_HOOKS.DECORATION_ADDED, PLUGIN_HOOKS.STICKER_ADDED] : [PLUGIN_HOOKS.DECORATION_ADDED];
+    if (type === 'delete') return [PLUGIN_HOOKS.DECORATION_DELETED];
+    return sticker && data?.position
+      ? [PLUGIN_HOOKS.DECORATION_UPDATED, PLUGIN_HOOKS.STICKER_MOVED]
+      : [PLUGIN_HOOKS.DECORATION_UPDATED];
+  }
+  return [type === 'create' ? PLUGIN_HOOKS.STROKE_ADDED : PLUGIN_HOOKS.STROKE_DELETED];
+};
+
+const isWebhookEvent = (hook: PluginHook): hook is WebhookEvent => (WEBHOOK_EVENTS as readonly string[]).includes(hook);
+
+// Tell plugins and webhooks about a local edit, undo and redo included;
+// remote changes were already announced by the collaborator who made them
+const announce = (operation: SyncOperation, before?: any) => {
+  if (operation.type !== 'create' && !before) return;
+  
+  const layer = useStore.getState()[operation.layer] as Array<{ id: string }>;
+  const entity = operation.type === 'delete' ? before : layer.find((item) => item.id === operation.entityId);
+  hooksFor(operation, before).forEach((hook) => {
+    pluginManager.triggerHook(hook, entity, operation.type === 'update' ? before : undefined);
+    if (isWebhookEvent(hook)) void webhookService.triggerEvent(hook, entity);
+  });
+};
+
+// Ask before-hooks about a local edit. Returns the payload to apply, possibly
+// transformed, or null when a plugin vetoed it. A veto inside a transaction
+// rolls the whole transaction back when it ends. Undo and redo replay edits
+// that were already allowed.
+const vet = <H extends PluginBeforeHook>(hook: H, proposed: PluginBeforeHookPayloads[H], current?: PluginHookPayloads[H]): PluginBeforeHookPayloads[H] | null => {
+  if (replaying) return proposed;
+  
+  const verdict = pluginManager.runBeforeHooks(hook, proposed, current);
+  if ('veto' in verdict) {
+    console.warn(`Plugin blocked ${hook}: ${verdict.veto}`);
+    useStore.setState({ lastVeto: { hook, reason: verdict.veto } });
+    if (transaction) transactionVetoed = true;
+    return null;
+  }
+  return verdict.payload;
+};
+
+// Queue a local edit for sync and record it, with its inverse, as an undoable command
+const commit = (operation: SyncOperation, before?: any, extraInverse: SyncOperation[] = []) => {
+  useStore.getState().queueSync(operation);
+  announce(operation, before);
+  if (replaying) return;
+  
+  const inverse = [...CommandHistory.invert(operation, before), ...extraInverse];
+  if (transaction) {
+    transaction = CommandHistory.extend(transaction, operation, inverse);
+    return;
+  }
+  
+  const command = CommandHistory.extend(CommandHistory.create(), operation, inverse);
+  useStore.setState((state) => CommandHistory.push(state.history, state.historyHead, command, HISTORY_LIMIT));
+};
+
+// Run a recorded operation back through the matching store action
+const dispatch = (op: SyncOperation) => {
+  const state = useStore.getState();
+  const operation = { ...op, timestamp: Date.now() };
+  
+  switch (operation.type) {
+    case 'create':
+      if (operation.layer === 'events') state.addEvent(operation.data);
+      if (operation.layer === 'decorations') state.addDecoration(operation.data);
+      if (operation.layer === 'handwriting') state.addStroke(operation.data);
+      if (operation.layer === 'tasks') state.addTask(operation.data);
+      break;
+      
+    case 'update':
+      if (operation.layer === 'events') {
+        // A folded command can carry overrides and event fields together
+        const { recurrenceOverrides, ...updates } = operation.data;
+        if (recurrenceOverrides) setOverrides(operation.entityId, recurrenceOverrides);
+        if (Object.keys(updates).length > 0) state.updateEvent(operation.entityId, updates);
+      }
+      if (operation.layer === 'decorations') state.updateDecoration(operation.entityId, operation.data);
+      if (operation.layer === 'tasks') state.updateTask(operation.entityId, operation.data);
+      break;
+      
+    case 'delete':
+      if (operation.layer === 'events') state.deleteEvent(operation.entityId);
+      if (operation.layer === 'decorations') state.deleteDecoration(operation.entityId);
+      if (operation.layer === 'handwriting') state.deleteStroke(operation.entityId);
+      if (operation.layer === 'tasks') state.deleteTask(operation.entityId);
+      break;
+  }
+};
+
+// Replay operations as fresh local edits, without recording history, so collaborators see undo and redo
+const replay = (operations: SyncOperation[]) => {
+  replaying = true;
+  try {
+    operations.forEach(dispatch);
+  } finally {
+    replaying = false;
+  }
+};
+
+// Field clocks for every layer; local writes are stamped as they are queued
+const layerCrdt = new LayerCRDT();
+
+const SYNC_BATCH_SIZE = 200;
+
+// Leading syncQueue entries currently awaiting acknowledgement; never coalesced into
+let inFlight = 0;
+
+// Append an operation, folding it into the latest unsent one for the same entity
+const enqueue = (queue: SyncOperation[], operation: SyncOperation): SyncOperation[] => {
+  for (let i = queue.length - 1; i >= inFlight; i--) {
+    const previous = queue[i];
+    if (previous.layer !== operation.layer || previous.entityId !== operation.entityId) continue;
+    
+    const merged = layerCrdt.coalesce(previous, operation);
+    if (merged.length === 2) break;
+    return [...queue.slice(0, i), ...merged, ...queue.slice(i + 1)];
+  }
+  return [...queue, operation];
+};
+
+// Write a merged entity into its layer without recording history or queueing sync
+const materialize = (state: AppState, outcome: MergeOutcome): Partial<AppState> => {
+  const { layer, entityId, exists } = outcome;
+  const { recurrenceOverrides, ...changes } = outcome.changes;
+  const { recurrenceOverrides: _overrides, ...entity } = outcome.entity;
+  const items = state[layer] as Array<{ id: string }>;
+  const current = items.find((item) => item.id === entityId);
+  
+  let next = items;
+  if (exists === false) {
+    next = items.filter((item) => item.id !== entityId);
+  } else if (current) {
+    next = items.map((item) => item.id === entityId ? { ...item, ...changes } : item);
+  } else if (exists) {
+    next = [...items, { ...entity, id: entityId }];
+  }
+  
+  const patch = { [layer]: next } as Partial<AppState>;
+  if (layer === 'events' && exists === false) {
+    const { [entityId]: _removed, ...rest } = state.recurrenceOverrides;
+    patch.recurrenceOverrides = rest;
+  } else if (layer === 'events' && recurrenceOverrides !== undefined) {
+    patch.recurrenceOverrides = { ...state.recurrenceOverrides, [entityId]: recurrenceOverrides };
+  }
+  return patch;
+};
 
 export const useStore = create<AppState>((set, get) => ({
   // Initial state
@@ -79,9 +356,51 @@ export const useStore = create<AppState>((set, get) => ({
   selectedDate: new Date(2025, 10, 21), // Nov 21, 2025
   zoomLevel: 1.0,
   viewMode: 'monthly',
+  displayTimeZone: TimeZoneService.getLocalZone(),
+  secondaryTimeZone: null,
   syncQueue: [],
+  isSyncing: false,
+  syncFailedCount: 0,
+  syncRetryAttempt: 0,
+  syncError: null,
+  syncService: null,
+  lastVeto: null,
   history: [],
-  historyIndex: -1,
+  historyHead: null,
+  historyRedo: [],
+  recurrenceOverrides: {},
+  goals: [
+    {
+      id: 'goal1',
+      title: 'Learn React Native',
+      description: 'Build a mobile app using React Native framework',
+      targetDate: new Date(new Date().setMonth(new Date().getMonth() + 3)),
+      priority: 'high',
+      progress: 45,
+      category: 'Learning',
+      milestones: [
+        { id: 'm1', title: 'Complete basic tutorial', completed: true },
+        { id: 'm2', title: 'Build sample project', completed: true },
+        { id: 'm3', title: 'Deploy to app stores', completed: false }
+      ]
+    },
+    {
+      id: 'goal2',
+      title: 'Run a Marathon',
+      description: 'Complete a full marathon (42.195 km)',
+      targetDate: new Date(new Date().setMonth(new Date().getMonth() + 6)),
+      priority: 'medium',
+      progress: 20,
+      category: 'Health',
+      milestones: [
+        { id: 'm4', title: 'Run 5K', completed: true },
+        { id: 'm5', title: 'Run 10K', completed: false },
+        { id: 'm6', title: 'Run half marathon', completed: false },
+        { id: 'm7', title: 'Run full marathon', completed: false }
+      ]
+    }
+  ],
+  projectBaseline: null,
   
   // Customization state
   cover: 'brown-leather',
@@ -90,149 +409,372 @@ export const useStore = create<AppState>((set, get) => ({
   stickers: [],
   
   // Event layer operations
-  addEvent: (event) => {
-    const currentState = getCurrentState(get());
+  addEvent: (proposed) => {
+    const event = vet(PLUGIN_HOOKS.CALENDAR_EVENT_CREATED, proposed);
+    if (!event) return;
     
-    set((state) => ({
-      events: [...state.events, event],
-      history: [...state.history.slice(0, state.historyIndex + 1), currentState],
-      historyIndex: state.historyIndex + 1
-    }));
+    // Timed events are pinned to the zone they were scheduled in
+    const zoned = event.timeZone || event.allDay ? event : { ...event, timeZone: get().displayTimeZone };
+    set((state) => ({ events: [...state.events, zoned] }));
     
-    get().queueSync({ type: 'create', layer: 'events', entityId: event.id, data: event, timestamp: Date.now() });
+    commit({ type: 'create', layer: 'events', entityId: zoned.id, data: zoned, timestamp: Date.now() });
   },
   
-  updateEvent: (id, updates) => {
-    const currentState = getCurrentState(get());
+  updateEvent: (id, proposed) => {
+    const before = get().events.find((e) => e.id === id);
+    const updates = vet(PLUGIN_HOOKS.CALENDAR_EVENT_UPDATED, proposed, before);
+    if (!updates) return;
     
-    set((state) => ({
-      events: state.events.map((e) => e.id === id ? { ...e, ...updates } : e),
-      history: [...state.history.slice(0, state.historyIndex + 1), currentState],
-      historyIndex: state.historyIndex + 1
-    }));
+    set((state) => ({ events: state.events.map((e) => e.id === id ? { ...e, ...updates } : e) }));
     
-    get().queueSync({ type: 'update', layer: 'events', entityId: id, data: updates, timestamp: Date.now() });
+    commit({ type: 'update', layer: 'events', entityId: id, data: updates, timestamp: Date.now() }, before);
   },
   
   deleteEvent: (id) => {
-    const currentState = getCurrentState(get());
+    const before = get().events.find((e) => e.id === id);
+    if (before && !vet(PLUGIN_HOOKS.CALENDAR_EVENT_DELETED, before, before)) return;
+    const overrides = get().recurrenceOverrides[id];
+    const dependents = get().events.filter((e) => e.dependencies?.some((d) => d.predecessorId === id));
     
-    set((state) => ({
-      events: state.events.filter((e) => e.id !== id),
-      history: [...state.history.slice(0, state.historyIndex + 1), currentState],
-      historyIndex: state.historyIndex + 1
-    }));
+    // Links from other events go in the same undo step
+    get().beginTransaction('Deleted event');
+    dependents.forEach((e) => get().updateEvent(e.id, { dependencies: e.dependencies!.filter((d) => d.predecessorId !== id) }));
+    
+    set((state) => {
+      const { [id]: _removed, ...recurrenceOverrides } = state.recurrenceOverrides;
+      return {
+        events: state.events.filter((e) => e.id !== id),
+        recurrenceOverrides
+      };
+    });
+    
+    // Undo restores the event's overrides along with it
+    const timestamp = Date.now();
+    commit({ type: 'delete', layer: 'events', entityId: id, data: null, timestamp }, before, overrides
+      ? [{ type: 'update', layer: 'events', entityId: id, data: { recurrenceOverrides: overrides }, timestamp }]
+      : []);
+    get().endTransaction();
+  },
+  
+  // Recurring event operations
+  updateOccurrence: (masterId, recurrenceId, updates, scope) => {
+    const master = get().events.find((e) => e.id === masterId);
+    if (!master) return;
+    
+    const occurrenceStart = new Date(recurrenceId);
+    
+    if (!master.recurrence || scope === 'all') {
+      // Shift the whole series by however far this occurrence moved
+      const masterUpdates: Partial<CalendarEvent> = { ...updates };
+      if (updates.startTime) {
+        masterUpdates.startTime = new Date(master.startTime.getTime() + updates.startTime.getTime() - occurrenceStart.getTime());
+      }
+      if (updates.endTime) {
+        const occurrenceEnd = occurrenceStart.getTime() + master.endTime.getTime() - master.startTime.getTime();
+        masterUpdates.endTime = new Date(master.endTime.getTime() + updates.endTime.getTime() - occurrenceEnd);
+      }
+      get().updateEvent(masterId, masterUpdates);
+      return;
+    }
+    
+    const overrides = get().recurrenceOverrides[masterId] || [];
+    
+    if (scope === 'this') {
+      const existing = overrides.find((o) => o.recurrenceId === recurrenceId);
+      setOverrides(masterId, [
+        ...overrides.filter((o) => o.recurrenceId !== recurrenceId),
+        { masterId, recurrenceId, changes: { ...existing?.changes, ...updates } }
+      ]);
+      return;
+    }
+    
+    // 'following' splits the series into two masters at this occurrence
+    if (occurrenceStart <= master.startTime) {
+      get().updateOccurrence(masterId, recurrenceId, updates, 'all');
+      return;
+    }
+    
+    const rule = master.recurrence;
+    const newId = `${masterId}-${occurrenceStart.getTime()}`;
+    const newStart = updates.startTime || occurrenceStart;
+    const duration = master.endTime.getTime() - master.startTime.getTime();
+    const shifted = newStart.getTime() !== occurrenceStart.getTime();
+    
+    get().beginTransaction('Edited following events');
+    get().updateEvent(masterId, { recurrence: truncateRule(master, occurrenceStart) });
+    get().addEvent({
+      ...master,
+      ...updates,
+      id: newId,
+      startTime: newStart,
+      endTime: updates.endTime || new Date(newStart.getTime() + duration),
+      recurrence: {
+        ...rule,
+        count: rule.count !== undefined
+          ? rule.count - RecurrenceEngine.countBefore(master.startTime, rule, occurrenceStart, master.timeZone)
+          : undefined,
+        exDates: rule.exDates?.filter((d) => d >= occurrenceStart)
+      },
+      timestamp: Date.now()
+    });
+    
+    // Overrides after the split follow the new series unless its times moved
+    const before = overrides.filter((o) => new Date(o.recurrenceId) < occurrenceStart);
+    const after = overrides.filter((o) => new Date(o.recurrenceId) >= occurrenceStart);
+    setOverrides(masterId, before);
+    if (!shifted && after.length > 0) {
+      setOverrides(newId, after.map((o) => ({ ...o, masterId: newId })));
+    }
+    get().endTransaction();
+  },
+  
+  deleteOccurrence: (masterId, recurrenceId, scope) => {
+    const master = get().events.find((e) => e.id === masterId);
+    if (!master) return;
+    
+    const occurrenceStart = new Date(recurrenceId);
+    
+    if (!master.recurrence || scope === 'all' || (scope === 'following' && occurrenceStart <= master.startTime)) {
+      get().deleteEvent(masterId);
+      return;
+    }
+    
+    const overrides = get().recurrenceOverrides[masterId] || [];
+    
+    get().beginTransaction(scope === 'this' ? 'Deleted occurrence' : 'Deleted following events');
+    if (scope === 'this') {
+      get().updateEvent(masterId, {
+        recurrence: {
+          ...master.recurrence,
+          exDates: [...(master.recurrence.exDates || []), occurrenceStart]
+        }
+      });
+      setOverrides(masterId, overrides.filter((o) => o.recurrenceId !== recurrenceId));
+    } else {
+      get().updateEvent(masterId, { recurrence: truncateRule(master, occurrenceStart) });
+      setOverrides(masterId, overrides.filter((o) => new Date(o.recurrenceId) < occurrenceStart));
+    }
+    get().endTransaction();
+  },
+  
+  // Provider calendars
+  applyProviderChanges: (changed, removed, overrides = {}) => {
+    // Already true on the provider: nothing to vet, undo or send to collaborators
+    set((state) => {
+      const gone = new Set(removed);
+      const known = new Set(state.events.map((e) => e.id));
+      const updates = new Map(changed.filter((e) => known.has(e.id)).map((e) => [e.id, e]));
+      const added = changed
+        .filter((e) => !known.has(e.id))
+        .map((e) => e.timeZone || e.allDay ? e : { ...e, timeZone: state.displayTimeZone });
+      
+      const events = [...state.events, ...added]
+        .filter((e) => !gone.has(e.id))
+        .map((e) => updates.has(e.id) ? { ...e, ...updates.get(e.id) } : e)
+        .map((e) => e.dependencies?.some((d) => gone.has(d.predecessorId))
+          ? { ...e, dependencies: e.dependencies.filter((d) => !gone.has(d.predecessorId)) }
+          : e);
+      const recurrenceOverrides = Object.fromEntries(
+        Object.entries({ ...state.recurrenceOverrides, ...overrides }).filter(([id]) => !gone.has(id))
+      );
+      return { events, recurrenceOverrides };
+    });
+  },
+  
+  // Project planning
+  addEventDependency: (successorId, predecessorId, type = 'FS') => {
+    const events = get().events;
+    const successor = events.find((e) => e.id === successorId);
+    if (!successor || !events.some((e) => e.id === predecessorId)) return false;
+    if (successor.dependencies?.some((d) => d.predecessorId === predecessorId)) return true;
+    if (ProjectSchedule.wouldCreateCycle(events, successorId, predecessorId)) return false;
+    
+    get().updateEvent(successorId, { dependencies: [...(successor.dependencies || []), { predecessorId, type }] });
+    return true;
+  },
+  
+  updateEventDependency: (successorId, predecessorId, updates) => {
+    const successor = get().events.find((e) => e.id === successorId);
+    if (!successor?.dependencies) return;
+    
+    get().updateEvent(successorId, {
+      dependencies: successor.dependencies.map((d) => d.predecessorId === predecessorId ? { ...d, ...updates } : d)
+    });
+  },
+  
+  removeEventDependency: (successorId, predecessorId) => {
+    const successor = get().events.find((e) => e.id === successorId);
+    if (!successor?.dependencies) return;
     
-    get().queueSync({ type: 'delete', layer: 'events', entityId: id, data: null, timestamp: Date.now() });
+    get().updateEvent(successorId, { dependencies: successor.dependencies.filter((d) => d.predecessorId !== predecessorId) });
   },
   
+  moveEventWithSuccessors: (id, startTime) => {
+    // Recurring series have no single position on the chart and stay put
+    const changes = ProjectSchedule.reschedule(get().events.filter((e) => !e.recurrence), id, startTime);
+    
+    get().beginTransaction('Rescheduled event');
+    changes.forEach((change, eventId) => get().updateEvent(eventId, change));
+    get().endTransaction();
+  },
+  
+  setProjectBaseline: (baseline) => set({ projectBaseline: baseline }),
+  setGoals: (goals) => set({ goals }),
+  
   // Decoration layer operations
-  addDecoration: (decoration) => {
-    const currentState = getCurrentState(get());
+  addDecoration: (proposed) => {
+    const decoration = vet(PLUGIN_HOOKS.DECORATION_ADDED, proposed);
+    if (!decoration) return;
     
-    set((state) => ({
-      decorations: [...state.decorations, decoration],
-      history: [...state.history.slice(0, state.historyIndex + 1), currentState],
-      historyIndex: state.historyIndex + 1
-    }));
+    set((state) => ({ decorations: [...state.decorations, decoration] }));
     
-    get().queueSync({ type: 'create', layer: 'decorations', entityId: decoration.id, data: decoration, timestamp: Date.now() });
+    commit({ type: 'create', layer: 'decorations', entityId: decoration.id, data: decoration, timestamp: Date.now() });
   },
   
-  updateDecoration: (id, updates) => {
-    const currentState = getCurrentState(get());
+  updateDecoration: (id, proposed) => {
+    const before = get().decorations.find((d) => d.id === id);
+    const updates = vet(PLUGIN_HOOKS.DECORATION_UPDATED, proposed, before);
+    if (!updates) return;
     
-    set((state) => ({
-      decorations: state.decorations.map((d) => d.id === id ? { ...d, ...updates } : d),
-      history: [...state.history.slice(0, state.historyIndex + 1), currentState],
-      historyIndex: state.historyIndex + 1
-    }));
+    set((state) => ({ decorations: state.decorations.map((d) => d.id === id ? { ...d, ...updates } : d) }));
     
-    get().queueSync({ type: 'update', layer: 'decorations', entityId: id, data: updates, timestamp: Date.now() });
+    commit({ type: 'update', layer: 'decorations', entityId: id, data: updates, timestamp: Date.now() }, before);
   },
   
   deleteDecoration: (id) => {
-    const currentState = getCurrentState(get());
+    const before = get().decorations.find((d) => d.id === id);
+    if (before && !vet(PLUGIN_HOOKS.DECORATION_DELETED, before, before)) return;
     
-    set((state) => ({
-      decorations: state.decorations.filter((d) => d.id !== id),
-      history: [...state.history.slice(0, state.historyIndex + 1), currentState],
-      historyIndex: state.historyIndex + 1
-    }));
+    set((state) => ({ decorations: state.decorations.filter((d) => d.id !== id) }));
     
-    get().queueSync({ type: 'delete', layer: 'decorations', entityId: id, data: null, timestamp: Date.now() });
+    commit({ type: 'delete', layer: 'decorations', entityId: id, data: null, timestamp: Date.now() }, before);
   },
   
   // Handwriting layer operations
-  addStroke: (stroke) => {
-    const currentState = getCurrentState(get());
+  addStroke: (proposed) => {
+    const stroke = vet(PLUGIN_HOOKS.STROKE_ADDED, proposed);
+    if (!stroke) return;
     
-    set((state) => ({
-      handwriting: [...state.handwriting, stroke],
-      history: [...state.history.slice(0, state.historyIndex + 1), currentState],
-      historyIndex: state.historyIndex + 1
-    }));
+    set((state) => ({ handwriting: [...state.handwriting, stroke] }));
     
-    get().queueSync({ type: 'create', layer: 'handwriting', entityId: stroke.id, data: stroke, timestamp: Date.now() });
+    commit({ type: 'create', layer: 'handwriting', entityId: stroke.id, data: stroke, timestamp: Date.now() });
   },
   
   deleteStroke: (id) => {
-    const currentState = getCurrentState(get());
+    const before = get().handwriting.find((s) => s.id === id);
+    if (before && !vet(PLUGIN_HOOKS.STROKE_DELETED, before, before)) return;
     
-    set((state) => ({
-      handwriting: state.handwriting.filter((s) => s.id !== id),
-      history: [...state.history.slice(0, state.historyIndex + 1), currentState],
-      historyIndex: state.historyIndex + 1
-    }));
+    set((state) => ({ handwriting: state.handwriting.filter((s) => s.id !== id) }));
     
-    get().queueSync({ type: 'delete', layer: 'handwriting', entityId: id, data: null, timestamp: Date.now() });
+    commit({ type: 'delete', layer: 'handwriting', entityId: id, data: null, timestamp: Date.now() }, before);
   },
   
   // Task layer operations
-  addTask: (task) => {
-    const currentState = getCurrentState(get());
+  addTask: (proposed) => {
+    const task = vet(PLUGIN_HOOKS.TASK_CREATED, proposed);
+    if (!task) return;
     
-    set((state) => ({
-      tasks: [...state.tasks, task],
-      history: [...state.history.slice(0, state.historyIndex + 1), currentState],
-      historyIndex: state.historyIndex + 1
-    }));
+    const normalized = { ...task, ...normalizeTaskUpdates(get().tasks, task.id, task) };
+    set((state) => ({ tasks: [...state.tasks, normalized] }));
     
-    get().queueSync({ type: 'create', layer: 'tasks', entityId: task.id, data: task, timestamp: Date.now() });
+    commit({ type: 'create', layer: 'tasks', entityId: normalized.id, data: normalized, timestamp: Date.now() });
   },
   
-  updateTask: (id, updates) => {
-    const currentState = getCurrentState(get());
+  updateTask: (id, proposed) => {
+    const tasks = get().tasks;
+    const before = tasks.find((t) => t.id === id);
+    const updates = vet(PLUGIN_HOOKS.TASK_UPDATED, proposed, before);
+    if (!updates) return;
     
-    set((state) => ({
-      tasks: state.tasks.map((t) => t.id === id ? { ...t, ...updates } : t),
-      history: [...state.history.slice(0, state.historyIndex + 1), currentState],
-      historyIndex: state.historyIndex + 1
-    }));
+    const normalized = normalizeTaskUpdates(tasks, id, updates);
+    
+    // Completing a recurring task schedules its next instance, unless the series
+    // already has an open one (say, after reopening and re-completing this one).
+    // Replayed edits carry that instance as their own create.
+    const seriesId = before?.recurrence && TaskRecurrenceService.seriesId(before);
+    const next = seriesId && !replaying && !before?.completed && normalized.completed &&
+      !tasks.some((t) => t.id !== id && !t.completed && t.recurrence && TaskRecurrenceService.seriesId(t) === seriesId)
+      ? TaskRecurrenceService.nextInstance({ ...before!, ...normalized })
+      : null;
+    if (next) get().beginTransaction('Completed task');
+    
+    set((state) => ({ tasks: state.tasks.map((t) => t.id === id ? { ...t, ...normalized } : t) }));
+    
+    commit({ type: 'update', layer: 'tasks', entityId: id, data: normalized, timestamp: Date.now() }, before);
     
-    get().queueSync({ type: 'update', layer: 'tasks', entityId: id, data: updates, timestamp: Date.now() });
+    if (next) {
+      get().addTask(next);
+      get().endTransaction();
+    }
   },
   
   deleteTask: (id) => {
-    const currentState = getCurrentState(get());
+    const before = get().tasks.find((t) => t.id === id);
+    if (before && !vet(PLUGIN_HOOKS.TASK_DELETED, before, before)) return;
+    const dependents = get().tasks.filter((t) => t.blockedBy?.includes(id));
     
-    set((state) => ({
-      tasks: state.tasks.filter((t) => t.id !== id),
-      history: [...state.history.slice(0, state.historyIndex + 1), currentState],
-      historyIndex: state.historyIndex + 1
-    }));
+    // Tasks waiting on this one are released in the same undo step
+    get().beginTransaction('Deleted task');
+    dependents.forEach((t) => get().updateTask(t.id, { blockedBy: t.blockedBy!.filter((blocker) => blocker !== id) }));
+    
+    set((state) => ({ tasks: state.tasks.filter((t) => t.id !== id) }));
+    
+    commit({ type: 'delete', layer: 'tasks', entityId: id, data: null, timestamp: Date.now() }, before);
+    get().endTransaction();
+  },
+  
+  addSubtask: (taskId, content) => {
+    const task = get().tasks.find((t) => t.id === taskId);
+    if (!task || !content.trim()) return;
+    
+    const subtask: Subtask = { id: `subtask-${Date.now()}`, content: content.trim(), completed: false };
+    get().updateTask(taskId, { subtasks: [...(task.subtasks || []), subtask] });
+  },
+  
+  updateSubtask: (taskId, subtaskId, updates) => {
+    const task = get().tasks.find((t) => t.id === taskId);
+    if (!task?.subtasks) return;
+    
+    get().updateTask(taskId, { subtasks: task.subtasks.map((st) => st.id === subtaskId ? { ...st, ...updates } : st) });
+  },
+  
+  deleteSubtask: (taskId, subtaskId) => {
+    const task = get().tasks.find((t) => t.id === taskId);
+    if (!task?.subtasks) return;
+    
+    get().updateTask(taskId, { subtasks: task.subtasks.filter((st) => st.id !== subtaskId) });
+  },
+  
+  addTaskDependency: (taskId, blockedById) => {
+    const tasks = get().tasks;
+    const task = tasks.find((t) => t.id === taskId);
+    if (!task || !tasks.some((t) => t.id === blockedById)) return false;
+    if (task.blockedBy?.includes(blockedById)) return true;
+    
+    const blockedBy = [...(task.blockedBy || []), blockedById];
+    if (TaskDependencies.wouldCreateCycle(tasks, taskId, blockedBy)) return false;
+    
+    get().updateTask(taskId, { blockedBy });
+    return true;
+  },
+  
+  removeTaskDependency: (taskId, blockedById) => {
+    const task = get().tasks.find((t) => t.id === taskId);
+    if (!task?.blockedBy?.includes(blockedById)) return;
     
-    get().queueSync({ type: 'delete', layer: 'tasks', entityId: id, data: null, timestamp: Date.now() });
+    get().updateTask(taskId, { blockedBy: task.blockedBy.filter((blocker) => blocker !== blockedById) });
+  },
+  
+  skipTask: (id) => {
+    const task = get().tasks.find((t) => t.id === id);
+    const updates = task && !task.completed ? TaskRecurrenceService.skip(task) : null;
+    if (updates) get().updateTask(id, updates);
   },
   
   // Layer visibility controls
   toggleLayerVisibility: (layer) => {
-    const currentState = getCurrentState(get());
-    
     set((state) => ({
-      visibility: { ...state.visibility, [layer]: !state.visibility[layer] },
-      history: [...state.history.slice(0, state.historyIndex + 1), currentState],
-      historyIndex: state.historyIndex + 1
+      visibility: { ...state.visibility, [layer]: !state.visibility[layer] }
     }));
   },
   
@@ -241,6 +783,12 @@ export const useStore = create<AppState>((set, get) => ({
   setSelectedDate: (date) => set({ selectedDate: date }),
   setZoomLevel: (level) => set({ zoomLevel: Math.max(0.5, Math.min(3.0, level)) }),
   setViewMode: (mode) => set({ viewMode: mode }),
+  setDisplayTimeZone: (zone) => {
+    if (TimeZoneService.isValidZone(zone)) set({ displayTimeZone: zone });
+  },
+  setSecondaryTimeZone: (zone) => {
+    if (zone === null || TimeZoneService.isValidZone(zone)) set({ secondaryTimeZone: zone });
+  },
   
   // Customization controls
   setCover: (cover: string) => set({ cover }),
@@ -250,77 +798,169 @@ export const useStore = create<AppState>((set, get) => ({
   
   // History controls
   undo: () => {
-    set((state) => {
-      if (state.historyIndex >= 0) {
-        const prevState = state.history[state.historyIndex];
-        return {
-          ...prevState,
-          history: state.history,
-          historyIndex: state.historyIndex - 1
-        };
-      }
-      return state;
-    });
+    const { history, historyHead, historyRedo } = get();
+    const command = history.find((c) => c.id === historyHead);
+    if (!command) return;
+    
+    replay(command.inverse);
+    set({ historyHead: command.parentId, historyRedo: [command.id, ...historyRedo] });
   },
   
   redo: () => {
-    set((state) => {
-      if (state.historyIndex < state.history.length - 1) {
-        const nextState = state.history[state.historyIndex + 1];
-        return {
-          ...nextState,
-          history: state.history,
-          historyIndex: state.historyIndex + 1
-        };
-      }
-      return state;
+    const { history, historyRedo: [nextId, ...rest] } = get();
+    const command = history.find((c) => c.id === nextId);
+    if (!command) return;
+    
+    replay(command.forward);
+    set({ historyHead: command.id, historyRedo: rest });
+  },
+  
+  jumpToCommand: (id) => {
+    const { history, historyHead, historyRedo } = get();
+    if (id === historyHead || (id !== null && !history.some((c) => c.id === id))) return;
+    
+    // Undo back to the branch point, then redo down the target's branch
+    const target = CommandHistory.lineage(history, id);
+    const onTarget = new Set(target.map((c) => c.id));
+    const undone: string[] = [];
+    let head = historyHead;
+    for (const command of CommandHistory.lineage(history, historyHead)) {
+      if (onTarget.has(command.id)) break;
+      replay(command.inverse);
+      undone.unshift(command.id);
+      head = command.parentId;
+    }
+    const redone = target.slice(0, head === null ? target.length : target.findIndex((c) => c.id === head)).reverse();
+    redone.forEach((command) => replay(command.forward));
+    
+    // Jumping back along the branch keeps redo leading to where it was
+    set({ historyHead: id, historyRedo: redone.length === 0 ? [...undone, ...historyRedo] : [] });
+  },
+  
+  beginTransaction: (label) => {
+    if (transactionDepth === 0) {
+      transaction = CommandHistory.create(label);
+      transactionVetoed = false;
+    }
+    transactionDepth++;
+  },
+  
+  endTransaction: () => {
+    if (transactionDepth === 0) return;
+    transactionDepth--;
+    if (transactionDepth > 0 || !transaction) return;
+    
+    const command = transaction;
+    transaction = null;
+    if (transactionVetoed) {
+      // Edits are all or nothing: undo the steps that did go through
+      transactionVetoed = false;
+      replay(command.inverse);
+      return;
+    }
+    if (command.forward.length > 0) {
+      set((state) => CommandHistory.push(state.history, state.historyHead, command, HISTORY_LIMIT));
+    }
+  },
+  
+  restoreSnapshot: (snapshot, label = 'Restored version') => {
+    const state = get();
+    const timestamp = Date.now();
+    
+    // Diff each layer against the snapshot and replay the difference as one undoable edit
+    state.beginTransaction(label);
+    (['events', 'decorations', 'handwriting', 'tasks'] as const).forEach((layer) => {
+      const current = new Map<string, { id: string }>(state[layer].map((item) => [item.id, item]));
+      const target = new Map<string, { id: string }>(snapshot[layer].map((item) => [item.id, item]));
+      
+      current.forEach((_item, id) => {
+        if (!target.has(id)) dispatch({ type: 'delete', layer, entityId: id, data: null, timestamp });
+      });
+      target.forEach((item, id) => {
+        const existing = current.get(id);
+        if (!existing) {
+          dispatch({ type: 'create', layer, entityId: id, data: item, timestamp });
+        } else if (JSON.stringify(existing) !== JSON.stringify(item)) {
+          // Strokes have no update action, so a changed stroke is replaced
+          if (layer === 'handwriting') {
+            dispatch({ type: 'delete', layer, entityId: id, data: null, timestamp });
+            dispatch({ type: 'create', layer, entityId: id, data: item, timestamp });
+          } else {
+            dispatch({ type: 'update', layer, entityId: id, data: item, timestamp });
+          }
+        }
+      });
     });
+    state.endTransaction();
   },
   
   // Synchronization
   queueSync: (operation) => {
-    set((state) => ({ syncQueue: [...state.syncQueue, operation] }));
+    const stamped = layerCrdt.recordLocal(operation);
+    set((state) => ({ syncQueue: enqueue(state.syncQueue, stamped) }));
+    SyncQueueStorage.save(get().syncQueue);
   },
   
   processSyncQueue: async () => {
-    const queue = get().syncQueue;
-    if (queue.length === 0) return;
+    const { syncQueue, syncService, isSyncing } = get();
+    if (isSyncing || syncQueue.length === 0 || !syncService) return;
     
     // Send selective synchronization of only changed layers
+    const batch = syncQueue.slice(0, SYNC_BATCH_SIZE);
+    inFlight = batch.length;
+    set({ isSyncing: true });
+    
     try {
-      // This would connect to actual WebSocket/API endpoint
-      // await syncService.sendOperations(queue);
-      set({ syncQueue: [] });
+      await syncService.sendOperations(batch);
+      // Operations queued while the batch was out sit behind it
+      set((state) => ({
+        syncQueue: state.syncQueue.slice(batch.length),
+        isSyncing: false,
+        syncFailedCount: 0,
+        syncRetryAttempt: 0,
+        syncError: null
+      }));
     } catch (error) {
       console.error('Sync failed:', error);
+      set((state) => ({
+        isSyncing: false,
+        syncFailedCount: batch.length,
+        syncRetryAttempt: state.syncRetryAttempt + 1,
+        syncError: error instanceof Error ? error.message : 'Sync failed'
+      }));
+    } finally {
+      inFlight = 0;
     }
+    
+    SyncQueueStorage.save(get().syncQueue);
   },
   
   applyRemoteChanges: (operations) => {
+    // Merged straight into state so remote operations never re-enter the sync queue
     operations.forEach((op) => {
-      const state = get();
-      
-      switch (op.type) {
-        case 'create':
-          if (op.layer === 'events') state.addEvent(op.data);
-          if (op.layer === 'decorations') state.addDecoration(op.data);
-          if (op.layer === 'handwriting') state.addStroke(op.data);
-          if (op.layer === 'tasks') state.addTask(op.data);
-          break;
-          
-        case 'update':
-          if (op.layer === 'events') state.updateEvent(op.entityId, op.data);
-          if (op.layer === 'decorations') state.updateDecoration(op.entityId, op.data);
-          if (op.layer === 'tasks') state.updateTask(op.entityId, op.data);
-          break;
-          
-        case 'delete':
-          if (op.layer === 'events') state.deleteEvent(op.entityId);
-          if (op.layer === 'decorations') state.deleteDecoration(op.entityId);
-          if (op.layer === 'handwriting') state.deleteStroke(op.entityId);
-          if (op.layer === 'tasks') state.deleteTask(op.entityId);
-          break;
-      }
+      const outcome = layerCrdt.applyRemote(op);
+      set((state) => materialize(state, outcome));
+    });
+  },
+  
+  setSyncService: (service) => set({ syncService: service }),
+  
+  restoreSyncQueue: async () => {
+    const stored = await SyncQueueStorage.load();
+    if (stored.length === 0) return;
+    
+    // The layers themselves are not persisted, so the unsent edits are merged back
+    // in alongside their clocks; otherwise they would be sent but never shown here
+    stored.forEach((op) => {
+      const outcome = layerCrdt.applyRemote(op);
+      set((state) => materialize(state, outcome));
     });
+    set((state) => ({
+      syncQueue: [...state.syncQueue.slice(0, inFlight), ...stored, ...state.syncQueue.slice(inFlight)]
+    }));
+    SyncQueueStorage.save(get().syncQueue);
   },
+  
+  // Plugin policies
+  clearVeto: () => set({ lastVeto: null }),
 }));
\ No newline at end of file
@@ -3,10 +3,77 @@ export interface CalendarEvent {
   title: string;
   startTime: Date;
   endTime: Date;
+  timeZone?: string; // IANA zone the event was scheduled in; recurrences keep its wall-clock time
   description?: string;
   sourceCalendar: 'google' | 'apple' | 'outlook' | 'native';
   color?: string;
   timestamp: number;
+  recurrence?: RecurrenceRule;
+  allDay?: boolean; // When set, endTime is the exclusive midnight after the last day
+  location?: string;
+  attendees?: EventAttendee[];
+  alarms?: EventAlarm[];
+  dependencies?: EventDependency[]; // Events this one is scheduled against; never cyclic
+}
+
+// Finish-to-start, start-to-start, finish-to-finish and start-to-finish links
+export type DependencyType = 'FS' | 'SS' | 'FF' | 'SF';
+
+export interface EventDependency {
+  predecessorId: string;
+  type: DependencyType;
+  lagMinutes?: number; // Negative values allow overlap
+}
+
+// Planned bar positions saved for comparison with the live schedule
+export interface ProjectBaseline {
+  takenAt: number;
+  bars: Record<string, { startTime: Date; endTime: Date }>; // Keyed by event id
+}
+
+export interface EventAttendee {
+  email: string;
+  name?: string;
+  role?: 'CHAIR' | 'REQ-PARTICIPANT' | 'OPT-PARTICIPANT' | 'NON-PARTICIPANT';
+  status?: 'NEEDS-ACTION' | 'ACCEPTED' | 'DECLINED' | 'TENTATIVE' | 'DELEGATED';
+}
+
+export interface EventAlarm {
+  action: 'DISPLAY' | 'AUDIO' | 'EMAIL';
+  minutesBefore: number; // Relative to the event start
+  description?: string;
+}
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export type Weekday = 'SU' | 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA';
+
+// RFC 5545 BYDAY entry, optionally prefixed with an ordinal ('MO', '2TU', '-1FR')
+export type ByDay = Weekday | `${number}${Weekday}`;
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval?: number;
+  byDay?: ByDay[];
+  byMonthDay?: number[];
+  byMonth?: number[]; // 1-12
+  count?: number;
+  until?: Date;
+  exDates?: Date[]; // Original start times of excluded occurrences
+}
+
+export type RecurrenceEditScope = 'this' | 'following' | 'all';
+
+export interface EventOverride {
+  masterId: string;
+  recurrenceId: string; // ISO start time of the occurrence being overridden
+  changes: Partial<Omit<CalendarEvent, 'id' | 'recurrence'>>;
+}
+
+export interface EventOccurrence extends CalendarEvent {
+  masterId: string;
+  recurrenceId: string;
+  isOverride: boolean;
 }
 
 export interface Position {
@@ -50,12 +117,55 @@ export interface BezierCurve {
   endY: number;
 }
 
+export interface Subtask {
+  id: string;
+  content: string;
+  completed: boolean;
+}
+
+export interface Milestone {
+  id: string;
+  title: string;
+  completed: boolean;
+  dueDate?: Date;
+  eventId?: string; // Gantt bar whose finish marks the milestone
+}
+
+export interface Goal {
+  id: string;
+  title: string;
+  description: string;
+  targetDate: Date;
+  priority: 'low' | 'medium' | 'high';
+  progress: number; // 0-100
+  milestones: Milestone[];
+  category: string;
+}
+
+// Fixed schedules follow an RRULE from the series' first date; completion-based
+// ones fall due a set number of days after the last instance was done
+export interface TaskRecurrence {
+  mode: 'schedule' | 'afterCompletion';
+  rule?: RecurrenceRule; // 'schedule' only
+  anchor?: string; // 'schedule' only: first date of the series, yyyy-MM-dd
+  days?: number; // 'afterCompletion' only
+  seriesId?: string; // Shared by every instance; the first instance's id
+  skipped?: string[]; // Dates of instances skipped rather than done
+}
+
 export interface TaskItem {
   id: string;
   content: string;
   completed: boolean;
   date: string;
   priority: 'low' | 'medium' | 'high';
+  dueAt?: string; // ISO date-time the task is due; `date` stays the day it is planned for
+  estimateMinutes?: number;
+  subtasks?: Subtask[];
+  tags?: string[];
+  assignee?: string;
+  blockedBy?: string[]; // Ids of tasks that must be completed first; never cyclic
+  recurrence?: TaskRecurrence | null; // null once the series is stopped, so the removal syncs
 }
 
 export interface VisualTheme {
@@ -87,6 +197,7 @@ export interface CalendarSyncConfig {
   apiEndpoint: string;
   accessToken: string;
   refreshToken: string;
+  username?: string; // CalDAV providers authenticate with Basic auth, using accessToken as the password
   conflictResolution: 'source' | 'local' | 'timestamp';
 }
 
@@ -102,9 +213,24 @@ export interface SyncOperation {
   entityId: string;
   data: any;
   timestamp: number;
+  clock?: LamportTimestamp; // Stamped when the operation is queued locally
+}
+
+export interface HistoryCommand {
+  id: string;
+  label: string; // e.g. "Moved sticker"
+  forward: SyncOperation[];
+  inverse: SyncOperation[]; // Applied in order to undo the command
+  timestamp: number;
+  parentId: string | null; // Command applied just before this one; edits after an undo branch off
+}
+
+export interface LamportTimestamp {
+  counter: number;
+  replicaId: string; // Breaks ties between concurrent writes
 }
 
 // Add the missing types
 export type Sticker = DecorativeElement;
 
-export type ViewMode = 'monthly' | 'weekly' | 'daily';
\ No newline at end of file
+export type ViewMode = 'monthly' | 'weekly' | 'daily' | 'yearly' | 'agenda';
\ No newline at end of file